@@ -11,14 +11,21 @@ import { View, StyleSheet } from 'react-native'
 import { StatusBar } from 'expo-status-bar'
 import { SafeAreaProvider } from 'react-native-safe-area-context'
 import { NavigationIndependentTree } from '@react-navigation/native'
-import { QueryClientProvider } from '@tanstack/react-query'
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client'
 import 'react-native-reanimated'
 
-import { queryClient } from '../src/api/queryClient'
+import { queryClient, persistOptions } from '../src/api/queryClient'
 import { AuthProvider } from '../src/context/AuthContext'
 import RootNavigator from '../src/navigation'
 import { OfflineBanner } from '../src/components/common/OfflineBanner'
-import { initNetworkListener, registerOfflineHandlers, initializeStorage } from '../src/services/offline'
+import {
+	initNetworkListener,
+	registerOfflineHandlers,
+	initializeStorage,
+	checkNetworkStatus,
+	offlineQueue,
+	registerBackgroundSync,
+} from '../src/services/offline'
 
 // ============================================
 // INICJALIZACJA OFFLINE
@@ -41,7 +48,22 @@ async function initOfflineServices() {
 		// Nasłuchuj na zmiany sieci
 		initNetworkListener()
 		
+		// Synchronizacja w tle, gdy aplikacja jest zamknięta
+		registerBackgroundSync()
+		
+		// Po synchronizacji kolejki pobierz dane ponownie (zmiany offline są już na serwerze)
+		offlineQueue.addSyncListener(syncing => {
+			if (!syncing) {
+				queryClient.invalidateQueries()
+			}
+		})
+		
 		offlineInitialized = true
+		
+		// Wyślij operacje zaległe z poprzedniego uruchomienia
+		if (await checkNetworkStatus()) {
+			offlineQueue.syncAll()
+		}
 		console.log('[App] Serwisy offline zainicjalizowane ✅')
 	} catch (error) {
 		console.error('[App] Błąd inicjalizacji offline:', error)
@@ -58,7 +80,7 @@ export default function RootLayout() {
 	}, [])
 	
 	return (
-		<QueryClientProvider client={queryClient}>
+		<PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
 			<AuthProvider>
 				<SafeAreaProvider>
 					<View style={styles.container}>
@@ -70,7 +92,7 @@ export default function RootLayout() {
 					<StatusBar style="light" />
 				</SafeAreaProvider>
 			</AuthProvider>
-		</QueryClientProvider>
+		</PersistQueryClientProvider>
 	)
 }
 
@@ -0,0 +1,102 @@
+-- ============================================
+-- OGŁOSZENIA TRENERA (broadcasts)
+-- ============================================
+-- Trener wysyła jedną wiadomość do wszystkich lub wybranych klientów.
+-- Ogłoszenie jest rozsyłane jako osobne wiadomości w rozmowach z klientami
+-- (messages.broadcast_id wskazuje ogłoszenie), więc klient widzi je w czacie
+-- i może odpowiedzieć jak na zwykłą wiadomość.
+-- Wymaga: schema.sql, rls-policies.sql (get_current_profile_id)
+
+-- ============================================
+-- 1. TABELA broadcasts
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS broadcasts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Trener (autor)
+    trainer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Treść ogłoszenia
+    content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+    -- Liczba klientów, do których trafiło ogłoszenie
+    recipient_count INTEGER NOT NULL DEFAULT 0 CHECK (recipient_count >= 0),
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE broadcasts IS 'Ogłoszenia trenera rozsyłane do wielu klientów';
+
+ALTER TABLE messages
+-- Ogłoszenie, z którego powstała wiadomość
+ADD COLUMN IF NOT EXISTS broadcast_id UUID REFERENCES broadcasts(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN messages.broadcast_id IS 'Ogłoszenie trenera - null dla zwykłej wiadomości';
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_broadcasts_trainer_id ON broadcasts(trainer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_broadcast_id ON messages(broadcast_id)
+WHERE broadcast_id IS NOT NULL;
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+
+ALTER TABLE broadcasts ENABLE ROW LEVEL SECURITY;
+
+-- Trener zarządza swoimi ogłoszeniami
+CREATE POLICY "Trenerzy zarządzają swoimi ogłoszeniami"
+ON broadcasts FOR ALL
+USING (trainer_id = get_current_profile_id())
+WITH CHECK (trainer_id = get_current_profile_id());
+
+-- ============================================
+-- 3. FUNKCJA: send_broadcast
+-- ============================================
+-- Zapisuje ogłoszenie i rozsyła je do klientów w jednej transakcji.
+-- Każdy odbiorca musi być klientem zalogowanego trenera.
+-- Działa z uprawnieniami wywołującego (SECURITY INVOKER), więc obowiązują polityki RLS.
+-- Zwraca zapisany wiersz broadcasts.
+
+CREATE OR REPLACE FUNCTION send_broadcast(p_content TEXT, p_client_ids UUID[])
+RETURNS broadcasts AS $$
+DECLARE
+    v_trainer_id UUID := get_current_profile_id();
+    v_broadcast broadcasts%ROWTYPE;
+    v_client_ids UUID[];
+BEGIN
+    IF v_trainer_id IS NULL THEN
+        RAISE EXCEPTION 'Brak profilu zalogowanego użytkownika';
+    END IF;
+
+    SELECT array_agg(DISTINCT id) INTO v_client_ids
+    FROM unnest(p_client_ids) AS id;
+
+    IF v_client_ids IS NULL THEN
+        RAISE EXCEPTION 'Wybierz co najmniej jednego klienta';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_client_ids) AS client_id
+        WHERE NOT EXISTS (
+            SELECT 1 FROM profiles
+            WHERE id = client_id
+              AND trainer_id = v_trainer_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Ogłoszenie można wysłać tylko do swoich klientów';
+    END IF;
+
+    INSERT INTO broadcasts (trainer_id, content, recipient_count)
+    VALUES (v_trainer_id, trim(p_content), array_length(v_client_ids, 1))
+    RETURNING * INTO v_broadcast;
+
+    INSERT INTO messages (sender_id, receiver_id, content, broadcast_id)
+    SELECT v_trainer_id, client_id, v_broadcast.content, v_broadcast.id
+    FROM unnest(v_client_ids) AS client_id;
+
+    RETURN v_broadcast;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION send_broadcast(TEXT, UUID[]) IS 'Atomowe rozesłanie ogłoszenia trenera jako wiadomości do klientów';
+
+GRANT EXECUTE ON FUNCTION send_broadcast(TEXT, UUID[]) TO authenticated;
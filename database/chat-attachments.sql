@@ -0,0 +1,41 @@
+-- ============================================
+-- ZAŁĄCZNIKI W WIADOMOŚCIACH (zdjęcia, video, pliki)
+-- ============================================
+-- Wiadomość może mieć jeden załącznik trzymany w prywatnym bucket
+-- "chat-attachments". W kolumnach zapisujemy ścieżki w bucket, a do podglądu
+-- aplikacja generuje podpisane URL.
+-- Wymaga: schema.sql
+-- Polityki bucket chat-attachments: storage-setup.sql (sekcja 4)
+
+ALTER TABLE messages
+-- Typ załącznika: image, video lub file
+ADD COLUMN IF NOT EXISTS attachment_type TEXT CHECK (attachment_type IN ('image', 'video', 'file')),
+-- Ścieżka pliku w bucket chat-attachments
+ADD COLUMN IF NOT EXISTS attachment_path TEXT,
+-- Ścieżka miniaturki (tylko video)
+ADD COLUMN IF NOT EXISTS attachment_thumbnail_path TEXT,
+-- Rozmiar pliku w bajtach
+ADD COLUMN IF NOT EXISTS attachment_size BIGINT CHECK (attachment_size >= 0),
+-- Oryginalna nazwa pliku (wyświetlana przy typie file)
+ADD COLUMN IF NOT EXISTS attachment_name TEXT;
+
+-- Załącznik musi mieć typ i ścieżkę albo nie ma go wcale
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS valid_message_attachment;
+ALTER TABLE messages
+ADD CONSTRAINT valid_message_attachment CHECK (
+    (attachment_type IS NULL AND attachment_path IS NULL)
+    OR (attachment_type IS NOT NULL AND attachment_path IS NOT NULL)
+);
+
+-- Wiadomość z załącznikiem może nie mieć tekstu
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS message_not_empty;
+ALTER TABLE messages
+ADD CONSTRAINT message_not_empty CHECK (
+    length(trim(content)) > 0 OR attachment_path IS NOT NULL
+);
+
+COMMENT ON COLUMN messages.attachment_type IS 'Typ załącznika: image, video lub file - null gdy wiadomość tekstowa';
+COMMENT ON COLUMN messages.attachment_path IS 'Ścieżka w bucket chat-attachments: {sender_id}/{receiver_id}/{plik}';
+COMMENT ON COLUMN messages.attachment_thumbnail_path IS 'Miniaturka video w bucket chat-attachments';
+COMMENT ON COLUMN messages.attachment_size IS 'Rozmiar załącznika w bajtach';
+COMMENT ON COLUMN messages.attachment_name IS 'Oryginalna nazwa pliku';
@@ -0,0 +1,80 @@
+-- ============================================
+-- TABELA WYKONANYCH SERII (completed_sets)
+-- ============================================
+-- Każda seria ćwiczenia zapisywana osobno (piramidy, drop sety)
+-- Wymaga: schema.sql, rls-policies.sql (completed_exercises)
+
+CREATE TABLE IF NOT EXISTS completed_sets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Powiązanie z wykonanym ćwiczeniem
+    completed_exercise_id UUID NOT NULL REFERENCES completed_exercises(id) ON DELETE CASCADE,
+    -- Numer serii (od 1)
+    set_number INTEGER NOT NULL CHECK (set_number > 0),
+    -- Faktyczne powtórzenia
+    reps INTEGER CHECK (reps >= 0),
+    -- Faktyczne obciążenie
+    weight_kg NUMERIC(6,2) CHECK (weight_kg >= 0),
+    -- Subiektywna intensywność (Rate of Perceived Exertion)
+    rpe NUMERIC(3,1) CHECK (rpe >= 1 AND rpe <= 10),
+    -- Faktyczny odpoczynek po serii (sekundy)
+    rest_seconds INTEGER CHECK (rest_seconds >= 0),
+    -- Kiedy seria została wykonana
+    completed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Jedna seria o danym numerze na ćwiczenie
+    UNIQUE (completed_exercise_id, set_number)
+);
+
+COMMENT ON TABLE completed_sets IS 'Pojedyncze serie wykonanych ćwiczeń';
+COMMENT ON COLUMN completed_sets.rpe IS 'RPE 1-10 (co 0.5)';
+COMMENT ON COLUMN completed_sets.rest_seconds IS 'Faktyczny czas odpoczynku po serii (z timera)';
+
+-- Dla istniejących instalacji (tabela utworzona bez kolumny rest_seconds)
+ALTER TABLE completed_sets
+ADD COLUMN IF NOT EXISTS rest_seconds INTEGER CHECK (rest_seconds >= 0);
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_completed_sets_exercise ON completed_sets(completed_exercise_id);
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+ALTER TABLE completed_sets ENABLE ROW LEVEL SECURITY;
+
+-- Użytkownicy widzą swoje serie
+CREATE POLICY "Użytkownicy widzą swoje serie"
+ON completed_sets FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM completed_exercises ce
+        JOIN completed_workouts cw ON cw.id = ce.completed_workout_id
+        WHERE ce.id = completed_sets.completed_exercise_id
+        AND cw.user_id = auth.uid()
+    )
+);
+
+-- Trenerzy widzą serie klientów
+CREATE POLICY "Trenerzy widzą serie klientów"
+ON completed_sets FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM completed_exercises ce
+        JOIN completed_workouts cw ON cw.id = ce.completed_workout_id
+        WHERE ce.id = completed_sets.completed_exercise_id
+        AND is_trainer_of(cw.user_id)
+    )
+);
+
+-- Użytkownicy mogą zarządzać swoimi seriami
+CREATE POLICY "Użytkownicy zarządzają swoimi seriami"
+ON completed_sets FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM completed_exercises ce
+        JOIN completed_workouts cw ON cw.id = ce.completed_workout_id
+        WHERE ce.id = completed_sets.completed_exercise_id
+        AND cw.user_id = auth.uid()
+    )
+);
@@ -0,0 +1,31 @@
+-- ============================================
+-- GRUPY ĆWICZEŃ (superserie i obwody)
+-- ============================================
+-- Kolejne ćwiczenia dnia z tym samym group_id tworzą grupę wykonywaną
+-- naprzemiennie (A1 → A2 → A1 → A2...). Odpoczynek dopiero po całej rundzie.
+-- Wymaga: schema.sql
+-- Po uruchomieniu ponownie uruchom save-plan.sql (zapis kolumn grup)
+
+ALTER TABLE workout_exercises
+-- Identyfikator grupy w obrębie dnia (litera: A, B, ...)
+ADD COLUMN IF NOT EXISTS group_id TEXT,
+-- Typ grupy: superset (superseria) lub circuit (obwód)
+ADD COLUMN IF NOT EXISTS group_type TEXT CHECK (group_type IN ('superset', 'circuit')),
+-- Liczba rund grupy
+ADD COLUMN IF NOT EXISTS group_rounds INTEGER CHECK (group_rounds > 0 AND group_rounds <= 20);
+
+-- Grupa musi mieć komplet danych albo żadnych
+ALTER TABLE workout_exercises DROP CONSTRAINT IF EXISTS valid_exercise_group;
+ALTER TABLE workout_exercises
+ADD CONSTRAINT valid_exercise_group CHECK (
+    (group_id IS NULL AND group_type IS NULL AND group_rounds IS NULL)
+    OR (group_id IS NOT NULL AND group_type IS NOT NULL AND group_rounds IS NOT NULL)
+);
+
+COMMENT ON COLUMN workout_exercises.group_id IS 'Grupa ćwiczeń w dniu (superseria/obwód) - null gdy ćwiczenie samodzielne';
+COMMENT ON COLUMN workout_exercises.group_type IS 'superset lub circuit';
+COMMENT ON COLUMN workout_exercises.group_rounds IS 'Liczba rund grupy - każde ćwiczenie grupy ma tyle serii';
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_workout_exercises_group ON workout_exercises(workout_day_id, group_id)
+WHERE group_id IS NOT NULL;
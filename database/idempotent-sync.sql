@@ -0,0 +1,46 @@
+-- ============================================
+-- IDEMPOTENTNA SYNCHRONIZACJA OFFLINE
+-- ============================================
+-- Operacje z kolejki offline mogą zostać wysłane ponownie (aplikacja
+-- zamknięta po zapisie, zanim operacja zniknęła z kolejki).
+-- Aplikacja nadaje ID (UUID) treningom, pomiarom i ćwiczeniom, a zapis
+-- to upsert - ponowienie aktualizuje ten sam wiersz zamiast tworzyć nowy.
+-- Wiersze zależne mają naturalny klucz unikalny:
+-- - completed_exercises (completed_workout_id, workout_exercise_id) - schema.sql
+-- - completed_sets (completed_exercise_id, set_number) - completed-sets.sql
+-- - progress_photos (measurement_id, photo_type) - poniżej
+-- Wymaga: schema.sql, rls-policies.sql, storage-setup.sql
+
+-- ============================================
+-- 1. PROGRESS_PHOTOS - jedno zdjęcie danego typu na pomiar
+-- ============================================
+
+-- Usuń ewentualne duplikaty (zostaje najnowsze zdjęcie)
+DELETE FROM progress_photos p
+USING progress_photos newer
+WHERE p.measurement_id = newer.measurement_id
+AND p.photo_type = newer.photo_type
+AND (p.created_at, p.id) < (newer.created_at, newer.id);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'progress_photos_measurement_type_key'
+    ) THEN
+        ALTER TABLE progress_photos
+        ADD CONSTRAINT progress_photos_measurement_type_key UNIQUE (measurement_id, photo_type);
+    END IF;
+END $$;
+
+-- ============================================
+-- 2. STORAGE - nadpisywanie zdjęć postępu
+-- ============================================
+-- Ponowiony upload trafia pod tę samą ścieżkę (upsert: true)
+
+DROP POLICY IF EXISTS "Użytkownicy nadpisują swoje zdjęcia postępu" ON storage.objects;
+CREATE POLICY "Użytkownicy nadpisują swoje zdjęcia postępu"
+ON storage.objects FOR UPDATE
+USING (
+    bucket_id = 'progress-photos'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+);
@@ -0,0 +1,62 @@
+-- ============================================
+-- CENTRUM POWIADOMIEŃ (notifications)
+-- ============================================
+-- Skrzynka powiadomień w aplikacji. Każde powiadomienie wysłane przez
+-- notifyUser trafia do tabeli notifications (także gdy push jest wyłączony
+-- w preferencjach), a ekran Powiadomienia czyta ją z badge nieprzeczytanych.
+-- Wymaga: schema.sql, rls-policies.sql
+
+-- ============================================
+-- 1. TYPY POWIADOMIEŃ
+-- ============================================
+-- Typy z aplikacji (NotificationTypes) + dotychczasowe wartości
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications
+ADD CONSTRAINT notifications_type_check CHECK (type IN (
+    'new_message',
+    'broadcast',
+    'workout_reminder',
+    'workout_completed',
+    'workout_comment',
+    'new_plan',
+    'plan_updated',
+    'new_client',
+    'measurement_reminder',
+    'progress_update',
+    'trainer_feedback',
+    'general'
+));
+
+ALTER TABLE notifications
+-- Data przeczytania
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN notifications.type IS 'Typ z NotificationTypes w aplikacji, general dla powiadomień bez typu';
+COMMENT ON COLUMN notifications.data IS 'Dane do nawigacji, np. senderId, planId, workoutDayId, clientId';
+
+-- Indeks pod skrzynkę (od najnowszych) i licznik nieprzeczytanych
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id)
+WHERE is_read = false;
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+
+-- Użytkownicy usuwają swoje powiadomienia
+CREATE POLICY "Użytkownicy usuwają swoje powiadomienia"
+ON notifications FOR DELETE
+USING (user_id = auth.uid());
+
+-- ============================================
+-- 3. REALTIME
+-- ============================================
+-- Badge nieprzeczytanych odświeża się po INSERT bez odpytywania serwera
+
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
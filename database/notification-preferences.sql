@@ -0,0 +1,113 @@
+-- ============================================
+-- PREFERENCJE POWIADOMIEŃ (notification_preferences)
+-- ============================================
+-- Jeden wiersz na użytkownika: główny przełącznik push, przełączniki
+-- kategorii (grupy NotificationTypes w aplikacji) i cisza nocna
+-- w strefie czasowej użytkownika.
+-- Brak wiersza = wszystkie powiadomienia włączone, bez ciszy nocnej.
+-- Wymaga: schema.sql (update_updated_at_column)
+
+-- ============================================
+-- 1. TABELA notification_preferences
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    -- Użytkownik (auth uid - jak w notification_tokens)
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Główny przełącznik powiadomień push
+    push_enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Podsumowania email
+    email_enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Przełączniki kategorii, np. {"messages": true, "workouts": false}
+    -- Brak klucza = kategoria włączona
+    categories JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- Cisza nocna
+    quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+    quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+    quiet_hours_end TIME NOT NULL DEFAULT '07:00',
+    -- Strefa czasowa IANA, np. Europe/Warsaw
+    timezone TEXT NOT NULL DEFAULT 'Europe/Warsaw',
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT valid_categories CHECK (jsonb_typeof(categories) = 'object')
+);
+
+COMMENT ON TABLE notification_preferences IS 'Preferencje powiadomień użytkownika';
+COMMENT ON COLUMN notification_preferences.categories IS 'Kategorie: messages, workouts, reminders, plans, clients - false wyłącza push';
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'Początek ciszy nocnej (czas lokalny w strefie timezone)';
+COMMENT ON COLUMN notification_preferences.quiet_hours_end IS 'Koniec ciszy nocnej - może być po północy';
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+    BEFORE UPDATE ON notification_preferences
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+-- Użytkownicy zarządzają swoimi preferencjami
+CREATE POLICY "Użytkownicy zarządzają preferencjami powiadomień"
+ON notification_preferences FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- ============================================
+-- 3. FUNKCJA: should_send_push
+-- ============================================
+-- Czy wysłać push do użytkownika w danej kategorii teraz.
+-- Nadawca nie widzi cudzych preferencji (RLS), dlatego funkcja działa
+-- z uprawnieniami właściciela (SECURITY DEFINER) i zwraca tylko decyzję.
+-- Dostępna tylko dla triggera kolejki push (brak EXECUTE dla authenticated).
+-- p_category NULL = powiadomienie bez kategorii (sprawdzany tylko główny przełącznik i cisza nocna).
+
+CREATE OR REPLACE FUNCTION should_send_push(p_user_id UUID, p_category TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_prefs notification_preferences%ROWTYPE;
+    v_timezone TEXT;
+    v_local_time TIME;
+BEGIN
+    SELECT * INTO v_prefs FROM notification_preferences WHERE user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RETURN true;
+    END IF;
+
+    IF NOT v_prefs.push_enabled THEN
+        RETURN false;
+    END IF;
+
+    IF p_category IS NOT NULL AND (v_prefs.categories->>p_category)::BOOLEAN IS FALSE THEN
+        RETURN false;
+    END IF;
+
+    IF NOT v_prefs.quiet_hours_enabled OR v_prefs.quiet_hours_start = v_prefs.quiet_hours_end THEN
+        RETURN true;
+    END IF;
+
+    -- Nieznana strefa czasowa nie może blokować wysyłki
+    v_timezone := CASE
+        WHEN EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_prefs.timezone) THEN v_prefs.timezone
+        ELSE 'UTC'
+    END;
+    v_local_time := (NOW() AT TIME ZONE v_timezone)::TIME;
+
+    -- Cisza w obrębie doby (np. 13:00-15:00) albo przez północ (np. 22:00-07:00)
+    IF v_prefs.quiet_hours_start < v_prefs.quiet_hours_end THEN
+        RETURN NOT (v_local_time >= v_prefs.quiet_hours_start AND v_local_time < v_prefs.quiet_hours_end);
+    END IF;
+
+    RETURN NOT (v_local_time >= v_prefs.quiet_hours_start OR v_local_time < v_prefs.quiet_hours_end);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION should_send_push(UUID, TEXT) IS 'Decyzja o wysyłce push wg preferencji i ciszy nocnej odbiorcy';
+
+-- Wywołuje ją tylko trigger kolejki push (push-outbox.sql) - użytkownicy nie
+-- mogą sprawdzać cudzych preferencji i ciszy nocnej
+REVOKE EXECUTE ON FUNCTION should_send_push(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,30 @@
+-- ============================================
+-- SZABLONY Z ISTNIEJĄCYCH PLANÓW
+-- ============================================
+-- Trener zapisuje tygodniowy plan klienta jako szablon (1 tydzień)
+-- i przypisuje go wielu klientom naraz.
+-- Wymaga: program-templates.sql, exercise-groups.sql (grupy ćwiczeń przenoszone do szablonu)
+
+-- Plan, z którego powstał szablon (informacyjnie - plan może zostać usunięty)
+ALTER TABLE program_templates
+ADD COLUMN IF NOT EXISTS source_plan_id UUID REFERENCES training_plans(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN program_templates.source_plan_id IS 'Plan treningowy, z którego zapisano szablon (NULL = zbudowany od zera)';
+
+-- Grupy ćwiczeń (superserie/obwody) kopiowane z planu i z powrotem do planów klientów
+-- Te same zasady co w workout_exercises (exercise-groups.sql)
+ALTER TABLE program_template_exercises
+ADD COLUMN IF NOT EXISTS group_id TEXT,
+ADD COLUMN IF NOT EXISTS group_type TEXT CHECK (group_type IN ('superset', 'circuit')),
+ADD COLUMN IF NOT EXISTS group_rounds INTEGER CHECK (group_rounds > 0 AND group_rounds <= 20);
+
+ALTER TABLE program_template_exercises DROP CONSTRAINT IF EXISTS valid_template_exercise_group;
+ALTER TABLE program_template_exercises
+ADD CONSTRAINT valid_template_exercise_group CHECK (
+    (group_id IS NULL AND group_type IS NULL AND group_rounds IS NULL)
+    OR (group_id IS NOT NULL AND group_type IS NOT NULL AND group_rounds IS NOT NULL)
+);
+
+COMMENT ON COLUMN program_template_exercises.group_id IS 'Grupa ćwiczeń w dniu szablonu (superseria/obwód) - null gdy ćwiczenie samodzielne';
+COMMENT ON COLUMN program_template_exercises.group_type IS 'superset lub circuit';
+COMMENT ON COLUMN program_template_exercises.group_rounds IS 'Liczba rund grupy';
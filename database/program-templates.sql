@@ -0,0 +1,148 @@
+-- ============================================
+-- SZABLONY PROGRAMÓW TRENINGOWYCH (mezocykle)
+-- ============================================
+-- Trener tworzy wielotygodniowy program (N tygodni × dni × ćwiczenia)
+-- z parametrami (serie/powtórzenia/ciężar) ustawianymi osobno dla każdego tygodnia.
+-- Przypisanie do klienta tworzy zwykłe tygodniowe training_plans.
+-- Wymaga: schema.sql, rls-policies.sql (get_current_profile_id)
+
+-- 1. Szablon programu
+CREATE TABLE IF NOT EXISTS program_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Trener, właściciel szablonu
+    trainer_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Nazwa programu np. "Siła 8 tygodni"
+    name TEXT NOT NULL,
+    -- Opis / cel programu
+    description TEXT,
+    -- Długość programu w tygodniach
+    weeks_count INTEGER NOT NULL DEFAULT 1 CHECK (weeks_count BETWEEN 1 AND 52),
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE program_templates IS 'Wielotygodniowe szablony programów treningowych trenera';
+COMMENT ON COLUMN program_templates.weeks_count IS 'Liczba tygodni programu (1-52)';
+
+-- 2. Dni szablonu (takie same w każdym tygodniu)
+CREATE TABLE IF NOT EXISTS program_template_days (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Szablon
+    template_id UUID NOT NULL REFERENCES program_templates(id) ON DELETE CASCADE,
+    -- Dzień tygodnia (0 = poniedziałek, 6 = niedziela)
+    day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    -- Nazwa dnia np. "Dzień A - Góra"
+    name TEXT,
+    -- Czy to dzień odpoczynku
+    is_rest_day BOOLEAN NOT NULL DEFAULT FALSE,
+    -- Kolejność wyświetlania
+    order_index INTEGER NOT NULL DEFAULT 0,
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Jeden wpis na dzień tygodnia
+    UNIQUE (template_id, day_of_week)
+);
+
+COMMENT ON TABLE program_template_days IS 'Dni treningowe szablonu programu';
+
+-- 3. Ćwiczenia w dniu szablonu
+CREATE TABLE IF NOT EXISTS program_template_exercises (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Dzień szablonu
+    template_day_id UUID NOT NULL REFERENCES program_template_days(id) ON DELETE CASCADE,
+    -- Ćwiczenie z biblioteki
+    exercise_id UUID NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+    -- Kolejność w dniu
+    order_index INTEGER NOT NULL DEFAULT 0,
+    -- Odpoczynek między seriami (sekundy)
+    rest_seconds INTEGER NOT NULL DEFAULT 60 CHECK (rest_seconds >= 0),
+    -- Notatki trenera
+    notes TEXT,
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE program_template_exercises IS 'Ćwiczenia w dniach szablonu programu';
+
+-- 4. Parametry ćwiczenia w kolejnych tygodniach
+CREATE TABLE IF NOT EXISTS program_template_exercise_weeks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Ćwiczenie szablonu
+    template_exercise_id UUID NOT NULL REFERENCES program_template_exercises(id) ON DELETE CASCADE,
+    -- Numer tygodnia (od 1)
+    week_number INTEGER NOT NULL CHECK (week_number BETWEEN 1 AND 52),
+    -- Liczba serii
+    sets INTEGER NOT NULL CHECK (sets > 0),
+    -- Powtórzenia (może być zakres np. "8-10")
+    reps TEXT NOT NULL,
+    -- Obciążenie
+    weight_kg NUMERIC(6,2) CHECK (weight_kg >= 0),
+    -- Jeden wpis na tydzień
+    UNIQUE (template_exercise_id, week_number)
+);
+
+COMMENT ON TABLE program_template_exercise_weeks IS 'Serie/powtórzenia/ciężar ćwiczenia szablonu w danym tygodniu';
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_program_templates_trainer ON program_templates(trainer_id);
+CREATE INDEX IF NOT EXISTS idx_program_template_days_template ON program_template_days(template_id);
+CREATE INDEX IF NOT EXISTS idx_program_template_exercises_day ON program_template_exercises(template_day_id);
+CREATE INDEX IF NOT EXISTS idx_program_template_exercise_weeks_exercise ON program_template_exercise_weeks(template_exercise_id);
+
+-- Trigger: auto-update updated_at
+CREATE TRIGGER update_program_templates_updated_at
+    BEFORE UPDATE ON program_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+ALTER TABLE program_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_template_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_template_exercises ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_template_exercise_weeks ENABLE ROW LEVEL SECURITY;
+
+-- Trenerzy zarządzają swoimi szablonami
+CREATE POLICY "Trenerzy zarządzają szablonami"
+ON program_templates FOR ALL
+USING (trainer_id = get_current_profile_id())
+WITH CHECK (trainer_id = get_current_profile_id());
+
+-- Trenerzy zarządzają dniami swoich szablonów
+CREATE POLICY "Trenerzy zarządzają dniami szablonów"
+ON program_template_days FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM program_templates pt
+        WHERE pt.id = program_template_days.template_id
+        AND pt.trainer_id = get_current_profile_id()
+    )
+);
+
+-- Trenerzy zarządzają ćwiczeniami swoich szablonów
+CREATE POLICY "Trenerzy zarządzają ćwiczeniami szablonów"
+ON program_template_exercises FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM program_template_days ptd
+        JOIN program_templates pt ON pt.id = ptd.template_id
+        WHERE ptd.id = program_template_exercises.template_day_id
+        AND pt.trainer_id = get_current_profile_id()
+    )
+);
+
+-- Trenerzy zarządzają parametrami tygodni
+CREATE POLICY "Trenerzy zarządzają tygodniami szablonów"
+ON program_template_exercise_weeks FOR ALL
+USING (
+    EXISTS (
+        SELECT 1 FROM program_template_exercises pte
+        JOIN program_template_days ptd ON ptd.id = pte.template_day_id
+        JOIN program_templates pt ON pt.id = ptd.template_id
+        WHERE pte.id = program_template_exercise_weeks.template_exercise_id
+        AND pt.trainer_id = get_current_profile_id()
+    )
+);
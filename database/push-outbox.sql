@@ -0,0 +1,290 @@
+-- ============================================
+-- KOLEJKA WYSYŁKI PUSH (push_outbox)
+-- ============================================
+-- Aplikacja tylko zapisuje powiadomienie (RPC create_notification, sekcja 6).
+-- Trigger sprawdza preferencje odbiorcy (should_send_push) i dla każdego
+-- aktywnego tokenu dodaje wiadomość do push_outbox. Wysyłką do Expo Push API,
+-- ponowieniami i potwierdzeniami (receipts) zajmuje się worker
+-- scripts/push-worker.js działający z kluczem service_role.
+-- Tokeny innych użytkowników nie są już czytane z urządzenia.
+-- Wymaga: notification-center.sql, notification-preferences.sql, chat-attachments.sql, broadcasts.sql
+
+-- ============================================
+-- 1. TABELA push_outbox
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS push_outbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Źródłowe powiadomienie
+    notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+    -- Token, na który idzie wiadomość
+    token_id UUID NOT NULL REFERENCES notification_tokens(id) ON DELETE CASCADE,
+    expo_push_token TEXT NOT NULL,
+    -- Treść (kopia z notifications)
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- pending → sending → sent → delivered, albo failed
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'sending', 'sent', 'delivered', 'failed')),
+    -- Ponowienia
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Kiedy worker pobrał wiadomość (wykrywanie przerwanej wysyłki)
+    locked_at TIMESTAMPTZ,
+    -- Ticket Expo - do sprawdzenia potwierdzenia doręczenia
+    ticket_id TEXT,
+    last_error TEXT,
+    -- Timestamps
+    sent_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- Jedna wiadomość na powiadomienie i urządzenie
+    UNIQUE (notification_id, token_id)
+);
+
+COMMENT ON TABLE push_outbox IS 'Kolejka wiadomości push do wysłania przez worker';
+COMMENT ON COLUMN push_outbox.status IS 'pending, sending (pobrana przez worker), sent (ticket ok), delivered (receipt ok), failed';
+COMMENT ON COLUMN push_outbox.ticket_id IS 'ID ticketu Expo - receipt sprawdzany po kilkunastu minutach';
+
+-- Worker pobiera wiadomości gotowe do wysyłki i sprawdza potwierdzenia
+CREATE INDEX IF NOT EXISTS idx_push_outbox_pending ON push_outbox(next_attempt_at)
+WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_push_outbox_receipts ON push_outbox(sent_at)
+WHERE status = 'sent';
+
+DROP TRIGGER IF EXISTS update_push_outbox_updated_at ON push_outbox;
+CREATE TRIGGER update_push_outbox_updated_at
+    BEFORE UPDATE ON push_outbox
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+-- Brak polityk - kolejka jest dostępna tylko dla service_role (worker)
+
+ALTER TABLE push_outbox ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. FUNKCJA: notification_push_category
+-- ============================================
+-- Kategoria preferencji dla typu powiadomienia.
+-- Odpowiednik NotificationCategories w src/services/notifications.ts.
+
+CREATE OR REPLACE FUNCTION notification_push_category(p_type TEXT)
+RETURNS TEXT AS $$
+    SELECT CASE p_type
+        WHEN 'new_message' THEN 'messages'
+        WHEN 'broadcast' THEN 'messages'
+        WHEN 'workout_reminder' THEN 'reminders'
+        WHEN 'measurement_reminder' THEN 'reminders'
+        WHEN 'workout_completed' THEN 'workouts'
+        WHEN 'workout_comment' THEN 'workouts'
+        WHEN 'new_plan' THEN 'plans'
+        WHEN 'plan_updated' THEN 'plans'
+        WHEN 'new_client' THEN 'clients'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 4. TRIGGER: powiadomienie → kolejka push
+-- ============================================
+-- SECURITY DEFINER - nadawca nie widzi tokenów ani preferencji odbiorcy.
+-- Push wyłączony w preferencjach lub w ciszy nocnej nie trafia do kolejki
+-- (powiadomienie zostaje w centrum powiadomień).
+
+CREATE OR REPLACE FUNCTION enqueue_notification_push()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT should_send_push(NEW.user_id, notification_push_category(NEW.type)) THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO push_outbox (notification_id, token_id, expo_push_token, title, body, data)
+    SELECT
+        NEW.id,
+        t.id,
+        t.expo_push_token,
+        NEW.title,
+        NEW.body,
+        COALESCE(NEW.data, '{}'::jsonb) || jsonb_build_object('type', NEW.type, 'notificationId', NEW.id)
+    FROM notification_tokens t
+    WHERE t.user_id = NEW.user_id
+    AND t.is_active = true
+    ON CONFLICT (notification_id, token_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_notification_enqueue_push ON notifications;
+CREATE TRIGGER on_notification_enqueue_push
+    AFTER INSERT ON notifications
+    FOR EACH ROW
+    EXECUTE FUNCTION enqueue_notification_push();
+
+-- ============================================
+-- 5. FUNKCJA: claim_push_outbox
+-- ============================================
+-- Pobiera paczkę wiadomości do wysyłki i oznacza je jako 'sending'.
+-- SKIP LOCKED pozwala uruchomić kilka workerów równolegle.
+-- Wiadomość 'sending' starsza niż 5 minut (worker przerwany) wraca do wysyłki.
+
+CREATE OR REPLACE FUNCTION claim_push_outbox(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF push_outbox AS $$
+    UPDATE push_outbox
+    SET status = 'sending',
+        attempts = attempts + 1,
+        locked_at = NOW()
+    WHERE id IN (
+        SELECT id FROM push_outbox
+        WHERE (status = 'pending' AND next_attempt_at <= NOW())
+        OR (status = 'sending' AND locked_at < NOW() - INTERVAL '5 minutes')
+        ORDER BY next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION claim_push_outbox(INTEGER) IS 'Pobiera wiadomości push do wysyłki (dla workera)';
+
+REVOKE EXECUTE ON FUNCTION claim_push_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_push_outbox(INTEGER) TO service_role;
+
+-- ============================================
+-- 6. FUNKCJA: create_notification
+-- ============================================
+-- Jedyna droga zapisu powiadomienia z aplikacji - każde powiadomienie
+-- kończy się wysyłką push, więc odbiorca musi być powiązany z nadawcą:
+-- sam nadawca, jego trener albo jego klient (profiles.trainer_id).
+-- SECURITY DEFINER - tabela notifications nie ma polityki INSERT.
+-- Zwraca ID zapisanego powiadomienia.
+
+DROP POLICY IF EXISTS "System tworzy powiadomienia" ON notifications;
+
+CREATE OR REPLACE FUNCTION create_notification(
+    p_user_id UUID,
+    p_type TEXT,
+    p_title TEXT,
+    p_body TEXT,
+    p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID AS $$
+DECLARE
+    v_sender profiles%ROWTYPE;
+    v_recipient profiles%ROWTYPE;
+    v_notification_id UUID;
+BEGIN
+    SELECT * INTO v_sender FROM profiles WHERE user_id = auth.uid();
+    IF v_sender.id IS NULL THEN
+        RAISE EXCEPTION 'Brak profilu zalogowanego użytkownika';
+    END IF;
+
+    SELECT * INTO v_recipient FROM profiles WHERE user_id = p_user_id;
+    IF v_recipient.id IS NULL THEN
+        RAISE EXCEPTION 'Nie znaleziono odbiorcy powiadomienia';
+    END IF;
+
+    IF NOT (
+        v_recipient.id = v_sender.id
+        OR v_recipient.trainer_id = v_sender.id
+        OR v_sender.trainer_id = v_recipient.id
+    ) THEN
+        RAISE EXCEPTION 'Brak uprawnień do powiadomienia tego użytkownika';
+    END IF;
+
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (p_user_id, p_type, p_title, p_body, COALESCE(p_data, '{}'::jsonb))
+    RETURNING id INTO v_notification_id;
+
+    RETURN v_notification_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION create_notification(UUID, TEXT, TEXT, TEXT, JSONB) IS 'Zapis powiadomienia dla trenera lub klienta zalogowanego użytkownika';
+
+REVOKE EXECUTE ON FUNCTION create_notification(UUID, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_notification(UUID, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- ============================================
+-- 7. TRIGGER: nowa wiadomość → powiadomienie
+-- ============================================
+-- Powiadomienie o wiadomości tworzy baza - także dla wiadomości wysłanych
+-- offline i zapisanych dopiero przy synchronizacji kolejki. Ponowiony zapis
+-- (upsert z ignoreDuplicates) nie wstawia wiersza, więc nie dubluje powiadomienia.
+-- Ogłoszenia (broadcast_id, broadcasts.sql) mają własne powiadomienie.
+-- Podgląd treści jak getMessagePreview (src/api/services/messages.ts).
+-- Wiadomości (a więc i push) tylko między trenerem a jego klientem -
+-- pilnuje tego polityka INSERT poniżej.
+
+-- Czat tylko z własnym trenerem lub klientem (zastępuje politykę z rls-policies.sql)
+DROP POLICY IF EXISTS "Użytkownicy wysyłają wiadomości" ON messages;
+DROP POLICY IF EXISTS "Użytkownicy wysyłają wiadomości trenerowi lub klientowi" ON messages;
+CREATE POLICY "Użytkownicy wysyłają wiadomości trenerowi lub klientowi"
+ON messages FOR INSERT
+WITH CHECK (
+    sender_id = get_current_profile_id()
+    AND (
+        -- Trener pisze do swojego klienta
+        EXISTS (
+            SELECT 1 FROM profiles
+            WHERE id = messages.receiver_id
+            AND trainer_id = get_current_profile_id()
+        )
+        -- Klient pisze do swojego trenera
+        OR EXISTS (
+            SELECT 1 FROM profiles
+            WHERE user_id = auth.uid()
+            AND trainer_id = messages.receiver_id
+        )
+    )
+);
+
+CREATE OR REPLACE FUNCTION notify_new_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_sender profiles%ROWTYPE;
+    v_recipient_user_id UUID;
+    v_preview TEXT;
+BEGIN
+    IF NEW.broadcast_id IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_sender FROM profiles WHERE id = NEW.sender_id;
+    SELECT user_id INTO v_recipient_user_id FROM profiles WHERE id = NEW.receiver_id;
+
+    v_preview := CASE
+        WHEN length(trim(NEW.content)) > 0 THEN NEW.content
+        WHEN NEW.attachment_type = 'file' AND NEW.attachment_name IS NOT NULL THEN '📎 ' || NEW.attachment_name
+        WHEN NEW.attachment_type = 'image' THEN '📷 Zdjęcie'
+        WHEN NEW.attachment_type = 'video' THEN '🎬 Film'
+        WHEN NEW.attachment_type = 'file' THEN '📎 Plik'
+        ELSE ''
+    END;
+
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+        v_recipient_user_id,
+        'new_message',
+        'Nowa wiadomość 💬',
+        CASE
+            WHEN v_preview = '' THEN v_sender.first_name || ' ' || v_sender.last_name || ' wysłał/a Ci wiadomość'
+            WHEN length(v_preview) > 50 THEN v_sender.first_name || ' ' || v_sender.last_name || ': ' || substring(v_preview FROM 1 FOR 50) || '...'
+            ELSE v_sender.first_name || ' ' || v_sender.last_name || ': ' || v_preview
+        END,
+        jsonb_build_object('type', 'new_message', 'senderId', NEW.sender_id)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_message_notify ON messages;
+CREATE TRIGGER on_message_notify
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_new_message();
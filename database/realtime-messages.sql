@@ -0,0 +1,18 @@
+-- ============================================
+-- REALTIME DLA CZATU (messages)
+-- ============================================
+-- Czat nasłuchuje INSERT/UPDATE na messages zamiast odpytywać serwer.
+-- UPDATE (is_read, read_at) to potwierdzenia przeczytania dla nadawcy.
+-- Wymaga: schema.sql, rls-policies.sql
+
+-- Dodaj tabelę do publikacji realtime (bez błędu przy ponownym uruchomieniu)
+DO $$
+BEGIN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END $$;
+
+-- Indeks pod stronicowanie historii rozmowy (od najnowszych)
+CREATE INDEX IF NOT EXISTS idx_messages_conversation
+ON messages(sender_id, receiver_id, created_at DESC);
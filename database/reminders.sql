@@ -0,0 +1,14 @@
+-- ============================================
+-- PRZYPOMNIENIA O TRENINGU I POMIARACH
+-- ============================================
+-- Przypomnienia są planowane lokalnie na urządzeniu klienta
+-- (dni treningowe z aktywnego planu + comiesięczny pomiar).
+-- W bazie zapisujemy tylko wybraną godzinę, żeby przetrwała
+-- reinstalację i zmianę urządzenia. Przełącznik to kategoria
+-- 'reminders' w notification_preferences.categories.
+-- Wymaga: notification-preferences.sql
+
+ALTER TABLE notification_preferences
+    ADD COLUMN IF NOT EXISTS reminder_time TIME NOT NULL DEFAULT '08:00';
+
+COMMENT ON COLUMN notification_preferences.reminder_time IS 'Godzina przypomnień o treningu i pomiarze (czas lokalny urządzenia)';
@@ -446,6 +446,7 @@ USING (
 );
 
 -- Użytkownicy mogą wysyłać wiadomości
+-- (push-outbox.sql zawęża ją do par trener-klient)
 CREATE POLICY "Użytkownicy wysyłają wiadomości"
 ON messages FOR INSERT
 WITH CHECK (
@@ -485,10 +486,8 @@ CREATE POLICY "Użytkownicy widzą swoje powiadomienia"
 ON notifications FOR SELECT
 USING (user_id = auth.uid());
 
--- System może tworzyć powiadomienia (przez funkcję)
-CREATE POLICY "System tworzy powiadomienia"
-ON notifications FOR INSERT
-WITH CHECK (true);  -- Kontrolowane przez funkcje serwera
+-- Brak polityki INSERT - powiadomienia tworzy tylko funkcja create_notification
+-- (push-outbox.sql), która sprawdza powiązanie nadawcy z odbiorcą
 
 -- Użytkownicy mogą aktualizować status przeczytania
 CREATE POLICY "Użytkownicy aktualizują powiadomienia"
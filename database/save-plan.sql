@@ -0,0 +1,217 @@
+-- ============================================
+-- ZAPIS PLANU W JEDNEJ TRANSAKCJI (save_plan)
+-- ============================================
+-- Plan z dniami i ćwiczeniami zapisywany jednym wywołaniem RPC.
+-- Funkcja wykonuje się w jednej transakcji - błąd lub zerwane połączenie
+-- nie zostawia w bazie połowy planu.
+-- Działa z uprawnieniami wywołującego (SECURITY INVOKER), więc obowiązują polityki RLS trenera.
+-- Wymaga: schema.sql, rls-policies.sql (get_current_profile_id), exercise-groups.sql
+
+-- ============================================
+-- FUNKCJA: save_plan
+-- ============================================
+-- p_plan (JSONB) - pełny stan planu:
+-- {
+--   "id": "uuid | null",            -- brak = nowy plan
+--   "client_id": "uuid",
+--   "week_start": "YYYY-MM-DD",
+--   "week_end": "YYYY-MM-DD",
+--   "trainer_notes": "text | null",
+--   "days": [{
+--     "id": "uuid | null", "day_of_week": 0-6, "name": "text", "is_rest_day": bool, "order_index": int,
+--     "exercises": [{
+--       "id": "uuid | null", "exercise_id": "uuid", "order_index": int,
+--       "sets": int, "reps": "text", "weight_kg": num, "rest_seconds": int, "notes": "text",
+--       "group_id": "text | null", "group_type": "superset | circuit | null", "group_rounds": "int | null"
+--     }]
+--   }]
+-- }
+-- Dni i ćwiczenia istniejącego planu, których nie ma w p_plan, są usuwane.
+-- Zwraca zapisany wiersz training_plans.
+
+CREATE OR REPLACE FUNCTION save_plan(p_plan JSONB)
+RETURNS training_plans AS $$
+DECLARE
+    v_trainer_id UUID := get_current_profile_id();
+    v_plan training_plans%ROWTYPE;
+    v_day JSONB;
+    v_day_id UUID;
+    v_exercise JSONB;
+    v_day_ids UUID[];
+    v_exercise_ids UUID[];
+BEGIN
+    IF v_trainer_id IS NULL THEN
+        RAISE EXCEPTION 'Brak profilu zalogowanego użytkownika';
+    END IF;
+
+    -- 1. Plan
+    IF p_plan->>'id' IS NULL THEN
+        -- Dezaktywuj inne aktywne plany klienta w tym samym tygodniu
+        UPDATE training_plans
+        SET is_active = false
+        WHERE client_id = (p_plan->>'client_id')::UUID
+          AND week_start = (p_plan->>'week_start')::DATE
+          AND is_active = true;
+
+        INSERT INTO training_plans (trainer_id, client_id, week_start, week_end, trainer_notes, is_active)
+        VALUES (
+            v_trainer_id,
+            (p_plan->>'client_id')::UUID,
+            (p_plan->>'week_start')::DATE,
+            (p_plan->>'week_end')::DATE,
+            NULLIF(p_plan->>'trainer_notes', ''),
+            true
+        )
+        RETURNING * INTO v_plan;
+    ELSE
+        UPDATE training_plans
+        SET week_start = COALESCE((p_plan->>'week_start')::DATE, week_start),
+            week_end = COALESCE((p_plan->>'week_end')::DATE, week_end),
+            trainer_notes = NULLIF(p_plan->>'trainer_notes', '')
+        WHERE id = (p_plan->>'id')::UUID
+          AND trainer_id = v_trainer_id
+        RETURNING * INTO v_plan;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Plan nie został znaleziony';
+        END IF;
+    END IF;
+
+    -- 2. Usuń dni, których nie ma w zapisie (ćwiczenia usuwane kaskadowo)
+    SELECT COALESCE(array_agg((d->>'id')::UUID), '{}')
+    INTO v_day_ids
+    FROM jsonb_array_elements(COALESCE(p_plan->'days', '[]'::JSONB)) d
+    WHERE d->>'id' IS NOT NULL;
+
+    DELETE FROM workout_days
+    WHERE plan_id = v_plan.id
+      AND id <> ALL (v_day_ids);
+
+    -- 3. Dni i ćwiczenia
+    FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_plan->'days', '[]'::JSONB))
+    LOOP
+        IF v_day->>'id' IS NULL THEN
+            INSERT INTO workout_days (plan_id, day_of_week, name, is_rest_day, order_index)
+            VALUES (
+                v_plan.id,
+                (v_day->>'day_of_week')::INTEGER,
+                NULLIF(v_day->>'name', ''),
+                COALESCE((v_day->>'is_rest_day')::BOOLEAN, false),
+                COALESCE((v_day->>'order_index')::INTEGER, (v_day->>'day_of_week')::INTEGER)
+            )
+            RETURNING id INTO v_day_id;
+        ELSE
+            UPDATE workout_days
+            SET day_of_week = (v_day->>'day_of_week')::INTEGER,
+                name = NULLIF(v_day->>'name', ''),
+                is_rest_day = COALESCE((v_day->>'is_rest_day')::BOOLEAN, false),
+                order_index = COALESCE((v_day->>'order_index')::INTEGER, (v_day->>'day_of_week')::INTEGER)
+            WHERE id = (v_day->>'id')::UUID
+              AND plan_id = v_plan.id
+            RETURNING id INTO v_day_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Dzień treningowy % nie należy do planu', v_day->>'id';
+            END IF;
+        END IF;
+
+        -- Usuń ćwiczenia dnia, których nie ma w zapisie (dzień odpoczynku = brak ćwiczeń)
+        SELECT COALESCE(array_agg((e->>'id')::UUID), '{}')
+        INTO v_exercise_ids
+        FROM jsonb_array_elements(COALESCE(v_day->'exercises', '[]'::JSONB)) e
+        WHERE e->>'id' IS NOT NULL;
+
+        DELETE FROM workout_exercises
+        WHERE workout_day_id = v_day_id
+          AND id <> ALL (v_exercise_ids);
+
+        FOR v_exercise IN SELECT * FROM jsonb_array_elements(COALESCE(v_day->'exercises', '[]'::JSONB))
+        LOOP
+            IF v_exercise->>'id' IS NULL THEN
+                INSERT INTO workout_exercises (
+                    workout_day_id, exercise_id, order_index, sets, reps, weight_kg, rest_seconds, notes,
+                    group_id, group_type, group_rounds
+                )
+                VALUES (
+                    v_day_id,
+                    (v_exercise->>'exercise_id')::UUID,
+                    (v_exercise->>'order_index')::INTEGER,
+                    (v_exercise->>'sets')::INTEGER,
+                    v_exercise->>'reps',
+                    NULLIF((v_exercise->>'weight_kg')::NUMERIC, 0),
+                    COALESCE((v_exercise->>'rest_seconds')::INTEGER, 60),
+                    NULLIF(v_exercise->>'notes', ''),
+                    v_exercise->>'group_id',
+                    v_exercise->>'group_type',
+                    (v_exercise->>'group_rounds')::INTEGER
+                );
+            ELSE
+                UPDATE workout_exercises
+                SET exercise_id = (v_exercise->>'exercise_id')::UUID,
+                    order_index = (v_exercise->>'order_index')::INTEGER,
+                    sets = (v_exercise->>'sets')::INTEGER,
+                    reps = v_exercise->>'reps',
+                    weight_kg = NULLIF((v_exercise->>'weight_kg')::NUMERIC, 0),
+                    rest_seconds = COALESCE((v_exercise->>'rest_seconds')::INTEGER, 60),
+                    notes = NULLIF(v_exercise->>'notes', ''),
+                    group_id = v_exercise->>'group_id',
+                    group_type = v_exercise->>'group_type',
+                    group_rounds = (v_exercise->>'group_rounds')::INTEGER
+                WHERE id = (v_exercise->>'id')::UUID
+                  AND workout_day_id = v_day_id;
+
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Ćwiczenie % nie należy do dnia treningowego', v_exercise->>'id';
+                END IF;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_plan;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION save_plan(JSONB) IS 'Atomowy zapis planu z dniami i ćwiczeniami (pełny stan planu w JSON)';
+
+-- ============================================
+-- FUNKCJA: save_plans
+-- ============================================
+-- Kilka planów (np. kolejne tygodnie programu z szablonu) w jednej transakcji.
+-- p_plans (JSONB) - tablica planów w formacie p_plan z save_plan.
+-- Błąd przy dowolnym planie wycofuje wszystkie - także dezaktywację
+-- dotychczasowych planów klienta w tych tygodniach.
+-- Zwraca zapisane wiersze training_plans w kolejności z p_plans.
+
+CREATE OR REPLACE FUNCTION save_plans(p_plans JSONB)
+RETURNS SETOF training_plans AS $$
+DECLARE
+    v_plan JSONB;
+BEGIN
+    FOR v_plan IN SELECT * FROM jsonb_array_elements(COALESCE(p_plans, '[]'::JSONB))
+    LOOP
+        RETURN NEXT save_plan(v_plan);
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION save_plans(JSONB) IS 'Atomowy zapis kilku planów (np. tygodni programu z szablonu)';
+
+-- ============================================
+-- FUNKCJA: reorder_workout_exercises
+-- ============================================
+-- Zmiana kolejności ćwiczeń w dniu jednym zapytaniem
+
+CREATE OR REPLACE FUNCTION reorder_workout_exercises(p_workout_day_id UUID, p_exercise_ids UUID[])
+RETURNS VOID AS $$
+BEGIN
+    UPDATE workout_exercises we
+    SET order_index = ordered.idx - 1
+    FROM unnest(p_exercise_ids) WITH ORDINALITY AS ordered(id, idx)
+    WHERE we.id = ordered.id
+      AND we.workout_day_id = p_workout_day_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+GRANT EXECUTE ON FUNCTION save_plan(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION save_plans(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION reorder_workout_exercises(UUID, UUID[]) TO authenticated;
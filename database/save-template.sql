@@ -0,0 +1,128 @@
+-- ============================================
+-- ZAPIS SZABLONU PROGRAMU W JEDNEJ TRANSAKCJI (save_template)
+-- ============================================
+-- Szablon z dniami, ćwiczeniami i parametrami tygodni zapisywany jednym
+-- wywołaniem RPC. Edycja zastępuje całą strukturę dni - w jednej transakcji,
+-- więc błąd w trakcie nie zostawia pustego szablonu.
+-- Działa z uprawnieniami wywołującego (SECURITY INVOKER), więc obowiązują polityki RLS trenera.
+-- Wymaga: program-templates.sql, plan-templates.sql (source_plan_id, grupy ćwiczeń), rls-policies.sql (get_current_profile_id)
+
+-- ============================================
+-- FUNKCJA: save_template
+-- ============================================
+-- p_template (JSONB) - pełny stan szablonu:
+-- {
+--   "id": "uuid | null",            -- brak = nowy szablon
+--   "name": "text",
+--   "description": "text | null",
+--   "weeks_count": int,
+--   "source_plan_id": "uuid | null", -- tylko przy tworzeniu
+--   "days": [{
+--     "day_of_week": 0-6, "name": "text", "is_rest_day": bool,
+--     "exercises": [{
+--       "exercise_id": "uuid", "order_index": int, "rest_seconds": int, "notes": "text",
+--       "group_id": "text | null", "group_type": "superset | circuit | null", "group_rounds": "int | null",
+--       "weeks": [{ "week_number": int, "sets": int, "reps": "text", "weight_kg": num }]
+--     }]
+--   }]
+-- }
+-- Tygodnie spoza długości programu są pomijane.
+-- Zwraca zapisany wiersz program_templates.
+
+CREATE OR REPLACE FUNCTION save_template(p_template JSONB)
+RETURNS program_templates AS $$
+DECLARE
+    v_trainer_id UUID := get_current_profile_id();
+    v_template program_templates%ROWTYPE;
+    v_day JSONB;
+    v_day_id UUID;
+    v_exercise JSONB;
+    v_exercise_id UUID;
+BEGIN
+    IF v_trainer_id IS NULL THEN
+        RAISE EXCEPTION 'Brak profilu zalogowanego użytkownika';
+    END IF;
+
+    -- 1. Szablon
+    IF p_template->>'id' IS NULL THEN
+        INSERT INTO program_templates (trainer_id, name, description, weeks_count, source_plan_id)
+        VALUES (
+            v_trainer_id,
+            p_template->>'name',
+            NULLIF(p_template->>'description', ''),
+            (p_template->>'weeks_count')::INTEGER,
+            (p_template->>'source_plan_id')::UUID
+        )
+        RETURNING * INTO v_template;
+    ELSE
+        UPDATE program_templates
+        SET name = p_template->>'name',
+            description = NULLIF(p_template->>'description', ''),
+            weeks_count = (p_template->>'weeks_count')::INTEGER
+        WHERE id = (p_template->>'id')::UUID
+          AND trainer_id = v_trainer_id
+        RETURNING * INTO v_template;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Szablon nie został znaleziony';
+        END IF;
+
+        -- Stara struktura (ćwiczenia i tygodnie usuwane kaskadowo)
+        DELETE FROM program_template_days
+        WHERE template_id = v_template.id;
+    END IF;
+
+    -- 2. Dni, ćwiczenia i parametry tygodni
+    FOR v_day IN SELECT * FROM jsonb_array_elements(COALESCE(p_template->'days', '[]'::JSONB))
+    LOOP
+        INSERT INTO program_template_days (template_id, day_of_week, name, is_rest_day, order_index)
+        VALUES (
+            v_template.id,
+            (v_day->>'day_of_week')::INTEGER,
+            NULLIF(v_day->>'name', ''),
+            COALESCE((v_day->>'is_rest_day')::BOOLEAN, false),
+            (v_day->>'day_of_week')::INTEGER
+        )
+        RETURNING id INTO v_day_id;
+
+        IF COALESCE((v_day->>'is_rest_day')::BOOLEAN, false) THEN
+            CONTINUE;
+        END IF;
+
+        FOR v_exercise IN SELECT * FROM jsonb_array_elements(COALESCE(v_day->'exercises', '[]'::JSONB))
+        LOOP
+            INSERT INTO program_template_exercises (
+                template_day_id, exercise_id, order_index, rest_seconds, notes,
+                group_id, group_type, group_rounds
+            )
+            VALUES (
+                v_day_id,
+                (v_exercise->>'exercise_id')::UUID,
+                (v_exercise->>'order_index')::INTEGER,
+                COALESCE((v_exercise->>'rest_seconds')::INTEGER, 60),
+                NULLIF(v_exercise->>'notes', ''),
+                NULLIF(v_exercise->>'group_id', ''),
+                v_exercise->>'group_type',
+                (v_exercise->>'group_rounds')::INTEGER
+            )
+            RETURNING id INTO v_exercise_id;
+
+            INSERT INTO program_template_exercise_weeks (template_exercise_id, week_number, sets, reps, weight_kg)
+            SELECT
+                v_exercise_id,
+                (w->>'week_number')::INTEGER,
+                (w->>'sets')::INTEGER,
+                w->>'reps',
+                (w->>'weight_kg')::NUMERIC
+            FROM jsonb_array_elements(COALESCE(v_exercise->'weeks', '[]'::JSONB)) w
+            WHERE (w->>'week_number')::INTEGER BETWEEN 1 AND v_template.weeks_count;
+        END LOOP;
+    END LOOP;
+
+    RETURN v_template;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+COMMENT ON FUNCTION save_template(JSONB) IS 'Atomowy zapis szablonu programu z dniami, ćwiczeniami i tygodniami';
+
+GRANT EXECUTE ON FUNCTION save_template(JSONB) TO authenticated;
@@ -25,9 +25,13 @@
 --    - Prywatne! Tylko właściciel i trener
 --
 -- 3. diet-files (PRIVATE)
---    - Pliki PDF z dietami
+--    - Pliki PDF lub zdjęcia z dietami
 --    - Prywatne! Tylko klient i trener
 --
+-- 4. chat-attachments (PRIVATE)
+--    - Zdjęcia, filmy i pliki wysyłane w czacie
+--    - Prywatne! Tylko nadawca i odbiorca wiadomości
+--
 -- ============================================
 
 -- ============================================
@@ -155,6 +159,17 @@ WITH CHECK (
     ) = 'trainer'
 );
 
+-- Trenerzy mogą nadpisywać pliki (upsert przy zmianie załącznika)
+CREATE POLICY "Trenerzy aktualizują pliki dietetyczne"
+ON storage.objects FOR UPDATE
+USING (
+    bucket_id = 'diet-files'
+    AND (
+        SELECT role FROM profiles 
+        WHERE user_id = auth.uid()
+    ) = 'trainer'
+);
+
 -- Trenerzy mogą usuwać pliki
 CREATE POLICY "Trenerzy usuwają pliki dietetyczne"
 ON storage.objects FOR DELETE
@@ -166,6 +181,46 @@ USING (
     ) = 'trainer'
 );
 
+-- ============================================
+-- 4. CHAT-ATTACHMENTS - Polityki
+-- ============================================
+-- Bucket: chat-attachments (PRIVATE)
+-- Ścieżka: {sender_profile_id}/{receiver_profile_id}/{plik}
+-- Foldery są po profile.id (jak sender_id/receiver_id w messages)
+
+-- Uczestnicy rozmowy widzą załączniki
+CREATE POLICY "Uczestnicy czatu widzą załączniki"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'chat-attachments'
+    AND get_current_profile_id()::text IN (
+        (storage.foldername(name))[1],
+        (storage.foldername(name))[2]
+    )
+);
+
+-- Nadawca uploaduje do swojego folderu, tylko do swojego trenera lub klienta
+CREATE POLICY "Nadawcy uploadują załączniki czatu"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'chat-attachments'
+    AND get_current_profile_id()::text = (storage.foldername(name))[1]
+    AND EXISTS (
+        SELECT 1 FROM profiles sender
+        JOIN profiles receiver ON receiver.id::text = (storage.foldername(name))[2]
+        WHERE sender.id = get_current_profile_id()
+        AND (receiver.trainer_id = sender.id OR sender.trainer_id = receiver.id)
+    )
+);
+
+-- Nadawca może usuwać swoje załączniki
+CREATE POLICY "Nadawcy usuwają załączniki czatu"
+ON storage.objects FOR DELETE
+USING (
+    bucket_id = 'chat-attachments'
+    AND get_current_profile_id()::text = (storage.foldername(name))[1]
+);
+
 -- ============================================
 -- STRUKTURA FOLDERÓW W BUCKETACH:
 -- ============================================
@@ -186,7 +241,13 @@ USING (
 -- diet-files/
 --   {client_user_id}/
 --     {diet_plan_id}/
---       plan.pdf
+--       plan.pdf (lub plan.jpg / plan.png)
+--
+-- chat-attachments/
+--   {sender_profile_id}/
+--     {receiver_profile_id}/
+--       {timestamp}.jpg / .mp4 / .pdf
+--       {timestamp}_thumbnail.jpg
 --
 -- ============================================
 
@@ -215,9 +276,14 @@ USING (
 --    c) diet-files
 --       - Name: diet-files
 --       - Public bucket: ❌ NIE (odznacz)
---       - Allowed MIME types: application/pdf
+--       - Allowed MIME types: application/pdf, image/jpeg, image/png
 --       - File size limit: 20MB
 --
+--    d) chat-attachments
+--       - Name: chat-attachments
+--       - Public bucket: ❌ NIE (odznacz)
+--       - File size limit: 50MB
+--
 -- 3. Po utworzeniu bucketów uruchom ten SQL
 --
 -- 4. Sprawdź czy polityki się utworzyły:
@@ -0,0 +1,110 @@
+-- ============================================
+-- KOMENTARZE DO TRENINGÓW (workout_comments)
+-- ============================================
+-- Wątek komentarzy trenera i klienta przypięty do wykonanego treningu
+-- (completed_workouts), opcjonalnie do konkretnego ćwiczenia
+-- (completed_exercises). Zastępuje jednostronne client_notes przy rozmowie
+-- o konkretnej sesji, np. "zmniejsz ciężar w 3. serii".
+-- Wymaga: schema.sql, rls-policies.sql (is_trainer_of, get_current_profile_id)
+
+-- ============================================
+-- 1. TABELA workout_comments
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS workout_comments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Skomentowany trening
+    completed_workout_id UUID NOT NULL REFERENCES completed_workouts(id) ON DELETE CASCADE,
+    -- Skomentowane ćwiczenie (null = komentarz do całego treningu)
+    completed_exercise_id UUID REFERENCES completed_exercises(id) ON DELETE CASCADE,
+    -- Autor (profil trenera lub klienta)
+    author_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    -- Treść komentarza
+    content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+    -- Status odczytu przez drugą stronę
+    is_read BOOLEAN NOT NULL DEFAULT false,
+    read_at TIMESTAMPTZ,
+    -- Timestamps
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE workout_comments IS 'Wątek komentarzy trenera i klienta do wykonanego treningu';
+COMMENT ON COLUMN workout_comments.completed_exercise_id IS 'Ćwiczenie, którego dotyczy komentarz - null dla całego treningu';
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_workout_comments_completed_workout_id ON workout_comments(completed_workout_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_workout_comments_unread ON workout_comments(completed_workout_id)
+WHERE is_read = false;
+
+-- ============================================
+-- 2. RLS
+-- ============================================
+-- Uczestnicy wątku: właściciel treningu i jego trener
+
+ALTER TABLE workout_comments ENABLE ROW LEVEL SECURITY;
+
+-- Uczestnicy widzą komentarze do treningu
+CREATE POLICY "Uczestnicy widzą komentarze do treningu"
+ON workout_comments FOR SELECT
+USING (
+    EXISTS (
+        SELECT 1 FROM completed_workouts cw
+        WHERE cw.id = workout_comments.completed_workout_id
+        AND (cw.user_id = auth.uid() OR is_trainer_of(cw.user_id))
+    )
+);
+
+-- Uczestnicy dodają komentarze we własnym imieniu
+CREATE POLICY "Uczestnicy dodają komentarze do treningu"
+ON workout_comments FOR INSERT
+WITH CHECK (
+    author_id = get_current_profile_id()
+    AND EXISTS (
+        SELECT 1 FROM completed_workouts cw
+        WHERE cw.id = workout_comments.completed_workout_id
+        AND (cw.user_id = auth.uid() OR is_trainer_of(cw.user_id))
+    )
+    AND (
+        completed_exercise_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM completed_exercises ce
+            WHERE ce.id = workout_comments.completed_exercise_id
+            AND ce.completed_workout_id = workout_comments.completed_workout_id
+        )
+    )
+);
+
+-- Brak polityki UPDATE - odbiorca zmienia tylko status odczytu przez
+-- funkcję mark_workout_comments_read (sekcja 3)
+DROP POLICY IF EXISTS "Odbiorcy oznaczają komentarze jako przeczytane" ON workout_comments;
+
+-- Autor usuwa swoje komentarze
+CREATE POLICY "Autorzy usuwają swoje komentarze"
+ON workout_comments FOR DELETE
+USING (author_id = get_current_profile_id());
+
+-- ============================================
+-- 3. FUNKCJA: mark_workout_comments_read
+-- ============================================
+-- Oznacza komentarze drugiej strony jako przeczytane. Zmienia tylko
+-- is_read i read_at - treść i autor komentarza pozostają nietknięte.
+-- SECURITY DEFINER - tabela nie ma polityki UPDATE; uczestnictwo
+-- w wątku sprawdzane jak w polityce SELECT.
+
+CREATE OR REPLACE FUNCTION mark_workout_comments_read(p_comment_ids UUID[])
+RETURNS VOID AS $$
+    UPDATE workout_comments wc
+    SET is_read = true,
+        read_at = NOW()
+    FROM completed_workouts cw
+    WHERE wc.id = ANY(p_comment_ids)
+    AND wc.is_read = false
+    AND wc.author_id <> get_current_profile_id()
+    AND cw.id = wc.completed_workout_id
+    AND (cw.user_id = auth.uid() OR is_trainer_of(cw.user_id));
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION mark_workout_comments_read(UUID[]) IS 'Oznacza komentarze drugiej strony wątku jako przeczytane';
+
+REVOKE EXECUTE ON FUNCTION mark_workout_comments_read(UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_workout_comments_read(UUID[]) TO authenticated;
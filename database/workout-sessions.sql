@@ -0,0 +1,37 @@
+-- ============================================
+-- SESJE TRENINGOWE W TRAKCIE (completed_workouts.status = 'in_progress')
+-- ============================================
+-- Rozpoczęty trening zapisywany jest od razu jako wiersz in_progress,
+-- dzięki czemu klient może go wznowić, a trener widzi kto teraz trenuje.
+-- Po zakończeniu wiersz jest aktualizowany do completed/partial.
+-- Uruchom w Supabase Dashboard → SQL Editor
+
+-- 1. Dopuść status in_progress
+ALTER TABLE completed_workouts
+DROP CONSTRAINT IF EXISTS completed_workouts_status_check;
+
+ALTER TABLE completed_workouts
+ADD CONSTRAINT completed_workouts_status_check
+CHECK (status IN ('completed', 'partial', 'skipped', 'in_progress'));
+
+COMMENT ON COLUMN completed_workouts.status IS 'Status: completed (wszystko), partial (część), skipped (pominięty), in_progress (w trakcie)';
+
+-- 2. Kiedy sesja została rozpoczęta
+ALTER TABLE completed_workouts
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN completed_workouts.started_at IS 'Początek sesji treningowej (ustawiany przy starcie, zachowany po zakończeniu)';
+
+-- Indeksy
+CREATE INDEX IF NOT EXISTS idx_completed_workouts_in_progress
+ON completed_workouts(user_id, completed_date)
+WHERE status = 'in_progress';
+
+-- ============================================
+-- RLS POLICIES
+-- ============================================
+
+-- Użytkownicy mogą porzucić swoją sesję w trakcie
+CREATE POLICY "Użytkownicy usuwają swoje sesje w trakcie"
+ON completed_workouts FOR DELETE
+USING (user_id = auth.uid() AND status = 'in_progress');
@@ -0,0 +1,103 @@
+#!/usr/bin/env node
+
+/**
+ * Lokalny serwer testowy zgodny z Expo Push API
+ *
+ * Pozwala uruchomić scripts/push-worker.js bez wysyłania prawdziwych push:
+ *   node scripts/mock-push-server.js
+ *   PUSH_API_URL=http://localhost:4010 node --env-file=.env scripts/push-worker.js
+ *
+ * Symulowane błędy (po fragmencie tokenu):
+ * - "unregistered" → ticket z błędem DeviceNotRegistered
+ * - "expired"      → ticket ok, receipt z błędem DeviceNotRegistered
+ * - "ratelimited"  → ticket z błędem MessageRateExceeded (ponowienie)
+ * MOCK_PUSH_FAIL_RATE (0-1) - część żądań /send kończy się HTTP 503.
+ */
+
+const http = require('http')
+const { randomUUID } = require('crypto')
+
+// ============================================
+// STAŁE
+// ============================================
+
+const PORT = parseInt(process.env.PORT || '', 10) || 4010
+const FAIL_RATE = parseFloat(process.env.MOCK_PUSH_FAIL_RATE || '') || 0
+
+/** Receipts wysłanych wiadomości (ticketId → receipt) */
+const receipts = new Map()
+
+// ============================================
+// HELPERY
+// ============================================
+
+const deviceError = (error, message) => ({ status: 'error', message, details: { error } })
+
+function createTicket(message) {
+	const token = String(message.to || '')
+
+	if (token.includes('unregistered')) {
+		return deviceError('DeviceNotRegistered', `"${token}" is not a registered push notification recipient`)
+	}
+	if (token.includes('ratelimited')) {
+		return deviceError('MessageRateExceeded', 'Too many messages sent to this device')
+	}
+
+	const id = randomUUID()
+	receipts.set(
+		id,
+		token.includes('expired')
+			? deviceError('DeviceNotRegistered', `"${token}" is not a registered push notification recipient`)
+			: { status: 'ok' }
+	)
+	console.log(`[MockPush] → ${token}: ${message.title} - ${message.body}`)
+	return { status: 'ok', id }
+}
+
+function sendJson(response, status, body) {
+	response.writeHead(status, { 'Content-Type': 'application/json' })
+	response.end(JSON.stringify(body))
+}
+
+// ============================================
+// SERWER
+// ============================================
+
+const server = http.createServer((request, response) => {
+	let raw = ''
+	request.on('data', chunk => (raw += chunk))
+	request.on('end', () => {
+		let body
+		try {
+			body = raw ? JSON.parse(raw) : {}
+		} catch {
+			sendJson(response, 400, { errors: [{ code: 'VALIDATION_ERROR', message: 'Invalid JSON' }] })
+			return
+		}
+
+		if (request.method === 'POST' && request.url.endsWith('/send')) {
+			if (Math.random() < FAIL_RATE) {
+				sendJson(response, 503, { errors: [{ code: 'INTERNAL_SERVER_ERROR', message: 'Mock: service unavailable' }] })
+				return
+			}
+			const messages = Array.isArray(body) ? body : [body]
+			sendJson(response, 200, { data: messages.map(createTicket) })
+			return
+		}
+
+		if (request.method === 'POST' && request.url.endsWith('/getReceipts')) {
+			const data = {}
+			for (const id of body.ids || []) {
+				if (receipts.has(id)) data[id] = receipts.get(id)
+			}
+			sendJson(response, 200, { data })
+			return
+		}
+
+		sendJson(response, 404, { errors: [{ code: 'NOT_FOUND', message: 'Not found' }] })
+	})
+})
+
+server.listen(PORT, () => {
+	console.log(`[MockPush] Nasłuchuje na http://localhost:${PORT}`)
+})
@@ -0,0 +1,97 @@
+/**
+ * Transport wiadomości push dla scripts/push-worker.js
+ *
+ * Transport to obiekt { send(messages), getReceipts(ids), maxBatchSize }.
+ * createHttpTransport mówi protokołem Expo Push API - ten sam transport
+ * działa z lokalnym serwerem testowym (scripts/mock-push-server.js),
+ * wystarczy zmienić baseUrl (PUSH_API_URL).
+ */
+
+// ============================================
+// STAŁE
+// ============================================
+
+const EXPO_PUSH_API_URL = 'https://exp.host/--/api/v2/push'
+
+/** Limit Expo: 100 wiadomości na jedno żądanie /send */
+const MAX_BATCH_SIZE = 100
+
+// ============================================
+// BŁĘDY
+// ============================================
+
+/**
+ * Błąd całego żądania (sieć, HTTP, odrzucone żądanie)
+ * retryable = czy ponowienie ma sens (sieć, 429, 5xx)
+ */
+class PushTransportError extends Error {
+	constructor(message, retryable) {
+		super(message)
+		this.name = 'PushTransportError'
+		this.retryable = retryable
+	}
+}
+
+// ============================================
+// TRANSPORT HTTP
+// ============================================
+
+/**
+ * Transport HTTP zgodny z Expo Push API
+ */
+function createHttpTransport({ baseUrl, accessToken } = {}) {
+	const url = (baseUrl || EXPO_PUSH_API_URL).replace(/\/$/, '')
+
+	async function post(path, body) {
+		let response
+		try {
+			response = await fetch(`${url}${path}`, {
+				method: 'POST',
+				headers: {
+					Accept: 'application/json',
+					'Accept-encoding': 'gzip, deflate',
+					'Content-Type': 'application/json',
+					...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+				},
+				body: JSON.stringify(body),
+			})
+		} catch (error) {
+			throw new PushTransportError(`Błąd sieci: ${error.message}`, true)
+		}
+
+		const json = await response.json().catch(() => null)
+
+		if (!response.ok || !json || json.data === undefined) {
+			const message = json?.errors?.[0]?.message || `HTTP ${response.status}`
+			throw new PushTransportError(message, response.status === 429 || response.status >= 500)
+		}
+
+		return json.data
+	}
+
+	return {
+		name: url,
+		maxBatchSize: MAX_BATCH_SIZE,
+		/**
+		 * Wysyła wiadomości, zwraca tickety w tej samej kolejności
+		 * Ticket: { status: 'ok', id } | { status: 'error', message, details: { error } }
+		 */
+		send: messages => post('/send', messages),
+		/**
+		 * Pobiera potwierdzenia doręczenia dla ticketów
+		 * Zwraca { [ticketId]: { status: 'ok' } | { status: 'error', message, details } }
+		 * Brak klucza = potwierdzenie jeszcze niegotowe
+		 */
+		getReceipts: ids => post('/getReceipts', { ids }),
+	}
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+module.exports = {
+	EXPO_PUSH_API_URL,
+	PushTransportError,
+	createHttpTransport,
+}
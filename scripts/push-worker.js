@@ -0,0 +1,308 @@
+#!/usr/bin/env node
+
+/**
+ * Push worker - wysyłka powiadomień push z kolejki push_outbox
+ *
+ * Kolejkę wypełnia trigger na tabeli notifications (database/push-outbox.sql).
+ * Worker:
+ * - pobiera wiadomości (claim_push_outbox) i wysyła je przez transport,
+ * - ponawia błędy przejściowe z rosnącym odstępem (do MAX_ATTEMPTS prób),
+ * - po kilkunastu minutach sprawdza potwierdzenia (receipts),
+ * - wyłącza tokeny urządzeń, które nie są już zarejestrowane.
+ *
+ * Uruchomienie (klucz service_role - tylko na serwerze!):
+ *   node --env-file=.env scripts/push-worker.js          praca ciągła
+ *   node --env-file=.env scripts/push-worker.js --once   jedno przejście (np. z crona)
+ *
+ * Zmienne środowiskowe:
+ *   SUPABASE_URL (lub EXPO_PUBLIC_SUPABASE_URL), SUPABASE_SERVICE_ROLE_KEY
+ *   PUSH_API_URL - domyślnie Expo Push API, lokalnie np. http://localhost:4010
+ *   EXPO_ACCESS_TOKEN - opcjonalny (Enhanced Push Security)
+ *   PUSH_POLL_INTERVAL_MS - co ile sprawdzać kolejkę (domyślnie 5000)
+ */
+
+const { createClient } = require('@supabase/supabase-js')
+const { createHttpTransport, PushTransportError } = require('./push-transport')
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Po tylu nieudanych próbach wiadomość jest oznaczana jako failed */
+const MAX_ATTEMPTS = 5
+
+/** Ponowienia: 30 s, 1 min, 2 min, ... maksymalnie 1 h */
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+
+/** Expo zaleca sprawdzać receipts ~15 min po wysyłce, są dostępne przez 24 h */
+const RECEIPT_DELAY_MS = 15 * 60 * 1000
+const RECEIPT_MAX_AGE_MS = 24 * 60 * 60 * 1000
+const RECEIPT_CHECK_INTERVAL_MS = 5 * 60 * 1000
+const RECEIPT_BATCH_SIZE = 1000
+
+const DEFAULT_POLL_INTERVAL_MS = 5000
+
+/** Token urządzenia nieaktualny (aplikacja odinstalowana, token wygasł) */
+const DEAD_TOKEN_ERROR = 'DeviceNotRegistered'
+
+/** Błędy Expo, po których ponowienie ma sens */
+const RETRYABLE_ERRORS = ['MessageRateExceeded']
+
+// ============================================
+// HELPERY
+// ============================================
+
+const getRetryDelay = attempts => Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS)
+
+const getErrorCode = result => result?.details?.error || null
+
+const getErrorMessage = result => getErrorCode(result) || result?.message || 'Nieznany błąd'
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+
+function chunk(items, size) {
+	const chunks = []
+	for (let i = 0; i < items.length; i += size) {
+		chunks.push(items.slice(i, i + size))
+	}
+	return chunks
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+/**
+ * Tworzy worker dla klienta Supabase (service_role) i dowolnego transportu
+ */
+function createPushWorker({ supabase, transport, logger = console }) {
+	async function updateRow(id, values) {
+		const { error } = await supabase.from('push_outbox').update(values).eq('id', id)
+		if (error) logger.error('[PushWorker] Błąd aktualizacji wiadomości:', id, error.message)
+	}
+
+	/**
+	 * Ponów później albo oznacz jako failed po wyczerpaniu prób
+	 */
+	async function retryOrFail(row, message) {
+		if (row.attempts >= MAX_ATTEMPTS) {
+			await updateRow(row.id, { status: 'failed', last_error: message, locked_at: null })
+			return
+		}
+		await updateRow(row.id, {
+			status: 'pending',
+			last_error: message,
+			locked_at: null,
+			next_attempt_at: new Date(Date.now() + getRetryDelay(row.attempts)).toISOString(),
+		})
+	}
+
+	async function deactivateToken(expoPushToken) {
+		const { error } = await supabase
+			.from('notification_tokens')
+			.update({ is_active: false })
+			.eq('expo_push_token', expoPushToken)
+
+		if (error) logger.error('[PushWorker] Błąd wyłączania tokenu:', error.message)
+		else logger.log('[PushWorker] Token wyłączony:', expoPushToken)
+	}
+
+	/**
+	 * Wynik wysyłki jednej wiadomości (ticket lub receipt z błędem)
+	 */
+	async function handleError(row, result) {
+		const code = getErrorCode(result)
+
+		if (code === DEAD_TOKEN_ERROR) {
+			await deactivateToken(row.expo_push_token)
+			await updateRow(row.id, { status: 'failed', last_error: code, locked_at: null })
+		} else if (RETRYABLE_ERRORS.includes(code)) {
+			await retryOrFail(row, code)
+		} else {
+			await updateRow(row.id, { status: 'failed', last_error: getErrorMessage(result), locked_at: null })
+		}
+	}
+
+	async function sendBatch(rows) {
+		const messages = rows.map(row => ({
+			to: row.expo_push_token,
+			sound: 'default',
+			title: row.title,
+			body: row.body,
+			data: row.data || {},
+		}))
+
+		let tickets
+		try {
+			tickets = await transport.send(messages)
+		} catch (error) {
+			const retryable = !(error instanceof PushTransportError) || error.retryable
+			logger.warn('[PushWorker] Błąd wysyłki paczki:', error.message)
+			await Promise.all(
+				rows.map(row =>
+					retryable
+						? retryOrFail(row, error.message)
+						: updateRow(row.id, { status: 'failed', last_error: error.message, locked_at: null })
+				)
+			)
+			return 0
+		}
+
+		let sent = 0
+		await Promise.all(
+			rows.map(async (row, index) => {
+				const ticket = tickets[index]
+				if (ticket?.status === 'ok') {
+					sent++
+					await updateRow(row.id, {
+						status: 'sent',
+						ticket_id: ticket.id,
+						sent_at: new Date().toISOString(),
+						last_error: null,
+						locked_at: null,
+					})
+				} else {
+					await handleError(row, ticket)
+				}
+			})
+		)
+		return sent
+	}
+
+	/**
+	 * Wysyła wszystkie wiadomości gotowe do wysyłki
+	 * Zwraca liczbę wysłanych wiadomości
+	 */
+	async function processOutbox() {
+		let sent = 0
+
+		for (;;) {
+			const { data: rows, error } = await supabase.rpc('claim_push_outbox', { p_limit: transport.maxBatchSize })
+			if (error) throw new Error(`claim_push_outbox: ${error.message}`)
+			if (!rows || rows.length === 0) break
+
+			for (const batch of chunk(rows, transport.maxBatchSize)) {
+				sent += await sendBatch(batch)
+			}
+			if (rows.length < transport.maxBatchSize) break
+		}
+
+		if (sent > 0) logger.log(`[PushWorker] Wysłano: ${sent}`)
+		return sent
+	}
+
+	/**
+	 * Sprawdza potwierdzenia doręczenia wysłanych wiadomości
+	 */
+	async function checkReceipts() {
+		const now = Date.now()
+		const { data: rows, error } = await supabase
+			.from('push_outbox')
+			.select('id, ticket_id, expo_push_token, attempts')
+			.eq('status', 'sent')
+			.not('ticket_id', 'is', null)
+			.lte('sent_at', new Date(now - RECEIPT_DELAY_MS).toISOString())
+			.gte('sent_at', new Date(now - RECEIPT_MAX_AGE_MS).toISOString())
+			.limit(RECEIPT_BATCH_SIZE)
+
+		if (error) throw new Error(`push_outbox receipts: ${error.message}`)
+		if (!rows || rows.length === 0) return
+
+		let receipts
+		try {
+			receipts = await transport.getReceipts(rows.map(row => row.ticket_id))
+		} catch (receiptError) {
+			// Spróbujemy przy następnym sprawdzeniu
+			logger.warn('[PushWorker] Błąd pobierania potwierdzeń:', receiptError.message)
+			return
+		}
+
+		await Promise.all(
+			rows.map(async row => {
+				const receipt = receipts[row.ticket_id]
+				if (!receipt) return // Jeszcze niegotowe
+
+				if (receipt.status === 'ok') {
+					await updateRow(row.id, { status: 'delivered' })
+				} else {
+					await handleError(row, receipt)
+				}
+			})
+		)
+	}
+
+	return { processOutbox, checkReceipts }
+}
+
+// ============================================
+// URUCHOMIENIE
+// ============================================
+
+async function main() {
+	const supabaseUrl = process.env.SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL
+	const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+	if (!supabaseUrl || !serviceRoleKey) {
+		console.error('[PushWorker] Brak SUPABASE_URL lub SUPABASE_SERVICE_ROLE_KEY')
+		process.exit(1)
+	}
+
+	const supabase = createClient(supabaseUrl, serviceRoleKey, {
+		auth: { persistSession: false, autoRefreshToken: false },
+	})
+	const transport = createHttpTransport({
+		baseUrl: process.env.PUSH_API_URL,
+		accessToken: process.env.EXPO_ACCESS_TOKEN,
+	})
+	const worker = createPushWorker({ supabase, transport })
+
+	console.log('[PushWorker] Transport:', transport.name)
+
+	if (process.argv.includes('--once')) {
+		await worker.processOutbox()
+		await worker.checkReceipts()
+		return
+	}
+
+	const pollInterval = parseInt(process.env.PUSH_POLL_INTERVAL_MS || '', 10) || DEFAULT_POLL_INTERVAL_MS
+	let isRunning = true
+	let lastReceiptCheck = 0
+
+	const stop = () => {
+		console.log('[PushWorker] Zatrzymywanie...')
+		isRunning = false
+	}
+	process.on('SIGINT', stop)
+	process.on('SIGTERM', stop)
+
+	while (isRunning) {
+		try {
+			await worker.processOutbox()
+			if (Date.now() - lastReceiptCheck >= RECEIPT_CHECK_INTERVAL_MS) {
+				lastReceiptCheck = Date.now()
+				await worker.checkReceipts()
+			}
+		} catch (error) {
+			console.error('[PushWorker] Błąd:', error.message)
+		}
+		await sleep(pollInterval)
+	}
+}
+
+if (require.main === module) {
+	main().catch(error => {
+		console.error('[PushWorker] Błąd krytyczny:', error)
+		process.exit(1)
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+module.exports = {
+	MAX_ATTEMPTS,
+	createPushWorker,
+	getRetryDelay,
+}
@@ -2,16 +2,76 @@
  * Konfiguracja React Query dla FitCoach
  *
  * QueryClient z optymalnymi ustawieniami dla aplikacji mobilnej.
+ * Cache zapytań jest zapisywany w AsyncStorage (PersistQueryClientProvider
+ * w app/_layout.tsx) - bez internetu każdy ekran pokazuje ostatnio pobrane dane.
  */
 
-import { QueryClient } from '@tanstack/react-query'
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { QueryClient, onlineManager, defaultShouldDehydrateQuery, type QueryKey } from '@tanstack/react-query'
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister'
+import type { PersistQueryClientOptions, Persister } from '@tanstack/react-query-persist-client'
+import { STORAGE_KEYS, CACHE_VERSION } from '../services/offline/storage'
+import { addNetworkListener, getNetworkStatus } from '../services/offline/networkStatus'
+
+// ============================================
+// STAŁE
+// ============================================
+
+const DAY = 24 * 60 * 60 * 1000
+
+/** Domyślny czas przechowywania zapytania w cache na urządzeniu */
+const DEFAULT_PERSIST_MAX_AGE = DAY
+
+/**
+ * Czas przechowywania wg pierwszego elementu klucza zapytania
+ * Pojedyncze zapytanie może go nadpisać przez meta: { persistMaxAge }
+ * (np. podpisane URL-e - najwyżej do wygaśnięcia podpisu)
+ */
+const PERSIST_MAX_AGE: Record<string, number> = {
+	// Plan i historia treningów - potrzebne na siłowni bez zasięgu
+	'training-plans': 7 * DAY,
+	'active-plan': 7 * DAY,
+	'workout-day': 7 * DAY,
+	'completed-workouts': 7 * DAY,
+	'workout-stats': 7 * DAY,
+	exercises: 7 * DAY,
+	measurements: 7 * DAY,
+	'latest-measurement': 7 * DAY,
+	'measurement-stats': 7 * DAY,
+	'diet-plans': 7 * DAY,
+	clients: 7 * DAY,
+	messages: 3 * DAY,
+}
+
+/** Najdłuższy czas przechowywania - cały zapisany cache starszy od niego jest odrzucany */
+const MAX_PERSIST_AGE = Math.max(DEFAULT_PERSIST_MAX_AGE, ...Object.values(PERSIST_MAX_AGE))
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Czas przechowywania zapytania na urządzeniu
+ */
+function getPersistMaxAge(queryKey: QueryKey, meta?: Record<string, unknown>): number {
+	if (typeof meta?.persistMaxAge === 'number') return meta.persistMaxAge
+	return PERSIST_MAX_AGE[String(queryKey[0])] ?? DEFAULT_PERSIST_MAX_AGE
+}
+
+const isWithinMaxAge = (query: { queryKey: QueryKey; meta?: Record<string, unknown>; state: { dataUpdatedAt: number } }) =>
+	Date.now() - query.state.dataUpdatedAt <= getPersistMaxAge(query.queryKey, query.meta)
+
+// ============================================
+// QUERY CLIENT
+// ============================================
 
 /**
  * Główny QueryClient dla aplikacji
  *
  * Ustawienia:
  * - staleTime: 5 minut - dane są "świeże" przez 5 minut
- * - gcTime: 10 minut - dane w cache przez 10 minut
+ * - gcTime: tyle co najdłuższe przechowywanie - inaczej zapisany cache
+ *   zniknąłby z pamięci, zanim ekran go użyje
  * - retry: 2 - próbuj 2 razy przy błędzie
  */
 export const queryClient = new QueryClient({
@@ -19,8 +79,8 @@ export const queryClient = new QueryClient({
 		queries: {
 			// Dane są "świeże" przez 5 minut
 			staleTime: 5 * 60 * 1000,
-			// Garbage collection po 10 minutach
-			gcTime: 10 * 60 * 1000,
+			// Garbage collection dopiero po czasie przechowywania na urządzeniu
+			gcTime: MAX_PERSIST_AGE,
 			// Retry 2 razy przy błędzie
 			retry: 2,
 			// Nie refetchuj przy focus window (oszczędność baterii)
@@ -31,9 +91,59 @@ export const queryClient = new QueryClient({
 		mutations: {
 			// Retry 1 raz przy mutacjach
 			retry: 1,
+			// Mutacje offline same decydują, czy zapisać zmianę w kolejce
+			networkMode: 'always',
 		},
 	},
 })
 
-export default queryClient
+// Bez internetu zapytania czekają (zostają dane z cache) zamiast kończyć się błędem
+onlineManager.setEventListener(setOnline => {
+	setOnline(getNetworkStatus())
+	return addNetworkListener(setOnline)
+})
+
+// ============================================
+// ZAPIS CACHE NA URZĄDZENIU
+// ============================================
+
+const asyncStoragePersister = createAsyncStoragePersister({
+	storage: AsyncStorage,
+	key: STORAGE_KEYS.QUERY_CACHE,
+	throttleTime: 1000,
+})
+
+/**
+ * Persister z odrzucaniem zapytań starszych niż ich czas przechowywania
+ */
+const queryPersister: Persister = {
+	persistClient: asyncStoragePersister.persistClient,
+	removeClient: asyncStoragePersister.removeClient,
+	restoreClient: async () => {
+		const client = await asyncStoragePersister.restoreClient()
+		if (!client) return client
 
+		return {
+			...client,
+			clientState: {
+				...client.clientState,
+				queries: client.clientState.queries.filter(isWithinMaxAge),
+			},
+		}
+	},
+}
+
+/**
+ * Opcje PersistQueryClientProvider
+ * buster - zmiana CACHE_VERSION (np. inny kształt danych) odrzuca zapisany cache
+ */
+export const persistOptions: Omit<PersistQueryClientOptions, 'queryClient'> = {
+	persister: queryPersister,
+	maxAge: MAX_PERSIST_AGE,
+	buster: String(CACHE_VERSION),
+	dehydrateOptions: {
+		shouldDehydrateQuery: query => defaultShouldDehydrateQuery(query) && isWithinMaxAge(query),
+	},
+}
+
+export default queryClient
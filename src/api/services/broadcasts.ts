@@ -0,0 +1,106 @@
+/**
+ * Serwis ogłoszeń trenera FitCoach
+ *
+ * Trener wysyła jedną wiadomość do wszystkich lub wybranych klientów.
+ * RPC send_broadcast rozsyła ją w jednej transakcji jako osobne wiadomości
+ * w rozmowach z klientami (messages.broadcast_id), push wysyła aplikacja.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import { messageKeys } from './messages'
+import { broadcastSchema, type BroadcastFormData } from '../../utils/validation'
+import type { Broadcast } from '../../types'
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Liczba ostatnich ogłoszeń pokazywanych trenerowi */
+const RECENT_BROADCASTS_LIMIT = 5
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const broadcastKeys = {
+	all: ['broadcasts'] as const,
+	recent: (trainerId: string) => [...broadcastKeys.all, 'recent', trainerId] as const,
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera ostatnie ogłoszenia trenera
+ */
+export async function getRecentBroadcasts(trainerId: string): Promise<Broadcast[]> {
+	const { data, error } = await supabase
+		.from('broadcasts')
+		.select('*')
+		.eq('trainer_id', trainerId)
+		.order('created_at', { ascending: false })
+		.limit(RECENT_BROADCASTS_LIMIT)
+
+	if (error) throw handleSupabaseError(error)
+	return (data || []) as Broadcast[]
+}
+
+/**
+ * Wysyła ogłoszenie do wybranych klientów (RPC send_broadcast)
+ */
+export async function sendBroadcast(input: BroadcastFormData): Promise<Broadcast> {
+	const validation = broadcastSchema.safeParse(input)
+	if (!validation.success) {
+		throw new Error(validation.error.issues[0]?.message || 'Nieprawidłowe ogłoszenie')
+	}
+
+	const { data, error } = await supabase.rpc('send_broadcast', {
+		p_content: validation.data.content,
+		p_client_ids: validation.data.client_ids,
+	})
+
+	if (error) throw handleSupabaseError(error)
+	return data as Broadcast
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania ostatnich ogłoszeń trenera
+ */
+export function useRecentBroadcasts(trainerId: string) {
+	return useQuery({
+		queryKey: broadcastKeys.recent(trainerId),
+		queryFn: () => getRecentBroadcasts(trainerId),
+		enabled: !!trainerId,
+	})
+}
+
+/**
+ * Hook do wysyłania ogłoszenia
+ */
+export function useSendBroadcast() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: sendBroadcast,
+		onSuccess: (broadcast) => {
+			queryClient.invalidateQueries({ queryKey: broadcastKeys.recent(broadcast.trainer_id) })
+			// Ogłoszenie trafia do rozmów z klientami
+			queryClient.invalidateQueries({ queryKey: messageKeys.all })
+		},
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getRecentBroadcasts,
+	sendBroadcast,
+}
@@ -74,6 +74,8 @@ export interface ClientTodayStatus {
 	status: TodayWorkoutStatus
 	workout_name?: string
 	completed_at?: string
+	/** Początek sesji (dla in_progress) */
+	started_at?: string
 }
 
 // ============================================
@@ -144,6 +146,7 @@ export async function getClientsWithStats(trainerId: string): Promise<ClientWith
 				.from('completed_workouts')
 				.select('*', { count: 'exact', head: true })
 				.eq('user_id', client.user_id)
+				.neq('status', 'in_progress')
 
 			// Liczba planów treningowych
 			const { count: plansCount } = await supabase
@@ -156,6 +159,7 @@ export async function getClientsWithStats(trainerId: string): Promise<ClientWith
 				.from('completed_workouts')
 				.select('completed_date')
 				.eq('user_id', client.user_id)
+				.neq('status', 'in_progress')
 				.order('completed_date', { ascending: false })
 				.limit(1)
 				.single()
@@ -234,6 +238,7 @@ export async function getClientDetails(clientId: string): Promise<ClientFullDeta
 		.from('completed_workouts')
 		.select('*')
 		.eq('user_id', clientWithData.user_id)
+		.neq('status', 'in_progress')
 		.order('completed_date', { ascending: false })
 		.limit(5)
 
@@ -247,17 +252,20 @@ export async function getClientDetails(clientId: string): Promise<ClientFullDeta
 		.from('completed_workouts')
 		.select('*', { count: 'exact', head: true })
 		.eq('user_id', clientWithData.user_id)
+		.neq('status', 'in_progress')
 
 	const { count: workoutsThisWeek } = await supabase
 		.from('completed_workouts')
 		.select('*', { count: 'exact', head: true })
 		.eq('user_id', clientWithData.user_id)
+		.neq('status', 'in_progress')
 		.gte('completed_date', startOfWeek.toISOString().split('T')[0])
 
 	const { count: workoutsThisMonth } = await supabase
 		.from('completed_workouts')
 		.select('*', { count: 'exact', head: true })
 		.eq('user_id', clientWithData.user_id)
+		.neq('status', 'in_progress')
 		.gte('completed_date', startOfMonth.toISOString().split('T')[0])
 
 	// Oblicz streak (uproszczona wersja)
@@ -339,7 +347,7 @@ export async function getClientsTodayStatus(trainerId: string): Promise<ClientTo
 				}
 			}
 
-			// Sprawdź czy ukończył trening
+			// Sprawdź czy ukończył (lub właśnie wykonuje) trening
 			const { data: completedWorkout } = await supabase
 				.from('completed_workouts')
 				.select('*')
@@ -348,6 +356,15 @@ export async function getClientsTodayStatus(trainerId: string): Promise<ClientTo
 				.eq('completed_date', today)
 				.single()
 
+			if (completedWorkout?.status === 'in_progress') {
+				return {
+					client,
+					status: 'in_progress' as TodayWorkoutStatus,
+					workout_name: todayWorkout.name || `Dzień ${dayOfWeek + 1}`,
+					started_at: completedWorkout.started_at || completedWorkout.created_at,
+				}
+			}
+
 			if (completedWorkout) {
 				return {
 					client,
@@ -365,7 +382,7 @@ export async function getClientsTodayStatus(trainerId: string): Promise<ClientTo
 		})
 	)
 
-	// Sortuj: najpierw ukończone, potem nierozpoczęte, potem reszta
+	// Sortuj: najpierw ukończone, potem w trakcie, potem nierozpoczęte, potem reszta
 	return statuses.sort((a, b) => {
 		const order = { completed: 0, in_progress: 1, not_started: 2, rest_day: 3, no_plan: 4 }
 		return order[a.status] - order[b.status]
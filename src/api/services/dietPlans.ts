@@ -0,0 +1,506 @@
+/**
+ * Serwis planów dietetycznych FitCoach
+ *
+ * Obsługuje CRUD planów dietetycznych z załącznikiem (PDF lub zdjęcie).
+ * Trener tworzy diety dla swoich klientów, klient widzi swoją aktywną dietę.
+ * Pliki trzymane są w prywatnym bucket "diet-files" - w kolumnie file_url
+ * zapisujemy ścieżkę w bucket, a do podglądu generujemy podpisany URL.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import * as FileSystem from 'expo-file-system/legacy'
+import { supabase, handleSupabaseError } from '../supabase'
+import type { DietPlan } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Typ załącznika diety
+ */
+export type DietFileType = 'pdf' | 'image'
+
+/**
+ * Dane do tworzenia planu dietetycznego
+ */
+export interface CreateDietPlanInput {
+	client_id: string
+	title: string
+	description?: string
+	start_date?: string // Format: YYYY-MM-DD
+	end_date?: string // Format: YYYY-MM-DD
+}
+
+/**
+ * Dane do aktualizacji planu dietetycznego
+ */
+export interface UpdateDietPlanInput {
+	title?: string
+	description?: string | null
+	start_date?: string | null
+	end_date?: string | null
+	is_active?: boolean
+}
+
+/**
+ * Lokalny plik do uploadu (z DocumentPicker lub ImagePicker)
+ */
+export interface DietFileInput {
+	/** URI lokalnego pliku */
+	uri: string
+	/** Nazwa pliku (opcjonalnie) */
+	name?: string
+	/** Typ MIME (opcjonalnie - wykrywany z rozszerzenia) */
+	mimeType?: string
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const DIET_BUCKET = 'diet-files'
+
+/** Maksymalny rozmiar pliku diety (zgodny z limitem bucket) */
+const MAX_DIET_FILE_SIZE_MB = 20
+
+/** Czas ważności podpisanego URL (w sekundach) */
+const SIGNED_URL_EXPIRES_IN = 60 * 60
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const dietPlanKeys = {
+	all: ['diet-plans'] as const,
+	lists: () => [...dietPlanKeys.all, 'list'] as const,
+	listByClient: (clientId: string) => [...dietPlanKeys.lists(), 'client', clientId] as const,
+	active: (clientId: string) => [...dietPlanKeys.all, 'active', clientId] as const,
+	details: () => [...dietPlanKeys.all, 'detail'] as const,
+	detail: (id: string) => [...dietPlanKeys.details(), id] as const,
+	fileUrl: (path: string) => [...dietPlanKeys.all, 'file-url', path] as const,
+}
+
+// ============================================
+// HELPERY - PLIKI
+// ============================================
+
+/**
+ * Określa typ załącznika na podstawie ścieżki lub typu MIME
+ */
+export function getDietFileType(pathOrMime: string): DietFileType {
+	const value = pathOrMime.toLowerCase()
+	if (value.endsWith('.pdf') || value === 'application/pdf') return 'pdf'
+	return 'image'
+}
+
+/**
+ * Zwraca rozszerzenie i content type dla pliku diety
+ */
+function resolveDietFileFormat(file: DietFileInput): { extension: string; contentType: string } {
+	const source = (file.mimeType || file.name || file.uri).toLowerCase()
+
+	if (source.includes('pdf')) {
+		return { extension: 'pdf', contentType: 'application/pdf' }
+	}
+	if (source.includes('png')) {
+		return { extension: 'png', contentType: 'image/png' }
+	}
+	return { extension: 'jpg', contentType: 'image/jpeg' }
+}
+
+/**
+ * Pobiera user_id (auth) klienta - foldery w Storage są po auth.uid()
+ */
+async function getClientUserId(clientId: string): Promise<string> {
+	const { data, error } = await supabase
+		.from('profiles')
+		.select('user_id')
+		.eq('id', clientId)
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	return data.user_id as string
+}
+
+/**
+ * Ustawia ścieżkę pliku w planie
+ */
+async function updateDietPlanFile(dietPlanId: string, path: string | null): Promise<DietPlan> {
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.update({ file_url: path })
+		.eq('id', dietPlanId)
+		.select()
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	return data as DietPlan
+}
+
+// ============================================
+// FUNKCJE API - PLANY DIETETYCZNE
+// ============================================
+
+/**
+ * Pobiera wszystkie plany dietetyczne klienta
+ */
+export async function getDietPlansByClient(clientId: string): Promise<DietPlan[]> {
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.select('*')
+		.eq('client_id', clientId)
+		.order('created_at', { ascending: false })
+
+	if (error) throw handleSupabaseError(error)
+	return data as DietPlan[]
+}
+
+/**
+ * Pobiera aktywny plan dietetyczny klienta
+ */
+export async function getActiveDietPlanForClient(clientId: string): Promise<DietPlan | null> {
+	const today = new Date().toISOString().split('T')[0]
+
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.select('*')
+		.eq('client_id', clientId)
+		.eq('is_active', true)
+		.or(`end_date.is.null,end_date.gte.${today}`)
+		.order('created_at', { ascending: false })
+		.limit(1)
+
+	if (error) throw handleSupabaseError(error)
+	return (data?.[0] as DietPlan) || null
+}
+
+/**
+ * Pobiera szczegóły planu dietetycznego
+ */
+export async function getDietPlanDetails(dietPlanId: string): Promise<DietPlan | null> {
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.select('*')
+		.eq('id', dietPlanId)
+		.single()
+
+	if (error) {
+		if (error.code === 'PGRST116') return null
+		throw handleSupabaseError(error)
+	}
+
+	return data as DietPlan
+}
+
+/**
+ * Tworzy nowy plan dietetyczny (opcjonalnie z załącznikiem)
+ */
+export async function createDietPlan(
+	trainerId: string,
+	input: CreateDietPlanInput,
+	file?: DietFileInput | null
+): Promise<DietPlan> {
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.insert({
+			trainer_id: trainerId,
+			client_id: input.client_id,
+			title: input.title,
+			description: input.description || null,
+			start_date: input.start_date || null,
+			end_date: input.end_date || null,
+			is_active: true,
+		})
+		.select()
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+
+	let dietPlan = data as DietPlan
+	if (file) {
+		try {
+			dietPlan = await uploadDietFile(dietPlan, file)
+		} catch (uploadError) {
+			// Bez załącznika nie zostawiaj nowej diety - poprzednia zostaje aktywna
+			await supabase.from('diet_plans').delete().eq('id', dietPlan.id)
+			throw uploadError
+		}
+	}
+
+	// Klient ma jedną aktywną dietę - dezaktywuj poprzednie dopiero po zapisie nowej z załącznikiem
+	const { error: deactivateError } = await supabase
+		.from('diet_plans')
+		.update({ is_active: false })
+		.eq('client_id', input.client_id)
+		.eq('is_active', true)
+		.neq('id', dietPlan.id)
+
+	if (deactivateError) throw handleSupabaseError(deactivateError)
+
+	return dietPlan
+}
+
+/**
+ * Aktualizuje plan dietetyczny
+ */
+export async function updateDietPlan(dietPlanId: string, input: UpdateDietPlanInput): Promise<DietPlan> {
+	const { data, error } = await supabase
+		.from('diet_plans')
+		.update(input)
+		.eq('id', dietPlanId)
+		.select()
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	return data as DietPlan
+}
+
+/**
+ * Dezaktywuje plan dietetyczny (klient przestaje go widzieć)
+ */
+export async function deactivateDietPlan(dietPlanId: string): Promise<DietPlan> {
+	return updateDietPlan(dietPlanId, { is_active: false })
+}
+
+// ============================================
+// FUNKCJE API - ZAŁĄCZNIKI
+// ============================================
+
+/**
+ * Uploaduje załącznik diety (PDF/zdjęcie) i zapisuje ścieżkę w planie
+ *
+ * Struktura: diet-files/{client_user_id}/{diet_plan_id}/plan.{ext}
+ * Poprzedni załącznik (jeśli inny) jest usuwany.
+ */
+export async function uploadDietFile(dietPlan: DietPlan, file: DietFileInput): Promise<DietPlan> {
+	const fileInfo = await FileSystem.getInfoAsync(file.uri)
+	if (!fileInfo.exists) {
+		throw {
+			message: 'Nie znaleziono wybranego pliku',
+			isAuthError: false,
+			isNetworkError: false,
+			originalError: new Error('File not found'),
+		}
+	}
+	if (fileInfo.size > MAX_DIET_FILE_SIZE_MB * 1024 * 1024) {
+		throw {
+			message: `Plik jest za duży (max ${MAX_DIET_FILE_SIZE_MB}MB)`,
+			isAuthError: false,
+			isNetworkError: false,
+			originalError: new Error('File too large'),
+		}
+	}
+
+	const clientUserId = await getClientUserId(dietPlan.client_id)
+	const { extension, contentType } = resolveDietFileFormat(file)
+	const path = `${clientUserId}/${dietPlan.id}/plan.${extension}`
+
+	// Odczytaj plik jako base64 i skonwertuj na bajty
+	const base64 = await FileSystem.readAsStringAsync(file.uri, {
+		encoding: FileSystem.EncodingType.Base64,
+	})
+	const binaryString = atob(base64)
+	const bytes = new Uint8Array(binaryString.length)
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i)
+	}
+
+	const { error: uploadError } = await supabase.storage
+		.from(DIET_BUCKET)
+		.upload(path, bytes, {
+			contentType,
+			upsert: true,
+		})
+
+	if (uploadError) throw handleSupabaseError(uploadError)
+
+	// Usuń stary plik jeśli zmieniło się rozszerzenie
+	if (dietPlan.file_url && dietPlan.file_url !== path) {
+		await supabase.storage.from(DIET_BUCKET).remove([dietPlan.file_url])
+	}
+
+	return updateDietPlanFile(dietPlan.id, path)
+}
+
+/**
+ * Usuwa załącznik diety
+ */
+export async function removeDietFile(dietPlan: DietPlan): Promise<DietPlan> {
+	if (dietPlan.file_url) {
+		const { error: removeError } = await supabase.storage.from(DIET_BUCKET).remove([dietPlan.file_url])
+		if (removeError) throw handleSupabaseError(removeError)
+	}
+
+	return updateDietPlanFile(dietPlan.id, null)
+}
+
+/**
+ * Generuje podpisany URL do załącznika (bucket jest prywatny)
+ */
+export async function getDietFileUrl(path: string): Promise<string> {
+	const { data, error } = await supabase.storage
+		.from(DIET_BUCKET)
+		.createSignedUrl(path, SIGNED_URL_EXPIRES_IN)
+
+	if (error) throw handleSupabaseError(error)
+	return data.signedUrl
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania planów dietetycznych klienta (dla trenera)
+ */
+export function useClientDietPlans(clientId: string) {
+	return useQuery({
+		queryKey: dietPlanKeys.listByClient(clientId),
+		queryFn: () => getDietPlansByClient(clientId),
+		enabled: !!clientId,
+	})
+}
+
+/**
+ * Hook do pobierania aktywnej diety klienta
+ */
+export function useActiveDietPlan(clientId: string) {
+	return useQuery({
+		queryKey: dietPlanKeys.active(clientId),
+		queryFn: () => getActiveDietPlanForClient(clientId),
+		enabled: !!clientId,
+	})
+}
+
+/**
+ * Hook do pobierania szczegółów planu dietetycznego
+ */
+export function useDietPlanDetails(dietPlanId: string) {
+	return useQuery({
+		queryKey: dietPlanKeys.detail(dietPlanId),
+		queryFn: () => getDietPlanDetails(dietPlanId),
+		enabled: !!dietPlanId,
+	})
+}
+
+/**
+ * Hook do pobierania podpisanego URL załącznika
+ */
+export function useDietFileUrl(path: string | null | undefined) {
+	return useQuery({
+		queryKey: dietPlanKeys.fileUrl(path || ''),
+		queryFn: () => getDietFileUrl(path as string),
+		enabled: !!path,
+		// Odśwież przed wygaśnięciem podpisu
+		staleTime: (SIGNED_URL_EXPIRES_IN - 5 * 60) * 1000,
+	})
+}
+
+/**
+ * Hook do tworzenia planu dietetycznego
+ */
+export function useCreateDietPlan() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({
+			trainerId,
+			input,
+			file,
+		}: {
+			trainerId: string
+			input: CreateDietPlanInput
+			file?: DietFileInput | null
+		}) => createDietPlan(trainerId, input, file),
+		onSuccess: (_, variables) => {
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.listByClient(variables.input.client_id) })
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.active(variables.input.client_id) })
+		},
+	})
+}
+
+/**
+ * Hook do aktualizacji planu dietetycznego
+ */
+export function useUpdateDietPlan() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ dietPlanId, input }: { dietPlanId: string; input: UpdateDietPlanInput }) =>
+			updateDietPlan(dietPlanId, input),
+		onSuccess: updatedPlan => {
+			queryClient.setQueryData(dietPlanKeys.detail(updatedPlan.id), updatedPlan)
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.listByClient(updatedPlan.client_id) })
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.active(updatedPlan.client_id) })
+		},
+	})
+}
+
+/**
+ * Hook do dezaktywacji planu dietetycznego
+ */
+export function useDeactivateDietPlan() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (dietPlanId: string) => deactivateDietPlan(dietPlanId),
+		onSuccess: updatedPlan => {
+			queryClient.setQueryData(dietPlanKeys.detail(updatedPlan.id), updatedPlan)
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.listByClient(updatedPlan.client_id) })
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.active(updatedPlan.client_id) })
+		},
+	})
+}
+
+/**
+ * Hook do uploadu załącznika diety
+ */
+export function useUploadDietFile() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ dietPlan, file }: { dietPlan: DietPlan; file: DietFileInput }) => uploadDietFile(dietPlan, file),
+		onSuccess: updatedPlan => {
+			queryClient.setQueryData(dietPlanKeys.detail(updatedPlan.id), updatedPlan)
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.listByClient(updatedPlan.client_id) })
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.active(updatedPlan.client_id) })
+			if (updatedPlan.file_url) {
+				queryClient.invalidateQueries({ queryKey: dietPlanKeys.fileUrl(updatedPlan.file_url) })
+			}
+		},
+	})
+}
+
+/**
+ * Hook do usuwania załącznika diety
+ */
+export function useRemoveDietFile() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (dietPlan: DietPlan) => removeDietFile(dietPlan),
+		onSuccess: updatedPlan => {
+			queryClient.setQueryData(dietPlanKeys.detail(updatedPlan.id), updatedPlan)
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.listByClient(updatedPlan.client_id) })
+			queryClient.invalidateQueries({ queryKey: dietPlanKeys.active(updatedPlan.client_id) })
+		},
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getDietPlansByClient,
+	getActiveDietPlanForClient,
+	getDietPlanDetails,
+	createDietPlan,
+	updateDietPlan,
+	deactivateDietPlan,
+	uploadDietFile,
+	removeDietFile,
+	getDietFileUrl,
+	getDietFileType,
+}
@@ -1,11 +1,13 @@
 /**
  * Serwis do zarządzania pomiarami klienta
  *
- * Obsługuje wagę, obwody ciała i inne metryki.
+ * Obsługuje wagę, obwody ciała i inne metryki oraz zdjęcia postępu.
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import * as FileSystem from 'expo-file-system/legacy'
 import { supabase, handleSupabaseError } from '../supabase'
+import type { ProgressPhoto, ProgressPhotoType } from '../../types'
 
 // ============================================
 // TYPY
@@ -56,6 +58,32 @@ export interface MeasurementStats {
 	measurementCount: number
 }
 
+/**
+ * Zdjęcie do uploadu (z aparatu lub galerii)
+ */
+export interface ProgressPhotoInput {
+	photo_type: ProgressPhotoType
+	/** URI lokalnego pliku */
+	uri: string
+}
+
+/**
+ * Zdjęcie postępu z datą pomiaru i podpisanym URL (bucket jest prywatny)
+ */
+export interface ProgressPhotoWithUrl extends ProgressPhoto {
+	measurement_date: string
+	signed_url: string
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const PHOTOS_BUCKET = 'progress-photos'
+
+/** Czas ważności podpisanego URL zdjęcia (w sekundach) */
+const PHOTO_URL_EXPIRES_IN = 60 * 60
+
 // ============================================
 // FUNKCJE API
 // ============================================
@@ -118,9 +146,18 @@ export async function updateMeasurement(measurementId: string, input: Partial<Me
 }
 
 /**
- * Usuń pomiar
+ * Usuń pomiar (razem z plikami zdjęć w Storage)
  */
 export async function deleteMeasurement(measurementId: string): Promise<void> {
+	const { data: photos } = await supabase
+		.from('progress_photos')
+		.select('photo_url')
+		.eq('measurement_id', measurementId)
+
+	if (photos && photos.length > 0) {
+		await supabase.storage.from(PHOTOS_BUCKET).remove(photos.map(photo => photo.photo_url))
+	}
+
 	const { error } = await supabase.from('measurements').delete().eq('id', measurementId)
 
 	if (error) throw handleSupabaseError(error)
@@ -153,6 +190,106 @@ export async function getMeasurementStats(userId: string): Promise<MeasurementSt
 	}
 }
 
+// ============================================
+// FUNKCJE API - ZDJĘCIA POSTĘPU
+// ============================================
+
+/**
+ * Uploaduje zdjęcia postępu i przypina je do pomiaru
+ *
+ * Struktura: progress-photos/{user_id}/{measurement_id}/{photo_type}.jpg
+ */
+export async function uploadProgressPhotos(
+	userId: string,
+	measurementId: string,
+	photos: ProgressPhotoInput[]
+): Promise<ProgressPhoto[]> {
+	const uploaded: ProgressPhoto[] = []
+
+	for (const photo of photos) {
+		const path = `${userId}/${measurementId}/${photo.photo_type}.jpg`
+
+		// Odczytaj plik jako base64 i skonwertuj na bajty
+		const base64 = await FileSystem.readAsStringAsync(photo.uri, {
+			encoding: FileSystem.EncodingType.Base64,
+		})
+		const binaryString = atob(base64)
+		const bytes = new Uint8Array(binaryString.length)
+		for (let i = 0; i < binaryString.length; i++) {
+			bytes[i] = binaryString.charCodeAt(i)
+		}
+
+		const { error: uploadError } = await supabase.storage
+			.from(PHOTOS_BUCKET)
+			.upload(path, bytes, { contentType: 'image/jpeg', upsert: true })
+
+		if (uploadError) throw handleSupabaseError(uploadError)
+
+		// Jedno zdjęcie danego typu na pomiar - ponowienie nadpisuje zamiast dublować
+		const { data, error } = await supabase
+			.from('progress_photos')
+			.upsert(
+				{
+					measurement_id: measurementId,
+					photo_url: path,
+					photo_type: photo.photo_type,
+				},
+				{ onConflict: 'measurement_id,photo_type' }
+			)
+			.select()
+			.single()
+
+		if (error) throw handleSupabaseError(error)
+		uploaded.push(data as ProgressPhoto)
+	}
+
+	return uploaded
+}
+
+/**
+ * Pobierz wszystkie zdjęcia postępu użytkownika (od najstarszych)
+ */
+export async function getProgressPhotos(userId: string): Promise<ProgressPhotoWithUrl[]> {
+	const { data, error } = await supabase
+		.from('progress_photos')
+		.select('*, measurement:measurements!inner(measurement_date, user_id)')
+		.eq('measurement.user_id', userId)
+
+	if (error) throw handleSupabaseError(error)
+	if (!data || data.length === 0) return []
+
+	// Wygeneruj podpisane URL jednym zapytaniem
+	const { data: signedUrls, error: urlError } = await supabase.storage
+		.from(PHOTOS_BUCKET)
+		.createSignedUrls(
+			data.map(photo => photo.photo_url),
+			PHOTO_URL_EXPIRES_IN
+		)
+
+	if (urlError) throw handleSupabaseError(urlError)
+
+	return data
+		.map(({ measurement, ...photo }, index) => ({
+			...(photo as ProgressPhoto),
+			measurement_date: measurement.measurement_date as string,
+			signed_url: signedUrls?.[index]?.signedUrl || '',
+		}))
+		.filter(photo => !!photo.signed_url)
+		.sort((a, b) => a.measurement_date.localeCompare(b.measurement_date))
+}
+
+/**
+ * Usuń pojedyncze zdjęcie postępu
+ */
+export async function deleteProgressPhoto(photo: ProgressPhoto): Promise<void> {
+	const { error: removeError } = await supabase.storage.from(PHOTOS_BUCKET).remove([photo.photo_url])
+	if (removeError) throw handleSupabaseError(removeError)
+
+	const { error } = await supabase.from('progress_photos').delete().eq('id', photo.id)
+
+	if (error) throw handleSupabaseError(error)
+}
+
 // ============================================
 // REACT QUERY HOOKS
 // ============================================
@@ -181,15 +318,38 @@ export function useMeasurementStats(userId: string) {
 	})
 }
 
+export function useProgressPhotos(userId: string) {
+	return useQuery({
+		queryKey: ['progress-photos', userId],
+		queryFn: () => getProgressPhotos(userId),
+		enabled: !!userId,
+	})
+}
+
 export function useAddMeasurement() {
 	const queryClient = useQueryClient()
 
 	return useMutation({
-		mutationFn: ({ userId, input }: { userId: string; input: MeasurementInput }) => addMeasurement(userId, input),
+		mutationFn: async ({
+			userId,
+			input,
+			photos,
+		}: {
+			userId: string
+			input: MeasurementInput
+			photos?: ProgressPhotoInput[]
+		}) => {
+			const measurement = await addMeasurement(userId, input)
+			if (photos && photos.length > 0) {
+				await uploadProgressPhotos(userId, measurement.id, photos)
+			}
+			return measurement
+		},
 		onSuccess: (_, { userId }) => {
 			queryClient.invalidateQueries({ queryKey: ['measurements', userId] })
 			queryClient.invalidateQueries({ queryKey: ['latest-measurement', userId] })
 			queryClient.invalidateQueries({ queryKey: ['measurement-stats', userId] })
+			queryClient.invalidateQueries({ queryKey: ['progress-photos', userId] })
 		},
 	})
 }
@@ -217,6 +377,18 @@ export function useDeleteMeasurement() {
 			queryClient.invalidateQueries({ queryKey: ['measurements'] })
 			queryClient.invalidateQueries({ queryKey: ['latest-measurement'] })
 			queryClient.invalidateQueries({ queryKey: ['measurement-stats'] })
+			queryClient.invalidateQueries({ queryKey: ['progress-photos'] })
+		},
+	})
+}
+
+export function useDeleteProgressPhoto() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (photo: ProgressPhoto) => deleteProgressPhoto(photo),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['progress-photos'] })
 		},
 	})
 }
@@ -1,10 +1,34 @@
 /**
  * Serwis wiadomości - zarządzanie chatem i nieprzeczytanymi wiadomościami
+ *
+ * Czat działa na realtime Supabase (nowe wiadomości i potwierdzenia przeczytania),
+ * historia ładowana jest stronami od najnowszych wiadomości.
+ * Załączniki (zdjęcia, video, pliki) trzymane są w prywatnym bucket "chat-attachments"
+ * w folderze {sender_id}/{receiver_id} - do podglądu generujemy podpisany URL.
+ * Offline wiadomości tekstowe trafiają do kolejki (SEND_MESSAGE) z ID nadanym
+ * w aplikacji, a ostatnia strona rozmowy jest czytana z cache.
  */
 
-import { useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+	useQuery,
+	useInfiniteQuery,
+	useMutation,
+	useQueryClient,
+	type InfiniteData,
+} from '@tanstack/react-query'
 import { useEffect } from 'react'
-import { supabase, handleSupabaseError } from '../supabase'
+import { supabase, handleSupabaseError, type ProcessedError } from '../supabase'
+import { offlineQueue } from '../../services/offline/offlineQueue'
+import { getNetworkStatus } from '../../services/offline/networkStatus'
+import { queryClient } from '../queryClient'
+import {
+	uploadFileToStorage,
+	generateThumbnail,
+	getVideoFileSize,
+	type UploadProgress,
+} from '../../utils/videoCompression'
+import { messageSchema, type MessageAttachmentData } from '../../utils/validation'
+import type { Message, MessageAttachmentType } from '../../types'
 
 // ============================================
 // TYPY
@@ -15,6 +39,91 @@ export interface UnreadCount {
 	bySender: Record<string, number>
 }
 
+/**
+ * Wiadomość w czacie - isPending dla wysłanej optymistycznie, jeszcze niepotwierdzonej
+ */
+export interface ChatMessage extends Message {
+	isPending?: boolean
+	/** Lokalny URI załącznika wysyłanej wiadomości (podgląd przed uploadem) */
+	localAttachmentUri?: string
+}
+
+/**
+ * Lokalny plik do wysłania w czacie (z ImagePicker lub DocumentPicker)
+ */
+export interface ChatAttachmentInput {
+	/** URI lokalnego pliku */
+	uri: string
+	type: MessageAttachmentType
+	/** Nazwa pliku (opcjonalnie) */
+	name?: string
+	/** Typ MIME (opcjonalnie - wykrywany z rozszerzenia) */
+	mimeType?: string
+}
+
+/**
+ * Wiadomość do zapisu - ID nadawane w aplikacji, więc ponowny zapis jest bezpieczny
+ */
+export interface OutgoingMessage {
+	id: string
+	sender_id: string
+	receiver_id: string
+	content: string
+	attachment?: MessageAttachmentData
+}
+
+/**
+ * Dane wysyłanej wiadomości
+ */
+export interface SendMessageInput {
+	/** ID nadane w aplikacji (generateUUID) - to samo w cache, kolejce i bazie */
+	id: string
+	content: string
+	attachment?: ChatAttachmentInput
+	/** Postęp uploadu załącznika */
+	onUploadProgress?: (progress: UploadProgress) => void
+}
+
+/**
+ * Pozycja w historii czatu - najstarsza wiadomość strony
+ * (id rozstrzyga kolejność wiadomości z tym samym created_at)
+ */
+export interface MessagesCursor {
+	created_at: string
+	id: string
+}
+
+/**
+ * Strona historii czatu (wiadomości od najnowszej)
+ */
+export interface MessagesPage {
+	messages: ChatMessage[]
+	/** Najstarsza wiadomość strony - null gdy to początek rozmowy */
+	nextCursor: MessagesCursor | null
+}
+
+type ConversationData = InfiniteData<MessagesPage, MessagesCursor | null>
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const MESSAGES_PAGE_SIZE = 30
+
+const CHAT_BUCKET = 'chat-attachments'
+
+/** Maksymalny rozmiar załącznika (zgodny z limitem bucket) */
+export const MAX_CHAT_ATTACHMENT_SIZE_MB = 50
+
+/** Czas ważności podpisanego URL (w sekundach) */
+const SIGNED_URL_EXPIRES_IN = 60 * 60
+
+const ATTACHMENT_PREVIEWS: Record<MessageAttachmentType, string> = {
+	image: '📷 Zdjęcie',
+	video: '🎬 Film',
+	file: '📎 Plik',
+}
+
 // ============================================
 // KLUCZE QUERY
 // ============================================
@@ -22,6 +131,133 @@ export interface UnreadCount {
 export const messageKeys = {
 	all: ['messages'] as const,
 	unreadCount: (userId: string) => [...messageKeys.all, 'unread', userId] as const,
+	conversations: (profileId: string) => [...messageKeys.all, 'conversations', profileId] as const,
+	conversation: (profileId: string, recipientId: string) =>
+		[...messageKeys.all, 'conversation', profileId, recipientId] as const,
+	attachmentUrl: (path: string) => [...messageKeys.all, 'attachment-url', path] as const,
+}
+
+// ============================================
+// HELPERY - ZAŁĄCZNIKI
+// ============================================
+
+/**
+ * Tekst wiadomości do podglądu (lista rozmów, powiadomienia)
+ * Wiadomość bez tekstu opisujemy typem załącznika
+ */
+export function getMessagePreview(
+	message: Pick<Message, 'content' | 'attachment_type' | 'attachment_name'>
+): string {
+	if (message.content.trim()) return message.content
+	if (!message.attachment_type) return ''
+	if (message.attachment_type === 'file' && message.attachment_name) return `📎 ${message.attachment_name}`
+	return ATTACHMENT_PREVIEWS[message.attachment_type]
+}
+
+/**
+ * Zwraca rozszerzenie i content type załącznika
+ */
+function resolveAttachmentFormat(file: ChatAttachmentInput): { extension: string; contentType: string } {
+	const nameExtension = (file.name || file.uri).split('?')[0].split('.').pop()?.toLowerCase()
+
+	if (file.type === 'image') {
+		if (nameExtension === 'png') return { extension: 'png', contentType: 'image/png' }
+		return { extension: 'jpg', contentType: file.mimeType || 'image/jpeg' }
+	}
+	if (file.type === 'video') {
+		if (nameExtension === 'mov') return { extension: 'mov', contentType: 'video/quicktime' }
+		return { extension: 'mp4', contentType: 'video/mp4' }
+	}
+	return {
+		extension: nameExtension && nameExtension.length <= 5 ? nameExtension : 'bin',
+		contentType: file.mimeType || 'application/octet-stream',
+	}
+}
+
+// ============================================
+// HELPERY CACHE
+// ============================================
+
+/**
+ * Wstawia lub podmienia wiadomość w historii czatu
+ * replaceId - tymczasowe ID wiadomości optymistycznej zastępowanej przez zapisaną
+ */
+function upsertMessage(
+	data: ConversationData | undefined,
+	message: ChatMessage,
+	replaceId?: string
+): ConversationData | undefined {
+	if (!data || data.pages.length === 0) return data
+
+	// Realtime może dostarczyć zapisaną wiadomość zanim wróci odpowiedź insertu - zostaw jedną kopię
+	let found = false
+	const pages = data.pages.map(page => ({
+		...page,
+		messages: page.messages.flatMap(existing => {
+			if (existing.id !== message.id && existing.id !== replaceId) return [existing]
+			if (found) return []
+			found = true
+			return [message]
+		}),
+	}))
+
+	if (found) return { ...data, pages }
+
+	const [first, ...rest] = pages
+	return { ...data, pages: [{ ...first, messages: [message, ...first.messages] }, ...rest] }
+}
+
+function removeMessage(data: ConversationData | undefined, messageId: string): ConversationData | undefined {
+	if (!data) return data
+
+	return {
+		...data,
+		pages: data.pages.map(page => ({
+			...page,
+			messages: page.messages.filter(message => message.id !== messageId),
+		})),
+	}
+}
+
+function markReadInCache(data: ConversationData | undefined, messageIds: string[], readAt: string) {
+	if (!data) return data
+
+	return {
+		...data,
+		pages: data.pages.map(page => ({
+			...page,
+			messages: page.messages.map(message =>
+				messageIds.includes(message.id) ? { ...message, is_read: true, read_at: readAt } : message
+			),
+		})),
+	}
+}
+
+/**
+ * Wiadomości rozmowy czekające w kolejce offline (pokazywane jako wysyłane)
+ */
+function getQueuedMessages(profileId: string, recipientId: string): ChatMessage[] {
+	return offlineQueue
+		.getQueue()
+		.filter(operation => {
+			if (operation.type !== 'SEND_MESSAGE') return false
+			const message = operation.data as OutgoingMessage
+			return message.sender_id === profileId && message.receiver_id === recipientId
+		})
+		.map(operation => {
+			const message = operation.data as OutgoingMessage
+			return {
+				id: message.id,
+				sender_id: message.sender_id,
+				receiver_id: message.receiver_id,
+				content: message.content,
+				is_read: false,
+				read_at: null,
+				created_at: new Date(operation.timestamp).toISOString(),
+				isPending: true,
+			}
+		})
+		.reverse()
 }
 
 // ============================================
@@ -52,6 +288,204 @@ export async function getUnreadMessagesCount(profileId: string): Promise<UnreadC
 	return { total, bySender }
 }
 
+/**
+ * Pobiera stronę historii czatu (od najnowszych, przed cursorem)
+ */
+export async function getMessagesPage(
+	profileId: string,
+	recipientId: string,
+	cursor: MessagesCursor | null
+): Promise<MessagesPage> {
+	// Starsze niż kursor wg (created_at, id) - wiadomości z tym samym created_at nie giną między stronami
+	const beforeCursor = cursor
+		? `,or(created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id}))`
+		: ''
+
+	const { data, error } = await supabase
+		.from('messages')
+		.select('*')
+		.or(`and(sender_id.eq.${profileId},receiver_id.eq.${recipientId}${beforeCursor}),and(sender_id.eq.${recipientId},receiver_id.eq.${profileId}${beforeCursor})`)
+		.order('created_at', { ascending: false })
+		.order('id', { ascending: false })
+		.limit(MESSAGES_PAGE_SIZE)
+
+	if (error) throw handleSupabaseError(error)
+
+	const messages = (data || []) as Message[]
+	const oldest = messages[messages.length - 1]
+	return {
+		messages,
+		nextCursor: messages.length === MESSAGES_PAGE_SIZE ? { created_at: oldest.created_at, id: oldest.id } : null,
+	}
+}
+
+/**
+ * Pobiera stronę rozmowy z obsługą offline
+ *
+ * Bez internetu zostaje najnowsza strona z cache zapytań (zapisanego na urządzeniu),
+ * a wiadomości z kolejki offline są doklejane jako wysyłane.
+ * Starsze strony ładujemy tylko online.
+ */
+export async function getConversationPage(
+	profileId: string,
+	recipientId: string,
+	cursor: MessagesCursor | null
+): Promise<MessagesPage> {
+	if (cursor) return getMessagesPage(profileId, recipientId, cursor)
+
+	let page: MessagesPage | null = null
+	if (getNetworkStatus()) {
+		try {
+			page = await getMessagesPage(profileId, recipientId, null)
+		} catch (error) {
+			if (!(error as ProcessedError).isNetworkError) throw error
+			console.warn('[Messages] Brak połączenia, używam cache rozmowy')
+		}
+	}
+
+	if (!page) {
+		const cached = queryClient.getQueryData<ConversationData>(messageKeys.conversation(profileId, recipientId))
+		page = { messages: cached?.pages[0]?.messages || [], nextCursor: null }
+	}
+
+	const savedIds = new Set(page.messages.map(message => message.id))
+	const queued = getQueuedMessages(profileId, recipientId).filter(message => !savedIds.has(message.id))
+
+	return { ...page, messages: [...queued, ...page.messages] }
+}
+
+/**
+ * Uploaduje załącznik czatu (i miniaturkę dla video)
+ *
+ * Struktura: chat-attachments/{sender_id}/{receiver_id}/{timestamp}.{ext}
+ */
+export async function uploadChatAttachment(
+	senderId: string,
+	receiverId: string,
+	file: ChatAttachmentInput,
+	onProgress?: (progress: UploadProgress) => void
+): Promise<MessageAttachmentData> {
+	let size: number
+	try {
+		size = await getVideoFileSize(file.uri)
+	} catch (error) {
+		throw {
+			message: 'Nie znaleziono wybranego pliku',
+			isAuthError: false,
+			isNetworkError: false,
+			originalError: error as Error,
+		}
+	}
+	if (size > MAX_CHAT_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+		throw {
+			message: `Plik jest za duży (max ${MAX_CHAT_ATTACHMENT_SIZE_MB}MB)`,
+			isAuthError: false,
+			isNetworkError: false,
+			originalError: new Error('File too large'),
+		}
+	}
+
+	const { extension, contentType } = resolveAttachmentFormat(file)
+	const basePath = `${senderId}/${receiverId}/${Date.now()}`
+
+	try {
+		const path = await uploadFileToStorage(CHAT_BUCKET, file.uri, `${basePath}.${extension}`, contentType, onProgress)
+
+		// Miniaturka video - bez niej wiadomość pokaże ikonę zamiast podglądu
+		let thumbnailPath: string | undefined
+		if (file.type === 'video') {
+			try {
+				const thumbnailUri = await generateThumbnail(file.uri)
+				thumbnailPath = await uploadFileToStorage(CHAT_BUCKET, thumbnailUri, `${basePath}_thumbnail.jpg`, 'image/jpeg')
+			} catch (error) {
+				console.warn('Nie udało się przygotować miniaturki załącznika:', error)
+			}
+		}
+
+		return {
+			attachment_type: file.type,
+			attachment_path: path,
+			attachment_thumbnail_path: thumbnailPath,
+			attachment_size: size,
+			attachment_name: file.name,
+		}
+	} catch (error) {
+		throw handleSupabaseError(error)
+	}
+}
+
+/**
+ * Usuwa przesłane pliki załącznika, do którego nie powstała wiadomość
+ */
+async function removeChatAttachment(attachment: MessageAttachmentData): Promise<void> {
+	const paths = [attachment.attachment_path, attachment.attachment_thumbnail_path]
+		.filter((path): path is string => !!path)
+
+	const { error } = await supabase.storage.from(CHAT_BUCKET).remove(paths)
+	if (error) console.warn('Nie udało się usunąć załącznika bez wiadomości:', error)
+}
+
+/**
+ * Generuje podpisany URL do załącznika (bucket jest prywatny)
+ */
+export async function getChatAttachmentUrl(path: string): Promise<string> {
+	const { data, error } = await supabase.storage
+		.from(CHAT_BUCKET)
+		.createSignedUrl(path, SIGNED_URL_EXPIRES_IN)
+
+	if (error) throw handleSupabaseError(error)
+	return data.signedUrl
+}
+
+/**
+ * Wysyła wiadomość (tekst i/lub przesłany wcześniej załącznik)
+ *
+ * Idempotentne - ponowny zapis wiadomości o tym samym ID (np. z kolejki offline
+ * po zerwanym połączeniu) nie tworzy duplikatu, tylko zwraca zapisaną wiadomość.
+ */
+export async function sendMessage({ attachment, ...message }: OutgoingMessage): Promise<Message> {
+	const validation = messageSchema.safeParse({
+		receiver_id: message.receiver_id,
+		content: message.content,
+		attachment,
+	})
+	if (!validation.success) {
+		throw new Error(validation.error.issues[0]?.message || 'Nieprawidłowa wiadomość')
+	}
+
+	const { data, error } = await supabase
+		.from('messages')
+		.upsert({ ...message, ...attachment }, { onConflict: 'id', ignoreDuplicates: true })
+		.select()
+
+	if (error) throw handleSupabaseError(error)
+	if (data && data.length > 0) return data[0] as Message
+
+	// Wiadomość była już zapisana - pobierz istniejącą
+	const { data: existing, error: fetchError } = await supabase
+		.from('messages')
+		.select('*')
+		.eq('id', message.id)
+		.single()
+
+	if (fetchError) throw handleSupabaseError(fetchError)
+	return existing as Message
+}
+
+/**
+ * Oznacza wiadomości jako przeczytane (nadawca dostaje potwierdzenie przez realtime)
+ */
+export async function markMessagesAsRead(messageIds: string[], readAt: string): Promise<void> {
+	if (messageIds.length === 0) return
+
+	const { error } = await supabase
+		.from('messages')
+		.update({ is_read: true, read_at: readAt })
+		.in('id', messageIds)
+
+	if (error) throw handleSupabaseError(error)
+}
+
 // ============================================
 // REACT QUERY HOOKS
 // ============================================
@@ -69,6 +503,225 @@ export function useUnreadMessages(profileId: string | undefined) {
 	})
 }
 
+/**
+ * Hook do historii czatu ze stronicowaniem (kolejne strony = starsze wiadomości)
+ */
+export function useConversationMessages(profileId: string | undefined, recipientId: string | undefined) {
+	return useInfiniteQuery({
+		queryKey: messageKeys.conversation(profileId || '', recipientId || ''),
+		queryFn: ({ pageParam }) => getConversationPage(profileId!, recipientId!, pageParam),
+		initialPageParam: null as MessagesCursor | null,
+		getNextPageParam: (lastPage) => lastPage.nextCursor,
+		enabled: !!profileId && !!recipientId,
+	})
+}
+
+/**
+ * Hook do pobierania podpisanego URL załącznika
+ */
+export function useChatAttachmentUrl(path: string | null | undefined) {
+	return useQuery({
+		queryKey: messageKeys.attachmentUrl(path || ''),
+		queryFn: () => getChatAttachmentUrl(path as string),
+		enabled: !!path,
+		// Odśwież przed wygaśnięciem podpisu
+		staleTime: (SIGNED_URL_EXPIRES_IN - 5 * 60) * 1000,
+		// Na urządzeniu tylko do wygaśnięcia podpisu
+		meta: { persistMaxAge: SIGNED_URL_EXPIRES_IN * 1000 },
+	})
+}
+
+/**
+ * Hook do wysyłania wiadomości z optymistycznym dodaniem do historii
+ * Załącznik jest najpierw uploadowany, wiadomość zapisuje się po zakończeniu uploadu
+ * (odrzucony zapis wiadomości usuwa przesłane pliki).
+ * Bez internetu wiadomość tekstowa trafia do kolejki offline i zostaje jako wysyłana.
+ * Powiadomienie odbiorcy tworzy trigger w bazie (push-outbox.sql) po zapisie wiadomości.
+ * userId - auth uid nadawcy (właściciel operacji w kolejce offline)
+ */
+export function useSendMessage(userId: string, profileId: string, recipientId: string) {
+	const queryClient = useQueryClient()
+	const queryKey = messageKeys.conversation(profileId, recipientId)
+
+	return useMutation({
+		mutationFn: async ({ id, content, attachment, onUploadProgress }: SendMessageInput): Promise<ChatMessage> => {
+			const message: OutgoingMessage = { id, sender_id: profileId, receiver_id: recipientId, content }
+
+			if (attachment) {
+				if (!getNetworkStatus()) {
+					throw new Error('Załączniki można wysyłać tylko z dostępem do internetu')
+				}
+				const uploaded = await uploadChatAttachment(profileId, recipientId, attachment, onUploadProgress)
+				try {
+					return await sendMessage({ ...message, attachment: uploaded })
+				} catch (error) {
+					// Przy zerwanym połączeniu wiadomość mogła się zapisać - pliki zostają
+					if (!(error as ProcessedError).isNetworkError) await removeChatAttachment(uploaded)
+					throw error
+				}
+			}
+
+			const queueMessage = (): ChatMessage => {
+				offlineQueue.addToQueue('SEND_MESSAGE', message, userId)
+				return { ...message, is_read: false, read_at: null, created_at: new Date().toISOString(), isPending: true }
+			}
+
+			if (!getNetworkStatus()) return queueMessage()
+
+			try {
+				return await sendMessage(message)
+			} catch (error) {
+				// Połączenie zerwane w trakcie - dokończ przez kolejkę (ten sam ID, bez duplikatu)
+				if ((error as ProcessedError).isNetworkError) return queueMessage()
+				throw error
+			}
+		},
+		onMutate: async ({ id, content, attachment }) => {
+			await queryClient.cancelQueries({ queryKey })
+
+			const tempMessage: ChatMessage = {
+				id,
+				sender_id: profileId,
+				receiver_id: recipientId,
+				content,
+				attachment_type: attachment?.type || null,
+				attachment_name: attachment?.name || null,
+				is_read: false,
+				read_at: null,
+				created_at: new Date().toISOString(),
+				isPending: true,
+				localAttachmentUri: attachment?.uri,
+			}
+			queryClient.setQueryData<ConversationData>(queryKey, data => upsertMessage(data, tempMessage))
+
+			return { tempId: tempMessage.id }
+		},
+		onSuccess: (message, _, context) => {
+			queryClient.setQueryData<ConversationData>(queryKey, data => upsertMessage(data, message, context?.tempId))
+			queryClient.invalidateQueries({ queryKey: messageKeys.conversations(profileId) })
+		},
+		onError: (_, __, context) => {
+			if (context) queryClient.setQueryData<ConversationData>(queryKey, data => removeMessage(data, context.tempId))
+		},
+	})
+}
+
+/**
+ * Hook do oznaczania wiadomości rozmówcy jako przeczytane
+ */
+export function useMarkMessagesAsRead(profileId: string, recipientId: string) {
+	const queryClient = useQueryClient()
+
+	const queryKey = messageKeys.conversation(profileId, recipientId)
+
+	return useMutation({
+		mutationFn: ({ messageIds, readAt }: { messageIds: string[]; readAt: string }) =>
+			markMessagesAsRead(messageIds, readAt),
+		onMutate: async ({ messageIds, readAt }) => {
+			await queryClient.cancelQueries({ queryKey })
+
+			const previous = queryClient.getQueryData<ConversationData>(queryKey)
+			queryClient.setQueryData<ConversationData>(queryKey, data => markReadInCache(data, messageIds, readAt))
+
+			return { previous }
+		},
+		onError: (_, __, context) => {
+			// Zapis się nie udał - przywróć nieprzeczytane, żeby ponowić przy kolejnym wejściu
+			if (context?.previous) queryClient.setQueryData<ConversationData>(queryKey, context.previous)
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: messageKeys.unreadCount(profileId) })
+			queryClient.invalidateQueries({ queryKey: messageKeys.conversations(profileId) })
+		},
+	})
+}
+
+/**
+ * Hook do subskrypcji real-time czatu z jednym rozmówcą
+ * Nowe wiadomości i potwierdzenia przeczytania trafiają prosto do cache historii
+ */
+export function useConversationSubscription(profileId: string | undefined, recipientId: string | undefined) {
+	const queryClient = useQueryClient()
+
+	useEffect(() => {
+		if (!profileId || !recipientId) return
+
+		const queryKey = messageKeys.conversation(profileId, recipientId)
+
+		const applyChange = (message: Partial<Message>) => {
+			const belongsToConversation =
+				(message.sender_id === recipientId && message.receiver_id === profileId) ||
+				(message.sender_id === profileId && message.receiver_id === recipientId)
+			if (!message.id || !belongsToConversation) return
+
+			queryClient.setQueryData<ConversationData>(queryKey, data => upsertMessage(data, message as Message))
+		}
+
+		const channel = supabase
+			.channel(`chat:${profileId}:${recipientId}`)
+			// Wiadomości od rozmówcy
+			.on(
+				'postgres_changes',
+				{
+					event: 'INSERT',
+					schema: 'public',
+					table: 'messages',
+					filter: `receiver_id=eq.${profileId}`,
+				},
+				(payload) => applyChange(payload.new as Partial<Message>)
+			)
+			// Własne wiadomości (inne urządzenia) i potwierdzenia ich przeczytania
+			.on(
+				'postgres_changes',
+				{
+					event: '*',
+					schema: 'public',
+					table: 'messages',
+					filter: `sender_id=eq.${profileId}`,
+				},
+				(payload) => applyChange(payload.new as Partial<Message>)
+			)
+			.subscribe()
+
+		return () => {
+			supabase.removeChannel(channel)
+		}
+	}, [profileId, recipientId, queryClient])
+}
+
+/**
+ * Hook do subskrypcji real-time listy konwersacji
+ */
+export function useConversationsSubscription(profileId: string | undefined) {
+	const queryClient = useQueryClient()
+
+	useEffect(() => {
+		if (!profileId) return
+
+		const invalidate = () => {
+			queryClient.invalidateQueries({ queryKey: messageKeys.conversations(profileId) })
+		}
+
+		const channel = supabase
+			.channel(`conversations:${profileId}`)
+			.on(
+				'postgres_changes',
+				{ event: '*', schema: 'public', table: 'messages', filter: `receiver_id=eq.${profileId}` },
+				invalidate
+			)
+			.on(
+				'postgres_changes',
+				{ event: 'INSERT', schema: 'public', table: 'messages', filter: `sender_id=eq.${profileId}` },
+				invalidate
+			)
+			.subscribe()
+
+		return () => {
+			supabase.removeChannel(channel)
+		}
+	}, [profileId, queryClient])
+}
+
 /**
  * Hook do subskrypcji real-time nowych wiadomości
  */
@@ -0,0 +1,199 @@
+/**
+ * Serwis centrum powiadomień FitCoach
+ *
+ * Skrzynka powiadomień w aplikacji oparta o tabelę notifications.
+ * Wpisy tworzy notifyUser (src/services/notifications.ts), tutaj tylko
+ * odczyt, oznaczanie jako przeczytane i subskrypcja nowych wpisów.
+ * Powiadomienia są przypięte do auth uid (notifications.user_id).
+ */
+
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import type { Notification } from '../../types'
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Ile ostatnich powiadomień pokazuje skrzynka */
+const NOTIFICATIONS_LIMIT = 100
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const notificationKeys = {
+	all: ['notifications'] as const,
+	list: (userId: string) => [...notificationKeys.all, 'list', userId] as const,
+	unreadCount: (userId: string) => [...notificationKeys.all, 'unread', userId] as const,
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera ostatnie powiadomienia użytkownika (od najnowszych)
+ */
+export async function getNotifications(userId: string): Promise<Notification[]> {
+	const { data, error } = await supabase
+		.from('notifications')
+		.select('*')
+		.eq('user_id', userId)
+		.order('created_at', { ascending: false })
+		.limit(NOTIFICATIONS_LIMIT)
+
+	if (error) throw handleSupabaseError(error)
+	return (data || []) as Notification[]
+}
+
+/**
+ * Pobiera liczbę nieprzeczytanych powiadomień
+ */
+export async function getUnreadNotificationsCount(userId: string): Promise<number> {
+	const { count, error } = await supabase
+		.from('notifications')
+		.select('id', { count: 'exact', head: true })
+		.eq('user_id', userId)
+		.eq('is_read', false)
+
+	if (error) throw handleSupabaseError(error)
+	return count || 0
+}
+
+/**
+ * Oznacza wybrane powiadomienia jako przeczytane
+ */
+export async function markNotificationsAsRead(notificationIds: string[]): Promise<void> {
+	if (notificationIds.length === 0) return
+
+	const { error } = await supabase
+		.from('notifications')
+		.update({ is_read: true, read_at: new Date().toISOString() })
+		.in('id', notificationIds)
+
+	if (error) throw handleSupabaseError(error)
+}
+
+/**
+ * Oznacza wszystkie powiadomienia użytkownika jako przeczytane
+ */
+export async function markAllNotificationsAsRead(userId: string): Promise<void> {
+	const { error } = await supabase
+		.from('notifications')
+		.update({ is_read: true, read_at: new Date().toISOString() })
+		.eq('user_id', userId)
+		.eq('is_read', false)
+
+	if (error) throw handleSupabaseError(error)
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania powiadomień
+ */
+export function useNotifications(userId: string | undefined) {
+	return useQuery({
+		queryKey: notificationKeys.list(userId || ''),
+		queryFn: () => getNotifications(userId!),
+		enabled: !!userId,
+	})
+}
+
+/**
+ * Hook do pobierania liczby nieprzeczytanych powiadomień
+ */
+export function useUnreadNotificationsCount(userId: string | undefined) {
+	return useQuery({
+		queryKey: notificationKeys.unreadCount(userId || ''),
+		queryFn: () => getUnreadNotificationsCount(userId!),
+		enabled: !!userId,
+	})
+}
+
+/**
+ * Hook do oznaczania powiadomień jako przeczytane
+ * Lista zmienia się od razu, licznik odświeża się po zapisie
+ */
+export function useMarkNotificationsAsRead(userId: string) {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (notificationIds: string[]) => {
+			const ids = new Set(notificationIds)
+			queryClient.setQueryData<Notification[]>(notificationKeys.list(userId), notifications =>
+				notifications?.map(notification => (ids.has(notification.id) ? { ...notification, is_read: true } : notification))
+			)
+			return markNotificationsAsRead(notificationIds)
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+		},
+	})
+}
+
+/**
+ * Hook do oznaczania wszystkich powiadomień jako przeczytane
+ */
+export function useMarkAllNotificationsAsRead(userId: string) {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: () => {
+			queryClient.setQueryData<Notification[]>(notificationKeys.list(userId), notifications =>
+				notifications?.map(notification => ({ ...notification, is_read: true }))
+			)
+			queryClient.setQueryData(notificationKeys.unreadCount(userId), 0)
+			return markAllNotificationsAsRead(userId)
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+		},
+	})
+}
+
+/**
+ * Hook do subskrypcji nowych powiadomień w czasie rzeczywistym
+ */
+export function useNotificationsSubscription(userId: string | undefined) {
+	const queryClient = useQueryClient()
+
+	useEffect(() => {
+		if (!userId) return
+
+		const channel = supabase
+			.channel(`notifications:${userId}`)
+			.on(
+				'postgres_changes',
+				{
+					event: 'INSERT',
+					schema: 'public',
+					table: 'notifications',
+					filter: `user_id=eq.${userId}`,
+				},
+				() => {
+					queryClient.invalidateQueries({ queryKey: notificationKeys.all })
+				}
+			)
+			.subscribe()
+
+		return () => {
+			supabase.removeChannel(channel)
+		}
+	}, [userId, queryClient])
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getNotifications,
+	getUnreadNotificationsCount,
+	markNotificationsAsRead,
+	markAllNotificationsAsRead,
+}
@@ -0,0 +1,187 @@
+/**
+ * Serwis preferencji powiadomień FitCoach
+ *
+ * Jeden wiersz notification_preferences na użytkownika (auth uid).
+ * Brak wiersza = ustawienia domyślne (wszystko włączone, bez ciszy nocnej).
+ * Decyzję o wysyłce push podejmuje funkcja should_send_push w bazie.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import type { NotificationPreferences, NotificationCategory } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Zmiana preferencji (bez pól systemowych)
+ */
+export type NotificationPreferencesUpdate = Partial<
+	Omit<NotificationPreferences, 'user_id' | 'timezone' | 'created_at' | 'updated_at'>
+>
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id' | 'created_at' | 'updated_at'> = {
+	push_enabled: true,
+	email_enabled: true,
+	categories: {},
+	quiet_hours_enabled: false,
+	quiet_hours_start: '22:00:00',
+	quiet_hours_end: '07:00:00',
+	reminder_time: '08:00:00',
+	timezone: 'Europe/Warsaw',
+}
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const notificationPreferencesKeys = {
+	all: ['notification-preferences'] as const,
+	detail: (userId: string) => [...notificationPreferencesKeys.all, userId] as const,
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Strefa czasowa urządzenia (IANA), np. Europe/Warsaw
+ */
+export function getDeviceTimezone(): string {
+	try {
+		return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_NOTIFICATION_PREFERENCES.timezone
+	} catch {
+		return DEFAULT_NOTIFICATION_PREFERENCES.timezone
+	}
+}
+
+/**
+ * Czy kategoria jest włączona (brak klucza = włączona)
+ */
+export function isCategoryEnabled(preferences: Pick<NotificationPreferences, 'categories'>, category: NotificationCategory) {
+	return preferences.categories[category] !== false
+}
+
+/**
+ * Godzina z pola TIME (HH:MM:SS)
+ */
+export function getTimeHour(time: string): number {
+	return parseInt(time.split(':')[0], 10) || 0
+}
+
+/**
+ * Pole TIME (HH:MM:SS) z pełnej godziny
+ */
+export function hourToTime(hour: number): string {
+	return `${String(((hour % 24) + 24) % 24).padStart(2, '0')}:00:00`
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera preferencje powiadomień użytkownika (lub domyślne)
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+	const { data, error } = await supabase
+		.from('notification_preferences')
+		.select('*')
+		.eq('user_id', userId)
+		.maybeSingle()
+
+	if (error) throw handleSupabaseError(error)
+
+	return (data as NotificationPreferences) || {
+		...DEFAULT_NOTIFICATION_PREFERENCES,
+		user_id: userId,
+		created_at: '',
+		updated_at: '',
+	}
+}
+
+/**
+ * Zapisuje preferencje powiadomień
+ * Strefa czasowa jest zawsze brana z urządzenia, żeby cisza nocna działała po zmianie strefy
+ */
+export async function updateNotificationPreferences(
+	userId: string,
+	update: NotificationPreferencesUpdate
+): Promise<NotificationPreferences> {
+	const { data, error } = await supabase
+		.from('notification_preferences')
+		.upsert({ ...update, user_id: userId, timezone: getDeviceTimezone() }, { onConflict: 'user_id' })
+		.select()
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	return data as NotificationPreferences
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania preferencji powiadomień
+ */
+export function useNotificationPreferences(userId: string | undefined) {
+	return useQuery({
+		queryKey: notificationPreferencesKeys.detail(userId || ''),
+		queryFn: () => getNotificationPreferences(userId!),
+		enabled: !!userId,
+	})
+}
+
+/**
+ * Hook do zmiany preferencji powiadomień
+ * Przełącznik zmienia się od razu, przy błędzie wraca do poprzedniej wartości
+ */
+export function useUpdateNotificationPreferences(userId: string) {
+	const queryClient = useQueryClient()
+	const queryKey = notificationPreferencesKeys.detail(userId)
+
+	return useMutation({
+		mutationFn: (update: NotificationPreferencesUpdate) => {
+			// Kategorie to jeden JSONB - zapisujemy pełny obiekt, nie tylko zmieniony klucz
+			const current = queryClient.getQueryData<NotificationPreferences>(queryKey)
+			return updateNotificationPreferences(
+				userId,
+				update.categories ? { ...update, categories: { ...current?.categories, ...update.categories } } : update
+			)
+		},
+		onMutate: async (update) => {
+			await queryClient.cancelQueries({ queryKey })
+			const previous = queryClient.getQueryData<NotificationPreferences>(queryKey)
+			if (previous) {
+				queryClient.setQueryData<NotificationPreferences>(queryKey, {
+					...previous,
+					...update,
+					categories: { ...previous.categories, ...update.categories },
+				})
+			}
+			return { previous }
+		},
+		onError: (_error, _update, context) => {
+			if (context?.previous) queryClient.setQueryData(queryKey, context.previous)
+		},
+		onSuccess: (preferences) => {
+			queryClient.setQueryData(queryKey, preferences)
+		},
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getNotificationPreferences,
+	updateNotificationPreferences,
+	getDeviceTimezone,
+}
@@ -0,0 +1,526 @@
+/**
+ * Serwis szablonów programów FitCoach
+ *
+ * Trener buduje wielotygodniowy program (mezocykl): dni i ćwiczenia są wspólne
+ * dla wszystkich tygodni, a serie/powtórzenia/ciężar ustawiane są per tydzień.
+ * Przypisanie szablonu do klienta tworzy kolejne tygodniowe training_plans.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import {
+	savePlans,
+	getPlanDetails,
+	getWeekDates,
+	planKeys,
+} from './trainingPlans'
+import type {
+	ProgramTemplate,
+	ProgramTemplateDay,
+	ProgramTemplateExercise,
+	ProgramTemplateExerciseWeek,
+	TrainingPlan,
+	Exercise,
+	ExerciseGroupType,
+} from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Szablon z liczbą dni (dla listy)
+ */
+export interface ProgramTemplateSummary extends ProgramTemplate {
+	program_template_days: Pick<ProgramTemplateDay, 'id' | 'is_rest_day'>[]
+}
+
+/**
+ * Szablon z dniami, ćwiczeniami i parametrami tygodni
+ */
+export interface ProgramTemplateWithDetails extends ProgramTemplate {
+	program_template_days: TemplateDayWithExercises[]
+}
+
+/**
+ * Dzień szablonu z ćwiczeniami
+ */
+export interface TemplateDayWithExercises extends ProgramTemplateDay {
+	program_template_exercises: TemplateExerciseWithDetails[]
+}
+
+/**
+ * Ćwiczenie szablonu ze szczegółami i parametrami tygodni
+ */
+export interface TemplateExerciseWithDetails extends ProgramTemplateExercise {
+	exercise: Exercise
+	program_template_exercise_weeks: ProgramTemplateExerciseWeek[]
+}
+
+/**
+ * Parametry ćwiczenia w danym tygodniu
+ */
+export interface TemplateWeekInput {
+	week_number: number
+	sets: number
+	reps: string
+	weight_kg?: number
+}
+
+/**
+ * Ćwiczenie szablonu do zapisu
+ */
+export interface TemplateExerciseInput {
+	exercise_id: string
+	order_index: number
+	rest_seconds?: number
+	notes?: string
+	/** Grupa (superseria/obwód) - wszystkie trzy pola razem albo żadne */
+	group_id?: string
+	group_type?: ExerciseGroupType
+	group_rounds?: number
+	weeks: TemplateWeekInput[]
+}
+
+/**
+ * Dzień szablonu do zapisu
+ */
+export interface TemplateDayInput {
+	day_of_week: number // 0 = poniedziałek, 6 = niedziela
+	name?: string
+	is_rest_day?: boolean
+	exercises: TemplateExerciseInput[]
+}
+
+/**
+ * Dane do tworzenia/aktualizacji szablonu (cała struktura)
+ */
+export interface SaveTemplateInput {
+	name: string
+	description?: string
+	weeks_count: number
+	days: TemplateDayInput[]
+	/** Plan źródłowy (tylko przy tworzeniu z planu) */
+	source_plan_id?: string
+}
+
+/**
+ * Dane do zapisania planu jako szablonu
+ */
+export interface CreateTemplateFromPlanInput {
+	name: string
+	description?: string
+}
+
+/**
+ * Dane do przypisania szablonu klientowi
+ */
+export interface AssignTemplateInput {
+	client_id: string
+	start_date: string // Format: YYYY-MM-DD (dowolny dzień tygodnia startowego)
+}
+
+/**
+ * Wynik przypisania szablonu jednemu klientowi (przypisanie zbiorcze)
+ */
+export interface AssignTemplateResult {
+	client_id: string
+	plans: TrainingPlan[]
+	error?: string
+}
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const templateKeys = {
+	all: ['program-templates'] as const,
+	lists: () => [...templateKeys.all, 'list'] as const,
+	listByTrainer: (trainerId: string) => [...templateKeys.lists(), 'trainer', trainerId] as const,
+	details: () => [...templateKeys.all, 'detail'] as const,
+	detail: (id: string) => [...templateKeys.details(), id] as const,
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Przesuwa datę (YYYY-MM-DD) o podaną liczbę dni
+ */
+function addDays(date: string, days: number): string {
+	const d = new Date(date)
+	d.setDate(d.getDate() + days)
+	return d.toISOString().split('T')[0]
+}
+
+/**
+ * Zwraca parametry ćwiczenia dla tygodnia
+ * Brak wpisu dla tygodnia = parametry z najbliższego wcześniejszego tygodnia
+ */
+export function getTemplateWeekParams(
+	weeks: Pick<ProgramTemplateExerciseWeek, 'week_number' | 'sets' | 'reps' | 'weight_kg'>[],
+	weekNumber: number
+): { sets: number; reps: string; weight_kg: number | null } | null {
+	const sorted = [...weeks].sort((a, b) => a.week_number - b.week_number)
+	const match = sorted.filter(w => w.week_number <= weekNumber).pop() || sorted[0]
+	if (!match) return null
+
+	return { sets: match.sets, reps: match.reps, weight_kg: match.weight_kg }
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera szablony trenera
+ */
+export async function getTemplatesByTrainer(trainerId: string): Promise<ProgramTemplateSummary[]> {
+	const { data, error } = await supabase
+		.from('program_templates')
+		.select('*, program_template_days (id, is_rest_day)')
+		.eq('trainer_id', trainerId)
+		.order('updated_at', { ascending: false })
+
+	if (error) throw handleSupabaseError(error)
+	return data as ProgramTemplateSummary[]
+}
+
+/**
+ * Pobiera szablon z pełną strukturą
+ */
+export async function getTemplateDetails(templateId: string): Promise<ProgramTemplateWithDetails | null> {
+	const { data, error } = await supabase
+		.from('program_templates')
+		.select(`
+			*,
+			program_template_days (
+				*,
+				program_template_exercises (
+					*,
+					exercise:exercises (*),
+					program_template_exercise_weeks (*)
+				)
+			)
+		`)
+		.eq('id', templateId)
+		.single()
+
+	if (error) {
+		if (error.code === 'PGRST116') return null
+		throw handleSupabaseError(error)
+	}
+
+	// Posortuj dni, ćwiczenia i tygodnie
+	const template = data as ProgramTemplateWithDetails
+	template.program_template_days.sort((a, b) => a.day_of_week - b.day_of_week)
+	template.program_template_days.forEach(day => {
+		day.program_template_exercises.sort((a, b) => a.order_index - b.order_index)
+		day.program_template_exercises.forEach(exercise => {
+			exercise.program_template_exercise_weeks.sort((a, b) => a.week_number - b.week_number)
+		})
+	})
+
+	return template
+}
+
+/**
+ * Zapisuje szablon z całą strukturą (RPC save_template - jedna transakcja)
+ * templateId - edycja istniejącego szablonu (struktura dni zastępowana w całości)
+ */
+async function saveTemplate(input: SaveTemplateInput, templateId?: string): Promise<ProgramTemplate> {
+	const { data, error } = await supabase.rpc('save_template', {
+		p_template: { ...input, id: templateId ?? null },
+	})
+
+	if (error) throw handleSupabaseError(error)
+	return data as ProgramTemplate
+}
+
+/**
+ * Tworzy nowy szablon programu (trenerem jest zalogowany profil)
+ */
+export async function createTemplate(input: SaveTemplateInput): Promise<ProgramTemplate> {
+	return saveTemplate(input)
+}
+
+/**
+ * Zapisuje tygodniowy plan jako szablon (1 tydzień)
+ */
+export async function createTemplateFromPlan(
+	planId: string,
+	input: CreateTemplateFromPlanInput
+): Promise<ProgramTemplate> {
+	const plan = await getPlanDetails(planId)
+	if (!plan) throw new Error('Plan nie został znaleziony')
+
+	return createTemplate({
+		name: input.name,
+		description: input.description,
+		weeks_count: 1,
+		source_plan_id: plan.id,
+		days: (plan.workout_days || []).map(day => ({
+			day_of_week: day.day_of_week,
+			name: day.name || undefined,
+			is_rest_day: day.is_rest_day,
+			exercises: (day.workout_exercises || []).map(exercise => ({
+				exercise_id: exercise.exercise_id,
+				order_index: exercise.order_index,
+				rest_seconds: exercise.rest_seconds,
+				notes: exercise.notes || undefined,
+				group_id: exercise.group_id || undefined,
+				group_type: exercise.group_type || undefined,
+				group_rounds: exercise.group_rounds || undefined,
+				weeks: [{
+					week_number: 1,
+					sets: exercise.sets,
+					reps: exercise.reps,
+					weight_kg: exercise.weight_kg || undefined,
+				}],
+			})),
+		})),
+	})
+}
+
+/**
+ * Aktualizuje szablon - nagłówek i zastępuje całą strukturę dni
+ */
+export async function updateTemplate(templateId: string, input: SaveTemplateInput): Promise<ProgramTemplate> {
+	return saveTemplate(input, templateId)
+}
+
+/**
+ * Usuwa szablon
+ */
+export async function deleteTemplate(templateId: string): Promise<void> {
+	const { error } = await supabase
+		.from('program_templates')
+		.delete()
+		.eq('id', templateId)
+
+	if (error) throw handleSupabaseError(error)
+}
+
+/**
+ * Tworzy tygodniowe plany klienta na podstawie pobranego szablonu
+ * Tydzień 1 zaczyna się w poniedziałek tygodnia zawierającego start_date.
+ * Wszystkie tygodnie zapisywane w jednej transakcji (save_plans) - błąd
+ * nie zostawia połowy programu ani klienta bez dotychczasowego planu.
+ */
+async function materializeTemplate(
+	template: ProgramTemplateWithDetails,
+	input: AssignTemplateInput
+): Promise<TrainingPlan[]> {
+	const { weekStart } = getWeekDates(new Date(input.start_date))
+
+	const weeks = Array.from({ length: template.weeks_count }, (_, i) => i + 1)
+	return savePlans(weeks.map(week => {
+		const planWeekStart = addDays(weekStart, (week - 1) * 7)
+
+		return {
+			client_id: input.client_id,
+			week_start: planWeekStart,
+			week_end: addDays(planWeekStart, 6),
+			trainer_notes: template.weeks_count > 1
+				? `${template.name} - tydzień ${week}/${template.weeks_count}`
+				: template.name,
+			days: template.program_template_days.map(day => ({
+				day_of_week: day.day_of_week,
+				name: day.name || undefined,
+				is_rest_day: day.is_rest_day,
+				order_index: day.order_index,
+				exercises: day.program_template_exercises.flatMap(exercise => {
+					const params = getTemplateWeekParams(exercise.program_template_exercise_weeks, week)
+					if (!params) return []
+
+					return [{
+						exercise_id: exercise.exercise_id,
+						order_index: exercise.order_index,
+						sets: params.sets,
+						reps: params.reps,
+						weight_kg: params.weight_kg || undefined,
+						rest_seconds: exercise.rest_seconds,
+						notes: exercise.notes || undefined,
+						group_id: exercise.group_id || undefined,
+						group_type: exercise.group_type || undefined,
+						group_rounds: exercise.group_rounds || undefined,
+					}]
+				}),
+			})),
+		}
+	}))
+}
+
+/**
+ * Przypisuje szablon klientowi - tworzy plan na każdy tydzień programu
+ */
+export async function assignTemplateToClient(
+	templateId: string,
+	input: AssignTemplateInput
+): Promise<TrainingPlan[]> {
+	const template = await getTemplateDetails(templateId)
+	if (!template) throw new Error('Szablon nie został znaleziony')
+
+	return materializeTemplate(template, input)
+}
+
+/**
+ * Przypisuje szablon wielu klientom (każdy z własnym tygodniem startowym)
+ * Błąd u jednego klienta nie przerywa pozostałych - zwracany jest w wyniku
+ */
+export async function assignTemplateToClients(
+	templateId: string,
+	inputs: AssignTemplateInput[]
+): Promise<AssignTemplateResult[]> {
+	const template = await getTemplateDetails(templateId)
+	if (!template) throw new Error('Szablon nie został znaleziony')
+
+	const results: AssignTemplateResult[] = []
+
+	for (const input of inputs) {
+		try {
+			const plans = await materializeTemplate(template, input)
+			results.push({ client_id: input.client_id, plans })
+		} catch (error: any) {
+			results.push({
+				client_id: input.client_id,
+				plans: [],
+				error: error?.message || 'Nie udało się przypisać szablonu',
+			})
+		}
+	}
+
+	return results
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania szablonów trenera
+ */
+export function useTrainerTemplates(trainerId: string) {
+	return useQuery({
+		queryKey: templateKeys.listByTrainer(trainerId),
+		queryFn: () => getTemplatesByTrainer(trainerId),
+		enabled: !!trainerId,
+	})
+}
+
+/**
+ * Hook do pobierania szczegółów szablonu
+ */
+export function useTemplateDetails(templateId: string | undefined) {
+	return useQuery({
+		queryKey: templateKeys.detail(templateId || ''),
+		queryFn: () => getTemplateDetails(templateId!),
+		enabled: !!templateId,
+	})
+}
+
+/**
+ * Hook do tworzenia szablonu
+ */
+export function useCreateTemplate() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (input: SaveTemplateInput) => createTemplate(input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: templateKeys.lists() })
+		},
+	})
+}
+
+/**
+ * Hook do zapisania planu jako szablonu
+ */
+export function useCreateTemplateFromPlan() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ planId, input }: { planId: string; input: CreateTemplateFromPlanInput }) =>
+			createTemplateFromPlan(planId, input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: templateKeys.lists() })
+		},
+	})
+}
+
+/**
+ * Hook do aktualizacji szablonu
+ */
+export function useUpdateTemplate() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ templateId, input }: { templateId: string; input: SaveTemplateInput }) =>
+			updateTemplate(templateId, input),
+		onSuccess: (template) => {
+			queryClient.invalidateQueries({ queryKey: templateKeys.detail(template.id) })
+			queryClient.invalidateQueries({ queryKey: templateKeys.lists() })
+		},
+	})
+}
+
+/**
+ * Hook do usuwania szablonu
+ */
+export function useDeleteTemplate() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (templateId: string) => deleteTemplate(templateId),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: templateKeys.all })
+		},
+	})
+}
+
+/**
+ * Hook do przypisania szablonu klientowi
+ */
+export function useAssignTemplate() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ templateId, input }: { templateId: string; input: AssignTemplateInput }) =>
+			assignTemplateToClient(templateId, input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: planKeys.all })
+		},
+	})
+}
+
+/**
+ * Hook do przypisania szablonu wielu klientom
+ */
+export function useAssignTemplateToClients() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: ({ templateId, inputs }: { templateId: string; inputs: AssignTemplateInput[] }) =>
+			assignTemplateToClients(templateId, inputs),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: planKeys.all })
+		},
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getTemplatesByTrainer,
+	getTemplateDetails,
+	createTemplate,
+	createTemplateFromPlan,
+	updateTemplate,
+	deleteTemplate,
+	assignTemplateToClient,
+	assignTemplateToClients,
+	getTemplateWeekParams,
+}
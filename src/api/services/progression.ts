@@ -0,0 +1,309 @@
+/**
+ * Serwis progresji obciążeń FitCoach
+ *
+ * Na podstawie wykonania z poprzedniego tygodnia (completed_exercises + completed_sets)
+ * proponuje ciężar/powtórzenia na kolejny tydzień. Reguły:
+ * - liniowa: wszystkie powtórzenia wykonane → +X kg (lub +1 powtórzenie bez ciężaru)
+ * - deload: niewykonane powtórzenia → -X% ciężaru
+ * - RPE: ciężar korygowany o różnicę między średnim a docelowym RPE
+ * Propozycje są tylko sugestią - trener zatwierdza je w EditPlanScreen.
+ */
+
+import { useQuery, skipToken } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import { getPlanDetails, type WorkoutExerciseWithDetails } from './trainingPlans'
+import type { CompletedExercise, CompletedSet, CompletedWorkout } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Główna reguła progresji
+ */
+export type ProgressionMode = 'linear' | 'rpe'
+
+/**
+ * Konfiguracja reguł progresji
+ */
+export interface ProgressionSettings {
+	mode: ProgressionMode
+	/** Przyrost ciężaru przy wykonaniu wszystkich powtórzeń (kg) */
+	linearIncrementKg: number
+	/** Docelowe RPE (tryb rpe) */
+	targetRpe: number
+	/** Zmiana ciężaru na każdy punkt różnicy RPE (%) */
+	rpeStepPercent: number
+	/** Czy obniżać ciężar po niewykonanych powtórzeniach */
+	deloadEnabled: boolean
+	/** Wielkość deloadu (%) */
+	deloadPercent: number
+}
+
+/**
+ * Powód propozycji
+ */
+export type ProgressionReason = 'linear' | 'deload' | 'rpe_up' | 'rpe_down' | 'hold' | 'no_data'
+
+/**
+ * Propozycja zmiany jednego ćwiczenia
+ */
+export interface ProgressionSuggestion {
+	/** ID ćwiczenia w planie źródłowym */
+	source_workout_exercise_id: string
+	exercise_id: string
+	exercise_name: string
+	day_of_week: number
+	order_index: number
+	current: { sets: number; reps: string; weight_kg: number | null }
+	suggested: { reps: string; weight_kg: number | null }
+	reason: ProgressionReason
+	/** Opis dla trenera (np. "Wykonano 3/3 serii, śr. RPE 7") */
+	summary: string
+}
+
+/**
+ * Wykonanie ćwiczenia w poprzednim tygodniu
+ */
+interface ExercisePerformance {
+	is_completed: boolean
+	sets: Pick<CompletedSet, 'reps' | 'weight_kg' | 'rpe'>[]
+}
+
+/**
+ * Wykonanie ćwiczenia z seriami i datą treningu (wiersz zapytania getPlanPerformance)
+ */
+interface PerformanceRow extends Pick<
+	CompletedExercise,
+	'workout_exercise_id' | 'is_completed' | 'actual_sets' | 'actual_reps' | 'actual_weight_kg'
+> {
+	completed_sets: Pick<CompletedSet, 'set_number' | 'reps' | 'weight_kg' | 'rpe'>[] | null
+	completed_workout: Pick<CompletedWorkout, 'status' | 'completed_date'> | null
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const DEFAULT_PROGRESSION_SETTINGS: ProgressionSettings = {
+	mode: 'linear',
+	linearIncrementKg: 2.5,
+	targetRpe: 8,
+	rpeStepPercent: 2.5,
+	deloadEnabled: true,
+	deloadPercent: 10,
+}
+
+/** Najmniejszy krok obciążenia (talerze 2 × 0.25 kg) */
+const WEIGHT_ROUNDING_KG = 0.5
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const progressionKeys = {
+	all: ['progression'] as const,
+	suggestions: (planId: string, settings: ProgressionSettings) =>
+		[...progressionKeys.all, 'suggestions', planId, settings] as const,
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+function roundWeight(weight: number): number {
+	return Math.max(0, Math.round(weight / WEIGHT_ROUNDING_KG) * WEIGHT_ROUNDING_KG)
+}
+
+/**
+ * Rozbiera zapis powtórzeń ("10" lub "8-12") na dolną i górną granicę
+ */
+export function parseRepsTarget(reps: string): { min: number; max: number } | null {
+	const match = reps.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/)
+	if (!match) return null
+
+	const min = parseInt(match[1], 10)
+	const max = match[2] ? parseInt(match[2], 10) : min
+	return { min: Math.min(min, max), max: Math.max(min, max) }
+}
+
+/**
+ * Oblicza propozycję dla jednego ćwiczenia (czysta funkcja)
+ */
+export function calculateProgression(
+	exercise: WorkoutExerciseWithDetails,
+	performance: ExercisePerformance | undefined,
+	settings: ProgressionSettings
+): Pick<ProgressionSuggestion, 'suggested' | 'reason' | 'summary'> {
+	const current = { reps: exercise.reps, weight_kg: exercise.weight_kg }
+
+	if (!performance || performance.sets.length === 0) {
+		return { suggested: current, reason: 'no_data', summary: 'Brak danych z poprzedniego tygodnia' }
+	}
+
+	const target = parseRepsTarget(exercise.reps)
+	const doneSets = performance.sets.length
+	const missedSets = doneSets < exercise.sets
+	const missedReps = !!target && performance.sets.some(set => set.reps !== null && set.reps < target.min)
+
+	const rpeValues = performance.sets.map(set => set.rpe).filter((rpe): rpe is number => rpe !== null)
+	const avgRpe = rpeValues.length > 0 ? rpeValues.reduce((sum, rpe) => sum + rpe, 0) / rpeValues.length : null
+
+	const summaryParts = [`Wykonano ${doneSets}/${exercise.sets} serii`]
+	if (avgRpe !== null) summaryParts.push(`śr. RPE ${avgRpe.toFixed(1)}`)
+	const summary = summaryParts.join(', ')
+
+	// Deload po niewykonanych powtórzeniach/seriach
+	if (missedSets || missedReps) {
+		if (settings.deloadEnabled && current.weight_kg) {
+			return {
+				suggested: { ...current, weight_kg: roundWeight(current.weight_kg * (1 - settings.deloadPercent / 100)) },
+				reason: 'deload',
+				summary,
+			}
+		}
+		return { suggested: current, reason: 'hold', summary }
+	}
+
+	// RPE: korekta proporcjonalna do różnicy od docelowego RPE
+	if (settings.mode === 'rpe' && avgRpe !== null && current.weight_kg) {
+		const diff = settings.targetRpe - avgRpe
+		if (Math.abs(diff) < 0.5) return { suggested: current, reason: 'hold', summary }
+
+		const weight = roundWeight(current.weight_kg * (1 + (diff * settings.rpeStepPercent) / 100))
+		return {
+			suggested: { ...current, weight_kg: weight },
+			reason: diff > 0 ? 'rpe_up' : 'rpe_down',
+			summary,
+		}
+	}
+
+	// Liniowa: +kg, a bez ciężaru +1 powtórzenie (tylko dla stałej liczby powtórzeń)
+	if (current.weight_kg) {
+		return {
+			suggested: { ...current, weight_kg: roundWeight(current.weight_kg + settings.linearIncrementKg) },
+			reason: 'linear',
+			summary,
+		}
+	}
+	if (target && target.min === target.max) {
+		return { suggested: { ...current, reps: String(target.max + 1) }, reason: 'linear', summary }
+	}
+
+	return { suggested: current, reason: 'hold', summary }
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera wykonanie ćwiczeń planu (ostatnie wykonanie każdego ćwiczenia)
+ */
+async function getPlanPerformance(workoutExerciseIds: string[]): Promise<Map<string, ExercisePerformance>> {
+	const performance = new Map<string, ExercisePerformance>()
+	if (workoutExerciseIds.length === 0) return performance
+
+	const { data, error } = await supabase
+		.from('completed_exercises')
+		.select(`
+			workout_exercise_id,
+			is_completed,
+			actual_sets,
+			actual_reps,
+			actual_weight_kg,
+			completed_sets (set_number, reps, weight_kg, rpe),
+			completed_workout:completed_workouts!inner (status, completed_date)
+		`)
+		.in('workout_exercise_id', workoutExerciseIds)
+		.neq('completed_workout.status', 'in_progress')
+
+	if (error) throw handleSupabaseError(error)
+
+	const rows: PerformanceRow[] = (data || []).map(({ completed_workout, ...row }) => ({
+		...row,
+		// Relacja do jednego wiersza - typy klienta widzą w niej tablicę
+		completed_workout: Array.isArray(completed_workout) ? completed_workout[0] ?? null : completed_workout,
+	}))
+
+	// Najnowsze wykonania najpierw
+	rows.sort((a, b) =>
+		String(b.completed_workout?.completed_date).localeCompare(String(a.completed_workout?.completed_date))
+	)
+
+	for (const row of rows) {
+		// Pierwszy wiersz = najnowsze wykonanie
+		if (performance.has(row.workout_exercise_id)) continue
+
+		let sets: ExercisePerformance['sets'] = (row.completed_sets || [])
+			.sort((a, b) => a.set_number - b.set_number)
+			.map(set => ({
+				reps: set.reps,
+				weight_kg: set.weight_kg,
+				rpe: set.rpe,
+			}))
+
+		// Starsze zapisy bez completed_sets - odtwórz z podsumowania ("8/8/6" lub "10")
+		if (sets.length === 0 && row.actual_sets) {
+			const repsParts = String(row.actual_reps || '').split('/')
+			sets = Array.from({ length: row.actual_sets }, (_, i) => {
+				const reps = parseInt(repsParts[i] ?? repsParts[0], 10)
+				return { reps: isNaN(reps) ? null : reps, weight_kg: row.actual_weight_kg, rpe: null }
+			})
+		}
+
+		performance.set(row.workout_exercise_id, { is_completed: row.is_completed, sets })
+	}
+
+	return performance
+}
+
+/**
+ * Generuje propozycje progresji dla planu (plan = poprzedni tydzień)
+ */
+export async function getProgressionSuggestions(
+	planId: string,
+	settings: ProgressionSettings
+): Promise<ProgressionSuggestion[]> {
+	const plan = await getPlanDetails(planId)
+	if (!plan) throw new Error('Plan nie został znaleziony')
+
+	const exercises = (plan.workout_days || []).flatMap(day =>
+		day.is_rest_day ? [] : (day.workout_exercises || []).map(exercise => ({ day, exercise }))
+	)
+	const performance = await getPlanPerformance(exercises.map(({ exercise }) => exercise.id))
+
+	return exercises.map(({ day, exercise }) => ({
+		source_workout_exercise_id: exercise.id,
+		exercise_id: exercise.exercise_id,
+		exercise_name: exercise.exercise?.name || 'Ćwiczenie',
+		day_of_week: day.day_of_week,
+		order_index: exercise.order_index,
+		current: { sets: exercise.sets, reps: exercise.reps, weight_kg: exercise.weight_kg },
+		...calculateProgression(exercise, performance.get(exercise.id), settings),
+	}))
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania propozycji progresji
+ */
+export function useProgressionSuggestions(planId: string | undefined, settings: ProgressionSettings) {
+	return useQuery({
+		queryKey: progressionKeys.suggestions(planId || '', settings),
+		queryFn: planId ? () => getProgressionSuggestions(planId, settings) : skipToken,
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	parseRepsTarget,
+	calculateProgression,
+	getProgressionSuggestions,
+}
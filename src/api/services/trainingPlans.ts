@@ -7,11 +7,15 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase, handleSupabaseError } from '../supabase'
+import { savePlanSchema } from '../../utils/validation'
+import { offlineQueue, remapIds } from '../../services/offline/offlineQueue'
+import { hasPendingPlanEdits } from '../../services/offline/planEdits'
 import type {
 	TrainingPlan,
 	WorkoutDay,
 	WorkoutExercise,
 	Exercise,
+	ExerciseGroupType,
 } from '../../types'
 
 // ============================================
@@ -96,6 +100,10 @@ export interface AddExerciseToWorkoutInput {
 	weight_kg?: number
 	rest_seconds?: number
 	notes?: string
+	/** Grupa (superseria/obwód) */
+	group_id?: string | null
+	group_type?: ExerciseGroupType | null
+	group_rounds?: number | null
 }
 
 /**
@@ -104,10 +112,56 @@ export interface AddExerciseToWorkoutInput {
 export interface UpdateWorkoutExerciseInput {
 	sets?: number
 	reps?: string
-	weight_kg?: number
+	weight_kg?: number | null
 	rest_seconds?: number
-	notes?: string
+	notes?: string | null
 	order_index?: number
+	group_id?: string | null
+	group_type?: ExerciseGroupType | null
+	group_rounds?: number | null
+}
+
+/**
+ * Ćwiczenie w zapisie planu (bez id = nowe)
+ */
+export interface SavePlanExerciseInput {
+	id?: string
+	exercise_id: string
+	order_index: number
+	sets: number
+	reps: string
+	weight_kg?: number
+	rest_seconds: number
+	notes?: string
+	/** Grupa (superseria/obwód) - wszystkie trzy pola razem albo żadne */
+	group_id?: string
+	group_type?: ExerciseGroupType
+	group_rounds?: number
+}
+
+/**
+ * Dzień w zapisie planu (bez id = nowy)
+ */
+export interface SavePlanDayInput {
+	id?: string
+	day_of_week: number
+	name?: string
+	is_rest_day: boolean
+	order_index: number
+	exercises: SavePlanExerciseInput[]
+}
+
+/**
+ * Pełny stan planu zapisywany przez RPC save_plan
+ * Dni i ćwiczenia istniejącego planu pominięte w danych zostaną usunięte
+ */
+export interface SavePlanInput {
+	id?: string
+	client_id: string
+	week_start: string
+	week_end: string
+	trainer_notes?: string
+	days: SavePlanDayInput[]
 }
 
 // ============================================
@@ -343,28 +397,18 @@ export async function duplicatePlanToNextWeek(planId: string): Promise<TrainingP
 	originalEnd.setDate(originalEnd.getDate() + 7)
 	const nextWeekEnd = originalEnd.toISOString().split('T')[0]
 
-	// Stwórz nowy plan
-	const newPlan = await createPlan(original.trainer_id, {
+	// Zapisz kopię z dniami i ćwiczeniami jednym wywołaniem
+	return savePlan({
 		client_id: original.client_id,
 		week_start: nextWeekStart,
 		week_end: nextWeekEnd,
 		trainer_notes: original.trainer_notes || undefined,
-	})
-
-	// Skopiuj dni treningowe z ćwiczeniami
-	for (const day of original.workout_days || []) {
-		const newDay = await addWorkoutDay({
-			plan_id: newPlan.id,
+		days: (original.workout_days || []).map(day => ({
 			day_of_week: day.day_of_week,
 			name: day.name || undefined,
 			is_rest_day: day.is_rest_day,
 			order_index: day.order_index,
-		})
-
-		// Skopiuj ćwiczenia
-		for (const exercise of day.workout_exercises || []) {
-			await addExerciseToWorkout({
-				workout_day_id: newDay.id,
+			exercises: (day.workout_exercises || []).map(exercise => ({
 				exercise_id: exercise.exercise_id,
 				order_index: exercise.order_index,
 				sets: exercise.sets,
@@ -372,11 +416,46 @@ export async function duplicatePlanToNextWeek(planId: string): Promise<TrainingP
 				weight_kg: exercise.weight_kg || undefined,
 				rest_seconds: exercise.rest_seconds,
 				notes: exercise.notes || undefined,
-			})
+				group_id: exercise.group_id || undefined,
+				group_type: exercise.group_type || undefined,
+				group_rounds: exercise.group_rounds || undefined,
+			})),
+		})),
+	})
+}
+
+/**
+ * Zapisuje plan z dniami i ćwiczeniami w jednej transakcji (RPC save_plan)
+ * Bez input.id tworzy nowy plan, w przeciwnym razie nadpisuje istniejący
+ */
+export async function savePlan(input: SavePlanInput): Promise<TrainingPlan> {
+	const parsed = savePlanSchema.safeParse(input)
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message || 'Nieprawidłowe dane planu')
+	}
+
+	const { data, error } = await supabase.rpc('save_plan', { p_plan: input })
+
+	if (error) throw handleSupabaseError(error)
+	return data as TrainingPlan
+}
+
+/**
+ * Zapisuje kilka planów w jednej transakcji (RPC save_plans)
+ * Błąd przy którymkolwiek planie wycofuje wszystkie
+ */
+export async function savePlans(inputs: SavePlanInput[]): Promise<TrainingPlan[]> {
+	for (const input of inputs) {
+		const parsed = savePlanSchema.safeParse(input)
+		if (!parsed.success) {
+			throw new Error(parsed.error.issues[0]?.message || 'Nieprawidłowe dane planu')
 		}
 	}
 
-	return newPlan
+	const { data, error } = await supabase.rpc('save_plans', { p_plans: inputs })
+
+	if (error) throw handleSupabaseError(error)
+	return (data || []) as TrainingPlan[]
 }
 
 // ============================================
@@ -449,6 +528,9 @@ export async function addExerciseToWorkout(input: AddExerciseToWorkoutInput): Pr
 			weight_kg: input.weight_kg,
 			rest_seconds: input.rest_seconds ?? 60,
 			notes: input.notes,
+			group_id: input.group_id ?? null,
+			group_type: input.group_type ?? null,
+			group_rounds: input.group_rounds ?? null,
 		})
 		.select()
 		.single()
@@ -494,15 +576,12 @@ export async function reorderWorkoutExercises(
 	workoutDayId: string,
 	exerciseIds: string[]
 ): Promise<void> {
-	for (let i = 0; i < exerciseIds.length; i++) {
-		const { error } = await supabase
-			.from('workout_exercises')
-			.update({ order_index: i })
-			.eq('id', exerciseIds[i])
-			.eq('workout_day_id', workoutDayId)
-
-		if (error) throw handleSupabaseError(error)
-	}
+	const { error } = await supabase.rpc('reorder_workout_exercises', {
+		p_workout_day_id: workoutDayId,
+		p_exercise_ids: exerciseIds,
+	})
+
+	if (error) throw handleSupabaseError(error)
 }
 
 // ============================================
@@ -544,11 +623,21 @@ export function useActivePlan(clientId: string) {
 
 /**
  * Hook do pobierania szczegółów planu
+ * Przy niezsynchronizowanych zmianach trenera (edycja offline) zostaje
+ * wersja lokalna - wersja z serwera jeszcze ich nie zawiera
  */
 export function usePlanDetails(planId: string) {
+	const queryClient = useQueryClient()
+
 	return useQuery({
 		queryKey: planKeys.detail(planId),
-		queryFn: () => getPlanDetails(planId),
+		queryFn: () => {
+			const local = queryClient.getQueryData<TrainingPlanWithDetails | null>(planKeys.detail(planId))
+			if (local && hasPendingPlanEdits(planId)) {
+				return remapIds(local, offlineQueue.getIdMap())
+			}
+			return getPlanDetails(planId)
+		},
 		enabled: !!planId,
 	})
 }
@@ -602,6 +691,20 @@ export function useDeletePlan() {
 	})
 }
 
+/**
+ * Hook do zapisu całego planu (RPC save_plan)
+ */
+export function useSavePlan() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: (input: SavePlanInput) => savePlan(input),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: planKeys.all })
+		},
+	})
+}
+
 /**
  * Hook do duplikowania planu
  */
@@ -754,6 +857,7 @@ export async function getCompletedWorkouts(userId: string): Promise<CompletedWor
 			)
 		`)
 		.eq('user_id', userId)
+		.neq('status', 'in_progress')
 		.order('created_at', { ascending: false })
 
 	if (error) throw handleSupabaseError(error)
@@ -770,6 +874,7 @@ export async function isWorkoutDayCompleted(userId: string, workoutDayId: string
 		.from('completed_workouts')
 		.select('id')
 		.eq('user_id', userId)
+		.neq('status', 'in_progress')
 		.eq('workout_day_id', workoutDayId)
 		.gte('created_at', `${today}T00:00:00`)
 		.lte('created_at', `${today}T23:59:59`)
@@ -788,6 +893,7 @@ export async function getWorkoutStats(userId: string): Promise<WorkoutStats> {
 		.from('completed_workouts')
 		.select('id, created_at, status')
 		.eq('user_id', userId)
+		.neq('status', 'in_progress')
 		.order('created_at', { ascending: false })
 
 	if (error) throw handleSupabaseError(error)
@@ -883,6 +989,8 @@ export default {
 	updatePlan,
 	deletePlan,
 	duplicatePlanToNextWeek,
+	savePlan,
+	savePlans,
 	addWorkoutDay,
 	updateWorkoutDay,
 	deleteWorkoutDay,
@@ -0,0 +1,291 @@
+/**
+ * Serwis komentarzy do treningów FitCoach
+ *
+ * Wątek trenera i klienta przypięty do wykonanego treningu (completed_workouts),
+ * opcjonalnie do konkretnego ćwiczenia (completed_exercises).
+ * Autor to profil (author_id), a właściciel treningu to auth uid (completed_workouts.user_id).
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase, handleSupabaseError } from '../supabase'
+import { workoutCommentSchema, type WorkoutCommentFormData } from '../../utils/validation'
+import type { WorkoutComment } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Komentarz z nazwą skomentowanego ćwiczenia
+ */
+export interface WorkoutCommentWithExercise extends WorkoutComment {
+	exercise_name: string | null
+}
+
+/**
+ * Ćwiczenie z treningu, które można skomentować
+ */
+export interface CommentableExercise {
+	id: string
+	name: string
+}
+
+/**
+ * Trening z nieprzeczytanymi komentarzami
+ */
+export interface UnreadWorkoutThread {
+	completed_workout_id: string
+	completed_date: string
+	workout_name: string | null
+	unread_count: number
+}
+
+// ============================================
+// KLUCZE QUERY
+// ============================================
+
+export const workoutCommentKeys = {
+	all: ['workout-comments'] as const,
+	thread: (completedWorkoutId: string) => [...workoutCommentKeys.all, 'thread', completedWorkoutId] as const,
+	exercises: (completedWorkoutId: string) => [...workoutCommentKeys.all, 'exercises', completedWorkoutId] as const,
+	unread: (profileId: string) => [...workoutCommentKeys.all, 'unread', profileId] as const,
+}
+
+// ============================================
+// FUNKCJE API
+// ============================================
+
+/**
+ * Pobiera wątek komentarzy do treningu (od najstarszego)
+ */
+export async function getWorkoutComments(completedWorkoutId: string): Promise<WorkoutCommentWithExercise[]> {
+	const { data, error } = await supabase
+		.from('workout_comments')
+		.select(`
+			*,
+			completed_exercise:completed_exercises (
+				workout_exercise:workout_exercises (
+					exercise:exercises (name)
+				)
+			)
+		`)
+		.eq('completed_workout_id', completedWorkoutId)
+		.order('created_at', { ascending: true })
+
+	if (error) throw handleSupabaseError(error)
+
+	return (data || []).map(({ completed_exercise, ...comment }: any) => ({
+		...comment,
+		exercise_name: completed_exercise?.workout_exercise?.exercise?.name || null,
+	}))
+}
+
+/**
+ * Pobiera ćwiczenia z treningu, do których można dodać komentarz
+ */
+export async function getCommentableExercises(completedWorkoutId: string): Promise<CommentableExercise[]> {
+	const { data, error } = await supabase
+		.from('completed_exercises')
+		.select(`
+			id,
+			workout_exercise:workout_exercises (
+				order_index,
+				exercise:exercises (name)
+			)
+		`)
+		.eq('completed_workout_id', completedWorkoutId)
+
+	if (error) throw handleSupabaseError(error)
+
+	return (data || [])
+		.filter((row: any) => row.workout_exercise?.exercise?.name)
+		.sort((a: any, b: any) => a.workout_exercise.order_index - b.workout_exercise.order_index)
+		.map((row: any) => ({ id: row.id, name: row.workout_exercise.exercise.name }))
+}
+
+/**
+ * Pobiera treningi z nieprzeczytanymi komentarzami drugiej strony
+ * RLS ogranicza wynik do treningów, w których profil uczestniczy
+ */
+export async function getUnreadWorkoutThreads(profileId: string): Promise<UnreadWorkoutThread[]> {
+	const { data, error } = await supabase
+		.from('workout_comments')
+		.select(`
+			completed_workout_id,
+			completed_workout:completed_workouts (
+				completed_date,
+				workout_day:workout_days (name)
+			)
+		`)
+		.eq('is_read', false)
+		.neq('author_id', profileId)
+
+	if (error) throw handleSupabaseError(error)
+
+	const threads = new Map<string, UnreadWorkoutThread>()
+	for (const row of (data || []) as any[]) {
+		const thread = threads.get(row.completed_workout_id)
+		if (thread) {
+			thread.unread_count++
+			continue
+		}
+		threads.set(row.completed_workout_id, {
+			completed_workout_id: row.completed_workout_id,
+			completed_date: row.completed_workout?.completed_date,
+			workout_name: row.completed_workout?.workout_day?.name || null,
+			unread_count: 1,
+		})
+	}
+
+	return [...threads.values()].sort((a, b) => b.completed_date.localeCompare(a.completed_date))
+}
+
+/**
+ * Dodaje komentarz do treningu
+ */
+export async function addWorkoutComment(input: WorkoutCommentFormData): Promise<WorkoutComment> {
+	const validation = workoutCommentSchema.safeParse(input)
+	if (!validation.success) {
+		throw new Error(validation.error.issues[0]?.message || 'Nieprawidłowy komentarz')
+	}
+
+	const { data, error } = await supabase
+		.from('workout_comments')
+		.insert({
+			...validation.data,
+			completed_exercise_id: validation.data.completed_exercise_id || null,
+		})
+		.select()
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	return data as WorkoutComment
+}
+
+/**
+ * Oznacza komentarze jako przeczytane
+ * RPC zmienia tylko status odczytu - odbiorca nie może edytować komentarza
+ */
+export async function markWorkoutCommentsAsRead(commentIds: string[]): Promise<void> {
+	if (commentIds.length === 0) return
+
+	const { error } = await supabase.rpc('mark_workout_comments_read', { p_comment_ids: commentIds })
+
+	if (error) throw handleSupabaseError(error)
+}
+
+/**
+ * Zwraca user_id drugiej strony wątku (do powiadomienia push)
+ * Komentarz trenera trafia do właściciela treningu, komentarz klienta do jego trenera
+ */
+export async function getWorkoutCommentRecipientUserId(
+	completedWorkoutId: string,
+	authorUserId: string
+): Promise<string | null> {
+	const { data: workout, error } = await supabase
+		.from('completed_workouts')
+		.select('user_id')
+		.eq('id', completedWorkoutId)
+		.single()
+
+	if (error) throw handleSupabaseError(error)
+	if (workout.user_id !== authorUserId) return workout.user_id
+
+	const { data: client } = await supabase
+		.from('profiles')
+		.select('trainer_id')
+		.eq('user_id', authorUserId)
+		.single()
+
+	if (!client?.trainer_id) return null
+
+	const { data: trainer } = await supabase
+		.from('profiles')
+		.select('user_id')
+		.eq('id', client.trainer_id)
+		.single()
+
+	return trainer?.user_id || null
+}
+
+// ============================================
+// REACT QUERY HOOKS
+// ============================================
+
+/**
+ * Hook do pobierania wątku komentarzy do treningu
+ */
+export function useWorkoutComments(completedWorkoutId: string) {
+	return useQuery({
+		queryKey: workoutCommentKeys.thread(completedWorkoutId),
+		queryFn: () => getWorkoutComments(completedWorkoutId),
+		enabled: !!completedWorkoutId,
+	})
+}
+
+/**
+ * Hook do pobierania ćwiczeń treningu do komentowania
+ */
+export function useCommentableExercises(completedWorkoutId: string) {
+	return useQuery({
+		queryKey: workoutCommentKeys.exercises(completedWorkoutId),
+		queryFn: () => getCommentableExercises(completedWorkoutId),
+		enabled: !!completedWorkoutId,
+		staleTime: 1000 * 60 * 10, // Ćwiczenia wykonanego treningu rzadko się zmieniają
+	})
+}
+
+/**
+ * Hook do pobierania treningów z nieprzeczytanymi komentarzami
+ */
+export function useUnreadWorkoutThreads(profileId: string | undefined) {
+	return useQuery({
+		queryKey: workoutCommentKeys.unread(profileId || ''),
+		queryFn: () => getUnreadWorkoutThreads(profileId!),
+		enabled: !!profileId,
+	})
+}
+
+/**
+ * Hook do dodawania komentarza
+ */
+export function useAddWorkoutComment() {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: addWorkoutComment,
+		onSuccess: (comment) => {
+			queryClient.invalidateQueries({ queryKey: workoutCommentKeys.thread(comment.completed_workout_id) })
+			// Badge nieprzeczytanych (ClientPlanViewScreen, ClientDetailScreen)
+			queryClient.invalidateQueries({ queryKey: [...workoutCommentKeys.all, 'unread'] })
+		},
+	})
+}
+
+/**
+ * Hook do oznaczania komentarzy jako przeczytane
+ */
+export function useMarkWorkoutCommentsAsRead(profileId: string, completedWorkoutId: string) {
+	const queryClient = useQueryClient()
+
+	return useMutation({
+		mutationFn: markWorkoutCommentsAsRead,
+		onSettled: () => {
+			queryClient.invalidateQueries({ queryKey: workoutCommentKeys.thread(completedWorkoutId) })
+			queryClient.invalidateQueries({ queryKey: workoutCommentKeys.unread(profileId) })
+		},
+	})
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	getWorkoutComments,
+	getCommentableExercises,
+	getUnreadWorkoutThreads,
+	addWorkoutComment,
+	markWorkoutCommentsAsRead,
+	getWorkoutCommentRecipientUserId,
+}
@@ -0,0 +1,316 @@
+/**
+ * BroadcastModal - Ogłoszenie trenera do wielu klientów
+ *
+ * Jedna wiadomość trafia do rozmów z zaznaczonymi klientami,
+ * a klienci dostają powiadomienie push.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+	View,
+	Text,
+	TextInput,
+	ScrollView,
+	TouchableOpacity,
+	StyleSheet,
+	Alert,
+	ActivityIndicator,
+	Modal,
+	KeyboardAvoidingView,
+	Platform,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useAuth } from '../../context/AuthContext'
+import { useSendBroadcast, useRecentBroadcasts } from '../../api/services/broadcasts'
+import { notifyBroadcast } from '../../services/notifications'
+import { colors } from '../../theme/colors'
+import type { Profile } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+interface BroadcastModalProps {
+	visible: boolean
+	clients: Pick<Profile, 'id' | 'user_id' | 'first_name' | 'last_name'>[]
+	onClose: () => void
+	/** Wywoływane po wysłaniu ogłoszenia */
+	onSent: () => void
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const MAX_LENGTH = 2000
+
+/** Ilu odbiorców pokazać z imienia przed skrótem "+N" */
+const VISIBLE_RECIPIENTS = 3
+
+// ============================================
+// HELPERY
+// ============================================
+
+const formatDate = (dateStr: string) =>
+	new Date(dateStr).toLocaleDateString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function BroadcastModal({ visible, clients, onClose, onSent }: BroadcastModalProps) {
+	const { profile } = useAuth()
+	const sendBroadcast = useSendBroadcast()
+	const { data: recentBroadcasts = [] } = useRecentBroadcasts(visible ? profile?.id || '' : '')
+
+	const [content, setContent] = useState('')
+
+	useEffect(() => {
+		if (visible) setContent('')
+	}, [visible])
+
+	const recipientsText =
+		clients
+			.slice(0, VISIBLE_RECIPIENTS)
+			.map(client => `${client.first_name} ${client.last_name}`)
+			.join(', ') + (clients.length > VISIBLE_RECIPIENTS ? ` +${clients.length - VISIBLE_RECIPIENTS}` : '')
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleSend = useCallback(async () => {
+		const text = content.trim()
+		if (!text || !profile) return
+
+		try {
+			await sendBroadcast.mutateAsync({ content: text, client_ids: clients.map(client => client.id) })
+
+			// Push nie blokuje zamknięcia - wiadomości są już zapisane
+			notifyBroadcast(
+				clients.map(client => client.user_id),
+				profile.id,
+				`${profile.first_name} ${profile.last_name}`,
+				text
+			)
+
+			Alert.alert('Wysłano', `Ogłoszenie trafiło do ${clients.length} klientów`)
+			onSent()
+		} catch (error: any) {
+			console.error('Błąd wysyłania ogłoszenia:', error)
+			Alert.alert('Błąd', error.message || 'Nie udało się wysłać ogłoszenia')
+		}
+	}, [content, profile, clients, sendBroadcast, onSent])
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	const canSend = content.trim().length > 0 && clients.length > 0 && !sendBroadcast.isPending
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+			<SafeAreaView style={styles.container}>
+				{/* Header */}
+				<View style={styles.header}>
+					<View style={styles.headerSpacer} />
+					<View style={styles.headerCenter}>
+						<Text style={styles.title}>Ogłoszenie</Text>
+						<Text style={styles.subtitle}>{clients.length} klientów</Text>
+					</View>
+					<TouchableOpacity onPress={onClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+				</View>
+
+				<KeyboardAvoidingView style={styles.content} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+					<ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+						{/* Odbiorcy */}
+						<View style={styles.recipients}>
+							<Ionicons name="people" size={18} color={colors.primary} />
+							<Text style={styles.recipientsText} numberOfLines={2}>
+								{recipientsText}
+							</Text>
+						</View>
+
+						{/* Treść */}
+						<TextInput
+							style={styles.input}
+							value={content}
+							onChangeText={setContent}
+							placeholder="Np. W przyszłym tygodniu siłownia czynna krócej..."
+							placeholderTextColor={colors.textDisabled}
+							multiline
+							maxLength={MAX_LENGTH}
+							textAlignVertical="top"
+						/>
+						<Text style={styles.counter}>
+							{content.length}/{MAX_LENGTH}
+						</Text>
+						<Text style={styles.hintText}>
+							Każdy klient dostanie wiadomość w swojej rozmowie z Tobą i powiadomienie push.
+						</Text>
+
+						{/* Ostatnie ogłoszenia */}
+						{recentBroadcasts.length > 0 && (
+							<View style={styles.recentSection}>
+								<Text style={styles.sectionTitle}>Ostatnie ogłoszenia</Text>
+								{recentBroadcasts.map(broadcast => (
+									<View key={broadcast.id} style={styles.recentRow}>
+										<Text style={styles.recentContent} numberOfLines={2}>
+											{broadcast.content}
+										</Text>
+										<Text style={styles.recentMeta}>
+											{formatDate(broadcast.created_at)} • {broadcast.recipient_count} klientów
+										</Text>
+									</View>
+								))}
+							</View>
+						)}
+					</ScrollView>
+
+					<View style={styles.footer}>
+						<TouchableOpacity
+							style={[styles.primaryButton, !canSend && styles.buttonDisabled]}
+							onPress={handleSend}
+							disabled={!canSend}>
+							{sendBroadcast.isPending ? (
+								<ActivityIndicator size="small" color={colors.textOnPrimary} />
+							) : (
+								<>
+									<Ionicons name="megaphone" size={18} color={colors.textOnPrimary} />
+									<Text style={styles.primaryButtonText}>Wyślij do {clients.length} klientów</Text>
+								</>
+							)}
+						</TouchableOpacity>
+					</View>
+				</KeyboardAvoidingView>
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 14,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerSpacer: {
+		width: 28,
+	},
+	headerCenter: {
+		flex: 1,
+		alignItems: 'center',
+		marginHorizontal: 12,
+	},
+	title: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	subtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	content: {
+		flex: 1,
+	},
+	scrollContent: {
+		padding: 16,
+		paddingBottom: 40,
+	},
+	recipients: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		backgroundColor: colors.primary + '15',
+		borderRadius: 12,
+		padding: 12,
+		marginBottom: 12,
+	},
+	recipientsText: {
+		flex: 1,
+		fontSize: 14,
+		color: colors.textPrimary,
+	},
+	input: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		fontSize: 15,
+		color: colors.textPrimary,
+		minHeight: 160,
+	},
+	counter: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		textAlign: 'right',
+		marginTop: 4,
+	},
+	hintText: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		marginTop: 8,
+	},
+	recentSection: {
+		marginTop: 24,
+	},
+	sectionTitle: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textSecondary,
+		marginBottom: 8,
+	},
+	recentRow: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 12,
+		marginBottom: 8,
+	},
+	recentContent: {
+		fontSize: 14,
+		color: colors.textPrimary,
+	},
+	recentMeta: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 4,
+	},
+	footer: {
+		padding: 16,
+		borderTopWidth: 1,
+		borderTopColor: colors.surface,
+	},
+	primaryButton: {
+		flexDirection: 'row',
+		justifyContent: 'center',
+		gap: 8,
+		backgroundColor: colors.primary,
+		borderRadius: 12,
+		paddingVertical: 14,
+		alignItems: 'center',
+	},
+	primaryButtonText: {
+		color: colors.textOnPrimary,
+		fontSize: 16,
+		fontWeight: '600',
+	},
+	buttonDisabled: {
+		opacity: 0.5,
+	},
+})
@@ -0,0 +1,221 @@
+/**
+ * MessageAttachment - Załącznik wiadomości w dymku czatu
+ *
+ * Zdjęcia i miniaturki video wyświetla bezpośrednio w dymku, po dotknięciu
+ * otwiera pełnoekranowy podgląd. Pliki otwiera w wbudowanej przeglądarce.
+ * Bucket chat-attachments jest prywatny, więc korzysta z podpisanych URL.
+ */
+
+import React, { useState } from 'react'
+import { View, Text, TouchableOpacity, Modal, ActivityIndicator, StyleSheet, Alert } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Image } from 'expo-image'
+import * as WebBrowser from 'expo-web-browser'
+import { Ionicons } from '@expo/vector-icons'
+import VideoPlayer from '../exercises/VideoPlayer'
+import { useChatAttachmentUrl, getChatAttachmentUrl, type ChatMessage } from '../../api/services/messages'
+import { formatFileSize } from '../../utils/videoCompression'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface MessageAttachmentProps {
+	message: ChatMessage
+	isOwnMessage: boolean
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const PREVIEW_SIZE = 220
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function MessageAttachment({ message, isOwnMessage }: MessageAttachmentProps) {
+	const [isPreviewOpen, setIsPreviewOpen] = useState(false)
+	const [isOpeningFile, setIsOpeningFile] = useState(false)
+
+	const isImage = message.attachment_type === 'image'
+	const isVideo = message.attachment_type === 'video'
+
+	// Zdjęcie ładujemy od razu, video dopiero przy otwarciu podglądu
+	const { data: fileUrl } = useChatAttachmentUrl(isImage || (isVideo && isPreviewOpen) ? message.attachment_path : null)
+	const { data: thumbnailUrl } = useChatAttachmentUrl(isVideo ? message.attachment_thumbnail_path : null)
+
+	/**
+	 * Otwórz plik w przeglądarce wbudowanej w aplikację
+	 */
+	const handleOpenFile = async () => {
+		if (!message.attachment_path) return
+
+		setIsOpeningFile(true)
+		try {
+			const url = await getChatAttachmentUrl(message.attachment_path)
+			await WebBrowser.openBrowserAsync(url, {
+				presentationStyle: WebBrowser.WebBrowserPresentationStyle.PAGE_SHEET,
+				controlsColor: colors.primary,
+				toolbarColor: colors.background,
+			})
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się otworzyć pliku')
+		} finally {
+			setIsOpeningFile(false)
+		}
+	}
+
+	if (message.attachment_type === 'file') {
+		return (
+			<TouchableOpacity
+				style={[styles.fileRow, isOwnMessage && styles.fileRowOwn]}
+				onPress={handleOpenFile}
+				disabled={message.isPending || isOpeningFile}>
+				{isOpeningFile || message.isPending ? (
+					<ActivityIndicator size="small" color={isOwnMessage ? colors.textOnPrimary : colors.primary} />
+				) : (
+					<Ionicons name="document-text" size={28} color={isOwnMessage ? colors.textOnPrimary : colors.primary} />
+				)}
+				<View style={styles.fileInfo}>
+					<Text style={[styles.fileName, isOwnMessage && styles.ownText]} numberOfLines={1}>
+						{message.attachment_name || 'Plik'}
+					</Text>
+					{!!message.attachment_size && (
+						<Text style={[styles.fileSize, isOwnMessage && styles.ownSubtext]}>
+							{formatFileSize(message.attachment_size)}
+						</Text>
+					)}
+				</View>
+			</TouchableOpacity>
+		)
+	}
+
+	const previewUri = isImage ? message.localAttachmentUri || fileUrl : thumbnailUrl
+
+	return (
+		<>
+			<TouchableOpacity
+				style={styles.media}
+				onPress={() => setIsPreviewOpen(true)}
+				disabled={message.isPending}
+				activeOpacity={0.8}>
+				{previewUri ? (
+					<Image source={{ uri: previewUri }} style={styles.mediaImage} contentFit="cover" transition={200} />
+				) : (
+					<Ionicons name={isVideo ? 'videocam' : 'image'} size={40} color={colors.textDisabled} />
+				)}
+				{message.isPending ? (
+					<View style={styles.mediaOverlay}>
+						<ActivityIndicator color={colors.textOnPrimary} />
+					</View>
+				) : (
+					isVideo && (
+						<View style={styles.mediaOverlay}>
+							<Ionicons name="play-circle" size={48} color={colors.textOnPrimary} />
+						</View>
+					)
+				)}
+			</TouchableOpacity>
+
+			{/* Pełnoekranowy podgląd */}
+			<Modal
+				visible={isPreviewOpen}
+				animationType="fade"
+				presentationStyle="fullScreen"
+				onRequestClose={() => setIsPreviewOpen(false)}>
+				<SafeAreaView style={styles.previewContainer}>
+					<TouchableOpacity style={styles.closeButton} onPress={() => setIsPreviewOpen(false)}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+					<View style={styles.previewContent}>
+						{!fileUrl ? (
+							<ActivityIndicator size="large" color={colors.primary} />
+						) : isVideo ? (
+							<VideoPlayer videoUrl={fileUrl} thumbnailUrl={thumbnailUrl} autoplay height={320} />
+						) : (
+							<Image source={{ uri: fileUrl }} style={styles.previewImage} contentFit="contain" transition={200} />
+						)}
+					</View>
+				</SafeAreaView>
+			</Modal>
+		</>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	media: {
+		width: PREVIEW_SIZE,
+		height: PREVIEW_SIZE,
+		borderRadius: 12,
+		overflow: 'hidden',
+		backgroundColor: colors.background,
+		alignItems: 'center',
+		justifyContent: 'center',
+		marginBottom: 4,
+	},
+	mediaImage: {
+		width: '100%',
+		height: '100%',
+	},
+	mediaOverlay: {
+		...StyleSheet.absoluteFillObject,
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: 'rgba(0, 0, 0, 0.3)',
+	},
+	fileRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		padding: 10,
+		borderRadius: 12,
+		backgroundColor: colors.primary + '15',
+		marginBottom: 4,
+		minWidth: 180,
+	},
+	fileRowOwn: {
+		backgroundColor: colors.textOnPrimary + '20',
+	},
+	fileInfo: {
+		flex: 1,
+		marginLeft: 10,
+	},
+	fileName: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	fileSize: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	ownText: {
+		color: colors.textOnPrimary,
+	},
+	ownSubtext: {
+		color: colors.textOnPrimary + '80',
+	},
+	previewContainer: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	closeButton: {
+		padding: 16,
+		alignSelf: 'flex-end',
+	},
+	previewContent: {
+		flex: 1,
+		justifyContent: 'center',
+	},
+	previewImage: {
+		width: '100%',
+		height: '100%',
+	},
+})
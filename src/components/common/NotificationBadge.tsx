@@ -0,0 +1,70 @@
+/**
+ * NotificationBadge - Ikona dzwonka z badge'em nieprzeczytanych powiadomień
+ *
+ * Po dotknięciu otwiera centrum powiadomień.
+ */
+
+import React, { useCallback } from 'react'
+import { View, TouchableOpacity, Text, StyleSheet } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation } from '@react-navigation/native'
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useAuth } from '../../context/AuthContext'
+import { useUnreadNotificationsCount, useNotificationsSubscription } from '../../api/services/notificationCenter'
+import { colors } from '../../theme/colors'
+import type { AppStackParamList } from '../../navigation/AppNavigator'
+
+interface NotificationBadgeProps {
+	/** Rozmiar ikony */
+	size?: number
+}
+
+export default function NotificationBadge({ size = 24 }: NotificationBadgeProps) {
+	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
+	const { currentUser } = useAuth()
+
+	// Powiadomienia są przypięte do auth uid
+	const { data: unreadCount = 0 } = useUnreadNotificationsCount(currentUser?.id)
+
+	// Nowe powiadomienia odświeżają badge na żywo
+	useNotificationsSubscription(currentUser?.id)
+
+	const handlePress = useCallback(() => {
+		navigation.navigate('Notifications')
+	}, [navigation])
+
+	return (
+		<TouchableOpacity style={styles.container} onPress={handlePress} activeOpacity={0.7}>
+			<Ionicons name="notifications" size={size} color={colors.textPrimary} />
+			{unreadCount > 0 && (
+				<View style={styles.badge}>
+					<Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+				</View>
+			)}
+		</TouchableOpacity>
+	)
+}
+
+const styles = StyleSheet.create({
+	container: {
+		position: 'relative',
+		padding: 4,
+	},
+	badge: {
+		position: 'absolute',
+		top: 0,
+		right: 0,
+		backgroundColor: colors.error,
+		borderRadius: 10,
+		minWidth: 18,
+		height: 18,
+		justifyContent: 'center',
+		alignItems: 'center',
+		paddingHorizontal: 4,
+	},
+	badgeText: {
+		color: colors.textOnPrimary,
+		fontSize: 10,
+		fontWeight: 'bold',
+	},
+})
@@ -2,7 +2,9 @@
  * OfflineBanner - Komponent informujący o trybie offline
  * 
  * Wyświetla banner gdy brak połączenia z internetem.
- * Pokazuje też liczbę oczekujących operacji do synchronizacji.
+ * Pokazuje też liczbę oczekujących operacji do synchronizacji
+ * i operacje wymagające decyzji (konflikty, błędy) - dotknięcie
+ * otwiera ekran SyncIssues.
  */
 
 import React, { useEffect, useState } from 'react'
@@ -16,7 +18,8 @@ import {
 } from 'react-native'
 import { Ionicons } from '@expo/vector-icons'
 import { useSafeAreaInsets } from 'react-native-safe-area-context'
-import { useNetworkStatus, offlineQueue } from '../../services/offline'
+import { useNetworkStatus, useOfflinePendingCount, offlineQueue } from '../../services/offline'
+import { navigationRef, navigateToTarget } from '../../navigation/linking'
 import { colors } from '../../theme/colors'
 
 interface OfflineBannerProps {
@@ -27,30 +30,27 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 	const { isOffline, isOnline } = useNetworkStatus()
 	const insets = useSafeAreaInsets()
 	
-	const [pendingCount, setPendingCount] = useState(0)
+	const pendingCount = useOfflinePendingCount()
+	const [deadLetterCount, setDeadLetterCount] = useState(0)
 	const [isSyncing, setIsSyncing] = useState(false)
 	const [showSuccess, setShowSuccess] = useState(false)
 	
 	const slideAnim = React.useRef(new Animated.Value(-100)).current
 	const successAnim = React.useRef(new Animated.Value(0)).current
 	
-	// Aktualizuj liczbę oczekujących
+	// Operacje wymagające decyzji użytkownika
 	useEffect(() => {
-		setPendingCount(offlineQueue.getPendingCount())
-		
-		const interval = setInterval(() => {
-			setPendingCount(offlineQueue.getPendingCount())
-		}, 2000)
-		
-		return () => clearInterval(interval)
-	}, [isOnline])
+		setDeadLetterCount(offlineQueue.getDeadLetterCount())
+		return offlineQueue.addDeadLetterListener(entries => setDeadLetterCount(entries.length))
+	}, [])
 	
 	// Nasłuchuj na stan synchronizacji
 	useEffect(() => {
 		const removeSyncListener = offlineQueue.addSyncListener(syncing => {
 			setIsSyncing(syncing)
 			
-			if (!syncing && pendingCount > 0) {
+			// Ponowienia z błędem zostają w kolejce - bez komunikatu o sukcesie
+			if (!syncing && pendingCount > 0 && offlineQueue.getPendingCount() === 0) {
 				// Pokaż sukces po synchronizacji
 				setShowSuccess(true)
 				Animated.sequence([
@@ -74,24 +74,30 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 	
 	// Animacja wejścia/wyjścia
 	useEffect(() => {
-		const shouldShow = isOffline || pendingCount > 0 || isSyncing || showSuccess
+		const shouldShow = isOffline || pendingCount > 0 || deadLetterCount > 0 || isSyncing || showSuccess
 		
 		Animated.timing(slideAnim, {
 			toValue: shouldShow ? 0 : -100,
 			duration: 300,
 			useNativeDriver: true,
 		}).start()
-	}, [isOffline, pendingCount, isSyncing, showSuccess])
+	}, [isOffline, pendingCount, deadLetterCount, isSyncing, showSuccess])
 	
-	const handleSync = async () => {
+	const hasOnlyIssues = isOnline && pendingCount === 0 && deadLetterCount > 0 && !isSyncing && !showSuccess
+	
+	const handlePress = async () => {
+		if (hasOnlyIssues) {
+			if (navigationRef.isReady()) navigateToTarget({ name: 'SyncIssues', params: undefined })
+			return
+		}
 		if (isOnline && pendingCount > 0 && !isSyncing) {
-			await offlineQueue.syncAll()
+			await offlineQueue.syncAll({ ignoreBackoff: true })
 		}
 	}
 	
 	// Określ kolor i tekst na podstawie stanu
-	let backgroundColor = colors.warning
-	let icon: 'cloud-offline' | 'sync' | 'checkmark-circle' = 'cloud-offline'
+	let backgroundColor: string = colors.warning
+	let icon: 'cloud-offline' | 'sync' | 'checkmark-circle' | 'alert-circle' = 'cloud-offline'
 	let message = 'Tryb offline'
 	
 	if (showSuccess) {
@@ -112,10 +118,14 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 		message = pendingCount > 0 
 			? `Offline • ${pendingCount} zapisanych lokalnie`
 			: 'Tryb offline'
+	} else if (hasOnlyIssues) {
+		backgroundColor = colors.error
+		icon = 'alert-circle'
+		message = `${deadLetterCount} nie zsynchronizowano`
 	}
 	
 	// Nie renderuj jeśli wszystko OK
-	if (!isOffline && pendingCount === 0 && !isSyncing && !showSuccess) {
+	if (!isOffline && pendingCount === 0 && deadLetterCount === 0 && !isSyncing && !showSuccess) {
 		return null
 	}
 	
@@ -132,8 +142,8 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 		>
 			<TouchableOpacity 
 				style={styles.content}
-				onPress={handleSync}
-				disabled={!isOnline || pendingCount === 0 || isSyncing}
+				onPress={handlePress}
+				disabled={!hasOnlyIssues && (!isOnline || pendingCount === 0 || isSyncing)}
 				activeOpacity={0.8}
 			>
 				{isSyncing ? (
@@ -149,6 +159,12 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 						<Text style={styles.syncButtonText}>Synchronizuj</Text>
 					</View>
 				)}
+				
+				{hasOnlyIssues && (
+					<View style={styles.syncButton}>
+						<Text style={styles.syncButtonText}>Rozwiąż</Text>
+					</View>
+				)}
 			</TouchableOpacity>
 		</Animated.View>
 	)
@@ -160,15 +176,7 @@ export function OfflineBanner({ showPendingCount = true }: OfflineBannerProps) {
 
 export function OfflineIndicator() {
 	const { isOffline } = useNetworkStatus()
-	const [pendingCount, setPendingCount] = useState(0)
-	
-	useEffect(() => {
-		setPendingCount(offlineQueue.getPendingCount())
-		const interval = setInterval(() => {
-			setPendingCount(offlineQueue.getPendingCount())
-		}, 3000)
-		return () => clearInterval(interval)
-	}, [])
+	const pendingCount = useOfflinePendingCount()
 	
 	if (!isOffline && pendingCount === 0) return null
 	
@@ -0,0 +1,110 @@
+/**
+ * QuietHoursPicker - Wybór godzin ciszy nocnej
+ *
+ * Dwa przełączniki godzin (od - do) z krokiem jednej godziny.
+ * Zakres może przechodzić przez północ, np. 22:00 - 07:00.
+ * HourStepper jest też używany samodzielnie (godzina przypomnień).
+ */
+
+import React from 'react'
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { getTimeHour, hourToTime } from '../../api/services/notificationPreferences'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+interface QuietHoursPickerProps {
+	/** Początek ciszy (HH:MM:SS) */
+	start: string
+	/** Koniec ciszy (HH:MM:SS) */
+	end: string
+	onChange: (start: string, end: string) => void
+	isLast?: boolean
+}
+
+interface HourStepperProps {
+	label?: string
+	time: string
+	onChange: (time: string) => void
+}
+
+// ============================================
+// KOMPONENTY
+// ============================================
+
+export function HourStepper({ label, time, onChange }: HourStepperProps) {
+	const hour = getTimeHour(time)
+
+	return (
+		<View style={styles.stepper}>
+			{label && <Text style={styles.stepperLabel}>{label}</Text>}
+			<View style={styles.stepperControls}>
+				<TouchableOpacity style={styles.stepperButton} onPress={() => onChange(hourToTime(hour - 1))}>
+					<Ionicons name="remove" size={16} color={colors.textPrimary} />
+				</TouchableOpacity>
+				<Text style={styles.stepperValue}>{time.slice(0, 5)}</Text>
+				<TouchableOpacity style={styles.stepperButton} onPress={() => onChange(hourToTime(hour + 1))}>
+					<Ionicons name="add" size={16} color={colors.textPrimary} />
+				</TouchableOpacity>
+			</View>
+		</View>
+	)
+}
+
+export default function QuietHoursPicker({ start, end, onChange, isLast }: QuietHoursPickerProps) {
+	return (
+		<View style={[styles.container, isLast && styles.containerLast]}>
+			<HourStepper label="Od" time={start} onChange={time => onChange(time, end)} />
+			<HourStepper label="Do" time={end} onChange={time => onChange(start, time)} />
+		</View>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flexDirection: 'row',
+		justifyContent: 'space-around',
+		paddingHorizontal: 14,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.background,
+	},
+	containerLast: {
+		borderBottomWidth: 0,
+	},
+	stepper: {
+		alignItems: 'center',
+		gap: 6,
+	},
+	stepperLabel: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	stepperControls: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 10,
+	},
+	stepperButton: {
+		width: 30,
+		height: 30,
+		borderRadius: 15,
+		backgroundColor: colors.background,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	stepperValue: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		minWidth: 48,
+		textAlign: 'center',
+	},
+})
@@ -0,0 +1,180 @@
+/**
+ * DietFileViewer - Podgląd załącznika diety
+ *
+ * Modal pełnoekranowy: zdjęcia wyświetla bezpośrednio w aplikacji,
+ * PDF otwiera w wbudowanej przeglądarce (expo-web-browser).
+ * Bucket diet-files jest prywatny, więc korzysta z podpisanego URL.
+ */
+
+import React, { useState } from 'react'
+import { View, Text, TouchableOpacity, Modal, ActivityIndicator, StyleSheet, Alert } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Image } from 'expo-image'
+import * as WebBrowser from 'expo-web-browser'
+import { Ionicons } from '@expo/vector-icons'
+import { useDietFileUrl, getDietFileType } from '../../api/services/dietPlans'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface DietFileViewerProps {
+	/** Czy modal jest widoczny */
+	visible: boolean
+	/** Ścieżka pliku w bucket diet-files */
+	filePath: string | null
+	/** Tytuł wyświetlany w nagłówku */
+	title: string
+	/** Callback zamknięcia */
+	onClose: () => void
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function DietFileViewer({ visible, filePath, title, onClose }: DietFileViewerProps) {
+	const { data: fileUrl, isLoading, isError, refetch } = useDietFileUrl(visible ? filePath : null)
+	const [isOpeningPdf, setIsOpeningPdf] = useState(false)
+
+	const fileType = filePath ? getDietFileType(filePath) : null
+
+	/**
+	 * Otwórz PDF w przeglądarce wbudowanej w aplikację
+	 */
+	const handleOpenPdf = async () => {
+		if (!fileUrl) return
+
+		setIsOpeningPdf(true)
+		try {
+			await WebBrowser.openBrowserAsync(fileUrl, {
+				presentationStyle: WebBrowser.WebBrowserPresentationStyle.PAGE_SHEET,
+				controlsColor: colors.primary,
+				toolbarColor: colors.background,
+			})
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się otworzyć dokumentu')
+		} finally {
+			setIsOpeningPdf(false)
+		}
+	}
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="fullScreen" onRequestClose={onClose}>
+			<SafeAreaView style={styles.container}>
+				{/* Header */}
+				<View style={styles.header}>
+					<TouchableOpacity onPress={onClose} style={styles.closeButton}>
+						<Ionicons name="close" size={24} color={colors.textPrimary} />
+					</TouchableOpacity>
+					<Text style={styles.headerTitle} numberOfLines={1}>
+						{title}
+					</Text>
+					<View style={{ width: 40 }} />
+				</View>
+
+				{/* Treść */}
+				<View style={styles.content}>
+					{isLoading ? (
+						<ActivityIndicator size="large" color={colors.primary} />
+					) : isError || !fileUrl ? (
+						<View style={styles.stateContainer}>
+							<Ionicons name="alert-circle-outline" size={48} color={colors.error} />
+							<Text style={styles.stateText}>Nie udało się załadować pliku</Text>
+							<TouchableOpacity style={styles.actionButton} onPress={() => refetch()}>
+								<Text style={styles.actionButtonText}>Spróbuj ponownie</Text>
+							</TouchableOpacity>
+						</View>
+					) : fileType === 'image' ? (
+						<Image source={{ uri: fileUrl }} style={styles.image} contentFit="contain" transition={200} />
+					) : (
+						<View style={styles.stateContainer}>
+							<Ionicons name="document-text" size={64} color={colors.primary} />
+							<Text style={styles.stateText}>Plan dietetyczny w formacie PDF</Text>
+							<TouchableOpacity
+								style={styles.actionButton}
+								onPress={handleOpenPdf}
+								disabled={isOpeningPdf}>
+								{isOpeningPdf ? (
+									<ActivityIndicator color={colors.textOnPrimary} />
+								) : (
+									<>
+										<Ionicons name="open-outline" size={18} color={colors.textOnPrimary} />
+										<Text style={styles.actionButtonText}>Otwórz dokument</Text>
+									</>
+								)}
+							</TouchableOpacity>
+						</View>
+					)}
+				</View>
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.border,
+	},
+	closeButton: {
+		padding: 8,
+	},
+	headerTitle: {
+		flex: 1,
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		textAlign: 'center',
+		marginHorizontal: 8,
+	},
+	content: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	image: {
+		width: '100%',
+		height: '100%',
+	},
+	stateContainer: {
+		alignItems: 'center',
+		padding: 24,
+	},
+	stateText: {
+		color: colors.textSecondary,
+		fontSize: 15,
+		marginTop: 12,
+		marginBottom: 20,
+		textAlign: 'center',
+	},
+	actionButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.primary,
+		paddingHorizontal: 20,
+		paddingVertical: 12,
+		borderRadius: 10,
+		gap: 8,
+		minWidth: 180,
+		justifyContent: 'center',
+	},
+	actionButtonText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+	},
+})
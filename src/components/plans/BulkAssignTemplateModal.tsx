@@ -0,0 +1,360 @@
+/**
+ * BulkAssignTemplateModal - Przypisanie szablonu wielu klientom
+ *
+ * Dwa kroki:
+ * 1. Wybór szablonu z biblioteki trenera
+ * 2. Tydzień startowy osobno dla każdego klienta
+ */
+
+import React, { useState, useCallback, useEffect } from 'react'
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert, ActivityIndicator, Modal } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useTrainerTemplates,
+	useAssignTemplateToClients,
+	type ProgramTemplateSummary,
+} from '../../api/services/programTemplates'
+import { getWeekDates } from '../../api/services/trainingPlans'
+import { colors } from '../../theme/colors'
+import type { Profile } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+interface BulkAssignTemplateModalProps {
+	visible: boolean
+	clients: Pick<Profile, 'id' | 'first_name' | 'last_name'>[]
+	onClose: () => void
+	/** Wywoływane po zakończeniu przypisania (także częściowym) */
+	onAssigned: () => void
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+const formatDate = (dateStr: string) => {
+	const date = new Date(dateStr)
+	return date.toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' })
+}
+
+const shiftDate = (dateStr: string, days: number) => {
+	const date = new Date(dateStr)
+	date.setDate(date.getDate() + days)
+	return date.toISOString().split('T')[0]
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function BulkAssignTemplateModal({ visible, clients, onClose, onAssigned }: BulkAssignTemplateModalProps) {
+	const { profile } = useAuth()
+	const { data: templates = [], isLoading: loadingTemplates } = useTrainerTemplates(profile?.id || '')
+	const assignTemplate = useAssignTemplateToClients()
+
+	const [template, setTemplate] = useState<ProgramTemplateSummary | null>(null)
+	const [startDates, setStartDates] = useState<Record<string, string>>({})
+
+	// Domyślnie bieżący tydzień dla każdego klienta
+	useEffect(() => {
+		if (!visible) return
+		const { weekStart } = getWeekDates(new Date())
+		setStartDates(Object.fromEntries(clients.map(client => [client.id, weekStart])))
+		setTemplate(null)
+	}, [visible, clients])
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleShiftWeek = useCallback((clientId: string, days: number) => {
+		setStartDates(prev => ({ ...prev, [clientId]: shiftDate(prev[clientId], days) }))
+	}, [])
+
+	const handleApplyToAll = useCallback((clientId: string) => {
+		setStartDates(prev => Object.fromEntries(Object.keys(prev).map(id => [id, prev[clientId]])))
+	}, [])
+
+	const handleAssign = useCallback(async () => {
+		if (!template) return
+
+		try {
+			const results = await assignTemplate.mutateAsync({
+				templateId: template.id,
+				inputs: clients.map(client => ({ client_id: client.id, start_date: startDates[client.id] })),
+			})
+
+			const failed = results.filter(result => result.error)
+			if (failed.length === 0) {
+				Alert.alert('Sukces', `Szablon "${template.name}" przypisano ${results.length} klientom`)
+			} else {
+				const names = failed
+					.map(result => {
+						const client = clients.find(c => c.id === result.client_id)
+						return `• ${client?.first_name} ${client?.last_name}: ${result.error}`
+					})
+					.join('\n')
+				Alert.alert('Częściowo przypisano', `Przypisano ${results.length - failed.length}/${results.length}.\n\n${names}`)
+			}
+
+			onAssigned()
+		} catch (error: any) {
+			console.error('Błąd przypisania szablonu:', error)
+			Alert.alert('Błąd', error.message || 'Nie udało się przypisać szablonu')
+		}
+	}, [template, clients, startDates, assignTemplate, onAssigned])
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	const weeksCount = template?.weeks_count || 1
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+			<SafeAreaView style={styles.container}>
+				{/* Header */}
+				<View style={styles.header}>
+					{template ? (
+						<TouchableOpacity onPress={() => setTemplate(null)}>
+							<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+						</TouchableOpacity>
+					) : (
+						<View style={styles.headerSpacer} />
+					)}
+					<View style={styles.headerCenter}>
+						<Text style={styles.title}>{template ? template.name : 'Wybierz szablon'}</Text>
+						<Text style={styles.subtitle}>{clients.length} klientów</Text>
+					</View>
+					<TouchableOpacity onPress={onClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+				</View>
+
+				{!template ? (
+					// Krok 1: wybór szablonu
+					loadingTemplates ? (
+						<ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 40 }} />
+					) : (
+						<FlatList
+							data={templates}
+							keyExtractor={item => item.id}
+							contentContainerStyle={styles.list}
+							renderItem={({ item }) => (
+								<TouchableOpacity style={styles.row} onPress={() => setTemplate(item)}>
+									<View style={styles.rowInfo}>
+										<Text style={styles.rowTitle}>{item.name}</Text>
+										<Text style={styles.rowSubtitle}>
+											{item.weeks_count} tyg. •{' '}
+											{item.program_template_days.filter(day => !day.is_rest_day).length} dni treningowe
+										</Text>
+									</View>
+									<Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+								</TouchableOpacity>
+							)}
+							ListEmptyComponent={
+								<Text style={styles.emptyText}>
+									Brak szablonów. Zapisz plan jako szablon lub utwórz program w ustawieniach.
+								</Text>
+							}
+						/>
+					)
+				) : (
+					// Krok 2: tydzień startowy per klient
+					<>
+						<FlatList
+							data={clients}
+							keyExtractor={item => item.id}
+							contentContainerStyle={styles.list}
+							ListHeaderComponent={
+								<Text style={styles.hintText}>
+									Aktywne plany klientów zaczynające się w wybranych tygodniach zostaną zastąpione.
+								</Text>
+							}
+							renderItem={({ item }) => {
+								const startDate = startDates[item.id]
+								if (!startDate) return null
+
+								return (
+									<View style={styles.clientRow}>
+										<View style={styles.clientHeader}>
+											<Text style={styles.rowTitle}>
+												{item.first_name} {item.last_name}
+											</Text>
+											{clients.length > 1 && (
+												<TouchableOpacity onPress={() => handleApplyToAll(item.id)}>
+													<Text style={styles.applyAllText}>Ustaw wszystkim</Text>
+												</TouchableOpacity>
+											)}
+										</View>
+										<View style={styles.weekSelector}>
+											<TouchableOpacity style={styles.weekArrow} onPress={() => handleShiftWeek(item.id, -7)}>
+												<Ionicons name="chevron-back" size={22} color={colors.primary} />
+											</TouchableOpacity>
+											<View style={styles.weekDisplay}>
+												<Text style={styles.weekText}>
+													{formatDate(startDate)} - {formatDate(shiftDate(startDate, weeksCount * 7 - 1))}
+												</Text>
+											</View>
+											<TouchableOpacity style={styles.weekArrow} onPress={() => handleShiftWeek(item.id, 7)}>
+												<Ionicons name="chevron-forward" size={22} color={colors.primary} />
+											</TouchableOpacity>
+										</View>
+									</View>
+								)
+							}}
+						/>
+
+						<View style={styles.footer}>
+							<TouchableOpacity
+								style={[styles.primaryButton, assignTemplate.isPending && styles.buttonDisabled]}
+								onPress={handleAssign}
+								disabled={assignTemplate.isPending}>
+								{assignTemplate.isPending ? (
+									<ActivityIndicator size="small" color={colors.textOnPrimary} />
+								) : (
+									<Text style={styles.primaryButtonText}>Przypisz {clients.length} klientom</Text>
+								)}
+							</TouchableOpacity>
+						</View>
+					</>
+				)}
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 14,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerSpacer: {
+		width: 24,
+	},
+	headerCenter: {
+		flex: 1,
+		alignItems: 'center',
+		marginHorizontal: 12,
+	},
+	title: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	subtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	list: {
+		padding: 16,
+		paddingBottom: 40,
+	},
+	row: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 8,
+	},
+	rowInfo: {
+		flex: 1,
+	},
+	rowTitle: {
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	rowSubtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	emptyText: {
+		color: colors.textSecondary,
+		textAlign: 'center',
+		marginTop: 40,
+		paddingHorizontal: 24,
+	},
+	hintText: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		textAlign: 'center',
+		marginBottom: 12,
+	},
+	clientRow: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 10,
+	},
+	clientHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		marginBottom: 8,
+	},
+	applyAllText: {
+		fontSize: 12,
+		color: colors.primary,
+	},
+	weekSelector: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	weekArrow: {
+		padding: 6,
+	},
+	weekDisplay: {
+		flex: 1,
+		backgroundColor: colors.background,
+		paddingVertical: 8,
+		borderRadius: 10,
+		marginHorizontal: 8,
+		alignItems: 'center',
+	},
+	weekText: {
+		fontSize: 15,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	footer: {
+		padding: 16,
+		borderTopWidth: 1,
+		borderTopColor: colors.surface,
+	},
+	primaryButton: {
+		backgroundColor: colors.primary,
+		borderRadius: 12,
+		paddingVertical: 14,
+		alignItems: 'center',
+	},
+	primaryButtonText: {
+		color: colors.textOnPrimary,
+		fontSize: 16,
+		fontWeight: '600',
+	},
+	buttonDisabled: {
+		opacity: 0.5,
+	},
+})
@@ -0,0 +1,204 @@
+/**
+ * ExerciseGroupHeader - Nagłówek grupy ćwiczeń w edytorze planu
+ *
+ * Wspólne ustawienia superserii/obwodu: typ, liczba rund i odpoczynek
+ * po rundzie. Używany w WorkoutDayCard (CreatePlanScreen i EditPlanScreen).
+ */
+
+import React from 'react'
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { GROUP_TYPE_LABELS, type GroupSettings } from '../../utils/exerciseGroups'
+import { colors } from '../../theme/colors'
+import type { ExerciseGroupType } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface ExerciseGroupHeaderProps {
+	/** Litera grupy (A, B...) */
+	groupId: string
+	groupType: ExerciseGroupType
+	rounds: number
+	restSeconds: number
+	onChange: (settings: GroupSettings) => void
+	onUngroup: () => void
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const MAX_ROUNDS = 20
+
+const GROUP_TYPES: ExerciseGroupType[] = ['superset', 'circuit']
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function ExerciseGroupHeader({
+	groupId,
+	groupType,
+	rounds,
+	restSeconds,
+	onChange,
+	onUngroup,
+}: ExerciseGroupHeaderProps) {
+	return (
+		<View style={styles.container}>
+			<View style={styles.topRow}>
+				<View style={styles.groupBadge}>
+					<Text style={styles.groupBadgeText}>{groupId}</Text>
+				</View>
+				<View style={styles.typeRow}>
+					{GROUP_TYPES.map(type => (
+						<TouchableOpacity
+							key={type}
+							style={[styles.typeChip, groupType === type && styles.typeChipActive]}
+							onPress={() => onChange({ group_type: type })}>
+							<Text style={[styles.typeChipText, groupType === type && styles.typeChipTextActive]}>
+								{GROUP_TYPE_LABELS[type]}
+							</Text>
+						</TouchableOpacity>
+					))}
+				</View>
+				<TouchableOpacity onPress={onUngroup} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+					<Ionicons name="unlink-outline" size={20} color={colors.textSecondary} />
+				</TouchableOpacity>
+			</View>
+
+			<View style={styles.paramsRow}>
+				{/* Rundy */}
+				<View style={styles.param}>
+					<Text style={styles.paramLabel}>Rundy</Text>
+					<View style={styles.stepper}>
+						<TouchableOpacity
+							onPress={() => onChange({ group_rounds: Math.max(1, rounds - 1) })}
+							disabled={rounds <= 1}>
+							<Ionicons name="remove-circle-outline" size={22} color={rounds <= 1 ? colors.textDisabled : colors.primary} />
+						</TouchableOpacity>
+						<Text style={styles.stepperValue}>{rounds}</Text>
+						<TouchableOpacity
+							onPress={() => onChange({ group_rounds: Math.min(MAX_ROUNDS, rounds + 1) })}
+							disabled={rounds >= MAX_ROUNDS}>
+							<Ionicons
+								name="add-circle-outline"
+								size={22}
+								color={rounds >= MAX_ROUNDS ? colors.textDisabled : colors.primary}
+							/>
+						</TouchableOpacity>
+					</View>
+				</View>
+
+				{/* Odpoczynek po rundzie */}
+				<View style={styles.param}>
+					<Text style={styles.paramLabel}>Odp. po rundzie (s)</Text>
+					<TextInput
+						style={styles.restInput}
+						value={String(restSeconds)}
+						onChangeText={text => onChange({ rest_seconds: Math.min(600, parseInt(text) || 0) })}
+						keyboardType="numeric"
+						maxLength={3}
+					/>
+				</View>
+			</View>
+
+			<Text style={styles.hintText}>Ćwiczenia wykonuj naprzemiennie, odpoczynek dopiero po całej rundzie</Text>
+		</View>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		backgroundColor: colors.primary + '15',
+		borderRadius: 10,
+		padding: 10,
+		marginBottom: 8,
+	},
+	topRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+	},
+	groupBadge: {
+		width: 26,
+		height: 26,
+		borderRadius: 13,
+		backgroundColor: colors.primary,
+		alignItems: 'center',
+		justifyContent: 'center',
+		marginRight: 8,
+	},
+	groupBadgeText: {
+		color: colors.textOnPrimary,
+		fontSize: 13,
+		fontWeight: '700',
+	},
+	typeRow: {
+		flex: 1,
+		flexDirection: 'row',
+		gap: 6,
+	},
+	typeChip: {
+		paddingHorizontal: 10,
+		paddingVertical: 4,
+		borderRadius: 12,
+		borderWidth: 1,
+		borderColor: colors.primary,
+	},
+	typeChipActive: {
+		backgroundColor: colors.primary,
+	},
+	typeChipText: {
+		fontSize: 12,
+		color: colors.primary,
+	},
+	typeChipTextActive: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+	},
+	paramsRow: {
+		flexDirection: 'row',
+		marginTop: 10,
+		gap: 12,
+	},
+	param: {
+		flex: 1,
+	},
+	paramLabel: {
+		fontSize: 11,
+		color: colors.textSecondary,
+		marginBottom: 4,
+	},
+	stepper: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 10,
+	},
+	stepperValue: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		minWidth: 20,
+		textAlign: 'center',
+	},
+	restInput: {
+		backgroundColor: colors.background,
+		borderRadius: 8,
+		paddingHorizontal: 10,
+		paddingVertical: 6,
+		fontSize: 14,
+		color: colors.textPrimary,
+		textAlign: 'center',
+	},
+	hintText: {
+		fontSize: 11,
+		color: colors.textDisabled,
+		marginTop: 8,
+	},
+})
@@ -0,0 +1,493 @@
+/**
+ * ProgressionReview - Przegląd propozycji progresji
+ *
+ * Modal z konfiguracją reguł (liniowa / RPE, deload) i listą zmian
+ * "było → będzie" dla każdego ćwiczenia. Trener zaznacza propozycje,
+ * które chce przyjąć - zastosowanie tylko zmienia formularz EditPlanScreen,
+ * zapis następuje dopiero po "Zapisz".
+ */
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+	View,
+	Text,
+	ScrollView,
+	TouchableOpacity,
+	TextInput,
+	Modal,
+	Switch,
+	ActivityIndicator,
+	StyleSheet,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import {
+	useProgressionSuggestions,
+	DEFAULT_PROGRESSION_SETTINGS,
+	type ProgressionSettings,
+	type ProgressionSuggestion,
+	type ProgressionReason,
+} from '../../api/services/progression'
+import { DAY_NAMES } from '../../api/services/trainingPlans'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface ProgressionReviewProps {
+	visible: boolean
+	/** Plan z poprzedniego tygodnia (źródło danych o wykonaniu) */
+	sourcePlanId: string
+	onClose: () => void
+	/** Zastosuj zaznaczone propozycje */
+	onApply: (suggestions: ProgressionSuggestion[]) => void
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const REASON_CONFIG: Record<ProgressionReason, { label: string; color: string }> = {
+	linear: { label: 'Progresja', color: colors.success },
+	rpe_up: { label: 'RPE ↑', color: colors.success },
+	rpe_down: { label: 'RPE ↓', color: colors.warning },
+	deload: { label: 'Deload', color: colors.error },
+	hold: { label: 'Bez zmian', color: colors.textSecondary },
+	no_data: { label: 'Brak danych', color: colors.textDisabled },
+}
+
+function hasChange(suggestion: ProgressionSuggestion) {
+	return (
+		suggestion.suggested.reps !== suggestion.current.reps ||
+		suggestion.suggested.weight_kg !== suggestion.current.weight_kg
+	)
+}
+
+function formatParams(reps: string, weightKg: number | null) {
+	return weightKg ? `${reps} × ${weightKg} kg` : `${reps} powt.`
+}
+
+function parseSetting(value: string, fallback: number) {
+	const parsed = parseFloat(value.replace(',', '.'))
+	return isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+// ============================================
+// KOMPONENTY POMOCNICZE
+// ============================================
+
+interface SettingInputProps {
+	label: string
+	value: number
+	suffix: string
+	onChange: (value: number) => void
+}
+
+function SettingInput({ label, value, suffix, onChange }: SettingInputProps) {
+	const [text, setText] = useState(String(value))
+
+	return (
+		<View style={styles.settingRow}>
+			<Text style={styles.settingLabel}>{label}</Text>
+			<View style={styles.settingInputWrapper}>
+				<TextInput
+					style={styles.settingInput}
+					value={text}
+					onChangeText={setText}
+					onEndEditing={() => {
+						const parsed = parseSetting(text, value)
+						setText(String(parsed))
+						onChange(parsed)
+					}}
+					keyboardType="decimal-pad"
+					maxLength={5}
+				/>
+				<Text style={styles.settingSuffix}>{suffix}</Text>
+			</View>
+		</View>
+	)
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function ProgressionReview({ visible, sourcePlanId, onClose, onApply }: ProgressionReviewProps) {
+	const [settings, setSettings] = useState<ProgressionSettings>(DEFAULT_PROGRESSION_SETTINGS)
+	const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+	const { data: suggestions = [], isLoading, isError, refetch } = useProgressionSuggestions(
+		visible ? sourcePlanId : undefined,
+		settings
+	)
+
+	// Domyślnie zaznacz wszystkie faktyczne zmiany
+	useEffect(() => {
+		setSelectedIds(new Set(suggestions.filter(hasChange).map(s => s.source_workout_exercise_id)))
+	}, [suggestions])
+
+	const changedCount = useMemo(() => suggestions.filter(hasChange).length, [suggestions])
+
+	const updateSettings = (data: Partial<ProgressionSettings>) => {
+		setSettings(prev => ({ ...prev, ...data }))
+	}
+
+	const toggleSelected = (id: string) => {
+		setSelectedIds(prev => {
+			const next = new Set(prev)
+			if (next.has(id)) next.delete(id)
+			else next.add(id)
+			return next
+		})
+	}
+
+	const handleApply = () => {
+		onApply(suggestions.filter(s => selectedIds.has(s.source_workout_exercise_id) && hasChange(s)))
+	}
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+			<SafeAreaView style={styles.container}>
+				{/* Header */}
+				<View style={styles.header}>
+					<TouchableOpacity onPress={onClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+					<Text style={styles.headerTitle}>Progresja obciążeń</Text>
+					<View style={{ width: 28 }} />
+				</View>
+
+				<ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+					{/* Reguły */}
+					<View style={styles.card}>
+						<Text style={styles.cardTitle}>Reguły</Text>
+						<View style={styles.modeTabs}>
+							{(['linear', 'rpe'] as const).map(mode => (
+								<TouchableOpacity
+									key={mode}
+									style={[styles.modeTab, settings.mode === mode && styles.modeTabActive]}
+									onPress={() => updateSettings({ mode })}>
+									<Text style={[styles.modeTabText, settings.mode === mode && styles.modeTabTextActive]}>
+										{mode === 'linear' ? 'Liniowa' : 'Wg RPE'}
+									</Text>
+								</TouchableOpacity>
+							))}
+						</View>
+
+						{settings.mode === 'linear' ? (
+							<SettingInput
+								label="Przyrost ciężaru"
+								value={settings.linearIncrementKg}
+								suffix="kg"
+								onChange={linearIncrementKg => updateSettings({ linearIncrementKg })}
+							/>
+						) : (
+							<>
+								<SettingInput
+									label="Docelowe RPE"
+									value={settings.targetRpe}
+									suffix="RPE"
+									onChange={targetRpe => updateSettings({ targetRpe: Math.min(10, Math.max(1, targetRpe)) })}
+								/>
+								<SettingInput
+									label="Zmiana na punkt RPE"
+									value={settings.rpeStepPercent}
+									suffix="%"
+									onChange={rpeStepPercent => updateSettings({ rpeStepPercent })}
+								/>
+							</>
+						)}
+
+						<View style={styles.settingRow}>
+							<Text style={styles.settingLabel}>Deload po niewykonanych powtórzeniach</Text>
+							<Switch
+								value={settings.deloadEnabled}
+								onValueChange={deloadEnabled => updateSettings({ deloadEnabled })}
+								trackColor={{ false: colors.border, true: colors.primary }}
+							/>
+						</View>
+						{settings.deloadEnabled && (
+							<SettingInput
+								label="Wielkość deloadu"
+								value={settings.deloadPercent}
+								suffix="%"
+								onChange={deloadPercent => updateSettings({ deloadPercent: Math.min(50, deloadPercent) })}
+							/>
+						)}
+					</View>
+
+					{/* Propozycje */}
+					<Text style={styles.sectionTitle}>
+						Propozycje {changedCount > 0 && `(${changedCount} zmian)`}
+					</Text>
+
+					{isLoading ? (
+						<ActivityIndicator size="large" color={colors.primary} style={styles.loader} />
+					) : isError ? (
+						<View style={styles.emptyState}>
+							<Text style={styles.emptyText}>Nie udało się obliczyć propozycji</Text>
+							<TouchableOpacity onPress={() => refetch()}>
+								<Text style={styles.retryText}>Spróbuj ponownie</Text>
+							</TouchableOpacity>
+						</View>
+					) : suggestions.length === 0 ? (
+						<View style={styles.emptyState}>
+							<Text style={styles.emptyText}>Brak ćwiczeń w planie</Text>
+						</View>
+					) : (
+						suggestions.map(suggestion => {
+							const changed = hasChange(suggestion)
+							const selected = selectedIds.has(suggestion.source_workout_exercise_id)
+							const reason = REASON_CONFIG[suggestion.reason]
+
+							return (
+								<TouchableOpacity
+									key={suggestion.source_workout_exercise_id}
+									style={[styles.suggestionRow, !changed && styles.suggestionRowMuted]}
+									onPress={() => changed && toggleSelected(suggestion.source_workout_exercise_id)}
+									disabled={!changed}
+									activeOpacity={0.7}>
+									<Ionicons
+										name={changed && selected ? 'checkbox' : 'square-outline'}
+										size={22}
+										color={changed ? colors.primary : colors.textDisabled}
+									/>
+									<View style={styles.suggestionInfo}>
+										<View style={styles.suggestionHeader}>
+											<Text style={styles.suggestionName} numberOfLines={1}>
+												{suggestion.exercise_name}
+											</Text>
+											<Text style={[styles.reasonBadge, { color: reason.color }]}>{reason.label}</Text>
+										</View>
+										<Text style={styles.suggestionDay}>
+											{DAY_NAMES[suggestion.day_of_week]} • {suggestion.summary}
+										</Text>
+										<View style={styles.diffRow}>
+											<Text style={[styles.diffText, changed && styles.diffOld]}>
+												{formatParams(suggestion.current.reps, suggestion.current.weight_kg)}
+											</Text>
+											{changed && (
+												<>
+													<Ionicons name="arrow-forward" size={14} color={colors.textSecondary} />
+													<Text style={[styles.diffText, styles.diffNew]}>
+														{formatParams(suggestion.suggested.reps, suggestion.suggested.weight_kg)}
+													</Text>
+												</>
+											)}
+										</View>
+									</View>
+								</TouchableOpacity>
+							)
+						})
+					)}
+				</ScrollView>
+
+				{/* Akcje */}
+				<View style={styles.footer}>
+					<TouchableOpacity
+						style={[styles.applyButton, selectedIds.size === 0 && styles.applyButtonDisabled]}
+						onPress={handleApply}
+						disabled={selectedIds.size === 0}>
+						<Text style={styles.applyButtonText}>Zastosuj zaznaczone ({selectedIds.size})</Text>
+					</TouchableOpacity>
+				</View>
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.border,
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	content: {
+		flex: 1,
+	},
+	contentInner: {
+		padding: 16,
+		paddingBottom: 40,
+	},
+	card: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 20,
+	},
+	cardTitle: {
+		fontSize: 15,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 12,
+	},
+	modeTabs: {
+		flexDirection: 'row',
+		backgroundColor: colors.background,
+		borderRadius: 8,
+		padding: 4,
+		marginBottom: 8,
+	},
+	modeTab: {
+		flex: 1,
+		paddingVertical: 8,
+		borderRadius: 6,
+		alignItems: 'center',
+	},
+	modeTabActive: {
+		backgroundColor: colors.primary,
+	},
+	modeTabText: {
+		fontSize: 13,
+		fontWeight: '500',
+		color: colors.textSecondary,
+	},
+	modeTabTextActive: {
+		color: colors.textOnPrimary,
+	},
+	settingRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingVertical: 8,
+		gap: 12,
+	},
+	settingLabel: {
+		flex: 1,
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+	settingInputWrapper: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 6,
+	},
+	settingInput: {
+		width: 64,
+		height: 36,
+		borderRadius: 8,
+		backgroundColor: colors.background,
+		color: colors.textPrimary,
+		textAlign: 'center',
+		fontSize: 15,
+	},
+	settingSuffix: {
+		width: 32,
+		fontSize: 13,
+		color: colors.textSecondary,
+	},
+	sectionTitle: {
+		fontSize: 15,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 10,
+	},
+	loader: {
+		marginTop: 24,
+	},
+	emptyState: {
+		alignItems: 'center',
+		padding: 24,
+		gap: 8,
+	},
+	emptyText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+	retryText: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.primary,
+	},
+	suggestionRow: {
+		flexDirection: 'row',
+		alignItems: 'flex-start',
+		gap: 12,
+		backgroundColor: colors.surface,
+		borderRadius: 10,
+		padding: 12,
+		marginBottom: 8,
+	},
+	suggestionRowMuted: {
+		opacity: 0.6,
+	},
+	suggestionInfo: {
+		flex: 1,
+	},
+	suggestionHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		gap: 8,
+	},
+	suggestionName: {
+		flex: 1,
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	reasonBadge: {
+		fontSize: 12,
+		fontWeight: '600',
+	},
+	suggestionDay: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	diffRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 6,
+		marginTop: 6,
+	},
+	diffText: {
+		fontSize: 14,
+		color: colors.textPrimary,
+	},
+	diffOld: {
+		color: colors.textSecondary,
+		textDecorationLine: 'line-through',
+	},
+	diffNew: {
+		fontWeight: '600',
+		color: colors.success,
+	},
+	footer: {
+		padding: 16,
+		borderTopWidth: 1,
+		borderTopColor: colors.border,
+	},
+	applyButton: {
+		backgroundColor: colors.primary,
+		paddingVertical: 14,
+		borderRadius: 12,
+		alignItems: 'center',
+	},
+	applyButtonDisabled: {
+		opacity: 0.5,
+	},
+	applyButtonText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+		fontSize: 15,
+	},
+})
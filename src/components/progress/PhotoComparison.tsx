@@ -0,0 +1,271 @@
+/**
+ * PhotoComparison - Porównanie zdjęć postępu
+ *
+ * Pokazuje dwa zdjęcia tej samej pozy (przód/bok/tył) z różnych dat obok siebie.
+ * Używany przez klienta (ClientProgressScreen) i trenera (ClientDetailScreen).
+ */
+
+import React, { useMemo, useState } from 'react'
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native'
+import { Image } from 'expo-image'
+import { Ionicons } from '@expo/vector-icons'
+import { colors } from '../../theme/colors'
+import type { ProgressPhotoWithUrl } from '../../api/services/measurements'
+import type { ProgressPhotoType } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface PhotoComparisonProps {
+	/** Zdjęcia postępu (posortowane od najstarszych) */
+	photos: ProgressPhotoWithUrl[]
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const PHOTO_TYPES: { value: ProgressPhotoType; label: string }[] = [
+	{ value: 'front', label: 'Przód' },
+	{ value: 'side', label: 'Bok' },
+	{ value: 'back', label: 'Tył' },
+]
+
+function formatShortDate(dateStr: string) {
+	return new Date(dateStr).toLocaleDateString('pl-PL', {
+		day: 'numeric',
+		month: 'short',
+		year: '2-digit',
+	})
+}
+
+// ============================================
+// KOMPONENTY POMOCNICZE
+// ============================================
+
+interface DateChipsProps {
+	label: string
+	dates: string[]
+	selected: string | null
+	onSelect: (date: string) => void
+}
+
+function DateChips({ label, dates, selected, onSelect }: DateChipsProps) {
+	return (
+		<View style={styles.chipsRow}>
+			<Text style={styles.chipsLabel}>{label}</Text>
+			<ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipsContent}>
+				{dates.map(date => (
+					<TouchableOpacity
+						key={date}
+						style={[styles.chip, selected === date && styles.chipActive]}
+						onPress={() => onSelect(date)}>
+						<Text style={[styles.chipText, selected === date && styles.chipTextActive]}>
+							{formatShortDate(date)}
+						</Text>
+					</TouchableOpacity>
+				))}
+			</ScrollView>
+		</View>
+	)
+}
+
+interface PhotoColumnProps {
+	photo: ProgressPhotoWithUrl | undefined
+	caption: string
+}
+
+function PhotoColumn({ photo, caption }: PhotoColumnProps) {
+	return (
+		<View style={styles.photoColumn}>
+			{photo ? (
+				<Image source={{ uri: photo.signed_url }} style={styles.photo} contentFit="cover" transition={200} />
+			) : (
+				<View style={[styles.photo, styles.photoPlaceholder]}>
+					<Ionicons name="image-outline" size={32} color={colors.textDisabled} />
+				</View>
+			)}
+			<Text style={styles.photoCaption}>{caption}</Text>
+			{photo && <Text style={styles.photoDate}>{formatShortDate(photo.measurement_date)}</Text>}
+		</View>
+	)
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function PhotoComparison({ photos }: PhotoComparisonProps) {
+	const [photoType, setPhotoType] = useState<ProgressPhotoType>('front')
+	const [beforeDate, setBeforeDate] = useState<string | null>(null)
+	const [afterDate, setAfterDate] = useState<string | null>(null)
+
+	// Zdjęcia wybranej pozy i dostępne daty
+	const photosForType = useMemo(() => photos.filter(photo => photo.photo_type === photoType), [photos, photoType])
+	const dates = useMemo(
+		() => Array.from(new Set(photosForType.map(photo => photo.measurement_date))),
+		[photosForType]
+	)
+
+	// Domyślnie: najstarsze vs najnowsze
+	const activeBefore = beforeDate && dates.includes(beforeDate) ? beforeDate : dates[0] || null
+	const activeAfter = afterDate && dates.includes(afterDate) ? afterDate : dates[dates.length - 1] || null
+
+	const beforePhoto = photosForType.find(photo => photo.measurement_date === activeBefore)
+	const afterPhoto = photosForType.find(photo => photo.measurement_date === activeAfter)
+
+	if (photos.length === 0) {
+		return (
+			<View style={styles.emptyState}>
+				<Ionicons name="camera-outline" size={32} color={colors.textDisabled} />
+				<Text style={styles.emptyText}>Brak zdjęć postępu</Text>
+			</View>
+		)
+	}
+
+	return (
+		<View style={styles.container}>
+			{/* Wybór pozy */}
+			<View style={styles.typeTabs}>
+				{PHOTO_TYPES.map(type => (
+					<TouchableOpacity
+						key={type.value}
+						style={[styles.typeTab, photoType === type.value && styles.typeTabActive]}
+						onPress={() => setPhotoType(type.value)}>
+						<Text style={[styles.typeTabText, photoType === type.value && styles.typeTabTextActive]}>
+							{type.label}
+						</Text>
+					</TouchableOpacity>
+				))}
+			</View>
+
+			{dates.length === 0 ? (
+				<View style={styles.emptyState}>
+					<Text style={styles.emptyText}>Brak zdjęć dla tej pozy</Text>
+				</View>
+			) : (
+				<>
+					{/* Zdjęcia obok siebie */}
+					<View style={styles.photosRow}>
+						<PhotoColumn photo={beforePhoto} caption="Przed" />
+						<PhotoColumn photo={afterPhoto} caption="Po" />
+					</View>
+
+					{/* Wybór dat */}
+					{dates.length > 1 && (
+						<>
+							<DateChips label="Przed" dates={dates} selected={activeBefore} onSelect={setBeforeDate} />
+							<DateChips label="Po" dates={dates} selected={activeAfter} onSelect={setAfterDate} />
+						</>
+					)}
+				</>
+			)}
+		</View>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 12,
+	},
+	typeTabs: {
+		flexDirection: 'row',
+		backgroundColor: colors.background,
+		borderRadius: 8,
+		padding: 4,
+		marginBottom: 12,
+	},
+	typeTab: {
+		flex: 1,
+		paddingVertical: 8,
+		borderRadius: 6,
+		alignItems: 'center',
+	},
+	typeTabActive: {
+		backgroundColor: colors.primary,
+	},
+	typeTabText: {
+		fontSize: 13,
+		fontWeight: '500',
+		color: colors.textSecondary,
+	},
+	typeTabTextActive: {
+		color: colors.textOnPrimary,
+	},
+	photosRow: {
+		flexDirection: 'row',
+		gap: 8,
+	},
+	photoColumn: {
+		flex: 1,
+		alignItems: 'center',
+	},
+	photo: {
+		width: '100%',
+		aspectRatio: 3 / 4,
+		borderRadius: 8,
+		backgroundColor: colors.background,
+	},
+	photoPlaceholder: {
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	photoCaption: {
+		fontSize: 13,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginTop: 6,
+	},
+	photoDate: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	chipsRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginTop: 12,
+	},
+	chipsLabel: {
+		width: 44,
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	chipsContent: {
+		gap: 6,
+	},
+	chip: {
+		paddingHorizontal: 10,
+		paddingVertical: 6,
+		borderRadius: 14,
+		backgroundColor: colors.background,
+		borderWidth: 1,
+		borderColor: colors.border,
+	},
+	chipActive: {
+		backgroundColor: colors.primary,
+		borderColor: colors.primary,
+	},
+	chipText: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	chipTextActive: {
+		color: colors.textOnPrimary,
+	},
+	emptyState: {
+		alignItems: 'center',
+		padding: 20,
+		gap: 8,
+	},
+	emptyText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+})
@@ -0,0 +1,173 @@
+/**
+ * RestTimer - Odliczanie odpoczynku między seriami
+ *
+ * Czas liczony od znacznika końca (endsAt), więc po powrocie aplikacji z tła
+ * odliczanie jest od razu aktualne. Sam koniec w tle sygnalizuje
+ * powiadomienie lokalne planowane przez WorkoutScreen.
+ */
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, TouchableOpacity, StyleSheet, AppState } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface RestTimerProps {
+	/** Nazwa ćwiczenia, po którym trwa odpoczynek */
+	exerciseName: string
+	/** Znacznik czasu (ms) startu odpoczynku */
+	startedAt: number
+	/** Znacznik czasu (ms) końca odpoczynku */
+	endsAt: number
+	/** Dodaj/odejmij sekundy */
+	onAddTime: (seconds: number) => void
+	/** Pomiń odpoczynek */
+	onSkip: () => void
+	/** Odliczanie dobiegło końca */
+	onFinish: () => void
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const TIME_STEP_SECONDS = 15
+
+function formatCountdown(totalSeconds: number) {
+	const minutes = Math.floor(totalSeconds / 60)
+	const seconds = totalSeconds % 60
+	return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function RestTimer({ exerciseName, startedAt, endsAt, onAddTime, onSkip, onFinish }: RestTimerProps) {
+	const [now, setNow] = useState(Date.now())
+
+	// Tick co sekundę + natychmiastowe odświeżenie po powrocie z tła
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), 1000)
+		const subscription = AppState.addEventListener('change', state => {
+			if (state === 'active') setNow(Date.now())
+		})
+
+		return () => {
+			clearInterval(interval)
+			subscription.remove()
+		}
+	}, [])
+
+	const remainingSeconds = Math.max(0, Math.ceil((endsAt - now) / 1000))
+	const totalMs = Math.max(1, endsAt - startedAt)
+	const progressPercent = Math.min(100, Math.max(0, ((now - startedAt) / totalMs) * 100))
+
+	useEffect(() => {
+		if (remainingSeconds === 0) onFinish()
+	}, [remainingSeconds, onFinish])
+
+	return (
+		<View style={styles.container}>
+			<View style={styles.progressTrack}>
+				<View style={[styles.progressFill, { width: `${progressPercent}%` }]} />
+			</View>
+
+			<View style={styles.content}>
+				<View style={styles.info}>
+					<Text style={styles.label}>Odpoczynek</Text>
+					<Text style={styles.exerciseName} numberOfLines={1}>
+						{exerciseName}
+					</Text>
+				</View>
+
+				<TouchableOpacity
+					style={styles.timeButton}
+					onPress={() => onAddTime(-TIME_STEP_SECONDS)}
+					disabled={remainingSeconds <= TIME_STEP_SECONDS}>
+					<Text style={styles.timeButtonText}>-{TIME_STEP_SECONDS}s</Text>
+				</TouchableOpacity>
+
+				<Text style={styles.countdown}>{formatCountdown(remainingSeconds)}</Text>
+
+				<TouchableOpacity style={styles.timeButton} onPress={() => onAddTime(TIME_STEP_SECONDS)}>
+					<Text style={styles.timeButtonText}>+{TIME_STEP_SECONDS}s</Text>
+				</TouchableOpacity>
+
+				<TouchableOpacity style={styles.skipButton} onPress={onSkip}>
+					<Ionicons name="play-skip-forward" size={18} color={colors.textOnPrimary} />
+				</TouchableOpacity>
+			</View>
+		</View>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		backgroundColor: colors.surface,
+		borderTopWidth: 1,
+		borderTopColor: colors.border,
+	},
+	progressTrack: {
+		height: 3,
+		backgroundColor: colors.background,
+	},
+	progressFill: {
+		height: '100%',
+		backgroundColor: colors.primary,
+	},
+	content: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		gap: 10,
+	},
+	info: {
+		flex: 1,
+	},
+	label: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	exerciseName: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginTop: 2,
+	},
+	countdown: {
+		fontSize: 24,
+		fontWeight: 'bold',
+		color: colors.textPrimary,
+		minWidth: 64,
+		textAlign: 'center',
+		fontVariant: ['tabular-nums'],
+	},
+	timeButton: {
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		borderRadius: 8,
+		backgroundColor: colors.background,
+	},
+	timeButtonText: {
+		fontSize: 13,
+		fontWeight: '600',
+		color: colors.textSecondary,
+	},
+	skipButton: {
+		width: 40,
+		height: 40,
+		borderRadius: 20,
+		backgroundColor: colors.primary,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+})
@@ -0,0 +1,395 @@
+/**
+ * WorkoutCommentsModal - Wątek komentarzy do wykonanego treningu
+ *
+ * Trener i klient rozmawiają o konkretnej sesji. Komentarz można przypiąć
+ * do całego treningu albo do jednego z wykonanych ćwiczeń.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+	View,
+	Text,
+	TextInput,
+	ScrollView,
+	TouchableOpacity,
+	StyleSheet,
+	Alert,
+	ActivityIndicator,
+	Modal,
+	KeyboardAvoidingView,
+	Platform,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useWorkoutComments,
+	useCommentableExercises,
+	useAddWorkoutComment,
+	useMarkWorkoutCommentsAsRead,
+	getWorkoutCommentRecipientUserId,
+} from '../../api/services/workoutComments'
+import { notifyWorkoutComment } from '../../services/notifications'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// TYPY
+// ============================================
+
+interface WorkoutCommentsModalProps {
+	visible: boolean
+	completedWorkoutId: string
+	/** Nagłówek, np. data treningu */
+	title: string
+	onClose: () => void
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const MAX_LENGTH = 1000
+
+// ============================================
+// HELPERY
+// ============================================
+
+const formatTime = (dateStr: string) =>
+	new Date(dateStr).toLocaleString('pl-PL', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function WorkoutCommentsModal({ visible, completedWorkoutId, title, onClose }: WorkoutCommentsModalProps) {
+	const { profile, currentUser } = useAuth()
+	const threadId = visible ? completedWorkoutId : ''
+
+	const { data: comments = [], isLoading } = useWorkoutComments(threadId)
+	const { data: exercises = [] } = useCommentableExercises(threadId)
+	const addComment = useAddWorkoutComment()
+	const { mutate: markAsRead, isPending: isMarkingAsRead } = useMarkWorkoutCommentsAsRead(
+		profile?.id || '',
+		completedWorkoutId
+	)
+
+	const [content, setContent] = useState('')
+	const [exerciseId, setExerciseId] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (visible) {
+			setContent('')
+			setExerciseId(null)
+		}
+	}, [visible])
+
+	// Oznacz komentarze drugiej strony jako przeczytane
+	useEffect(() => {
+		if (!visible || !profile?.id || isMarkingAsRead) return
+
+		const unreadIds = comments
+			.filter(comment => comment.author_id !== profile.id && !comment.is_read)
+			.map(comment => comment.id)
+
+		if (unreadIds.length > 0) markAsRead(unreadIds)
+	}, [visible, comments, profile?.id, isMarkingAsRead, markAsRead])
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleSend = useCallback(async () => {
+		const text = content.trim()
+		if (!text || !profile || !currentUser) return
+
+		try {
+			await addComment.mutateAsync({
+				completed_workout_id: completedWorkoutId,
+				completed_exercise_id: exerciseId,
+				author_id: profile.id,
+				content: text,
+			})
+			setContent('')
+
+			// Push nie blokuje wątku - komentarz jest już zapisany
+			getWorkoutCommentRecipientUserId(completedWorkoutId, currentUser.id)
+				.then(recipientUserId => {
+					if (recipientUserId) {
+						notifyWorkoutComment(
+							recipientUserId,
+							`${profile.first_name} ${profile.last_name}`,
+							text,
+							completedWorkoutId
+						)
+					}
+				})
+				.catch(error => console.warn('Błąd wysyłania powiadomienia o komentarzu:', error))
+		} catch (error: any) {
+			console.error('Błąd dodawania komentarza:', error)
+			Alert.alert('Błąd', error.message || 'Nie udało się dodać komentarza')
+		}
+	}, [content, profile, currentUser, completedWorkoutId, exerciseId, addComment])
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	const canSend = content.trim().length > 0 && !addComment.isPending
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+			<SafeAreaView style={styles.container}>
+				{/* Header */}
+				<View style={styles.header}>
+					<View style={styles.headerSpacer} />
+					<View style={styles.headerCenter}>
+						<Text style={styles.title}>Komentarze</Text>
+						<Text style={styles.subtitle} numberOfLines={1}>
+							{title}
+						</Text>
+					</View>
+					<TouchableOpacity onPress={onClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+				</View>
+
+				<KeyboardAvoidingView style={styles.content} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+					<ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+						{isLoading ? (
+							<ActivityIndicator size="large" color={colors.primary} style={styles.loader} />
+						) : comments.length === 0 ? (
+							<View style={styles.emptyState}>
+								<Ionicons name="chatbubbles-outline" size={48} color={colors.textDisabled} />
+								<Text style={styles.emptyText}>Brak komentarzy do tego treningu</Text>
+							</View>
+						) : (
+							comments.map(comment => {
+								const isOwn = comment.author_id === profile?.id
+								return (
+									<View key={comment.id} style={[styles.comment, isOwn ? styles.commentOwn : styles.commentOther]}>
+										{comment.exercise_name && (
+											<View style={styles.exerciseTag}>
+												<Ionicons name="barbell" size={12} color={isOwn ? colors.textOnPrimary : colors.primary} />
+												<Text style={[styles.exerciseTagText, isOwn && styles.ownText]}>{comment.exercise_name}</Text>
+											</View>
+										)}
+										<Text style={[styles.commentText, isOwn && styles.ownText]}>{comment.content}</Text>
+										<Text style={[styles.commentTime, isOwn && styles.ownSubtext]}>
+											{formatTime(comment.created_at)}
+											{isOwn && comment.is_read ? ' • Przeczytane' : ''}
+										</Text>
+									</View>
+								)
+							})
+						)}
+					</ScrollView>
+
+					<View style={styles.footer}>
+						{/* Czego dotyczy komentarz */}
+						{exercises.length > 0 && (
+							<ScrollView
+								horizontal
+								showsHorizontalScrollIndicator={false}
+								contentContainerStyle={styles.targets}
+								keyboardShouldPersistTaps="handled">
+								<TouchableOpacity
+									style={[styles.targetChip, !exerciseId && styles.targetChipActive]}
+									onPress={() => setExerciseId(null)}>
+									<Text style={[styles.targetChipText, !exerciseId && styles.targetChipTextActive]}>Cały trening</Text>
+								</TouchableOpacity>
+								{exercises.map(exercise => (
+									<TouchableOpacity
+										key={exercise.id}
+										style={[styles.targetChip, exerciseId === exercise.id && styles.targetChipActive]}
+										onPress={() => setExerciseId(exercise.id)}>
+										<Text
+											style={[styles.targetChipText, exerciseId === exercise.id && styles.targetChipTextActive]}
+											numberOfLines={1}>
+											{exercise.name}
+										</Text>
+									</TouchableOpacity>
+								))}
+							</ScrollView>
+						)}
+
+						<View style={styles.inputRow}>
+							<TextInput
+								style={styles.input}
+								value={content}
+								onChangeText={setContent}
+								placeholder="Np. W 3. serii zmniejsz ciężar..."
+								placeholderTextColor={colors.textDisabled}
+								multiline
+								maxLength={MAX_LENGTH}
+							/>
+							<TouchableOpacity
+								style={[styles.sendButton, !canSend && styles.buttonDisabled]}
+								onPress={handleSend}
+								disabled={!canSend}>
+								{addComment.isPending ? (
+									<ActivityIndicator size="small" color={colors.textOnPrimary} />
+								) : (
+									<Ionicons name="send" size={18} color={colors.textOnPrimary} />
+								)}
+							</TouchableOpacity>
+						</View>
+					</View>
+				</KeyboardAvoidingView>
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 14,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerSpacer: {
+		width: 28,
+	},
+	headerCenter: {
+		flex: 1,
+		alignItems: 'center',
+		marginHorizontal: 12,
+	},
+	title: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	subtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	content: {
+		flex: 1,
+	},
+	scrollContent: {
+		padding: 16,
+		paddingBottom: 24,
+	},
+	loader: {
+		marginTop: 40,
+	},
+	emptyState: {
+		alignItems: 'center',
+		marginTop: 60,
+		gap: 12,
+	},
+	emptyText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+	comment: {
+		maxWidth: '85%',
+		borderRadius: 16,
+		padding: 12,
+		marginBottom: 8,
+	},
+	commentOwn: {
+		alignSelf: 'flex-end',
+		backgroundColor: colors.primary,
+		borderBottomRightRadius: 4,
+	},
+	commentOther: {
+		alignSelf: 'flex-start',
+		backgroundColor: colors.surface,
+		borderBottomLeftRadius: 4,
+	},
+	exerciseTag: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 4,
+		marginBottom: 4,
+	},
+	exerciseTagText: {
+		fontSize: 12,
+		fontWeight: '600',
+		color: colors.primary,
+	},
+	commentText: {
+		fontSize: 15,
+		color: colors.textPrimary,
+	},
+	commentTime: {
+		fontSize: 11,
+		color: colors.textSecondary,
+		marginTop: 4,
+	},
+	ownText: {
+		color: colors.textOnPrimary,
+	},
+	ownSubtext: {
+		color: colors.textOnPrimary + '80',
+	},
+	footer: {
+		borderTopWidth: 1,
+		borderTopColor: colors.surface,
+		paddingVertical: 12,
+	},
+	targets: {
+		paddingHorizontal: 16,
+		gap: 8,
+		marginBottom: 10,
+	},
+	targetChip: {
+		maxWidth: 180,
+		paddingHorizontal: 12,
+		paddingVertical: 6,
+		borderRadius: 16,
+		backgroundColor: colors.surface,
+	},
+	targetChipActive: {
+		backgroundColor: colors.primary,
+	},
+	targetChipText: {
+		fontSize: 13,
+		color: colors.textSecondary,
+	},
+	targetChipTextActive: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+	},
+	inputRow: {
+		flexDirection: 'row',
+		alignItems: 'flex-end',
+		gap: 8,
+		paddingHorizontal: 16,
+	},
+	input: {
+		flex: 1,
+		backgroundColor: colors.surface,
+		borderRadius: 20,
+		paddingHorizontal: 14,
+		paddingVertical: 10,
+		fontSize: 15,
+		color: colors.textPrimary,
+		maxHeight: 120,
+	},
+	sendButton: {
+		width: 40,
+		height: 40,
+		borderRadius: 20,
+		backgroundColor: colors.primary,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	buttonDisabled: {
+		opacity: 0.5,
+	},
+})
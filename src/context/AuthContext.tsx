@@ -17,6 +17,7 @@ import React, {
 } from 'react';
 import { AppState, type AppStateStatus } from 'react-native';
 import { supabase } from '../api/supabase';
+import { queryClient } from '../api/queryClient';
 import {
   signIn as authSignIn,
   signOut as authSignOut,
@@ -33,6 +34,7 @@ import {
   savePushToken,
   removePushToken,
 } from '../services/notifications';
+import { cancelReminders } from '../services/reminders';
 import type { Profile, ClientData } from '../types';
 
 // ============================================
@@ -378,6 +380,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
       if (currentUser?.id) {
         await removePushToken(currentUser.id);
       }
+      // Przypomnienia są lokalne - nie mogą przyjść kolejnemu użytkownikowi urządzenia
+      await cancelReminders();
+      // Cache zapytań jest zapisywany na urządzeniu - nie może go zobaczyć kolejny użytkownik
+      queryClient.clear();
       
       await authSignOut();
       setCurrentUser(null);
@@ -6,11 +6,13 @@
 
 import React from 'react'
 import { View, Text } from 'react-native'
+import type { NavigatorScreenParams } from '@react-navigation/native'
 import { createNativeStackNavigator } from '@react-navigation/native-stack'
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs'
 import { Ionicons } from '@expo/vector-icons'
 import { useAuth } from '../context/AuthContext'
 import { colors } from '../theme/colors'
+import { useReminderScheduler } from '../services/reminders'
 import ExerciseLibraryScreen from '../screens/trainer/ExerciseLibraryScreen'
 import AddExerciseScreen from '../screens/trainer/AddExerciseScreen'
 import ExerciseDetailScreen from '../screens/trainer/ExerciseDetailScreen'
@@ -22,9 +24,14 @@ import AddClientScreen from '../screens/trainer/AddClientScreen'
 import CreatePlanScreen from '../screens/trainer/CreatePlanScreen'
 import PlanDetailScreen from '../screens/trainer/PlanDetailScreen'
 import EditPlanScreen from '../screens/trainer/EditPlanScreen'
+import DietPlanFormScreen from '../screens/trainer/DietPlanFormScreen'
+import TemplateLibraryScreen from '../screens/trainer/TemplateLibraryScreen'
+import TemplateFormScreen from '../screens/trainer/TemplateFormScreen'
 import TrainerSettingsScreen from '../screens/trainer/TrainerSettingsScreen'
 import ChatScreen from '../screens/shared/ChatScreen'
 import MessagesListScreen from '../screens/shared/MessagesListScreen'
+import NotificationsScreen from '../screens/shared/NotificationsScreen'
+import SyncIssuesScreen from '../screens/shared/SyncIssuesScreen'
 import ClientHomeScreen from '../screens/client/ClientHomeScreen'
 import WorkoutScreen from '../screens/client/WorkoutScreen'
 import ClientProgressScreen from '../screens/client/ClientProgressScreen'
@@ -52,7 +59,7 @@ export type TrainerTabParamList = {
 
 // Main App Stack (dla modali i nested screens)
 export type AppStackParamList = {
-	ClientTabs: undefined
+	ClientTabs: NavigatorScreenParams<ClientTabParamList> | undefined
 	TrainerTabs: undefined
 	// Dodatkowe ekrany (modals, details)
 	AddExercise: undefined
@@ -64,9 +71,14 @@ export type AppStackParamList = {
 	PlanDetail: { planId: string }
 	Chat: { recipientId: string }
 	MessagesList: undefined
+	Notifications: undefined
+	SyncIssues: undefined
 	Workout: { workoutDayId: string }
 	ClientPlanView: { planId: string }
-	EditPlan: { planId: string }
+	EditPlan: { planId: string; progressionSourcePlanId?: string }
+	DietPlanForm: { clientId: string; dietPlanId?: string }
+	TemplateLibrary: undefined
+	TemplateForm: { templateId?: string }
 }
 
 // ============================================
@@ -76,6 +88,11 @@ export type AppStackParamList = {
 const ClientTab = createBottomTabNavigator<ClientTabParamList>()
 
 function ClientTabNavigator() {
+	const { profile, currentUser } = useAuth()
+
+	// Lokalne przypomnienia o treningu i pomiarach
+	useReminderScheduler(profile?.id || '', currentUser?.id || '')
+
 	return (
 		<ClientTab.Navigator
 			screenOptions={{
@@ -267,6 +284,20 @@ export default function AppNavigator() {
 					animation: 'slide_from_right',
 				}}
 			/>
+			<AppStack.Screen
+				name="Notifications"
+				component={NotificationsScreen}
+				options={{
+					animation: 'slide_from_right',
+				}}
+			/>
+			<AppStack.Screen
+				name="SyncIssues"
+				component={SyncIssuesScreen}
+				options={{
+					animation: 'slide_from_right',
+				}}
+			/>
 			<AppStack.Screen
 				name="Chat"
 				component={ChatScreen}
@@ -290,6 +321,29 @@ export default function AppNavigator() {
 					animation: 'slide_from_bottom',
 				}}
 			/>
+			<AppStack.Screen
+				name="DietPlanForm"
+				component={DietPlanFormScreen}
+				options={{
+					presentation: 'modal',
+					animation: 'slide_from_bottom',
+				}}
+			/>
+			<AppStack.Screen
+				name="TemplateLibrary"
+				component={TemplateLibraryScreen}
+				options={{
+					animation: 'slide_from_right',
+				}}
+			/>
+			<AppStack.Screen
+				name="TemplateForm"
+				component={TemplateFormScreen}
+				options={{
+					presentation: 'modal',
+					animation: 'slide_from_bottom',
+				}}
+			/>
 			<AppStack.Screen
 				name="ClientPlanView"
 				component={ClientPlanViewScreen}
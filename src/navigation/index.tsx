@@ -4,6 +4,9 @@
  * Sprawdza stan autoryzacji i wyświetla:
  * - AuthNavigator (Login, Onboarding) gdy niezalogowany
  * - AppNavigator (Client/Trainer tabs) gdy zalogowany
+ *
+ * Linki fitcoach:// i dotknięcia powiadomień obsługuje useDeepLinking -
+ * czekają na zalogowanie i ukończenie onboardingu.
  */
 
 import React from 'react'
@@ -14,6 +17,7 @@ import AuthNavigator from './AuthNavigator'
 import AppNavigator from './AppNavigator'
 import OnboardingScreen from '../screens/auth/OnboardingScreen'
 import { colors } from '../theme/colors'
+import { navigationRef, useDeepLinking } from './linking'
 
 // ============================================
 // NAVIGATION THEME (dark mode)
@@ -82,19 +86,23 @@ function LoadingScreen() {
 export default function RootNavigator() {
 	const { isLoading, isAuthenticated, profile, clientData } = useAuth()
 
-	// Pokaż loading podczas sprawdzania sesji
-	if (isLoading) {
-		return <LoadingScreen />
-	}
-
 	// Sprawdź czy klient potrzebuje onboardingu
 	const needsOnboarding =
 		isAuthenticated &&
 		profile?.role === 'client' &&
 		(!clientData || !clientData.accepted_terms || !clientData.accepted_privacy || !clientData.onboarding_completed)
 
+	// Deep linki są wykonywane dopiero gdy widoczny jest AppNavigator
+	const appRole = !isLoading && isAuthenticated && !needsOnboarding && profile ? profile.role : null
+	const flushPendingLink = useDeepLinking(appRole)
+
+	// Pokaż loading podczas sprawdzania sesji
+	if (isLoading) {
+		return <LoadingScreen />
+	}
+
 	return (
-		<NavigationContainer theme={navigationTheme}>
+		<NavigationContainer ref={navigationRef} theme={navigationTheme} onReady={flushPendingLink}>
 			{!isAuthenticated ? (
 				// Niezalogowany → pokaż AuthNavigator
 				<AuthNavigator />
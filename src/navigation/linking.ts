@@ -0,0 +1,235 @@
+/**
+ * Deep linking - Powiadomienia i linki fitcoach:// do ekranów aplikacji
+ *
+ * Payload powiadomienia (PushNotificationData.data) i URL są najpierw
+ * zamieniane na DeepLink (niezależny od roli), a dopiero przy nawigacji
+ * na konkretną trasę AppStackParamList zgodną z rolą użytkownika.
+ * Link otrzymany przed zalogowaniem (zimny start, ekran logowania,
+ * onboarding) czeka, aż RootNavigator pokaże AppNavigator.
+ */
+
+import { useCallback, useEffect, useRef } from 'react'
+import * as Linking from 'expo-linking'
+import * as Notifications from 'expo-notifications'
+import { createNavigationContainerRef, CommonActions } from '@react-navigation/native'
+import { NotificationTypes } from '../services/notifications'
+import type { AppStackParamList } from './AppNavigator'
+import type { UserRole } from '../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Cel linku niezależny od roli
+ */
+export type DeepLink =
+	| { type: 'chat'; recipientId: string }
+	| { type: 'messages' }
+	| { type: 'notifications' }
+	| { type: 'workout'; workoutDayId: string }
+	| { type: 'progress' }
+	| { type: 'plan'; planId: string }
+	| { type: 'client'; clientId: string }
+
+/**
+ * Trasa AppNavigator z parametrami
+ */
+export type NavigationTarget = {
+	[K in keyof AppStackParamList]: { name: K; params: AppStackParamList[K] }
+}[keyof AppStackParamList]
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Schemat linków aplikacji (app.json → expo.scheme) */
+export const DEEP_LINK_SCHEME = 'fitcoach'
+
+// ============================================
+// NAWIGACJA POZA KOMPONENTAMI
+// ============================================
+
+export const navigationRef = createNavigationContainerRef<AppStackParamList>()
+
+// ============================================
+// HELPERY
+// ============================================
+
+const isTrainerRole = (role: UserRole) => role === 'trainer' || role === 'admin'
+
+/**
+ * Zamienia URL na DeepLink
+ * fitcoach://chat/{profileId}, fitcoach://plan/{planId}, fitcoach://workout/{workoutDayId},
+ * fitcoach://client/{profileId}, fitcoach://progress, fitcoach://messages, fitcoach://notifications
+ * W Expo Go ścieżka jest po "/--/", np. exp://host:8081/--/chat/{profileId}
+ */
+export function parseDeepLinkUrl(url: string): DeepLink | null {
+	const { scheme, hostname, path } = Linking.parse(url)
+	const segments = [scheme === DEEP_LINK_SCHEME ? hostname : null, ...(path || '').split('/')].filter(
+		(segment): segment is string => !!segment && segment !== '--'
+	)
+	const [route, id] = segments
+
+	switch (route) {
+		case 'chat':
+			return id ? { type: 'chat', recipientId: id } : { type: 'messages' }
+		case 'messages':
+			return { type: 'messages' }
+		case 'notifications':
+			return { type: 'notifications' }
+		case 'workout':
+			return id ? { type: 'workout', workoutDayId: id } : null
+		case 'progress':
+			return { type: 'progress' }
+		case 'plan':
+			return id ? { type: 'plan', planId: id } : null
+		case 'client':
+			return id ? { type: 'client', clientId: id } : null
+		default:
+			return null
+	}
+}
+
+/**
+ * Zamienia payload powiadomienia na DeepLink
+ * Powiadomienia bez własnego ekranu otwierają centrum powiadomień
+ */
+export function getNotificationDeepLink(data: Record<string, unknown> | null | undefined): DeepLink | null {
+	if (!data?.type) return null
+
+	const id = (key: string) => (typeof data[key] === 'string' ? (data[key] as string) : null)
+
+	switch (data.type) {
+		case NotificationTypes.NEW_MESSAGE:
+		case NotificationTypes.BROADCAST: {
+			const senderId = id('senderId')
+			return senderId ? { type: 'chat', recipientId: senderId } : { type: 'messages' }
+		}
+		case NotificationTypes.NEW_PLAN:
+		case NotificationTypes.PLAN_UPDATED: {
+			const planId = id('planId')
+			return planId ? { type: 'plan', planId } : { type: 'notifications' }
+		}
+		case NotificationTypes.WORKOUT_REMINDER: {
+			const workoutDayId = id('workoutDayId')
+			return workoutDayId ? { type: 'workout', workoutDayId } : { type: 'notifications' }
+		}
+		case NotificationTypes.MEASUREMENT_REMINDER:
+			return { type: 'progress' }
+		case NotificationTypes.WORKOUT_COMPLETED:
+		case NotificationTypes.NEW_CLIENT: {
+			const clientId = id('clientId')
+			return clientId ? { type: 'client', clientId } : { type: 'notifications' }
+		}
+		case NotificationTypes.REST_FINISHED:
+			// Lokalne powiadomienie z ekranu treningu - wystarczy otworzyć aplikację
+			return null
+		default:
+			return { type: 'notifications' }
+	}
+}
+
+/**
+ * Dobiera trasę do roli użytkownika
+ * Zwraca null, gdy link nie jest dostępny dla tej roli
+ */
+export function resolveDeepLink(link: DeepLink, role: UserRole): NavigationTarget | null {
+	const isTrainer = isTrainerRole(role)
+
+	switch (link.type) {
+		case 'chat':
+			return { name: 'Chat', params: { recipientId: link.recipientId } }
+		case 'messages':
+			return { name: 'MessagesList', params: undefined }
+		case 'notifications':
+			return { name: 'Notifications', params: undefined }
+		case 'workout':
+			return isTrainer ? null : { name: 'Workout', params: { workoutDayId: link.workoutDayId } }
+		case 'progress':
+			return isTrainer ? null : { name: 'ClientTabs', params: { screen: 'Progress' } }
+		case 'plan':
+			return isTrainer
+				? { name: 'PlanDetail', params: { planId: link.planId } }
+				: { name: 'ClientPlanView', params: { planId: link.planId } }
+		case 'client':
+			return isTrainer ? { name: 'ClientDetail', params: { clientId: link.clientId } } : null
+	}
+}
+
+/**
+ * Nawiguje do trasy z dowolnego miejsca (poza drzewem komponentów)
+ */
+export function navigateToTarget(target: NavigationTarget): void {
+	navigationRef.dispatch(CommonActions.navigate({ name: target.name, params: target.params }))
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Nasłuchuje linków i dotknięć powiadomień, nawiguje gdy AppNavigator jest gotowy
+ * role = null, gdy użytkownik nie może jeszcze korzystać z AppNavigator
+ * (niezalogowany, ładowanie profilu, onboarding) - link czeka do zalogowania.
+ * Zwraca funkcję dla NavigationContainer.onReady.
+ */
+export function useDeepLinking(role: UserRole | null) {
+	const pendingLink = useRef<DeepLink | null>(null)
+	const roleRef = useRef(role)
+	roleRef.current = role
+
+	const flushPendingLink = useCallback(() => {
+		const link = pendingLink.current
+		const currentRole = roleRef.current
+		if (!link || !currentRole || !navigationRef.isReady()) return
+
+		pendingLink.current = null
+		const target = resolveDeepLink(link, currentRole)
+		if (!target) {
+			console.log('[Linking] Link niedostępny dla roli:', currentRole, link)
+			return
+		}
+		navigateToTarget(target)
+	}, [])
+
+	const handleLink = useCallback(
+		(link: DeepLink | null) => {
+			if (!link) return
+			pendingLink.current = link
+			flushPendingLink()
+		},
+		[flushPendingLink]
+	)
+
+	// Zimny start: URL otwierający aplikację i dotknięte powiadomienie
+	useEffect(() => {
+		Linking.getInitialURL()
+			.then(url => url && handleLink(parseDeepLinkUrl(url)))
+			.catch(error => console.warn('[Linking] Błąd odczytu początkowego URL:', error))
+
+		Notifications.getLastNotificationResponseAsync()
+			.then(response => response && handleLink(getNotificationDeepLink(response.notification.request.content.data)))
+			.catch(error => console.warn('[Linking] Błąd odczytu powiadomienia startowego:', error))
+	}, [handleLink])
+
+	// Aplikacja w tle lub na pierwszym planie
+	useEffect(() => {
+		const urlSubscription = Linking.addEventListener('url', ({ url }) => handleLink(parseDeepLinkUrl(url)))
+		const responseSubscription = Notifications.addNotificationResponseReceivedListener(response =>
+			handleLink(getNotificationDeepLink(response.notification.request.content.data))
+		)
+
+		return () => {
+			urlSubscription.remove()
+			responseSubscription.remove()
+		}
+	}, [handleLink])
+
+	// Po zalogowaniu / onboardingu wykonaj link, który czekał
+	useEffect(() => {
+		flushPendingLink()
+	}, [role, flushPendingLink])
+
+	return flushPendingLink
+}
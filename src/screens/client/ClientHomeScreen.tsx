@@ -4,24 +4,29 @@
  * Wyświetla dzisiejszy trening i postępy.
  */
 
-import React, { useMemo, useCallback } from 'react'
+import React, { useMemo, useCallback, useState } from 'react'
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, RefreshControl, ActivityIndicator } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
-import { useNavigation } from '@react-navigation/native'
+import { useNavigation, useFocusEffect } from '@react-navigation/native'
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useAuth } from '../../context/AuthContext'
 import { DAY_NAMES, type WorkoutDayWithExercises } from '../../api/services/trainingPlans'
+import { useActiveDietPlan } from '../../api/services/dietPlans'
 import { 
 	useOfflineActivePlan, 
 	useOfflineTodayWorkoutStatus, 
 	useOfflineWorkoutStats,
 	useNetworkStatus,
+	getActiveWorkoutSession,
+	type ActiveWorkoutSession,
 } from '../../services/offline'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 import MessageBadge from '../../components/common/MessageBadge'
+import NotificationBadge from '../../components/common/NotificationBadge'
 import { OfflineIndicator } from '../../components/common/OfflineBanner'
+import DietFileViewer from '../../components/diet/DietFileViewer'
 
 // ============================================
 // KOMPONENT KARTY ĆWICZENIA
@@ -67,6 +72,10 @@ export default function ClientHomeScreen() {
 	// Pobierz statystyki treningów (z obsługą offline)
 	const { data: stats } = useOfflineWorkoutStats(currentUser?.id || '')
 
+	// Pobierz aktywną dietę
+	const { data: activeDiet, refetch: refetchDiet } = useActiveDietPlan(profile?.id || '')
+	const [showDietViewer, setShowDietViewer] = useState(false)
+
 	// Oblicz dzisiejszy dzień
 	const today = useMemo(() => {
 		const now = new Date()
@@ -94,11 +103,21 @@ export default function ClientHomeScreen() {
 		todayWorkout?.id || null
 	)
 
+	// Trening przerwany w trakcie (do wznowienia)
+	const [activeSession, setActiveSession] = useState<ActiveWorkoutSession | null>(null)
+	useFocusEffect(
+		useCallback(() => {
+			setActiveSession(currentUser?.id ? getActiveWorkoutSession(currentUser.id) : null)
+		}, [currentUser?.id])
+	)
+	const isTodaySessionActive = !!todayWorkout && activeSession?.workoutDayId === todayWorkout.id
+
 	// Funkcja odświeżania wszystkiego
 	const handleRefresh = useCallback(() => {
 		refetch()
 		refetchTodayStatus()
-	}, [refetch, refetchTodayStatus])
+		refetchDiet()
+	}, [refetch, refetchTodayStatus, refetchDiet])
 
 	// ============================================
 	// HANDLERS
@@ -110,6 +129,12 @@ export default function ClientHomeScreen() {
 		}
 	}
 
+	const handleResumeWorkout = () => {
+		if (activeSession) {
+			navigation.navigate('Workout', { workoutDayId: activeSession.workoutDayId })
+		}
+	}
+
 	const handleViewPlan = () => {
 		if (activePlan) {
 			navigation.navigate('ClientPlanView', { planId: activePlan.id })
@@ -167,6 +192,9 @@ export default function ClientHomeScreen() {
 					</View>
 					<View style={styles.headerRight}>
 						<OfflineIndicator />
+						<View style={styles.notificationButton}>
+							<NotificationBadge />
+						</View>
 						<View style={styles.notificationButton}>
 							<MessageBadge recipientId={profile?.trainer_id} />
 						</View>
@@ -206,6 +234,20 @@ export default function ClientHomeScreen() {
 							<Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
 						</TouchableOpacity>
 
+						{/* Przerwany trening z innego dnia */}
+						{activeSession && !isTodaySessionActive && (
+							<TouchableOpacity style={styles.resumeCard} onPress={handleResumeWorkout}>
+								<View style={styles.planInfoLeft}>
+									<Ionicons name="time" size={20} color={colors.warning} />
+									<View>
+										<Text style={styles.resumeTitle}>Trening w trakcie</Text>
+										<Text style={styles.resumeSubtitle}>{activeSession.workoutName}</Text>
+									</View>
+								</View>
+								<Text style={styles.resumeAction}>Wznów</Text>
+							</TouchableOpacity>
+						)}
+
 						{/* Dzień odpoczynku */}
 						{todayWorkout?.is_rest_day && (
 							<View style={styles.restDayCard}>
@@ -267,7 +309,11 @@ export default function ClientHomeScreen() {
 										color={isTodayCompleted ? colors.textPrimary : colors.textOnPrimary} 
 									/>
 									<Text style={[styles.startButtonText, isTodayCompleted && styles.startButtonTextCompleted]}>
-										{isTodayCompleted ? 'Powtórz trening' : 'Rozpocznij trening'}
+										{isTodaySessionActive
+											? 'Wznów trening'
+											: isTodayCompleted
+												? 'Powtórz trening'
+												: 'Rozpocznij trening'}
 									</Text>
 								</TouchableOpacity>
 							</View>
@@ -286,6 +332,29 @@ export default function ClientHomeScreen() {
 					</>
 				)}
 
+				{/* Dieta */}
+				{activeDiet && (
+					<View style={styles.dietCard}>
+						<View style={styles.notesHeader}>
+							<Ionicons name="nutrition" size={20} color={colors.success} />
+							<Text style={styles.notesTitle}>Twoja dieta</Text>
+						</View>
+						<Text style={styles.dietTitle}>{activeDiet.title}</Text>
+						{activeDiet.end_date && (
+							<Text style={styles.dietDates}>
+								Obowiązuje do {new Date(activeDiet.end_date).toLocaleDateString('pl-PL')}
+							</Text>
+						)}
+						{activeDiet.description && <Text style={styles.notesText}>{activeDiet.description}</Text>}
+						{activeDiet.file_url && (
+							<TouchableOpacity style={styles.dietButton} onPress={() => setShowDietViewer(true)}>
+								<Ionicons name="document-text" size={18} color={colors.primary} />
+								<Text style={styles.dietButtonText}>Zobacz plan diety</Text>
+							</TouchableOpacity>
+						)}
+					</View>
+				)}
+
 				{/* Quick stats */}
 				<View style={styles.statsSection}>
 					<Text style={styles.sectionTitle}>Twoje postępy</Text>
@@ -308,6 +377,14 @@ export default function ClientHomeScreen() {
 					</View>
 				</View>
 			</ScrollView>
+
+			{/* Podgląd diety */}
+			<DietFileViewer
+				visible={showDietViewer}
+				filePath={activeDiet?.file_url || null}
+				title={activeDiet?.title || 'Dieta'}
+				onClose={() => setShowDietViewer(false)}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -410,6 +487,33 @@ const styles = StyleSheet.create({
 		padding: 14,
 		borderRadius: 12,
 	},
+	resumeCard: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		backgroundColor: colors.warning + '15',
+		borderWidth: 1,
+		borderColor: colors.warning,
+		marginHorizontal: 16,
+		marginBottom: 12,
+		padding: 14,
+		borderRadius: 12,
+	},
+	resumeTitle: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	resumeSubtitle: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	resumeAction: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.warning,
+	},
 	planInfoLeft: {
 		flexDirection: 'row',
 		alignItems: 'center',
@@ -571,6 +675,38 @@ const styles = StyleSheet.create({
 		lineHeight: 20,
 		fontStyle: 'italic',
 	},
+	dietCard: {
+		backgroundColor: colors.surface,
+		marginHorizontal: 16,
+		marginBottom: 16,
+		padding: 16,
+		borderRadius: 12,
+	},
+	dietTitle: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 4,
+	},
+	dietDates: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginBottom: 8,
+	},
+	dietButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: colors.primary + '15',
+		paddingVertical: 12,
+		borderRadius: 10,
+		marginTop: 12,
+		gap: 8,
+	},
+	dietButtonText: {
+		color: colors.primary,
+		fontWeight: '600',
+	},
 	statsSection: {
 		padding: 16,
 	},
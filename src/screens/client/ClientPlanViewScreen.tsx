@@ -27,8 +27,10 @@ import {
 	type WorkoutDayWithExercises,
 	type WorkoutExerciseWithDetails,
 } from '../../api/services/trainingPlans'
+import { useUnreadWorkoutThreads } from '../../api/services/workoutComments'
 import { useAuth } from '../../context/AuthContext'
 import { colors } from '../../theme/colors'
+import WorkoutCommentsModal from '../../components/workout/WorkoutCommentsModal'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
 type ClientPlanViewRouteProp = RouteProp<AppStackParamList, 'ClientPlanView'>
@@ -188,11 +190,22 @@ interface WorkoutDayCardProps {
 	day: WorkoutDayWithExercises
 	isToday: boolean
 	isCompleted: boolean
+	/** Liczba nieprzeczytanych komentarzy trenera do ukończonego treningu */
+	unreadComments: number
 	onExercisePress: (exercise: WorkoutExerciseWithDetails) => void
 	onStartWorkout: () => void
+	onOpenComments: () => void
 }
 
-function WorkoutDayCard({ day, isToday, isCompleted, onExercisePress, onStartWorkout }: WorkoutDayCardProps) {
+function WorkoutDayCard({
+	day,
+	isToday,
+	isCompleted,
+	unreadComments,
+	onExercisePress,
+	onStartWorkout,
+	onOpenComments,
+}: WorkoutDayCardProps) {
 	const [isExpanded, setIsExpanded] = useState(isToday || isCompleted)
 	const dayName = DAY_NAMES[day.day_of_week]
 
@@ -263,6 +276,17 @@ function WorkoutDayCard({ day, isToday, isCompleted, onExercisePress, onStartWor
 									<Text style={styles.startWorkoutButtonText}>Rozpocznij trening</Text>
 								</TouchableOpacity>
 							) : null}
+							{isCompleted && (
+								<TouchableOpacity style={styles.commentsButton} onPress={onOpenComments}>
+									<Ionicons name="chatbubbles-outline" size={18} color={colors.primary} />
+									<Text style={styles.commentsButtonText}>Komentarze do treningu</Text>
+									{unreadComments > 0 && (
+										<View style={styles.commentsBadge}>
+											<Text style={styles.commentsBadgeText}>{unreadComments}</Text>
+										</View>
+									)}
+								</TouchableOpacity>
+							)}
 						</>
 					)}
 				</View>
@@ -287,7 +311,7 @@ export default function ClientPlanViewScreen() {
 	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
 	const route = useRoute<ClientPlanViewRouteProp>()
 	const { planId } = route.params
-	const { currentUser } = useAuth()
+	const { currentUser, profile } = useAuth()
 
 	const { data: plan, isLoading, refetch, isRefetching } = usePlanDetails(planId)
 
@@ -303,6 +327,23 @@ export default function ClientPlanViewScreen() {
 		return new Set(completedWorkouts.map(w => w.workout_day_id))
 	}, [completedWorkouts])
 
+	// Ostatnie wykonanie dnia treningowego (lista posortowana od najnowszych)
+	const latestWorkoutByDay = useMemo(() => {
+		const byDay = new Map<string, (typeof completedWorkouts)[number]>()
+		for (const workout of completedWorkouts) {
+			if (!byDay.has(workout.workout_day_id)) byDay.set(workout.workout_day_id, workout)
+		}
+		return byDay
+	}, [completedWorkouts])
+
+	// Nieprzeczytane komentarze trenera do treningów
+	const { data: unreadThreads = [] } = useUnreadWorkoutThreads(profile?.id)
+	const unreadByWorkout = useMemo(
+		() => new Map(unreadThreads.map(thread => [thread.completed_workout_id, thread.unread_count])),
+		[unreadThreads]
+	)
+	const [commentsWorkout, setCommentsWorkout] = useState<{ id: string; title: string } | null>(null)
+
 	const [selectedExercise, setSelectedExercise] = useState<WorkoutExerciseWithDetails | null>(null)
 	const [showExerciseModal, setShowExerciseModal] = useState(false)
 
@@ -441,8 +482,13 @@ export default function ClientPlanViewScreen() {
 								day={day}
 								isToday={day.day_of_week === todayDayOfWeek}
 								isCompleted={completedDayIds.has(day.id)}
+								unreadComments={unreadByWorkout.get(latestWorkoutByDay.get(day.id)?.id || '') || 0}
 								onExercisePress={handleExercisePress}
 								onStartWorkout={() => handleStartWorkout(day.id)}
+								onOpenComments={() => {
+									const workout = latestWorkoutByDay.get(day.id)
+									if (workout) setCommentsWorkout({ id: workout.id, title: DAY_NAMES[day.day_of_week] })
+								}}
 							/>
 						))
 					)}
@@ -458,6 +504,14 @@ export default function ClientPlanViewScreen() {
 					setSelectedExercise(null)
 				}}
 			/>
+
+			{/* Komentarze do treningu */}
+			<WorkoutCommentsModal
+				visible={!!commentsWorkout}
+				completedWorkoutId={commentsWorkout?.id || ''}
+				title={commentsWorkout?.title || ''}
+				onClose={() => setCommentsWorkout(null)}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -756,6 +810,35 @@ const styles = StyleSheet.create({
 		fontWeight: '600',
 		fontSize: 15,
 	},
+	commentsButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: colors.primary + '15',
+		paddingVertical: 12,
+		borderRadius: 10,
+		marginTop: 8,
+		gap: 8,
+	},
+	commentsButtonText: {
+		color: colors.primary,
+		fontWeight: '600',
+		fontSize: 14,
+	},
+	commentsBadge: {
+		minWidth: 20,
+		height: 20,
+		borderRadius: 10,
+		paddingHorizontal: 6,
+		backgroundColor: colors.primary,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	commentsBadgeText: {
+		color: colors.textOnPrimary,
+		fontSize: 12,
+		fontWeight: '600',
+	},
 	restDayContent: {
 		padding: 20,
 		alignItems: 'center',
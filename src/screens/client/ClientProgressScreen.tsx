@@ -1,7 +1,7 @@
 /**
  * ClientProgressScreen - Ekran postępów klienta
  *
- * Wyświetla pomiary, statystyki, porównania miesięczne i historię.
+ * Wyświetla pomiary, statystyki, porównania miesięczne, zdjęcia postępu i historię.
  */
 
 import React, { useState, useMemo, useCallback } from 'react'
@@ -19,11 +19,15 @@ import {
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
+import { Image } from 'expo-image'
+import * as ImagePicker from 'expo-image-picker'
 import { useAuth } from '../../context/AuthContext'
 import {
 	useDeleteMeasurement,
+	useProgressPhotos,
 	type Measurement,
 	type MeasurementInput,
+	type ProgressPhotoInput,
 } from '../../api/services/measurements'
 import { 
 	useOfflineMeasurements, 
@@ -31,6 +35,8 @@ import {
 	useNetworkStatus,
 } from '../../services/offline'
 import { colors } from '../../theme/colors'
+import PhotoComparison, { PHOTO_TYPES } from '../../components/progress/PhotoComparison'
+import type { ProgressPhotoType } from '../../types'
 
 // ============================================
 // HELPER FUNCTIONS
@@ -326,7 +332,7 @@ function MeasurementCard({ measurement, onDelete }: MeasurementCardProps) {
 interface AddMeasurementModalProps {
 	visible: boolean
 	onClose: () => void
-	onSave: (input: MeasurementInput) => void
+	onSave: (input: MeasurementInput, photos: ProgressPhotoInput[]) => void
 	isSaving: boolean
 }
 
@@ -341,10 +347,70 @@ function AddMeasurementModal({ visible, onClose, onSave, isSaving }: AddMeasurem
 	const [thighLeft, setThighLeft] = useState('')
 	const [thighRight, setThighRight] = useState('')
 	const [notes, setNotes] = useState('')
+	const [photos, setPhotos] = useState<Partial<Record<ProgressPhotoType, string>>>({})
+
+	/**
+	 * Zrób lub wybierz zdjęcie dla danej pozy
+	 */
+	const pickPhoto = async (photoType: ProgressPhotoType, source: 'camera' | 'gallery') => {
+		try {
+			if (source === 'camera') {
+				const { status } = await ImagePicker.requestCameraPermissionsAsync()
+				if (status !== 'granted') {
+					Alert.alert('Brak uprawnień', 'Potrzebujemy dostępu do kamery')
+					return
+				}
+			}
+
+			const options: ImagePicker.ImagePickerOptions = {
+				mediaTypes: ['images'],
+				allowsEditing: true,
+				aspect: [3, 4],
+				quality: 0.7,
+			}
+			const result =
+				source === 'camera'
+					? await ImagePicker.launchCameraAsync(options)
+					: await ImagePicker.launchImageLibraryAsync(options)
+
+			if (!result.canceled && result.assets[0]) {
+				setPhotos(prev => ({ ...prev, [photoType]: result.assets[0].uri }))
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się dodać zdjęcia')
+		}
+	}
+
+	const handlePhotoPress = (photoType: ProgressPhotoType) => {
+		const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [
+			{ text: 'Aparat', onPress: () => pickPhoto(photoType, 'camera') },
+			{ text: 'Galeria', onPress: () => pickPhoto(photoType, 'gallery') },
+		]
+		if (photos[photoType]) {
+			buttons.push({
+				text: 'Usuń zdjęcie',
+				style: 'destructive',
+				onPress: () =>
+					setPhotos(prev => {
+						const next = { ...prev }
+						delete next[photoType]
+						return next
+					}),
+			})
+		}
+		buttons.push({ text: 'Anuluj', style: 'cancel' })
+
+		Alert.alert('Zdjęcie postępu', 'Wybierz źródło zdjęcia', buttons)
+	}
 
 	const handleSave = () => {
-		if (!weight && !bodyFat && !chest && !waist && !hips) {
-			Alert.alert('Uwaga', 'Wprowadź przynajmniej jeden pomiar')
+		const selectedPhotos: ProgressPhotoInput[] = PHOTO_TYPES.filter(type => photos[type.value]).map(type => ({
+			photo_type: type.value,
+			uri: photos[type.value] as string,
+		}))
+
+		if (!weight && !bodyFat && !chest && !waist && !hips && selectedPhotos.length === 0) {
+			Alert.alert('Uwaga', 'Wprowadź przynajmniej jeden pomiar lub dodaj zdjęcie')
 			return
 		}
 
@@ -362,7 +428,7 @@ function AddMeasurementModal({ visible, onClose, onSave, isSaving }: AddMeasurem
 			notes: notes || undefined,
 		}
 
-		onSave(input)
+		onSave(input, selectedPhotos)
 	}
 
 	const handleClose = () => {
@@ -376,6 +442,7 @@ function AddMeasurementModal({ visible, onClose, onSave, isSaving }: AddMeasurem
 		setThighLeft('')
 		setThighRight('')
 		setNotes('')
+		setPhotos({})
 		onClose()
 	}
 
@@ -512,6 +579,25 @@ function AddMeasurementModal({ visible, onClose, onSave, isSaving }: AddMeasurem
 						</View>
 					</View>
 
+					{/* Zdjęcia */}
+					<Text style={styles.inputGroupTitle}>Zdjęcia postępu</Text>
+					<View style={styles.photoSlots}>
+						{PHOTO_TYPES.map(type => (
+							<TouchableOpacity
+								key={type.value}
+								style={styles.photoSlot}
+								onPress={() => handlePhotoPress(type.value)}
+								activeOpacity={0.8}>
+								{photos[type.value] ? (
+									<Image source={{ uri: photos[type.value] }} style={styles.photoSlotImage} contentFit="cover" />
+								) : (
+									<Ionicons name="camera-outline" size={28} color={colors.textSecondary} />
+								)}
+								<Text style={styles.photoSlotLabel}>{type.label}</Text>
+							</TouchableOpacity>
+						))}
+					</View>
+
 					{/* Notatki */}
 					<Text style={styles.inputGroupTitle}>Notatki</Text>
 					<TextInput
@@ -541,6 +627,7 @@ export default function ClientProgressScreen() {
 	const { data: measurements = [], isLoading, refetch, isRefetching, isFromCache } = useOfflineMeasurements(userId)
 	const saveMeasurement = useOfflineSaveMeasurement()
 	const deleteMeasurement = useDeleteMeasurement()
+	const { data: progressPhotos = [], refetch: refetchPhotos } = useProgressPhotos(userId)
 
 	const [showAddModal, setShowAddModal] = useState(false)
 
@@ -549,9 +636,9 @@ export default function ClientProgressScreen() {
 	const comparison = useMemo(() => getMonthlyComparison(measurements), [measurements])
 
 	const handleAddMeasurement = useCallback(
-		async (input: MeasurementInput) => {
+		async (input: MeasurementInput, photos: ProgressPhotoInput[]) => {
 			try {
-				await saveMeasurement.mutateAsync({ userId, input })
+				await saveMeasurement.mutateAsync({ userId, input: { ...input, photos } })
 				setShowAddModal(false)
 				const offlineMsg = isOffline ? ' (zostanie zsynchronizowany po powrocie internetu)' : ''
 				Alert.alert('Sukces', `Pomiar został dodany${offlineMsg}`)
@@ -573,6 +660,11 @@ export default function ClientProgressScreen() {
 		[deleteMeasurement]
 	)
 
+	const handleRefresh = useCallback(() => {
+		refetch()
+		refetchPhotos()
+	}, [refetch, refetchPhotos])
+
 	if (isLoading) {
 		return (
 			<SafeAreaView style={styles.container} edges={['top']}>
@@ -589,7 +681,7 @@ export default function ClientProgressScreen() {
 				style={styles.scrollView}
 				contentContainerStyle={styles.scrollContent}
 				showsVerticalScrollIndicator={false}
-				refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}>
+				refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={handleRefresh} tintColor={colors.primary} />}>
 				{/* Header */}
 				<View style={styles.header}>
 					<Text style={styles.headerTitle}>Twoje postępy 📊</Text>
@@ -604,6 +696,16 @@ export default function ClientProgressScreen() {
 				{/* Porównanie miesięczne */}
 				<ComparisonSection comparison={comparison} />
 
+				{/* Zdjęcia postępu */}
+				{progressPhotos.length > 0 && (
+					<View style={styles.photosSection}>
+						<View style={styles.sectionHeader}>
+							<Text style={styles.sectionTitle}>Zdjęcia postępu</Text>
+						</View>
+						<PhotoComparison photos={progressPhotos} />
+					</View>
+				)}
+
 				{/* Lista pomiarów */}
 				<View style={styles.measurementsSection}>
 					<View style={styles.sectionHeader}>
@@ -797,6 +899,36 @@ const styles = StyleSheet.create({
 		justifyContent: 'space-between',
 		marginBottom: 12,
 	},
+	// Photos
+	photosSection: {
+		paddingHorizontal: 16,
+		marginBottom: 20,
+	},
+	photoSlots: {
+		flexDirection: 'row',
+		gap: 12,
+	},
+	photoSlot: {
+		flex: 1,
+		aspectRatio: 3 / 4,
+		backgroundColor: colors.surface,
+		borderRadius: 10,
+		borderWidth: 1,
+		borderColor: colors.border,
+		justifyContent: 'center',
+		alignItems: 'center',
+		overflow: 'hidden',
+	},
+	photoSlotImage: {
+		...StyleSheet.absoluteFillObject,
+	},
+	photoSlotLabel: {
+		position: 'absolute',
+		bottom: 6,
+		fontSize: 12,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
 	// Measurements
 	measurementsSection: {
 		paddingHorizontal: 16,
@@ -11,7 +11,14 @@ import { Ionicons } from '@expo/vector-icons'
 import { useNavigation } from '@react-navigation/native'
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useAuth } from '../../context/AuthContext'
+import {
+	useNotificationPreferences,
+	useUpdateNotificationPreferences,
+	isCategoryEnabled,
+	DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../../api/services/notificationPreferences'
 import { colors } from '../../theme/colors'
+import QuietHoursPicker, { HourStepper } from '../../components/common/QuietHoursPicker'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
 // ============================================
@@ -95,10 +102,13 @@ function SettingsOption({
 
 export default function ClientSettingsScreen() {
 	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
-	const { profile, clientData, logout, deleteAccount } = useAuth()
+	const { profile, currentUser, clientData, logout, deleteAccount } = useAuth()
+
+	// Preferencje powiadomień (zapisywane w bazie)
+	const { data: notificationPreferences } = useNotificationPreferences(currentUser?.id)
+	const updatePreferences = useUpdateNotificationPreferences(currentUser?.id || '')
+	const preferences = notificationPreferences || DEFAULT_NOTIFICATION_PREFERENCES
 
-	const [notificationsEnabled, setNotificationsEnabled] = useState(true)
-	const [reminderEnabled, setReminderEnabled] = useState(true)
 	const [isLoggingOut, setIsLoggingOut] = useState(false)
 
 	// ============================================
@@ -223,18 +233,59 @@ export default function ClientSettingsScreen() {
 						iconColor={colors.warning}
 						label="Powiadomienia push"
 						isSwitch
-						switchValue={notificationsEnabled}
-						onSwitchChange={setNotificationsEnabled}
+						switchValue={preferences.push_enabled}
+						onSwitchChange={value => updatePreferences.mutate({ push_enabled: value })}
+					/>
+					<SettingsOption
+						icon="chatbubbles"
+						iconColor={colors.success}
+						label="Wiadomości od trenera"
+						isSwitch
+						switchValue={isCategoryEnabled(preferences, 'messages')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { messages: value } })}
+					/>
+					<SettingsOption
+						icon="clipboard"
+						iconColor={colors.primary}
+						label="Plany i komentarze trenera"
+						isSwitch
+						switchValue={isCategoryEnabled(preferences, 'plans') && isCategoryEnabled(preferences, 'workouts')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { plans: value, workouts: value } })}
 					/>
 					<SettingsOption
 						icon="alarm"
 						iconColor={colors.primary}
-						label="Przypomnienia o treningu"
+						label="Przypomnienia o treningu i pomiarach"
 						isSwitch
-						switchValue={reminderEnabled}
-						onSwitchChange={setReminderEnabled}
-						isLast
+						switchValue={isCategoryEnabled(preferences, 'reminders')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { reminders: value } })}
 					/>
+					{isCategoryEnabled(preferences, 'reminders') && (
+						<View style={styles.option}>
+							<Text style={styles.reminderTimeLabel}>Godzina przypomnień</Text>
+							<HourStepper
+								time={preferences.reminder_time || DEFAULT_NOTIFICATION_PREFERENCES.reminder_time}
+								onChange={time => updatePreferences.mutate({ reminder_time: time })}
+							/>
+						</View>
+					)}
+					<SettingsOption
+						icon="moon"
+						iconColor={colors.textSecondary}
+						label="Cisza nocna"
+						isSwitch
+						switchValue={preferences.quiet_hours_enabled}
+						onSwitchChange={value => updatePreferences.mutate({ quiet_hours_enabled: value })}
+						isLast={!preferences.quiet_hours_enabled}
+					/>
+					{preferences.quiet_hours_enabled && (
+						<QuietHoursPicker
+							start={preferences.quiet_hours_start}
+							end={preferences.quiet_hours_end}
+							onChange={(start, end) => updatePreferences.mutate({ quiet_hours_start: start, quiet_hours_end: end })}
+							isLast
+						/>
+					)}
 				</SettingsSection>
 
 				{/* Dane treningowe */}
@@ -424,6 +475,11 @@ const styles = StyleSheet.create({
 	optionLast: {
 		borderBottomWidth: 0,
 	},
+	reminderTimeLabel: {
+		fontSize: 14,
+		color: colors.textSecondary,
+		marginLeft: 44,
+	},
 	optionLeft: {
 		flexDirection: 'row',
 		alignItems: 'center',
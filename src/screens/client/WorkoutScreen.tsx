@@ -2,9 +2,10 @@
  * WorkoutScreen - Ekran wykonywania treningu
  *
  * Klient przechodzi przez ćwiczenia i oznacza wykonane serie.
+ * Superserie i obwody prowadzone są naprzemiennie, odpoczynek po całej rundzie.
  */
 
-import React, { useState, useCallback, useMemo } from 'react'
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react'
 import {
 	View,
 	Text,
@@ -15,6 +16,7 @@ import {
 	ActivityIndicator,
 	Modal,
 	Dimensions,
+	TextInput,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
@@ -23,12 +25,35 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { supabase, handleSupabaseError } from '../../api/supabase'
 import { useAuth } from '../../context/AuthContext'
-import { notifyWorkoutCompleted } from '../../services/notifications'
-import { useOfflineSaveWorkout, useNetworkStatus } from '../../services/offline'
+import {
+	notifyWorkoutCompleted,
+	scheduleRestEndNotification,
+	cancelScheduledNotification,
+} from '../../services/notifications'
+import {
+	useOfflineSaveWorkout,
+	useNetworkStatus,
+	getActiveWorkoutSession,
+	saveActiveWorkoutSession,
+	clearActiveWorkoutSession,
+	startRemoteWorkoutSession,
+	discardRemoteWorkoutSession,
+	type SaveWorkoutExercise,
+	type SessionExerciseProgress,
+} from '../../services/offline'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 import type { WorkoutExercise, Exercise } from '../../types'
+import { generateUUID } from '../../utils/uuid'
 import VideoPlayer from '../../components/exercises/VideoPlayer'
+import RestTimer from '../../components/workout/RestTimer'
+import {
+	getExerciseBlocks,
+	getGroupLabel,
+	getNextGroupStep,
+	GROUP_TYPE_LABELS,
+	type ExerciseBlock,
+} from '../../utils/exerciseGroups'
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window')
 
@@ -42,10 +67,84 @@ interface WorkoutExerciseWithDetails extends WorkoutExercise {
 	exercise: Exercise
 }
 
-interface ExerciseProgress {
+// Postęp ma ten sam kształt co zapisywana sesja (wznawianie po zamknięciu aplikacji)
+type ExerciseProgress = SessionExerciseProgress
+
+type SetLogField = 'reps' | 'weight' | 'rpe'
+
+interface ActiveRest {
 	exerciseId: string
-	completedSets: number[]
-	isCompleted: boolean
+	exerciseName: string
+	/** Seria, po której trwa odpoczynek */
+	setIndex: number
+	startedAt: number
+	endsAt: number
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Początkowy stan serii - wartości z planu (zakres powtórzeń zostaje pusty)
+ */
+function createInitialProgress(exercise: WorkoutExercise): ExerciseProgress {
+	const plannedReps = /^\d+$/.test(exercise.reps.trim()) ? exercise.reps.trim() : ''
+	const plannedWeight = exercise.weight_kg != null ? String(exercise.weight_kg) : ''
+
+	return {
+		exerciseId: exercise.id,
+		sets: Array.from({ length: exercise.sets }, () => ({
+			reps: plannedReps,
+			weight: plannedWeight,
+			rpe: '',
+			completedAt: null,
+			restSeconds: null,
+		})),
+		isCompleted: false,
+	}
+}
+
+function parseDecimal(value: string): number | undefined {
+	const parsed = parseFloat(value.replace(',', '.'))
+	return isNaN(parsed) ? undefined : parsed
+}
+
+/**
+ * Zamień postęp ćwiczenia na dane do zapisu (podsumowanie + pojedyncze serie)
+ */
+function buildExerciseData(exercise: WorkoutExercise, exProgress: ExerciseProgress | undefined): SaveWorkoutExercise {
+	const completedSets = (exProgress?.sets || [])
+		.map((set, index) => ({ set, setNumber: index + 1 }))
+		.filter(({ set }) => set.completedAt !== null)
+		.map(({ set, setNumber }) => {
+			const reps = parseInt(set.reps, 10)
+			const rpe = parseDecimal(set.rpe)
+			return {
+				set_number: setNumber,
+				reps: isNaN(reps) ? undefined : reps,
+				weight_kg: parseDecimal(set.weight),
+				rpe: rpe !== undefined ? Math.min(10, Math.max(1, rpe)) : undefined,
+				completed_at: set.completedAt as string,
+				rest_seconds: set.restSeconds ?? undefined,
+			}
+		})
+
+	const weights = completedSets
+		.map(set => set.weight_kg)
+		.filter((weight): weight is number => weight !== undefined)
+	const reps = completedSets.map(set => set.reps)
+
+	return {
+		workout_exercise_id: exercise.id,
+		is_completed: exProgress?.isCompleted || false,
+		actual_sets: completedSets.length,
+		actual_reps: reps.some(r => r !== undefined)
+			? reps.map(r => r ?? '-').join('/')
+			: exercise.reps,
+		actual_weight_kg: weights.length > 0 ? Math.max(...weights) : exercise.weight_kg ?? undefined,
+		sets: completedSets,
+	}
 }
 
 // ============================================
@@ -78,31 +177,6 @@ async function getWorkoutDayDetails(workoutDayId: string) {
 	return data
 }
 
-async function saveCompletedWorkout(
-	userId: string,
-	workoutDayId: string,
-	status: 'completed' | 'partial',
-	durationMinutes: number,
-	feelingRating: number,
-	clientNotes?: string
-) {
-	const { data, error } = await supabase
-		.from('completed_workouts')
-		.insert({
-			user_id: userId,
-			workout_day_id: workoutDayId,
-			status,
-			duration_minutes: durationMinutes,
-			feeling_rating: feelingRating,
-			client_notes: clientNotes,
-		})
-		.select()
-		.single()
-
-	if (error) throw handleSupabaseError(error)
-	return data
-}
-
 // ============================================
 // MODAL SZCZEGÓŁÓW ĆWICZENIA
 // ============================================
@@ -230,20 +304,28 @@ function ExerciseDetailModal({ visible, onClose, exercise }: ExerciseDetailModal
 interface ExerciseCardProps {
 	exercise: WorkoutExerciseWithDetails
 	index: number
+	/** Etykieta w grupie (np. "A2") zamiast numeru */
+	groupLabel: string | null
+	/** Seria do wykonania teraz (kolejność naprzemienna w grupie) */
+	nextSetIndex: number | null
 	progress: ExerciseProgress
 	onSetComplete: (setIndex: number) => void
+	onSetChange: (setIndex: number, field: SetLogField, value: string) => void
 	onViewDetails: () => void
 }
 
 function ExerciseCard({
 	exercise,
 	index,
+	groupLabel,
+	nextSetIndex,
 	progress,
 	onSetComplete,
+	onSetChange,
 	onViewDetails,
 }: ExerciseCardProps) {
 	const [showVideo, setShowVideo] = useState(false)
-	const completedSetsCount = progress.completedSets.length
+	const completedSetsCount = progress.sets.filter(set => set.completedAt !== null).length
 	const hasVideo = !!exercise.exercise?.video_url
 
 	return (
@@ -253,7 +335,7 @@ function ExerciseCard({
 					{progress.isCompleted ? (
 						<Ionicons name="checkmark" size={16} color={colors.success} />
 					) : (
-						<Text style={styles.exerciseOrderText}>{index + 1}</Text>
+						<Text style={styles.exerciseOrderText}>{groupLabel || index + 1}</Text>
 					)}
 				</View>
 				<View style={styles.exerciseInfo}>
@@ -271,24 +353,64 @@ function ExerciseCard({
 				<Text style={styles.setsLabel}>
 					Serie: {completedSetsCount}/{exercise.sets}
 				</Text>
-				<View style={styles.setsRow}>
-					{Array.from({ length: exercise.sets }).map((_, setIndex) => {
-						const isCompleted = progress.completedSets.includes(setIndex)
-						return (
+				<View style={styles.setsHeaderRow}>
+					<Text style={[styles.setsHeaderText, styles.setNumberColumn]}>Seria</Text>
+					<Text style={[styles.setsHeaderText, styles.setInputColumn]}>Powt.</Text>
+					<Text style={[styles.setsHeaderText, styles.setInputColumn]}>kg</Text>
+					<Text style={[styles.setsHeaderText, styles.setInputColumn]}>RPE</Text>
+					<View style={styles.setButton} />
+				</View>
+				{progress.sets.map((set, setIndex) => {
+					const isCompleted = set.completedAt !== null
+					return (
+						<View
+							key={setIndex}
+							style={[
+								styles.setRow,
+								isCompleted && styles.setRowCompleted,
+								setIndex === nextSetIndex && styles.setRowNext,
+							]}>
+							<Text style={[styles.setNumberText, styles.setNumberColumn]}>{setIndex + 1}</Text>
+							<TextInput
+								style={[styles.setInput, styles.setInputColumn]}
+								value={set.reps}
+								onChangeText={value => onSetChange(setIndex, 'reps', value)}
+								placeholder={exercise.reps}
+								placeholderTextColor={colors.textDisabled}
+								keyboardType="number-pad"
+								maxLength={3}
+							/>
+							<TextInput
+								style={[styles.setInput, styles.setInputColumn]}
+								value={set.weight}
+								onChangeText={value => onSetChange(setIndex, 'weight', value)}
+								placeholder="-"
+								placeholderTextColor={colors.textDisabled}
+								keyboardType="decimal-pad"
+								maxLength={6}
+							/>
+							<TextInput
+								style={[styles.setInput, styles.setInputColumn]}
+								value={set.rpe}
+								onChangeText={value => onSetChange(setIndex, 'rpe', value)}
+								placeholder="-"
+								placeholderTextColor={colors.textDisabled}
+								keyboardType="decimal-pad"
+								maxLength={4}
+							/>
 							<TouchableOpacity
-								key={setIndex}
 								style={[styles.setButton, isCompleted && styles.setButtonCompleted]}
 								onPress={() => onSetComplete(setIndex)}>
-								{isCompleted ? (
-									<Ionicons name="checkmark" size={18} color={colors.textOnPrimary} />
-								) : (
-									<Text style={styles.setButtonText}>{setIndex + 1}</Text>
-								)}
+								<Ionicons
+									name="checkmark"
+									size={18}
+									color={isCompleted ? colors.textOnPrimary : colors.textSecondary}
+								/>
 							</TouchableOpacity>
-						)
-					})}
-				</View>
-				{exercise.rest_seconds > 0 && (
+						</View>
+					)
+				})}
+				{!groupLabel && exercise.rest_seconds > 0 && (
 					<Text style={styles.restTime}>
 						<Ionicons name="time-outline" size={12} color={colors.textTertiary} /> Odpoczynek: {exercise.rest_seconds}s
 					</Text>
@@ -337,6 +459,45 @@ function ExerciseCard({
 	)
 }
 
+// ============================================
+// NAGŁÓWEK GRUPY (superseria / obwód)
+// ============================================
+
+interface GroupHeaderProps {
+	block: ExerciseBlock<WorkoutExerciseWithDetails>
+	/** Następny krok w kolejności naprzemiennej - null gdy grupa ukończona */
+	nextStep: { itemIndex: number; round: number } | null
+	nextLabel: string | null
+}
+
+function GroupHeader({ block, nextStep, nextLabel }: GroupHeaderProps) {
+	const restSeconds = block.items[0].exercise.rest_seconds
+	const nextExercise = nextStep ? block.items[nextStep.itemIndex].exercise : null
+
+	return (
+		<View style={styles.groupHeader}>
+			<View style={styles.groupHeaderRow}>
+				<Text style={styles.groupTitle}>
+					{GROUP_TYPE_LABELS[block.group_type || 'superset']} {block.group_id}
+				</Text>
+				<Text style={styles.groupRounds}>
+					{nextStep ? `Runda ${nextStep.round + 1}/${block.rounds}` : 'Ukończono'}
+				</Text>
+			</View>
+			{nextExercise && (
+				<Text style={styles.groupNext}>
+					Teraz: {nextLabel} {nextExercise.exercise?.name}
+				</Text>
+			)}
+			{restSeconds > 0 && (
+				<Text style={styles.groupRest}>
+					<Ionicons name="time-outline" size={12} color={colors.textDisabled} /> Odpoczynek po rundzie: {restSeconds}s
+				</Text>
+			)}
+		</View>
+	)
+}
+
 // ============================================
 // MODAL PODSUMOWANIA
 // ============================================
@@ -434,12 +595,26 @@ export default function WorkoutScreen() {
 	const { isOffline } = useNetworkStatus()
 	const saveWorkoutMutation = useOfflineSaveWorkout()
 
-	const [progress, setProgress] = useState<Map<string, ExerciseProgress>>(new Map())
-	const [startTime] = useState(new Date())
+	// Wznów zapisaną sesję tego treningu (np. po zamknięciu aplikacji)
+	const [restoredSession] = useState(() => {
+		const session = currentUser?.id ? getActiveWorkoutSession(currentUser.id) : null
+		return session?.workoutDayId === workoutDayId ? session : null
+	})
+	const [progress, setProgress] = useState<Map<string, ExerciseProgress>>(
+		() => new Map(Object.entries(restoredSession?.progress || {}))
+	)
+	const [startTime] = useState(() => (restoredSession ? new Date(restoredSession.startedAt) : new Date()))
+	const sessionRemoteIdRef = useRef<string | null>(restoredSession?.remoteId ?? null)
+	// ID treningu bez sesji na serwerze - stałe, żeby ponowny zapis nie tworzył duplikatu
+	const [fallbackWorkoutId] = useState(generateUUID)
+	const remoteSessionRequestedRef = useRef(!!restoredSession?.remoteId)
 	const [showSummary, setShowSummary] = useState(false)
 	const [isSaving, setIsSaving] = useState(false)
 	const [selectedExercise, setSelectedExercise] = useState<WorkoutExerciseWithDetails | null>(null)
 	const [showExerciseDetail, setShowExerciseDetail] = useState(false)
+	const [activeRest, setActiveRest] = useState<ActiveRest | null>(null)
+	// Zaplanowane powiadomienie o końcu odpoczynku (token chroni przed wyścigiem async)
+	const restNotificationRef = useRef<{ token: number; id: string | null } | null>(null)
 
 	// Pobierz szczegóły treningu
 	const { data: workoutDay, isLoading } = useQuery({
@@ -447,7 +622,13 @@ export default function WorkoutScreen() {
 		queryFn: () => getWorkoutDayDetails(workoutDayId),
 	})
 
-	const exercises = (workoutDay?.workout_exercises || []) as WorkoutExerciseWithDetails[]
+	const exercises = useMemo(
+		() => (workoutDay?.workout_exercises || []) as WorkoutExerciseWithDetails[],
+		[workoutDay]
+	)
+
+	// Superserie/obwody jako bloki - ćwiczenia samodzielne to bloki jednoelementowe
+	const blocks = useMemo(() => getExerciseBlocks(exercises), [exercises])
 
 	// Oblicz postęp
 	const { completedCount, totalCount } = useMemo(() => {
@@ -466,30 +647,195 @@ export default function WorkoutScreen() {
 
 	const progressPercent = totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0
 
+	// ============================================
+	// SESJA (wznawianie)
+	// ============================================
+
+	const hasSessionProgress = useMemo(
+		() => Array.from(progress.values()).some(ex => ex.sets.some(set => set.completedAt !== null)),
+		[progress]
+	)
+
+	// Zapisuj postęp lokalnie po każdej zmianie, przy pierwszej serii utwórz sesję zdalną
+	useEffect(() => {
+		if (!currentUser?.id || !hasSessionProgress) return
+
+		const userId = currentUser.id
+		const startedAt = startTime.toISOString()
+
+		// Porzucona sesja innego treningu nie może wisieć jako in_progress
+		const previous = getActiveWorkoutSession(userId)
+		if (previous && previous.workoutDayId !== workoutDayId && previous.remoteId) {
+			discardRemoteWorkoutSession(previous.remoteId)
+		}
+
+		saveActiveWorkoutSession({
+			userId,
+			workoutDayId,
+			workoutName: workoutDay?.name || 'Trening',
+			remoteId: sessionRemoteIdRef.current,
+			startedAt,
+			updatedAt: startedAt,
+			progress: Object.fromEntries(progress),
+		})
+
+		if (!remoteSessionRequestedRef.current) {
+			remoteSessionRequestedRef.current = true
+			startRemoteWorkoutSession(userId, workoutDayId, startedAt).then((remoteId) => {
+				if (!remoteId) {
+					// Spróbuj ponownie przy kolejnej zmianie (np. po powrocie internetu)
+					remoteSessionRequestedRef.current = false
+					return
+				}
+
+				sessionRemoteIdRef.current = remoteId
+				const session = getActiveWorkoutSession(userId)
+				if (session?.workoutDayId === workoutDayId) {
+					saveActiveWorkoutSession({ ...session, remoteId })
+				}
+			})
+		}
+	}, [currentUser?.id, workoutDayId, workoutDay?.name, progress, hasSessionProgress, startTime])
+
+	// ============================================
+	// TIMER ODPOCZYNKU
+	// ============================================
+
+	const scheduleRestNotification = useCallback((seconds: number, exerciseName: string) => {
+		const token = Date.now()
+		restNotificationRef.current = { token, id: null }
+
+		scheduleRestEndNotification(seconds, exerciseName).then((id) => {
+			if (restNotificationRef.current?.token === token) {
+				restNotificationRef.current.id = id
+			} else if (id) {
+				// Odpoczynek zakończył się zanim powiadomienie zostało zaplanowane
+				cancelScheduledNotification(id)
+			}
+		})
+	}, [])
+
+	const cancelRestNotification = useCallback(() => {
+		const id = restNotificationRef.current?.id
+		restNotificationRef.current = null
+		if (id) cancelScheduledNotification(id)
+	}, [])
+
+	// Anuluj powiadomienie przy wyjściu z ekranu
+	useEffect(() => cancelRestNotification, [cancelRestNotification])
+
+	// Zapisuje faktyczny czas odpoczynku (od startu timera), nie czas zaplanowany
+	const recordRest = useCallback((rest: ActiveRest) => {
+		const restSeconds = Math.round((Date.now() - rest.startedAt) / 1000)
+		setProgress((prev) => {
+			const current = prev.get(rest.exerciseId)
+			if (!current) return prev
+
+			const newProgress = new Map(prev)
+			newProgress.set(rest.exerciseId, {
+				...current,
+				sets: current.sets.map((set, i) => (i === rest.setIndex ? { ...set, restSeconds } : set)),
+			})
+			return newProgress
+		})
+	}, [])
+
+	const startRest = useCallback((exercise: WorkoutExerciseWithDetails, setIndex: number) => {
+		const startedAt = Date.now()
+		const exerciseName = exercise.exercise?.name || 'Ćwiczenie'
+
+		setActiveRest({
+			exerciseId: exercise.id,
+			exerciseName,
+			setIndex,
+			startedAt,
+			endsAt: startedAt + exercise.rest_seconds * 1000,
+		})
+		scheduleRestNotification(exercise.rest_seconds, exerciseName)
+	}, [scheduleRestNotification])
+
+	const handleRestFinish = useCallback(() => {
+		if (!activeRest) return
+
+		// Powiadomienie już wyświetlone - tylko zapomnij jego ID
+		restNotificationRef.current = null
+		recordRest(activeRest)
+		setActiveRest(null)
+	}, [activeRest, recordRest])
+
+	const handleRestSkip = useCallback(() => {
+		if (!activeRest) return
+
+		cancelRestNotification()
+		recordRest(activeRest)
+		setActiveRest(null)
+	}, [activeRest, recordRest, cancelRestNotification])
+
+	const handleRestAddTime = useCallback((seconds: number) => {
+		if (!activeRest) return
+
+		const now = Date.now()
+		const endsAt = Math.max(now + 1000, activeRest.endsAt + seconds * 1000)
+
+		setActiveRest({ ...activeRest, endsAt })
+		cancelRestNotification()
+		scheduleRestNotification((endsAt - now) / 1000, activeRest.exerciseName)
+	}, [activeRest, cancelRestNotification, scheduleRestNotification])
+
 	// ============================================
 	// HANDLERS
 	// ============================================
 
-	const handleSetComplete = useCallback((exerciseId: string, setIndex: number, totalSets: number) => {
+	const handleSetComplete = useCallback((exercise: WorkoutExerciseWithDetails, setIndex: number) => {
+		const current = progress.get(exercise.id) || createInitialProgress(exercise)
+		const wasCompleted = current.sets[setIndex]?.completedAt != null
+		const group = exercise.group_id ? blocks.find(block => block.group_id === exercise.group_id) : undefined
+
+		const newSets = current.sets.map((set, i) =>
+			i === setIndex
+				? wasCompleted
+					? { ...set, completedAt: null, restSeconds: null }
+					: { ...set, completedAt: new Date().toISOString() }
+				: set
+		)
+
 		setProgress((prev) => {
 			const newProgress = new Map(prev)
-			const current = newProgress.get(exerciseId) || {
-				exerciseId,
-				completedSets: [],
-				isCompleted: false,
-			}
+			newProgress.set(exercise.id, {
+				...current,
+				sets: newSets,
+				isCompleted: newSets.every(set => set.completedAt !== null),
+			})
+			return newProgress
+		})
 
-			let newCompletedSets: number[]
-			if (current.completedSets.includes(setIndex)) {
-				newCompletedSets = current.completedSets.filter((s) => s !== setIndex)
-			} else {
-				newCompletedSets = [...current.completedSets, setIndex]
+		if (wasCompleted) {
+			// Odznaczono serię, po której trwa odpoczynek - przerwij bez zapisu
+			if (activeRest?.exerciseId === exercise.id && activeRest.setIndex === setIndex) {
+				cancelRestNotification()
+				setActiveRest(null)
 			}
+			return
+		}
 
-			newProgress.set(exerciseId, {
+		// Nowa seria kończy poprzedni odpoczynek
+		if (activeRest) handleRestSkip()
+
+		// W grupie odpoczynek dopiero po ostatnim ćwiczeniu rundy
+		const isRoundComplete = !group || group.items.every(({ exercise: member }) =>
+			member.id === exercise.id || progress.get(member.id)?.sets[setIndex]?.completedAt != null
+		)
+		if (isRoundComplete && exercise.rest_seconds > 0) startRest(exercise, setIndex)
+	}, [progress, blocks, activeRest, handleRestSkip, startRest, cancelRestNotification])
+
+	const handleSetChange = useCallback((exercise: WorkoutExercise, setIndex: number, field: SetLogField, value: string) => {
+		setProgress((prev) => {
+			const newProgress = new Map(prev)
+			const current = newProgress.get(exercise.id) || createInitialProgress(exercise)
+
+			newProgress.set(exercise.id, {
 				...current,
-				completedSets: newCompletedSets,
-				isCompleted: newCompletedSets.length >= totalSets,
+				sets: current.sets.map((set, i) => (i === setIndex ? { ...set, [field]: value } : set)),
 			})
 
 			return newProgress
@@ -518,21 +864,13 @@ export default function WorkoutScreen() {
 			const status = completedCount === totalCount ? 'completed' : 'partial'
 
 			// Przygotuj dane ćwiczeń do zapisu
-			const exercisesData = exercises.map(ex => {
-				const exProgress = progress.get(ex.id)
-				return {
-					workout_exercise_id: ex.id,
-					is_completed: exProgress?.isCompleted || false,
-					actual_sets: exProgress?.completedSets.length || 0,
-					actual_reps: ex.reps,
-					actual_weight_kg: ex.weight_kg,
-				}
-			})
+			const exercisesData = exercises.map(ex => buildExerciseData(ex, progress.get(ex.id)))
 
 			// Użyj offline-aware mutation
 			await saveWorkoutMutation.mutateAsync({
 				userId: currentUser.id,
 				data: {
+					id: sessionRemoteIdRef.current ?? fallbackWorkoutId,
 					workout_day_id: workoutDayId,
 					status,
 					duration_minutes: duration,
@@ -542,6 +880,8 @@ export default function WorkoutScreen() {
 				},
 			})
 
+			clearActiveWorkoutSession(currentUser.id)
+
 			queryClient.invalidateQueries({ queryKey: ['active-plan'] })
 			queryClient.invalidateQueries({ queryKey: ['workout-stats'] })
 			queryClient.invalidateQueries({ queryKey: ['today-workout-status'] })
@@ -558,15 +898,17 @@ export default function WorkoutScreen() {
 					if (trainerProfile?.user_id) {
 						const { data: clientProfile } = await supabase
 							.from('profiles')
-							.select('first_name, last_name')
+							.select('id, first_name, last_name')
 							.eq('user_id', currentUser.id)
 							.single()
 						
-						const clientName = clientProfile 
-							? `${clientProfile.first_name} ${clientProfile.last_name}`
-							: 'Klient'
-						
-						notifyWorkoutCompleted(trainerProfile.user_id, clientName)
+						if (clientProfile) {
+							notifyWorkoutCompleted(
+								trainerProfile.user_id,
+								clientProfile.id,
+								`${clientProfile.first_name} ${clientProfile.last_name}`
+							)
+						}
 					}
 				} catch (notifyError) {
 					console.warn('[Workout] Błąd wysyłania powiadomienia:', notifyError)
@@ -585,22 +927,29 @@ export default function WorkoutScreen() {
 			setIsSaving(false)
 			setShowSummary(false)
 		}
-	}, [currentUser?.id, workoutDayId, workoutDay, exercises, progress, completedCount, totalCount, startTime, navigation, queryClient, saveWorkoutMutation, isOffline])
+	}, [currentUser?.id, workoutDayId, workoutDay, exercises, progress, completedCount, totalCount, startTime, navigation, queryClient, saveWorkoutMutation, isOffline, fallbackWorkoutId])
+
+	const handleDiscardSession = useCallback(() => {
+		if (currentUser?.id) clearActiveWorkoutSession(currentUser.id)
+		if (sessionRemoteIdRef.current) discardRemoteWorkoutSession(sessionRemoteIdRef.current)
+		navigation.goBack()
+	}, [currentUser?.id, navigation])
 
 	const handleExit = useCallback(() => {
-		if (completedCount > 0) {
+		if (hasSessionProgress) {
 			Alert.alert(
 				'Wyjść z treningu?',
-				'Twój postęp zostanie utracony',
+				'Możesz wrócić do treningu później albo go porzucić',
 				[
 					{ text: 'Zostań', style: 'cancel' },
-					{ text: 'Wyjdź', style: 'destructive', onPress: () => navigation.goBack() },
+					{ text: 'Porzuć', style: 'destructive', onPress: handleDiscardSession },
+					{ text: 'Wstrzymaj', onPress: () => navigation.goBack() },
 				]
 			)
 		} else {
 			navigation.goBack()
 		}
-	}, [completedCount, navigation])
+	}, [hasSessionProgress, handleDiscardSession, navigation])
 
 	// ============================================
 	// RENDER
@@ -644,24 +993,59 @@ export default function WorkoutScreen() {
 				style={styles.scrollView}
 				contentContainerStyle={styles.scrollContent}
 				showsVerticalScrollIndicator={false}>
-				{exercises.map((exercise, index) => (
-					<ExerciseCard
-						key={exercise.id}
-						exercise={exercise}
-						index={index}
-						progress={progress.get(exercise.id) || {
-							exerciseId: exercise.id,
-							completedSets: [],
-							isCompleted: false,
-						}}
-						onSetComplete={(setIndex) =>
-							handleSetComplete(exercise.id, setIndex, exercise.sets)
-						}
-						onViewDetails={() => handleViewDetails(exercise)}
-					/>
-				))}
+				{blocks.map((block) => {
+					const renderCard = (exercise: WorkoutExerciseWithDetails, index: number, nextSetIndex: number | null) => (
+						<ExerciseCard
+							key={exercise.id}
+							exercise={exercise}
+							index={index}
+							groupLabel={getGroupLabel(exercises, index)}
+							nextSetIndex={nextSetIndex}
+							progress={progress.get(exercise.id) || createInitialProgress(exercise)}
+							onSetComplete={(setIndex) => handleSetComplete(exercise, setIndex)}
+							onSetChange={(setIndex, field, value) => handleSetChange(exercise, setIndex, field, value)}
+							onViewDetails={() => handleViewDetails(exercise)}
+						/>
+					)
+
+					if (!block.group_id) {
+						const { exercise, index } = block.items[0]
+						return renderCard(exercise, index, null)
+					}
+
+					// Kolejność naprzemienna: A1 → A2 → A1 → A2...
+					const nextStep = getNextGroupStep(block, (itemIndex, round) =>
+						progress.get(block.items[itemIndex].exercise.id)?.sets[round]?.completedAt != null
+					)
+					const nextItem = nextStep ? block.items[nextStep.itemIndex] : null
+
+					return (
+						<View key={block.group_id} style={styles.groupContainer}>
+							<GroupHeader
+								block={block}
+								nextStep={nextStep}
+								nextLabel={nextItem ? getGroupLabel(exercises, nextItem.index) : null}
+							/>
+							{block.items.map(({ exercise, index }) =>
+								renderCard(exercise, index, nextItem?.index === index ? nextStep!.round : null)
+							)}
+						</View>
+					)
+				})}
 			</ScrollView>
 
+			{/* Timer odpoczynku */}
+			{activeRest && (
+				<RestTimer
+					exerciseName={activeRest.exerciseName}
+					startedAt={activeRest.startedAt}
+					endsAt={activeRest.endsAt}
+					onAddTime={handleRestAddTime}
+					onSkip={handleRestSkip}
+					onFinish={handleRestFinish}
+				/>
+			)}
+
 			{/* Summary Modal */}
 			<SummaryModal
 				visible={showSummary}
@@ -795,14 +1179,54 @@ const styles = StyleSheet.create({
 		color: colors.textSecondary,
 		marginBottom: 10,
 	},
-	setsRow: {
+	setsHeaderRow: {
 		flexDirection: 'row',
-		gap: 10,
+		alignItems: 'center',
+		gap: 8,
+		marginBottom: 6,
+	},
+	setsHeaderText: {
+		fontSize: 11,
+		color: colors.textSecondary,
+		textAlign: 'center',
+	},
+	setRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		paddingVertical: 4,
+		borderRadius: 8,
+	},
+	setRowCompleted: {
+		backgroundColor: colors.success + '15',
+	},
+	setRowNext: {
+		backgroundColor: colors.primary + '15',
+	},
+	setNumberColumn: {
+		width: 40,
+	},
+	setInputColumn: {
+		flex: 1,
+	},
+	setNumberText: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textSecondary,
+		textAlign: 'center',
+	},
+	setInput: {
+		height: 40,
+		borderRadius: 8,
+		backgroundColor: colors.background,
+		color: colors.textPrimary,
+		fontSize: 15,
+		textAlign: 'center',
 	},
 	setButton: {
-		width: 44,
-		height: 44,
-		borderRadius: 22,
+		width: 40,
+		height: 40,
+		borderRadius: 20,
 		backgroundColor: colors.background,
 		justifyContent: 'center',
 		alignItems: 'center',
@@ -810,11 +1234,40 @@ const styles = StyleSheet.create({
 	setButtonCompleted: {
 		backgroundColor: colors.success,
 	},
-	setButtonText: {
-		fontSize: 14,
+	groupContainer: {
+		borderLeftWidth: 3,
+		borderLeftColor: colors.primary,
+		paddingLeft: 10,
+		marginBottom: 12,
+	},
+	groupHeader: {
+		marginBottom: 10,
+	},
+	groupHeaderRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+	},
+	groupTitle: {
+		fontSize: 15,
+		fontWeight: '700',
+		color: colors.primary,
+	},
+	groupRounds: {
+		fontSize: 13,
 		fontWeight: '600',
 		color: colors.textSecondary,
 	},
+	groupNext: {
+		fontSize: 13,
+		color: colors.textPrimary,
+		marginTop: 4,
+	},
+	groupRest: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		marginTop: 4,
+	},
 	restTime: {
 		fontSize: 12,
 		color: colors.textTertiary,
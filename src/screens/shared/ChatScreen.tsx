@@ -1,10 +1,12 @@
 /**
  * ChatScreen - Ekran czatu między trenerem a klientem
  *
- * Pozwala na wymianę wiadomości tekstowych.
+ * Pozwala na wymianę wiadomości tekstowych oraz zdjęć, filmów i plików.
+ * Nowe wiadomości i potwierdzenia przeczytania przychodzą przez realtime,
+ * starsza historia doładowywana jest przy przewijaniu w górę.
  */
 
-import React, { useState, useCallback, useRef, useEffect } from 'react'
+import React, { useState, useCallback, useEffect, useMemo } from 'react'
 import {
 	View,
 	Text,
@@ -15,16 +17,28 @@ import {
 	KeyboardAvoidingView,
 	Platform,
 	ActivityIndicator,
+	Alert,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
+import * as ImagePicker from 'expo-image-picker'
+import * as DocumentPicker from 'expo-document-picker'
 import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
-import { useQuery, useQueryClient } from '@tanstack/react-query'
-import { supabase, handleSupabaseError } from '../../api/supabase'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../../api/supabase'
 import { useAuth } from '../../context/AuthContext'
-import { notifyNewMessage } from '../../services/notifications'
-import { messageKeys } from '../../api/services/messages'
+import {
+	useConversationMessages,
+	useConversationSubscription,
+	useSendMessage,
+	useMarkMessagesAsRead,
+	type ChatMessage,
+	type ChatAttachmentInput,
+} from '../../api/services/messages'
+import MessageAttachment from '../../components/chat/MessageAttachment'
+import { offlineQueue } from '../../services/offline'
+import { generateUUID } from '../../utils/uuid'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
@@ -34,15 +48,6 @@ type ChatRouteProp = RouteProp<AppStackParamList, 'Chat'>
 // TYPY
 // ============================================
 
-interface Message {
-	id: string
-	sender_id: string
-	receiver_id: string
-	content: string
-	is_read: boolean
-	created_at: string
-}
-
 interface RecipientProfile {
 	id: string
 	user_id: string
@@ -55,17 +60,6 @@ interface RecipientProfile {
 // API
 // ============================================
 
-async function getMessages(userId: string, recipientId: string): Promise<Message[]> {
-	const { data, error } = await supabase
-		.from('messages')
-		.select('*')
-		.or(`and(sender_id.eq.${userId},receiver_id.eq.${recipientId}),and(sender_id.eq.${recipientId},receiver_id.eq.${userId})`)
-		.order('created_at', { ascending: true })
-
-	if (error) throw handleSupabaseError(error)
-	return data as Message[]
-}
-
 async function getRecipientProfile(recipientProfileId: string): Promise<RecipientProfile | null> {
 	// Najpierw próbuj znaleźć po profile.id
 	let { data, error } = await supabase
@@ -90,40 +84,12 @@ async function getRecipientProfile(recipientProfileId: string): Promise<Recipien
 	return data as RecipientProfile
 }
 
-async function sendMessage(
-	senderId: string,
-	receiverId: string,
-	content: string
-): Promise<Message> {
-	const { data, error } = await supabase
-		.from('messages')
-		.insert({
-			sender_id: senderId,
-			receiver_id: receiverId,
-			content,
-		})
-		.select()
-		.single()
-
-	if (error) throw handleSupabaseError(error)
-	return data as Message
-}
-
-async function markAsRead(messageIds: string[]): Promise<void> {
-	if (messageIds.length === 0) return
-
-	await supabase
-		.from('messages')
-		.update({ is_read: true, read_at: new Date().toISOString() })
-		.in('id', messageIds)
-}
-
 // ============================================
 // KOMPONENT WIADOMOŚCI
 // ============================================
 
 interface MessageBubbleProps {
-	message: Message
+	message: ChatMessage
 	isOwnMessage: boolean
 }
 
@@ -139,16 +105,25 @@ function MessageBubble({ message, isOwnMessage }: MessageBubbleProps) {
 				styles.messageBubble,
 				isOwnMessage ? styles.ownMessage : styles.otherMessage,
 			]}>
-			<Text style={[styles.messageText, isOwnMessage && styles.ownMessageText]}>
-				{message.content}
-			</Text>
+			{message.broadcast_id && (
+				<View style={styles.broadcastLabel}>
+					<Ionicons name="megaphone" size={12} color={isOwnMessage ? colors.textOnPrimary + '80' : colors.primary} />
+					<Text style={[styles.broadcastLabelText, isOwnMessage && styles.ownMessageTime]}>Ogłoszenie</Text>
+				</View>
+			)}
+			{message.attachment_type && <MessageAttachment message={message} isOwnMessage={isOwnMessage} />}
+			{!!message.content && (
+				<Text style={[styles.messageText, isOwnMessage && styles.ownMessageText]}>
+					{message.content}
+				</Text>
+			)}
 			<View style={styles.messageFooter}>
 				<Text style={[styles.messageTime, isOwnMessage && styles.ownMessageTime]}>
 					{time}
 				</Text>
 				{isOwnMessage && (
 					<Ionicons
-						name={message.is_read ? 'checkmark-done' : 'checkmark'}
+						name={message.isPending ? 'time-outline' : message.is_read ? 'checkmark-done' : 'checkmark'}
 						size={14}
 						color={message.is_read ? colors.success : colors.textOnPrimary + '80'}
 						style={{ marginLeft: 4 }}
@@ -168,97 +143,184 @@ export default function ChatScreen() {
 	const route = useRoute<ChatRouteProp>()
 	const { recipientId } = route.params
 	const { profile } = useAuth()
-	const queryClient = useQueryClient()
-	const flatListRef = useRef<FlatList>(null)
 
 	const [newMessage, setNewMessage] = useState('')
-	const [isSending, setIsSending] = useState(false)
+	const [attachment, setAttachment] = useState<ChatAttachmentInput | null>(null)
+	const [uploadProgress, setUploadProgress] = useState<number | null>(null)
 
 	// Pobierz profil odbiorcy
 	const { data: recipient } = useQuery({
 		queryKey: ['recipient-profile', recipientId],
-		queryFn: async () => {
-			console.log('🔍 Szukam odbiorcy z ID:', recipientId)
-			const result = await getRecipientProfile(recipientId)
-			console.log('👤 Znaleziony odbiorca:', result)
-			return result
-		},
+		queryFn: () => getRecipientProfile(recipientId),
 		enabled: !!recipientId,
 	})
 
-	// Pobierz wiadomości - używaj profile.id (foreign key w tabeli messages)
+	// Historia czatu - używaj profile.id (foreign key w tabeli messages)
 	const {
-		data: messages = [],
+		data,
 		isLoading,
 		refetch,
-	} = useQuery({
-		queryKey: ['messages', profile?.id, recipient?.id],
-		queryFn: () => {
-			if (!profile?.id || !recipient?.id) return []
-			console.log('📥 Pobieranie wiadomości:', {
-				myProfileId: profile.id,
-				recipientProfileId: recipient.id,
-			})
-			return getMessages(profile.id, recipient.id)
-		},
-		enabled: !!profile?.id && !!recipient?.id,
-		refetchInterval: 5000, // Odświeżaj co 5 sekund
-	})
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useConversationMessages(profile?.id, recipient?.id)
 
-	// Oznacz jako przeczytane i odśwież licznik
+	// Nowe wiadomości i potwierdzenia przeczytania na żywo
+	useConversationSubscription(profile?.id, recipient?.id)
+
+	const sendMessageMutation = useSendMessage(profile?.user_id || '', profile?.id || '', recipient?.id || '')
+	const {
+		mutate: markAsRead,
+		isPending: isMarkingAsRead,
+		isError: markAsReadFailed,
+	} = useMarkMessagesAsRead(profile?.id || '', recipient?.id || '')
+
+	// Od najnowszej (lista odwrócona)
+	const messages = useMemo(() => data?.pages.flatMap(page => page.messages) || [], [data])
+
+	// Oznacz wiadomości rozmówcy jako przeczytane
+	// Po błędzie bez ponawiania w pętli - kolejna próba przy następnym wejściu w czat
 	useEffect(() => {
-		if (messages.length > 0 && profile?.id && recipient?.id) {
-			const unreadMessages = messages
-				.filter((m) => m.receiver_id === profile.id && !m.is_read)
-				.map((m) => m.id)
-			
-			if (unreadMessages.length > 0) {
-				markAsRead(unreadMessages).then(() => {
-					// Odśwież licznik nieprzeczytanych
-					queryClient.invalidateQueries({ queryKey: messageKeys.unreadCount(profile.id) })
-				})
-			}
+		if (!profile?.id || isMarkingAsRead || markAsReadFailed) return
+
+		const unreadMessages = messages
+			.filter((m) => m.receiver_id === profile.id && !m.is_read)
+			.map((m) => m.id)
+
+		if (unreadMessages.length > 0) {
+			markAsRead({ messageIds: unreadMessages, readAt: new Date().toISOString() })
 		}
-	}, [messages, profile?.id, recipient?.id, queryClient])
+	}, [messages, profile?.id, isMarkingAsRead, markAsReadFailed, markAsRead])
 
-	// Scroll do końca
+	// Po synchronizacji kolejki offline wysłane wiadomości przestają być oczekujące
 	useEffect(() => {
-		if (messages.length > 0) {
-			setTimeout(() => {
-				flatListRef.current?.scrollToEnd({ animated: true })
-			}, 100)
-		}
-	}, [messages.length])
+		return offlineQueue.addSyncListener((syncing) => {
+			if (!syncing) refetch()
+		})
+	}, [refetch])
 
 	// ============================================
 	// HANDLERS
 	// ============================================
 
-	const handleSend = useCallback(async () => {
-		if (!newMessage.trim() || !profile?.id || !recipient?.id) return
+	const handleSend = useCallback(() => {
+		const content = newMessage.trim()
+		if ((!content && !attachment) || !profile?.id || !recipient?.id) return
+
+		// Wiadomość pojawia się od razu, pole czyścimy przed odpowiedzią serwera
+		const sentAttachment = attachment
+		setNewMessage('')
+		setAttachment(null)
+		if (sentAttachment) setUploadProgress(0)
+
+		sendMessageMutation.mutate(
+			{
+				id: generateUUID(),
+				content,
+				attachment: sentAttachment || undefined,
+				onUploadProgress: (progress) => setUploadProgress(progress.progress),
+			},
+			{
+				onError: (error: any) => {
+					console.error('Błąd wysyłania wiadomości:', error)
+					setNewMessage(current => current || content)
+					if (sentAttachment) setAttachment(current => current || sentAttachment)
+					Alert.alert('Błąd', error?.message || 'Nie udało się wysłać wiadomości')
+				},
+				onSettled: () => setUploadProgress(null),
+			}
+		)
+	}, [newMessage, attachment, profile, recipient, sendMessageMutation])
 
-		console.log('📤 Wysyłanie wiadomości:', {
-			sender_id: profile.id,
-			receiver_id: recipient.id,
-			senderName: `${profile.first_name} ${profile.last_name}`,
-			recipientName: `${recipient.first_name} ${recipient.last_name}`,
-		})
+	/**
+	 * Wybierz zdjęcie lub film z galerii
+	 */
+	const pickMedia = async () => {
+		try {
+			const result = await ImagePicker.launchImageLibraryAsync({
+				mediaTypes: ['images', 'videos'],
+				quality: 0.8,
+			})
 
-		setIsSending(true)
+			if (!result.canceled && result.assets[0]) {
+				const asset = result.assets[0]
+				setAttachment({
+					uri: asset.uri,
+					type: asset.type === 'video' ? 'video' : 'image',
+					name: asset.fileName || undefined,
+					mimeType: asset.mimeType,
+				})
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się wybrać zdjęcia')
+		}
+	}
+
+	/**
+	 * Zrób zdjęcie aparatem
+	 */
+	const takePhoto = async () => {
 		try {
-			await sendMessage(profile.id, recipient.id, newMessage.trim())
-			setNewMessage('')
-			refetch()
-			
-			// Wyślij powiadomienie push do odbiorcy (używaj user_id dla powiadomień)
-			const senderName = `${profile.first_name} ${profile.last_name}`
-			notifyNewMessage(recipient.user_id, senderName, newMessage.trim())
-		} catch (error) {
-			console.error('Błąd wysyłania wiadomości:', error)
-		} finally {
-			setIsSending(false)
+			const { status } = await ImagePicker.requestCameraPermissionsAsync()
+			if (status !== 'granted') {
+				Alert.alert('Brak uprawnień', 'Potrzebujemy dostępu do kamery')
+				return
+			}
+
+			const result = await ImagePicker.launchCameraAsync({
+				mediaTypes: ['images'],
+				quality: 0.8,
+			})
+
+			if (!result.canceled && result.assets[0]) {
+				const asset = result.assets[0]
+				setAttachment({
+					uri: asset.uri,
+					type: 'image',
+					name: asset.fileName || undefined,
+					mimeType: asset.mimeType || 'image/jpeg',
+				})
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się zrobić zdjęcia')
 		}
-	}, [newMessage, profile, recipient, refetch])
+	}
+
+	/**
+	 * Wybierz dowolny plik z urządzenia
+	 */
+	const pickDocument = async () => {
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				copyToCacheDirectory: true,
+			})
+
+			if (!result.canceled && result.assets[0]) {
+				const asset = result.assets[0]
+				setAttachment({
+					uri: asset.uri,
+					type: 'file',
+					name: asset.name,
+					mimeType: asset.mimeType,
+				})
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się wybrać pliku')
+		}
+	}
+
+	const handleAttach = () => {
+		Alert.alert('Dodaj załącznik', undefined, [
+			{ text: 'Zdjęcie lub film', onPress: pickMedia },
+			{ text: 'Zrób zdjęcie', onPress: takePhoto },
+			{ text: 'Plik', onPress: pickDocument },
+			{ text: 'Anuluj', style: 'cancel' },
+		])
+	}
+
+	const handleLoadOlder = useCallback(() => {
+		if (hasNextPage && !isFetchingNextPage) fetchNextPage()
+	}, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
 	// ============================================
 	// RENDER
@@ -301,8 +363,8 @@ export default function ChatScreen() {
 					</View>
 				) : (
 					<FlatList
-						ref={flatListRef}
 						data={messages}
+						inverted
 						keyExtractor={(item) => item.id}
 						renderItem={({ item }) => (
 							<MessageBubble
@@ -312,14 +374,50 @@ export default function ChatScreen() {
 						)}
 						contentContainerStyle={styles.messagesList}
 						showsVerticalScrollIndicator={false}
-						onContentSizeChange={() =>
-							flatListRef.current?.scrollToEnd({ animated: false })
+						onEndReached={handleLoadOlder}
+						onEndReachedThreshold={0.3}
+						ListFooterComponent={
+							isFetchingNextPage ? (
+								<ActivityIndicator size="small" color={colors.primary} style={styles.loadingOlder} />
+							) : null
 						}
 					/>
 				)}
 
+				{/* Upload załącznika */}
+				{uploadProgress !== null && (
+					<View style={styles.uploadProgressContainer}>
+						<View style={styles.uploadProgressBar}>
+							<View style={[styles.uploadProgressFill, { width: `${uploadProgress}%` }]} />
+						</View>
+						<Text style={styles.uploadProgressText}>
+							Przesyłanie załącznika... {Math.round(uploadProgress)}%
+						</Text>
+					</View>
+				)}
+
+				{/* Wybrany załącznik */}
+				{attachment && (
+					<View style={styles.attachmentPreview}>
+						<Ionicons
+							name={attachment.type === 'image' ? 'image' : attachment.type === 'video' ? 'videocam' : 'document-text'}
+							size={20}
+							color={colors.primary}
+						/>
+						<Text style={styles.attachmentPreviewText} numberOfLines={1}>
+							{attachment.name || (attachment.type === 'video' ? 'Film' : attachment.type === 'image' ? 'Zdjęcie' : 'Plik')}
+						</Text>
+						<TouchableOpacity onPress={() => setAttachment(null)}>
+							<Ionicons name="close-circle" size={20} color={colors.textSecondary} />
+						</TouchableOpacity>
+					</View>
+				)}
+
 				{/* Input */}
 				<View style={styles.inputContainer}>
+					<TouchableOpacity style={styles.attachButton} onPress={handleAttach}>
+						<Ionicons name="attach" size={24} color={colors.textSecondary} />
+					</TouchableOpacity>
 					<TextInput
 						style={styles.input}
 						value={newMessage}
@@ -330,17 +428,10 @@ export default function ChatScreen() {
 						maxLength={1000}
 					/>
 					<TouchableOpacity
-						style={[
-							styles.sendButton,
-							(!newMessage.trim() || isSending) && styles.sendButtonDisabled,
-						]}
+						style={[styles.sendButton, !newMessage.trim() && !attachment && styles.sendButtonDisabled]}
 						onPress={handleSend}
-						disabled={!newMessage.trim() || isSending}>
-						{isSending ? (
-							<ActivityIndicator size="small" color={colors.textOnPrimary} />
-						) : (
-							<Ionicons name="send" size={20} color={colors.textOnPrimary} />
-						)}
+						disabled={!newMessage.trim() && !attachment}>
+						<Ionicons name="send" size={20} color={colors.textOnPrimary} />
 					</TouchableOpacity>
 				</View>
 			</KeyboardAvoidingView>
@@ -408,6 +499,9 @@ const styles = StyleSheet.create({
 		padding: 16,
 		paddingBottom: 8,
 	},
+	loadingOlder: {
+		marginVertical: 12,
+	},
 	messageBubble: {
 		maxWidth: '80%',
 		padding: 12,
@@ -424,6 +518,17 @@ const styles = StyleSheet.create({
 		alignSelf: 'flex-start',
 		borderBottomLeftRadius: 4,
 	},
+	broadcastLabel: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 4,
+		marginBottom: 4,
+	},
+	broadcastLabelText: {
+		fontSize: 11,
+		fontWeight: '600',
+		color: colors.primary,
+	},
 	messageText: {
 		fontSize: 15,
 		color: colors.textPrimary,
@@ -445,6 +550,48 @@ const styles = StyleSheet.create({
 	ownMessageTime: {
 		color: colors.textOnPrimary + '80',
 	},
+	uploadProgressContainer: {
+		paddingHorizontal: 16,
+		paddingTop: 8,
+	},
+	uploadProgressBar: {
+		height: 4,
+		backgroundColor: colors.surface,
+		borderRadius: 2,
+		overflow: 'hidden',
+	},
+	uploadProgressFill: {
+		height: '100%',
+		backgroundColor: colors.primary,
+	},
+	uploadProgressText: {
+		color: colors.textSecondary,
+		fontSize: 12,
+		marginTop: 4,
+	},
+	attachmentPreview: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		marginHorizontal: 12,
+		marginTop: 8,
+		paddingHorizontal: 12,
+		paddingVertical: 8,
+		borderRadius: 12,
+		backgroundColor: colors.primary + '15',
+	},
+	attachmentPreviewText: {
+		flex: 1,
+		fontSize: 14,
+		color: colors.textPrimary,
+	},
+	attachButton: {
+		width: 40,
+		height: 44,
+		justifyContent: 'center',
+		alignItems: 'center',
+		marginRight: 4,
+	},
 	inputContainer: {
 		flexDirection: 'row',
 		alignItems: 'flex-end',
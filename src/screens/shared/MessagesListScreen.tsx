@@ -22,7 +22,12 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useQuery } from '@tanstack/react-query'
 import { supabase, handleSupabaseError } from '../../api/supabase'
 import { useAuth } from '../../context/AuthContext'
-import { useUnreadMessages } from '../../api/services/messages'
+import {
+	useUnreadMessages,
+	useConversationsSubscription,
+	messageKeys,
+	getMessagePreview,
+} from '../../api/services/messages'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
@@ -53,6 +58,8 @@ async function getConversations(profileId: string, role: 'trainer' | 'client'):
 			sender_id,
 			receiver_id,
 			content,
+			attachment_type,
+			attachment_name,
 			is_read,
 			created_at
 		`)
@@ -77,7 +84,7 @@ async function getConversations(profileId: string, role: 'trainer' | 'client'):
 		if (!conversationsMap.has(recipientId)) {
 			conversationsMap.set(recipientId, {
 				recipientId,
-				lastMessage: msg.content,
+				lastMessage: getMessagePreview(msg),
 				lastMessageTime: msg.created_at,
 				unreadCount: (!isFromMe && !msg.is_read) ? 1 : 0,
 				isFromMe,
@@ -202,12 +209,14 @@ export default function MessagesListScreen() {
 		refetch, 
 		isRefetching 
 	} = useQuery({
-		queryKey: ['conversations', profile?.id],
+		queryKey: messageKeys.conversations(profile?.id || ''),
 		queryFn: () => getConversations(profile!.id, profile?.role as 'trainer' | 'client'),
 		enabled: !!profile?.id,
-		refetchInterval: 10000,
 	})
 
+	// Lista odświeża się przy nowych wiadomościach i zmianie statusu przeczytania
+	useConversationsSubscription(profile?.id)
+
 	const { data: unreadData } = useUnreadMessages(profile?.id)
 	const totalUnread = unreadData?.total || 0
 
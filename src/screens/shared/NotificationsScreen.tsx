@@ -0,0 +1,354 @@
+/**
+ * NotificationsScreen - Centrum powiadomień
+ *
+ * Lista powiadomień z tabeli notifications pogrupowana po dniach.
+ * Dotknięcie oznacza powiadomienie jako przeczytane i otwiera
+ * powiązany ekran (czat, trening, plan, klient, komentarze).
+ */
+
+import React, { useMemo, useState, useCallback } from 'react'
+import {
+	View,
+	Text,
+	SectionList,
+	TouchableOpacity,
+	StyleSheet,
+	ActivityIndicator,
+	RefreshControl,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation } from '@react-navigation/native'
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useNotifications,
+	useNotificationsSubscription,
+	useMarkNotificationsAsRead,
+	useMarkAllNotificationsAsRead,
+} from '../../api/services/notificationCenter'
+import { NotificationTypes } from '../../services/notifications'
+import { colors } from '../../theme/colors'
+import WorkoutCommentsModal from '../../components/workout/WorkoutCommentsModal'
+import { getNotificationDeepLink, resolveDeepLink, navigateToTarget } from '../../navigation/linking'
+import type { AppStackParamList } from '../../navigation/AppNavigator'
+import type { Notification, NotificationType } from '../../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+interface NotificationSection {
+	title: string
+	data: Notification[]
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const NOTIFICATION_ICONS: Partial<Record<NotificationType, { icon: string; color: string }>> = {
+	[NotificationTypes.NEW_MESSAGE]: { icon: 'chatbubble', color: colors.primary },
+	[NotificationTypes.BROADCAST]: { icon: 'megaphone', color: colors.primary },
+	[NotificationTypes.WORKOUT_REMINDER]: { icon: 'alarm', color: colors.warning },
+	[NotificationTypes.WORKOUT_COMPLETED]: { icon: 'checkmark-circle', color: colors.success },
+	[NotificationTypes.WORKOUT_COMMENT]: { icon: 'chatbubbles', color: colors.success },
+	[NotificationTypes.NEW_PLAN]: { icon: 'clipboard', color: colors.primary },
+	[NotificationTypes.PLAN_UPDATED]: { icon: 'clipboard', color: colors.primary },
+	[NotificationTypes.NEW_CLIENT]: { icon: 'person-add', color: colors.success },
+	[NotificationTypes.MEASUREMENT_REMINDER]: { icon: 'scale', color: colors.warning },
+}
+
+const DEFAULT_ICON = { icon: 'notifications', color: colors.textSecondary }
+
+// ============================================
+// HELPERY
+// ============================================
+
+const toDayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`
+
+/**
+ * Grupuje powiadomienia (od najnowszych) po dniu utworzenia
+ */
+function groupByDay(notifications: Notification[]): NotificationSection[] {
+	const today = new Date()
+	const yesterday = new Date(today)
+	yesterday.setDate(today.getDate() - 1)
+
+	const sections: NotificationSection[] = []
+	let currentKey: string | null = null
+
+	for (const notification of notifications) {
+		const date = new Date(notification.created_at)
+		const key = toDayKey(date)
+
+		if (key !== currentKey) {
+			currentKey = key
+			const title =
+				key === toDayKey(today)
+					? 'Dzisiaj'
+					: key === toDayKey(yesterday)
+					? 'Wczoraj'
+					: date.toLocaleDateString('pl-PL', { weekday: 'long', day: 'numeric', month: 'long' })
+			sections.push({ title, data: [] })
+		}
+
+		sections[sections.length - 1].data.push(notification)
+	}
+
+	return sections
+}
+
+const formatTime = (dateStr: string) =>
+	new Date(dateStr).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })
+
+// ============================================
+// KOMPONENT POWIADOMIENIA
+// ============================================
+
+interface NotificationItemProps {
+	notification: Notification
+	onPress: () => void
+}
+
+function NotificationItem({ notification, onPress }: NotificationItemProps) {
+	const { icon, color } = NOTIFICATION_ICONS[notification.type] || DEFAULT_ICON
+
+	return (
+		<TouchableOpacity
+			style={[styles.item, !notification.is_read && styles.itemUnread]}
+			onPress={onPress}
+			activeOpacity={0.7}>
+			<View style={[styles.itemIcon, { backgroundColor: color + '20' }]}>
+				<Ionicons name={icon as any} size={20} color={color} />
+			</View>
+			<View style={styles.itemContent}>
+				<View style={styles.itemHeader}>
+					<Text style={[styles.itemTitle, !notification.is_read && styles.itemTitleUnread]} numberOfLines={1}>
+						{notification.title}
+					</Text>
+					<Text style={styles.itemTime}>{formatTime(notification.created_at)}</Text>
+				</View>
+				<Text style={styles.itemBody} numberOfLines={2}>
+					{notification.body}
+				</Text>
+			</View>
+			{!notification.is_read && <View style={styles.unreadDot} />}
+		</TouchableOpacity>
+	)
+}
+
+// ============================================
+// GŁÓWNY KOMPONENT
+// ============================================
+
+export default function NotificationsScreen() {
+	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
+	const { profile, currentUser } = useAuth()
+
+	const { data: notifications = [], isLoading, refetch, isRefetching } = useNotifications(currentUser?.id)
+	useNotificationsSubscription(currentUser?.id)
+
+	const { mutate: markAsRead } = useMarkNotificationsAsRead(currentUser?.id || '')
+	const markAllAsRead = useMarkAllNotificationsAsRead(currentUser?.id || '')
+
+	const [commentsWorkoutId, setCommentsWorkoutId] = useState<string | null>(null)
+
+	const sections = useMemo(() => groupByDay(notifications), [notifications])
+	const hasUnread = notifications.some(notification => !notification.is_read)
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleNotificationPress = useCallback(
+		(notification: Notification) => {
+			if (!notification.is_read) markAsRead([notification.id])
+
+			// Komentarze otwieramy na miejscu, bez przechodzenia do ekranu treningu
+			const completedWorkoutId = notification.data?.completedWorkoutId
+			if (notification.type === NotificationTypes.WORKOUT_COMMENT && typeof completedWorkoutId === 'string') {
+				setCommentsWorkoutId(completedWorkoutId)
+				return
+			}
+
+			// Pozostałe typy - ta sama trasa co po dotknięciu pusha
+			const link = getNotificationDeepLink({ ...notification.data, type: notification.type })
+			const target = link && profile ? resolveDeepLink(link, profile.role) : null
+			if (target && target.name !== 'Notifications') navigateToTarget(target)
+		},
+		[markAsRead, profile]
+	)
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	return (
+		<SafeAreaView style={styles.container} edges={['top']}>
+			{/* Header */}
+			<View style={styles.header}>
+				<TouchableOpacity onPress={() => navigation.goBack()}>
+					<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+				</TouchableOpacity>
+				<Text style={styles.headerTitle}>Powiadomienia</Text>
+				<TouchableOpacity
+					style={styles.headerRight}
+					onPress={() => markAllAsRead.mutate()}
+					disabled={!hasUnread || markAllAsRead.isPending}>
+					<Ionicons name="checkmark-done" size={24} color={hasUnread ? colors.primary : colors.textDisabled} />
+				</TouchableOpacity>
+			</View>
+
+			{/* Lista powiadomień */}
+			{isLoading ? (
+				<View style={styles.loadingContainer}>
+					<ActivityIndicator size="large" color={colors.primary} />
+				</View>
+			) : notifications.length === 0 ? (
+				<View style={styles.emptyContainer}>
+					<Ionicons name="notifications-off-outline" size={64} color={colors.textDisabled} />
+					<Text style={styles.emptyTitle}>Brak powiadomień</Text>
+					<Text style={styles.emptyText}>Tutaj pojawią się wiadomości, plany i komentarze do treningów</Text>
+				</View>
+			) : (
+				<SectionList
+					sections={sections}
+					keyExtractor={item => item.id}
+					renderItem={({ item }) => (
+						<NotificationItem notification={item} onPress={() => handleNotificationPress(item)} />
+					)}
+					renderSectionHeader={({ section }) => <Text style={styles.sectionTitle}>{section.title}</Text>}
+					stickySectionHeadersEnabled={false}
+					contentContainerStyle={styles.listContent}
+					refreshControl={<RefreshControl refreshing={isRefetching} onRefresh={refetch} tintColor={colors.primary} />}
+					showsVerticalScrollIndicator={false}
+				/>
+			)}
+
+			{/* Komentarze do treningu */}
+			<WorkoutCommentsModal
+				visible={!!commentsWorkoutId}
+				completedWorkoutId={commentsWorkoutId || ''}
+				title="Komentarz do treningu"
+				onClose={() => setCommentsWorkoutId(null)}
+			/>
+		</SafeAreaView>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	headerRight: {
+		width: 40,
+		alignItems: 'flex-end',
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	emptyContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+		padding: 40,
+	},
+	emptyTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginTop: 16,
+	},
+	emptyText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+		textAlign: 'center',
+		marginTop: 8,
+	},
+	listContent: {
+		padding: 16,
+	},
+	sectionTitle: {
+		fontSize: 13,
+		fontWeight: '600',
+		color: colors.textSecondary,
+		textTransform: 'uppercase',
+		marginTop: 8,
+		marginBottom: 8,
+	},
+	item: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		padding: 14,
+		borderRadius: 12,
+		marginBottom: 8,
+	},
+	itemUnread: {
+		backgroundColor: colors.primary + '15',
+	},
+	itemIcon: {
+		width: 40,
+		height: 40,
+		borderRadius: 20,
+		justifyContent: 'center',
+		alignItems: 'center',
+		marginRight: 12,
+	},
+	itemContent: {
+		flex: 1,
+	},
+	itemHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 2,
+	},
+	itemTitle: {
+		flex: 1,
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+		marginRight: 8,
+	},
+	itemTitleUnread: {
+		fontWeight: '700',
+	},
+	itemTime: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	itemBody: {
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+	unreadDot: {
+		width: 8,
+		height: 8,
+		borderRadius: 4,
+		backgroundColor: colors.primary,
+		marginLeft: 8,
+	},
+})
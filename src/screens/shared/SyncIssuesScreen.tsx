@@ -0,0 +1,352 @@
+/**
+ * SyncIssuesScreen - Operacje offline, których nie udało się zsynchronizować
+ *
+ * Konflikt: wiersz zmieniono lub usunięto na innym urządzeniu od czasu
+ * edycji offline - użytkownik wybiera swoją wersję albo wersję z serwera.
+ * Błąd: operacja nie powiodła się po kilku próbach - ponów albo odrzuć.
+ */
+
+import React, { useCallback } from 'react'
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation } from '@react-navigation/native'
+import {
+	useOfflineDeadLetters,
+	type DeadLetterEntry,
+	type DeadLetterResolution,
+	type OperationType,
+} from '../../services/offline'
+import { colors } from '../../theme/colors'
+
+// ============================================
+// STAŁE
+// ============================================
+
+const OPERATION_LABELS: Record<OperationType, string> = {
+	SAVE_WORKOUT: 'Zapis treningu',
+	SAVE_MEASUREMENT: 'Zapis pomiaru',
+	UPDATE_PLAN: 'Zmiana planu',
+	ADD_EXERCISE: 'Nowe ćwiczenie',
+	UPDATE_EXERCISE: 'Zmiana ćwiczenia',
+	DELETE_EXERCISE: 'Usunięcie ćwiczenia',
+	SEND_MESSAGE: 'Wiadomość',
+	ADD_WORKOUT_DAY: 'Nowy dzień planu',
+	UPDATE_WORKOUT_DAY: 'Zmiana dnia planu',
+	DELETE_WORKOUT_DAY: 'Usunięcie dnia planu',
+	ADD_WORKOUT_EXERCISE: 'Nowe ćwiczenie w planie',
+	UPDATE_WORKOUT_EXERCISE: 'Zmiana ćwiczenia w planie',
+	DELETE_WORKOUT_EXERCISE: 'Usunięcie ćwiczenia z planu',
+	REORDER_WORKOUT_EXERCISES: 'Kolejność ćwiczeń',
+}
+
+const FIELD_LABELS: Record<string, string> = {
+	name: 'Nazwa',
+	description: 'Opis',
+	category: 'Kategoria',
+	video_url: 'Wideo',
+	week_start: 'Początek tygodnia',
+	week_end: 'Koniec tygodnia',
+	trainer_notes: 'Notatki trenera',
+	is_active: 'Aktywny',
+}
+
+// ============================================
+// HELPERY
+// ============================================
+
+const formatValue = (value: unknown) =>
+	value === null || value === undefined || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+
+/**
+ * Pola, w których lokalna zmiana różni się od wersji z serwera
+ */
+function getConflictFields(entry: DeadLetterEntry) {
+	const input = (entry.operation.data?.input || {}) as Record<string, unknown>
+	const server = entry.serverData || {}
+
+	return Object.keys(input)
+		.filter(key => formatValue(input[key]) !== formatValue(server[key]))
+		.map(key => ({
+			key,
+			label: FIELD_LABELS[key] || key,
+			mine: formatValue(input[key]),
+			theirs: formatValue(server[key]),
+		}))
+}
+
+// ============================================
+// KOMPONENT WPISU
+// ============================================
+
+interface SyncIssueItemProps {
+	entry: DeadLetterEntry
+	onResolve: (entry: DeadLetterEntry, resolution: DeadLetterResolution) => void
+}
+
+function SyncIssueItem({ entry, onResolve }: SyncIssueItemProps) {
+	const isConflict = entry.reason === 'conflict'
+	const isDeleted = isConflict && !entry.serverData
+	const fields = isConflict && !isDeleted ? getConflictFields(entry) : []
+
+	return (
+		<View style={styles.item}>
+			<View style={styles.itemHeader}>
+				<Ionicons
+					name={isConflict ? 'git-compare' : 'alert-circle'}
+					size={22}
+					color={isConflict ? colors.warning : colors.error}
+				/>
+				<View style={styles.itemHeaderText}>
+					<Text style={styles.itemTitle}>{OPERATION_LABELS[entry.operation.type] || entry.operation.type}</Text>
+					<Text style={styles.itemDate}>
+						{new Date(entry.operation.timestamp).toLocaleString('pl-PL', {
+							day: 'numeric',
+							month: 'short',
+							hour: '2-digit',
+							minute: '2-digit',
+						})}
+					</Text>
+				</View>
+			</View>
+
+			<Text style={styles.itemError}>
+				{isConflict ? entry.error : `Nie udało się po ${entry.operation.retryCount} próbach: ${entry.error}`}
+			</Text>
+
+			{/* Różnice: moja wersja vs serwer */}
+			{fields.map(field => (
+				<View key={field.key} style={styles.diffRow}>
+					<Text style={styles.diffLabel}>{field.label}</Text>
+					<Text style={styles.diffMine} numberOfLines={2}>
+						Moje: {field.mine}
+					</Text>
+					<Text style={styles.diffTheirs} numberOfLines={2}>
+						Serwer: {field.theirs}
+					</Text>
+				</View>
+			))}
+
+			<View style={styles.actions}>
+				{isConflict ? (
+					<>
+						<TouchableOpacity
+							style={[styles.actionButton, styles.actionSecondary]}
+							onPress={() => onResolve(entry, 'keep-theirs')}>
+							<Text style={styles.actionSecondaryText}>{isDeleted ? 'Odrzuć zmianę' : 'Zachowaj z serwera'}</Text>
+						</TouchableOpacity>
+						{!isDeleted && (
+							<TouchableOpacity
+								style={[styles.actionButton, styles.actionPrimary]}
+								onPress={() => onResolve(entry, 'keep-mine')}>
+								<Text style={styles.actionPrimaryText}>Zachowaj moje</Text>
+							</TouchableOpacity>
+						)}
+					</>
+				) : (
+					<>
+						<TouchableOpacity
+							style={[styles.actionButton, styles.actionSecondary]}
+							onPress={() => onResolve(entry, 'discard')}>
+							<Text style={styles.actionSecondaryText}>Odrzuć</Text>
+						</TouchableOpacity>
+						<TouchableOpacity
+							style={[styles.actionButton, styles.actionPrimary]}
+							onPress={() => onResolve(entry, 'retry')}>
+							<Text style={styles.actionPrimaryText}>Ponów</Text>
+						</TouchableOpacity>
+					</>
+				)}
+			</View>
+		</View>
+	)
+}
+
+// ============================================
+// GŁÓWNY KOMPONENT
+// ============================================
+
+export default function SyncIssuesScreen() {
+	const navigation = useNavigation()
+	const { entries, resolve } = useOfflineDeadLetters()
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleResolve = useCallback(
+		(entry: DeadLetterEntry, resolution: DeadLetterResolution) => {
+			// Odrzucenie usuwa lokalną zmianę na zawsze - potwierdź
+			if (resolution === 'discard' || resolution === 'keep-theirs') {
+				Alert.alert('Odrzucić zmianę?', 'Zmiana zapisana offline zostanie usunięta z tego urządzenia.', [
+					{ text: 'Anuluj', style: 'cancel' },
+					{ text: 'Odrzuć', style: 'destructive', onPress: () => resolve(entry.operation.id, resolution) },
+				])
+				return
+			}
+			resolve(entry.operation.id, resolution)
+		},
+		[resolve]
+	)
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	return (
+		<SafeAreaView style={styles.container} edges={['top']}>
+			{/* Header */}
+			<View style={styles.header}>
+				<TouchableOpacity onPress={() => navigation.goBack()}>
+					<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+				</TouchableOpacity>
+				<Text style={styles.headerTitle}>Synchronizacja</Text>
+				<View style={styles.headerRight} />
+			</View>
+
+			{entries.length === 0 ? (
+				<View style={styles.emptyContainer}>
+					<Ionicons name="checkmark-circle-outline" size={64} color={colors.success} />
+					<Text style={styles.emptyTitle}>Wszystko zsynchronizowane</Text>
+					<Text style={styles.emptyText}>Zmiany zapisane offline zostały wysłane na serwer</Text>
+				</View>
+			) : (
+				<FlatList
+					data={entries}
+					keyExtractor={entry => entry.operation.id}
+					renderItem={({ item }) => <SyncIssueItem entry={item} onResolve={handleResolve} />}
+					contentContainerStyle={styles.listContent}
+					showsVerticalScrollIndicator={false}
+				/>
+			)}
+		</SafeAreaView>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	headerRight: {
+		width: 24,
+	},
+	emptyContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+		padding: 40,
+	},
+	emptyTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginTop: 16,
+	},
+	emptyText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+		textAlign: 'center',
+		marginTop: 8,
+	},
+	listContent: {
+		padding: 16,
+	},
+	item: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 12,
+	},
+	itemHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 10,
+	},
+	itemHeaderText: {
+		flex: 1,
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+	},
+	itemTitle: {
+		fontSize: 15,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	itemDate: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
+	itemError: {
+		fontSize: 14,
+		color: colors.textSecondary,
+		marginTop: 8,
+	},
+	diffRow: {
+		backgroundColor: colors.background,
+		borderRadius: 8,
+		padding: 10,
+		marginTop: 8,
+	},
+	diffLabel: {
+		fontSize: 12,
+		fontWeight: '600',
+		color: colors.textSecondary,
+		marginBottom: 4,
+	},
+	diffMine: {
+		fontSize: 13,
+		color: colors.textPrimary,
+	},
+	diffTheirs: {
+		fontSize: 13,
+		color: colors.warning,
+		marginTop: 2,
+	},
+	actions: {
+		flexDirection: 'row',
+		justifyContent: 'flex-end',
+		gap: 8,
+		marginTop: 12,
+	},
+	actionButton: {
+		paddingHorizontal: 14,
+		paddingVertical: 8,
+		borderRadius: 8,
+	},
+	actionPrimary: {
+		backgroundColor: colors.primary,
+	},
+	actionPrimaryText: {
+		color: colors.textOnPrimary,
+		fontSize: 14,
+		fontWeight: '600',
+	},
+	actionSecondary: {
+		backgroundColor: colors.background,
+	},
+	actionSecondaryText: {
+		color: colors.textPrimary,
+		fontSize: 14,
+		fontWeight: '500',
+	},
+})
@@ -4,14 +4,20 @@
  * Wyświetla pełne informacje o kliencie: dane, pomiary, plany, statystyki.
  */
 
-import React from 'react'
+import React, { useMemo, useState } from 'react'
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
 import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useClientDetails, useUnassignClient } from '../../api/services/clients'
+import { useClientDietPlans } from '../../api/services/dietPlans'
+import { useProgressPhotos } from '../../api/services/measurements'
+import { useUnreadWorkoutThreads } from '../../api/services/workoutComments'
+import { useAuth } from '../../context/AuthContext'
 import { colors } from '../../theme/colors'
+import PhotoComparison from '../../components/progress/PhotoComparison'
+import WorkoutCommentsModal from '../../components/workout/WorkoutCommentsModal'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
 // ============================================
@@ -20,6 +26,17 @@ import type { AppStackParamList } from '../../navigation/AppNavigator'
 
 type ClientDetailRouteProp = RouteProp<AppStackParamList, 'ClientDetail'>
 
+// ============================================
+// HELPERY
+// ============================================
+
+const formatWorkoutDate = (dateStr: string) =>
+	new Date(dateStr).toLocaleDateString('pl-PL', {
+		weekday: 'long',
+		day: 'numeric',
+		month: 'long',
+	})
+
 // ============================================
 // KOMPONENTY SEKCJI
 // ============================================
@@ -67,9 +84,21 @@ export default function ClientDetailScreen() {
 	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
 	const route = useRoute<ClientDetailRouteProp>()
 	const { clientId } = route.params
+	const { profile } = useAuth()
 
 	const { data: client, isLoading, refetch } = useClientDetails(clientId)
 	const unassignMutation = useUnassignClient()
+	const { data: dietPlans } = useClientDietPlans(clientId)
+	// Zdjęcia są przypięte do pomiarów po auth user_id klienta
+	const { data: progressPhotos = [] } = useProgressPhotos(client?.user_id || '')
+
+	// Nieprzeczytane komentarze klienta do treningów
+	const { data: unreadThreads = [] } = useUnreadWorkoutThreads(profile?.id)
+	const unreadByWorkout = useMemo(
+		() => new Map(unreadThreads.map(thread => [thread.completed_workout_id, thread.unread_count])),
+		[unreadThreads]
+	)
+	const [commentsWorkout, setCommentsWorkout] = useState<{ id: string; date: string } | null>(null)
 
 	// ============================================
 	// HANDLERS
@@ -85,6 +114,14 @@ export default function ClientDetailScreen() {
 		}
 	}
 
+	const handleCreateDiet = () => {
+		navigation.navigate('DietPlanForm', { clientId })
+	}
+
+	const handleEditDiet = (dietPlanId: string) => {
+		navigation.navigate('DietPlanForm', { clientId, dietPlanId })
+	}
+
 	const handleSendMessage = () => {
 		if (client) {
 			navigation.navigate('Chat', { recipientId: client.id })
@@ -243,6 +280,51 @@ export default function ClientDetailScreen() {
 					)}
 				</View>
 
+				{/* Dieta */}
+				<View style={styles.section}>
+					<View style={styles.sectionHeader}>
+						<Text style={[styles.sectionTitle, { marginBottom: 0 }]}>Dieta</Text>
+						<TouchableOpacity onPress={handleCreateDiet}>
+							<Text style={styles.sectionAction}>+ Nowa dieta</Text>
+						</TouchableOpacity>
+					</View>
+					{dietPlans && dietPlans.length > 0 ? (
+						dietPlans.map(diet => (
+							<TouchableOpacity key={diet.id} style={styles.dietRow} onPress={() => handleEditDiet(diet.id)}>
+								<Ionicons
+									name={diet.file_url ? 'document-attach' : 'nutrition'}
+									size={20}
+									color={diet.is_active ? colors.success : colors.textSecondary}
+								/>
+								<View style={styles.dietInfo}>
+									<Text style={[styles.dietTitle, !diet.is_active && styles.dietTitleInactive]} numberOfLines={1}>
+										{diet.title}
+									</Text>
+									{(diet.start_date || diet.end_date) && (
+										<Text style={styles.planDates}>
+											{diet.start_date ? new Date(diet.start_date).toLocaleDateString('pl-PL') : '...'} -{' '}
+											{diet.end_date ? new Date(diet.end_date).toLocaleDateString('pl-PL') : '...'}
+										</Text>
+									)}
+								</View>
+								<View style={[styles.dietBadge, diet.is_active && styles.dietBadgeActive]}>
+									<Text style={[styles.dietBadgeText, diet.is_active && styles.dietBadgeTextActive]}>
+										{diet.is_active ? 'Aktywna' : 'Nieaktywna'}
+									</Text>
+								</View>
+							</TouchableOpacity>
+						))
+					) : (
+						<View style={styles.noPlanCard}>
+							<Ionicons name="nutrition-outline" size={32} color={colors.textSecondary} />
+							<Text style={styles.noPlanText}>Brak planu dietetycznego</Text>
+							<TouchableOpacity style={styles.createPlanButton} onPress={handleCreateDiet}>
+								<Text style={styles.createPlanButtonText}>Dodaj dietę</Text>
+							</TouchableOpacity>
+						</View>
+					)}
+				</View>
+
 				{/* Dane klienta */}
 				{clientData && (
 					<View style={styles.section}>
@@ -294,12 +376,23 @@ export default function ClientDetailScreen() {
 					</View>
 				)}
 
+				{/* Zdjęcia postępu */}
+				{progressPhotos.length > 0 && (
+					<View style={styles.section}>
+						<Text style={styles.sectionTitle}>Zdjęcia postępu</Text>
+						<PhotoComparison photos={progressPhotos} />
+					</View>
+				)}
+
 				{/* Ostatnie treningi */}
 				{client.recent_workouts && client.recent_workouts.length > 0 && (
 					<View style={styles.section}>
 						<Text style={styles.sectionTitle}>Ostatnie treningi</Text>
 						{client.recent_workouts.slice(0, 5).map(workout => (
-							<View key={workout.id} style={styles.workoutRow}>
+							<TouchableOpacity
+								key={workout.id}
+								style={styles.workoutRow}
+								onPress={() => setCommentsWorkout({ id: workout.id, date: workout.completed_date })}>
 								<View style={styles.workoutIcon}>
 									<Ionicons
 										name={
@@ -320,13 +413,7 @@ export default function ClientDetailScreen() {
 									/>
 								</View>
 								<View style={styles.workoutInfo}>
-									<Text style={styles.workoutDate}>
-										{new Date(workout.completed_date).toLocaleDateString('pl-PL', {
-											weekday: 'long',
-											day: 'numeric',
-											month: 'long',
-										})}
-									</Text>
+									<Text style={styles.workoutDate}>{formatWorkoutDate(workout.completed_date)}</Text>
 									{workout.duration_minutes && (
 										<Text style={styles.workoutDuration}>{workout.duration_minutes} min</Text>
 									)}
@@ -336,7 +423,15 @@ export default function ClientDetailScreen() {
 										<Text style={styles.feelingText}>{'⭐'.repeat(workout.feeling_rating)}</Text>
 									</View>
 								)}
-							</View>
+								{unreadByWorkout.has(workout.id) ? (
+									<View style={styles.commentsBadge}>
+										<Ionicons name="chatbubble" size={12} color={colors.textOnPrimary} />
+										<Text style={styles.commentsBadgeText}>{unreadByWorkout.get(workout.id)}</Text>
+									</View>
+								) : (
+									<Ionicons name="chatbubble-outline" size={18} color={colors.textSecondary} />
+								)}
+							</TouchableOpacity>
 						))}
 					</View>
 				)}
@@ -344,6 +439,14 @@ export default function ClientDetailScreen() {
 				{/* Spacer */}
 				<View style={{ height: 40 }} />
 			</ScrollView>
+
+			{/* Komentarze do treningu */}
+			<WorkoutCommentsModal
+				visible={!!commentsWorkout}
+				completedWorkoutId={commentsWorkout?.id || ''}
+				title={commentsWorkout ? formatWorkoutDate(commentsWorkout.date) : ''}
+				onClose={() => setCommentsWorkout(null)}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -537,6 +640,48 @@ const styles = StyleSheet.create({
 		color: colors.textOnPrimary,
 		fontWeight: '600',
 	},
+	sectionAction: {
+		color: colors.primary,
+		fontSize: 14,
+		fontWeight: '600',
+	},
+	dietRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 10,
+		padding: 12,
+		marginBottom: 8,
+		gap: 12,
+	},
+	dietInfo: {
+		flex: 1,
+	},
+	dietTitle: {
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	dietTitleInactive: {
+		color: colors.textSecondary,
+	},
+	dietBadge: {
+		paddingHorizontal: 8,
+		paddingVertical: 4,
+		borderRadius: 6,
+		backgroundColor: colors.border,
+	},
+	dietBadgeActive: {
+		backgroundColor: colors.success + '20',
+	},
+	dietBadgeText: {
+		fontSize: 11,
+		fontWeight: '600',
+		color: colors.textSecondary,
+	},
+	dietBadgeTextActive: {
+		color: colors.success,
+	},
 	dataCard: {
 		backgroundColor: colors.surface,
 		borderRadius: 12,
@@ -602,4 +747,18 @@ const styles = StyleSheet.create({
 	feelingText: {
 		fontSize: 12,
 	},
+	commentsBadge: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 4,
+		backgroundColor: colors.primary,
+		borderRadius: 10,
+		paddingHorizontal: 8,
+		paddingVertical: 3,
+	},
+	commentsBadgeText: {
+		fontSize: 12,
+		fontWeight: '600',
+		color: colors.textOnPrimary,
+	},
 })
@@ -2,6 +2,8 @@
  * ClientsListScreen - Lista klientów trenera
  *
  * Wyświetla wszystkich klientów ze statystykami i wyszukiwaniem.
+ * Tryb zaznaczania pozwala przypisać szablon kilku klientom naraz
+ * albo wysłać im wspólne ogłoszenie.
  */
 
 import React, { useState, useCallback, useMemo } from 'react'
@@ -23,6 +25,8 @@ import { useAuth } from '../../context/AuthContext'
 import { useClientsWithStats, type ClientWithStats } from '../../api/services/clients'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
+import BulkAssignTemplateModal from '../../components/plans/BulkAssignTemplateModal'
+import BroadcastModal from '../../components/chat/BroadcastModal'
 
 // ============================================
 // KOMPONENT KARTY KLIENTA
@@ -31,24 +35,41 @@ import type { AppStackParamList } from '../../navigation/AppNavigator'
 interface ClientCardProps {
 	client: ClientWithStats
 	onPress: () => void
+	onLongPress: () => void
 	onCreatePlan: () => void
+	/** Tryb zaznaczania (null = wyłączony) */
+	isSelected: boolean | null
 }
 
-function ClientCard({ client, onPress, onCreatePlan }: ClientCardProps) {
+function ClientCard({ client, onPress, onLongPress, onCreatePlan, isSelected }: ClientCardProps) {
 	// Formatuj datę ostatniego treningu
 	const lastWorkoutText = client.last_workout_date
 		? `Ostatni trening: ${new Date(client.last_workout_date).toLocaleDateString('pl-PL')}`
 		: 'Brak ukończonych treningów'
 
 	return (
-		<TouchableOpacity style={styles.clientCard} onPress={onPress} activeOpacity={0.7}>
-			{/* Avatar */}
-			<View style={styles.avatar}>
-				<Text style={styles.avatarText}>
-					{client.first_name?.[0]?.toUpperCase()}
-					{client.last_name?.[0]?.toUpperCase()}
-				</Text>
-			</View>
+		<TouchableOpacity
+			style={[styles.clientCard, isSelected && styles.clientCardSelected]}
+			onPress={onPress}
+			onLongPress={onLongPress}
+			activeOpacity={0.7}>
+			{/* Avatar / zaznaczenie */}
+			{isSelected !== null ? (
+				<View style={[styles.avatar, isSelected && styles.avatarSelected]}>
+					<Ionicons
+						name={isSelected ? 'checkmark' : 'ellipse-outline'}
+						size={22}
+						color={isSelected ? colors.textOnPrimary : colors.textSecondary}
+					/>
+				</View>
+			) : (
+				<View style={styles.avatar}>
+					<Text style={styles.avatarText}>
+						{client.first_name?.[0]?.toUpperCase()}
+						{client.last_name?.[0]?.toUpperCase()}
+					</Text>
+				</View>
+			)}
 
 			{/* Info */}
 			<View style={styles.clientInfo}>
@@ -69,7 +90,7 @@ function ClientCard({ client, onPress, onCreatePlan }: ClientCardProps) {
 					<Ionicons name="calendar" size={14} color={colors.primary} />
 					<Text style={styles.statText}>{client.training_plans_count}</Text>
 				</View>
-				{!client.active_plan && (
+				{!client.active_plan && isSelected === null && (
 					<TouchableOpacity
 						style={styles.addPlanButton}
 						onPress={(e) => {
@@ -93,6 +114,10 @@ export default function ClientsListScreen() {
 	const { profile } = useAuth()
 
 	const [searchQuery, setSearchQuery] = useState('')
+	const [isSelecting, setIsSelecting] = useState(false)
+	const [selectedIds, setSelectedIds] = useState<string[]>([])
+	const [showAssignModal, setShowAssignModal] = useState(false)
+	const [showBroadcastModal, setShowBroadcastModal] = useState(false)
 
 	const {
 		data: clients,
@@ -126,6 +151,12 @@ export default function ClientsListScreen() {
 		}
 	}, [clients])
 
+	// Zaznaczeni klienci (dla przypisania szablonu i ogłoszenia)
+	const selectedClients = useMemo(
+		() => (clients || []).filter((client) => selectedIds.includes(client.id)),
+		[clients, selectedIds]
+	)
+
 	// ============================================
 	// HANDLERS
 	// ============================================
@@ -144,6 +175,34 @@ export default function ClientsListScreen() {
 		[navigation]
 	)
 
+	const handleToggleSelect = useCallback((clientId: string) => {
+		setIsSelecting(true)
+		setSelectedIds((prev) =>
+			prev.includes(clientId) ? prev.filter((id) => id !== clientId) : [...prev, clientId]
+		)
+	}, [])
+
+	const handleCancelSelection = useCallback(() => {
+		setIsSelecting(false)
+		setSelectedIds([])
+	}, [])
+
+	const handleToggleSelectAll = useCallback(() => {
+		const visibleIds = filteredClients.map((client) => client.id)
+		const allSelected = visibleIds.every((id) => selectedIds.includes(id))
+		setSelectedIds(allSelected ? [] : visibleIds)
+	}, [filteredClients, selectedIds])
+
+	const handleAssigned = useCallback(() => {
+		setShowAssignModal(false)
+		handleCancelSelection()
+	}, [handleCancelSelection])
+
+	const handleBroadcastSent = useCallback(() => {
+		setShowBroadcastModal(false)
+		handleCancelSelection()
+	}, [handleCancelSelection])
+
 	// ============================================
 	// RENDER - LOADING
 	// ============================================
@@ -167,8 +226,24 @@ export default function ClientsListScreen() {
 		<SafeAreaView style={styles.container} edges={['top']}>
 			{/* Header */}
 			<View style={styles.header}>
-				<Text style={styles.headerTitle}>Klienci</Text>
-				<Text style={styles.headerSubtitle}>{stats.total} klientów</Text>
+				<View>
+					<Text style={styles.headerTitle}>Klienci</Text>
+					<Text style={styles.headerSubtitle}>
+						{isSelecting ? `Zaznaczono ${selectedIds.length}` : `${stats.total} klientów`}
+					</Text>
+				</View>
+				<View style={styles.headerActions}>
+					{isSelecting && (
+						<TouchableOpacity style={styles.selectButton} onPress={handleToggleSelectAll}>
+							<Text style={styles.selectButtonText}>Wszyscy</Text>
+						</TouchableOpacity>
+					)}
+					<TouchableOpacity
+						style={styles.selectButton}
+						onPress={isSelecting ? handleCancelSelection : () => setIsSelecting(true)}>
+						<Text style={styles.selectButtonText}>{isSelecting ? 'Anuluj' : 'Zaznacz'}</Text>
+					</TouchableOpacity>
+				</View>
 			</View>
 
 			{/* Wyszukiwarka */}
@@ -207,8 +282,10 @@ export default function ClientsListScreen() {
 				renderItem={({ item }) => (
 					<ClientCard
 						client={item}
-						onPress={() => handleClientPress(item.id)}
+						onPress={() => (isSelecting ? handleToggleSelect(item.id) : handleClientPress(item.id))}
+						onLongPress={() => handleToggleSelect(item.id)}
 						onCreatePlan={() => handleCreatePlan(item.id)}
+						isSelected={isSelecting ? selectedIds.includes(item.id) : null}
 					/>
 				)}
 				contentContainerStyle={styles.listContent}
@@ -236,13 +313,49 @@ export default function ClientsListScreen() {
 				}
 			/>
 
-			{/* FAB - Dodaj klienta */}
-			<TouchableOpacity
-				style={styles.fab}
-				onPress={() => navigation.navigate('AddClient' as any)}
-				activeOpacity={0.8}>
-				<Ionicons name="person-add" size={24} color={colors.textOnPrimary} />
-			</TouchableOpacity>
+			{isSelecting ? (
+				/* Akcje dla zaznaczonych: szablon lub ogłoszenie */
+				<View style={[styles.selectionBar, selectedIds.length === 0 && styles.assignBarDisabled]}>
+					<TouchableOpacity
+						style={styles.assignBar}
+						onPress={() => setShowAssignModal(true)}
+						disabled={selectedIds.length === 0}
+						activeOpacity={0.8}>
+						<Ionicons name="albums" size={20} color={colors.textOnPrimary} />
+						<Text style={styles.assignBarText}>Szablon ({selectedIds.length})</Text>
+					</TouchableOpacity>
+					<TouchableOpacity
+						style={styles.assignBar}
+						onPress={() => setShowBroadcastModal(true)}
+						disabled={selectedIds.length === 0}
+						activeOpacity={0.8}>
+						<Ionicons name="megaphone" size={20} color={colors.textOnPrimary} />
+						<Text style={styles.assignBarText}>Ogłoszenie ({selectedIds.length})</Text>
+					</TouchableOpacity>
+				</View>
+			) : (
+				/* FAB - Dodaj klienta */
+				<TouchableOpacity
+					style={styles.fab}
+					onPress={() => navigation.navigate('AddClient' as any)}
+					activeOpacity={0.8}>
+					<Ionicons name="person-add" size={24} color={colors.textOnPrimary} />
+				</TouchableOpacity>
+			)}
+
+			<BulkAssignTemplateModal
+				visible={showAssignModal}
+				clients={selectedClients}
+				onClose={() => setShowAssignModal(false)}
+				onAssigned={handleAssigned}
+			/>
+
+			<BroadcastModal
+				visible={showBroadcastModal}
+				clients={selectedClients}
+				onClose={() => setShowBroadcastModal(false)}
+				onSent={handleBroadcastSent}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -266,10 +379,28 @@ const styles = StyleSheet.create({
 		marginTop: 12,
 	},
 	header: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
 		paddingHorizontal: 20,
 		paddingTop: 8,
 		paddingBottom: 16,
 	},
+	headerActions: {
+		flexDirection: 'row',
+		gap: 8,
+	},
+	selectButton: {
+		paddingHorizontal: 14,
+		paddingVertical: 8,
+		borderRadius: 8,
+		backgroundColor: colors.surface,
+	},
+	selectButtonText: {
+		color: colors.primary,
+		fontWeight: '600',
+		fontSize: 14,
+	},
 	headerTitle: {
 		fontSize: 28,
 		fontWeight: 'bold',
@@ -329,6 +460,11 @@ const styles = StyleSheet.create({
 		borderRadius: 12,
 		padding: 14,
 		marginBottom: 10,
+		borderWidth: 1,
+		borderColor: 'transparent',
+	},
+	clientCardSelected: {
+		borderColor: colors.primary,
 	},
 	avatar: {
 		width: 52,
@@ -338,6 +474,9 @@ const styles = StyleSheet.create({
 		justifyContent: 'center',
 		alignItems: 'center',
 	},
+	avatarSelected: {
+		backgroundColor: colors.primary,
+	},
 	avatarText: {
 		fontSize: 18,
 		fontWeight: '600',
@@ -417,5 +556,35 @@ const styles = StyleSheet.create({
 		shadowOpacity: 0.25,
 		shadowRadius: 4,
 	},
+	selectionBar: {
+		position: 'absolute',
+		left: 16,
+		right: 16,
+		bottom: 100,
+		flexDirection: 'row',
+		gap: 10,
+	},
+	assignBar: {
+		flex: 1,
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: colors.primary,
+		borderRadius: 12,
+		paddingVertical: 14,
+		gap: 8,
+		elevation: 4,
+		shadowColor: '#000',
+		shadowOffset: { width: 0, height: 2 },
+		shadowOpacity: 0.25,
+		shadowRadius: 4,
+	},
+	assignBarDisabled: {
+		opacity: 0.5,
+	},
+	assignBarText: {
+		color: colors.textOnPrimary,
+		fontSize: 16,
+		fontWeight: '600',
+	},
 })
-
@@ -27,9 +27,7 @@ import { useNavigation, useRoute, type RouteProp } from '@react-navigation/nativ
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
 import { useAuth } from '../../context/AuthContext'
 import {
-	useCreatePlan,
-	useAddWorkoutDay,
-	useAddExerciseToWorkout,
+	useSavePlan,
 	useDeleteWorkoutDay,
 	useRemoveExerciseFromWorkout,
 	usePlanDetails,
@@ -40,8 +38,18 @@ import {
 } from '../../api/services/trainingPlans'
 import { useExercises, type Exercise } from '../../api/services/exercises'
 import { useClientDetails } from '../../api/services/clients'
+import ExerciseGroupHeader from '../../components/plans/ExerciseGroupHeader'
+import {
+	getExerciseBlocks,
+	getGroupLabel,
+	linkWithNextExercise,
+	normalizeExerciseGroups,
+	ungroupExercises,
+	updateExerciseGroup,
+} from '../../utils/exerciseGroups'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
+import type { ExerciseGroupType } from '../../types'
 
 type CreatePlanRouteProp = RouteProp<AppStackParamList, 'CreatePlan'>
 
@@ -65,6 +73,9 @@ interface LocalWorkoutExercise {
 	weight_kg?: number
 	rest_seconds: number
 	notes?: string
+	group_id?: string | null
+	group_type?: ExerciseGroupType | null
+	group_rounds?: number | null
 }
 
 // ============================================
@@ -151,16 +162,18 @@ function ExercisePickerModal({ visible, onClose, onSelect, exercises, isLoading
 interface ExerciseEditorProps {
 	exercise: LocalWorkoutExercise
 	index: number
+	/** Etykieta w grupie (np. "A2") - serie i odpoczynek ustawia wtedy nagłówek grupy */
+	groupLabel: string | null
 	onUpdate: (index: number, data: Partial<LocalWorkoutExercise>) => void
 	onRemove: (index: number) => void
 }
 
-function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorProps) {
+function ExerciseEditor({ exercise, index, groupLabel, onUpdate, onRemove }: ExerciseEditorProps) {
 	return (
 		<View style={styles.exerciseCard}>
 			<View style={styles.exerciseHeader}>
 				<View style={styles.exerciseOrderBadge}>
-					<Text style={styles.exerciseOrderText}>{index + 1}</Text>
+					<Text style={styles.exerciseOrderText}>{groupLabel || index + 1}</Text>
 				</View>
 				<Text style={styles.exerciseCardName} numberOfLines={1}>
 					{exercise.exercise.name}
@@ -172,16 +185,18 @@ function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorP
 
 			<View style={styles.exerciseParams}>
 				{/* Serie */}
-				<View style={styles.paramItem}>
-					<Text style={styles.paramLabel}>Serie</Text>
-					<TextInput
-						style={styles.paramInput}
-						value={String(exercise.sets)}
-						onChangeText={text => onUpdate(index, { sets: parseInt(text) || 1 })}
-						keyboardType="numeric"
-						maxLength={2}
-					/>
-				</View>
+				{!groupLabel && (
+					<View style={styles.paramItem}>
+						<Text style={styles.paramLabel}>Serie</Text>
+						<TextInput
+							style={styles.paramInput}
+							value={String(exercise.sets)}
+							onChangeText={text => onUpdate(index, { sets: parseInt(text) || 1 })}
+							keyboardType="numeric"
+							maxLength={2}
+						/>
+					</View>
+				)}
 
 				{/* Powtórzenia */}
 				<View style={styles.paramItem}>
@@ -209,16 +224,18 @@ function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorP
 				</View>
 
 				{/* Odpoczynek */}
-				<View style={styles.paramItem}>
-					<Text style={styles.paramLabel}>Odp. (s)</Text>
-					<TextInput
-						style={styles.paramInput}
-						value={String(exercise.rest_seconds)}
-						onChangeText={text => onUpdate(index, { rest_seconds: parseInt(text) || 60 })}
-						keyboardType="numeric"
-						maxLength={3}
-					/>
-				</View>
+				{!groupLabel && (
+					<View style={styles.paramItem}>
+						<Text style={styles.paramLabel}>Odp. (s)</Text>
+						<TextInput
+							style={styles.paramInput}
+							value={String(exercise.rest_seconds)}
+							onChangeText={text => onUpdate(index, { rest_seconds: parseInt(text) || 60 })}
+							keyboardType="numeric"
+							maxLength={3}
+						/>
+					</View>
+				)}
 			</View>
 
 			{/* Notatki */}
@@ -246,6 +263,8 @@ interface WorkoutDayCardProps {
 	onAddExercise: (dayIndex: number) => void
 	onUpdateExercise: (dayIndex: number, exIndex: number, data: Partial<LocalWorkoutExercise>) => void
 	onRemoveExercise: (dayIndex: number, exIndex: number) => void
+	/** Zmiana grup (superserie/obwody) - cała nowa lista ćwiczeń dnia */
+	onSetExercises: (dayIndex: number, exercises: LocalWorkoutExercise[]) => void
 }
 
 function WorkoutDayCard({
@@ -256,8 +275,21 @@ function WorkoutDayCard({
 	onAddExercise,
 	onUpdateExercise,
 	onRemoveExercise,
+	onSetExercises,
 }: WorkoutDayCardProps) {
 	const [isExpanded, setIsExpanded] = useState(true)
+	const blocks = getExerciseBlocks(day.exercises)
+
+	const renderExercise = (exercise: LocalWorkoutExercise, exIndex: number) => (
+		<ExerciseEditor
+			key={exIndex}
+			exercise={exercise}
+			index={exIndex}
+			groupLabel={getGroupLabel(day.exercises, exIndex)}
+			onUpdate={(idx, data) => onUpdateExercise(dayIndex, idx, data)}
+			onRemove={idx => onRemoveExercise(dayIndex, idx)}
+		/>
+	)
 
 	return (
 		<View style={styles.dayCard}>
@@ -298,15 +330,41 @@ function WorkoutDayCard({
 					{/* Lista ćwiczeń */}
 					{!day.is_rest_day && (
 						<>
-							{day.exercises.map((exercise, exIndex) => (
-								<ExerciseEditor
-									key={exIndex}
-									exercise={exercise}
-									index={exIndex}
-									onUpdate={(idx, data) => onUpdateExercise(dayIndex, idx, data)}
-									onRemove={idx => onRemoveExercise(dayIndex, idx)}
-								/>
-							))}
+							{blocks.map((block, blockIndex) => {
+								const lastIndex = block.items[block.items.length - 1].index
+
+								return (
+									<React.Fragment key={block.items[0].index}>
+										{block.group_id && block.group_type ? (
+											<View style={styles.groupContainer}>
+												<ExerciseGroupHeader
+													groupId={block.group_id}
+													groupType={block.group_type}
+													rounds={block.rounds}
+													restSeconds={block.items[0].exercise.rest_seconds}
+													onChange={settings =>
+														onSetExercises(dayIndex, updateExerciseGroup(day.exercises, block.group_id!, settings))
+													}
+													onUngroup={() => onSetExercises(dayIndex, ungroupExercises(day.exercises, block.group_id!))}
+												/>
+												{block.items.map(({ exercise, index }) => renderExercise(exercise, index))}
+											</View>
+										) : (
+											block.items.map(({ exercise, index }) => renderExercise(exercise, index))
+										)}
+
+										{/* Połącz z następnym ćwiczeniem w superserię */}
+										{blockIndex < blocks.length - 1 && (
+											<TouchableOpacity
+												style={styles.linkButton}
+												onPress={() => onSetExercises(dayIndex, linkWithNextExercise(day.exercises, lastIndex))}>
+												<Ionicons name="link-outline" size={16} color={colors.textSecondary} />
+												<Text style={styles.linkButtonText}>Połącz z następnym</Text>
+											</TouchableOpacity>
+										)}
+									</React.Fragment>
+								)
+							})}
 
 							{/* Przycisk dodaj ćwiczenie */}
 							<TouchableOpacity style={styles.addExerciseButton} onPress={() => onAddExercise(dayIndex)}>
@@ -352,9 +410,7 @@ export default function CreatePlanScreen() {
 	// Dane
 	const { data: client } = useClientDetails(clientId)
 	const { data: exercises = [], isLoading: loadingExercises } = useExercises()
-	const createPlan = useCreatePlan()
-	const addWorkoutDay = useAddWorkoutDay()
-	const addExerciseToWorkout = useAddExerciseToWorkout()
+	const savePlan = useSavePlan()
 
 	// ============================================
 	// HANDLERS - TYGODNIE
@@ -469,7 +525,17 @@ export default function CreatePlanScreen() {
 	const handleRemoveExercise = useCallback((dayIndex: number, exIndex: number) => {
 		setWorkoutDays(prev => {
 			const updated = [...prev]
-			updated[dayIndex].exercises = updated[dayIndex].exercises.filter((_, i) => i !== exIndex)
+			updated[dayIndex].exercises = normalizeExerciseGroups(
+				updated[dayIndex].exercises.filter((_, i) => i !== exIndex)
+			)
+			return updated
+		})
+	}, [])
+
+	const handleSetExercises = useCallback((dayIndex: number, exercises: LocalWorkoutExercise[]) => {
+		setWorkoutDays(prev => {
+			const updated = [...prev]
+			updated[dayIndex] = { ...updated[dayIndex], exercises }
 			return updated
 		})
 	}, [])
@@ -499,32 +565,18 @@ export default function CreatePlanScreen() {
 		setIsSubmitting(true)
 
 		try {
-			// 1. Utwórz plan
-			const plan = await createPlan.mutateAsync({
-				trainerId: profile.id,
-				input: {
-					client_id: clientId,
-					week_start: selectedWeekStart,
-					week_end: selectedWeekEnd,
-					trainer_notes: trainerNotes || undefined,
-				},
-			})
-
-			// 2. Dodaj dni treningowe
-			for (const day of workoutDays) {
-				const createdDay = await addWorkoutDay.mutateAsync({
-					plan_id: plan.id,
+			// Plan z dniami i ćwiczeniami zapisywany atomowo - błąd nie zostawi połowy planu
+			await savePlan.mutateAsync({
+				client_id: clientId,
+				week_start: selectedWeekStart,
+				week_end: selectedWeekEnd,
+				trainer_notes: trainerNotes || undefined,
+				days: workoutDays.map(day => ({
 					day_of_week: day.day_of_week,
 					name: day.name || undefined,
 					is_rest_day: day.is_rest_day,
 					order_index: day.day_of_week,
-				})
-
-				// 3. Dodaj ćwiczenia do dnia
-				for (let i = 0; i < day.exercises.length; i++) {
-					const ex = day.exercises[i]
-					await addExerciseToWorkout.mutateAsync({
-						workout_day_id: createdDay.id,
+					exercises: day.exercises.map((ex, i) => ({
 						exercise_id: ex.exercise.id,
 						order_index: i,
 						sets: ex.sets,
@@ -532,9 +584,12 @@ export default function CreatePlanScreen() {
 						weight_kg: ex.weight_kg,
 						rest_seconds: ex.rest_seconds,
 						notes: ex.notes,
-					})
-				}
-			}
+						group_id: ex.group_id || undefined,
+						group_type: ex.group_type || undefined,
+						group_rounds: ex.group_rounds || undefined,
+					})),
+				})),
+			})
 
 			Alert.alert('Sukces', 'Plan treningowy został utworzony!', [{ text: 'OK', onPress: () => navigation.goBack() }])
 		} catch (error: any) {
@@ -550,9 +605,7 @@ export default function CreatePlanScreen() {
 		selectedWeekStart,
 		selectedWeekEnd,
 		trainerNotes,
-		createPlan,
-		addWorkoutDay,
-		addExerciseToWorkout,
+		savePlan,
 		navigation,
 	])
 
@@ -655,6 +708,7 @@ export default function CreatePlanScreen() {
 								onAddExercise={handleOpenExercisePicker}
 								onUpdateExercise={handleUpdateExercise}
 								onRemoveExercise={handleRemoveExercise}
+								onSetExercises={handleSetExercises}
 							/>
 						))
 					)}
@@ -933,6 +987,24 @@ const styles = StyleSheet.create({
 		color: colors.textPrimary,
 		marginTop: 10,
 	},
+	groupContainer: {
+		borderLeftWidth: 3,
+		borderLeftColor: colors.primary,
+		paddingLeft: 8,
+		marginBottom: 4,
+	},
+	linkButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		gap: 4,
+		paddingVertical: 4,
+		marginBottom: 6,
+	},
+	linkButtonText: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
 	addExerciseButton: {
 		flexDirection: 'row',
 		alignItems: 'center',
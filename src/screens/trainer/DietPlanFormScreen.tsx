@@ -0,0 +1,676 @@
+/**
+ * DietPlanFormScreen - Tworzenie i edycja planu dietetycznego
+ *
+ * Trener ustala tytuł, opis, okres obowiązywania i dołącza plik (PDF lub zdjęcie).
+ * W trybie edycji pozwala też dezaktywować dietę.
+ */
+
+import React, { useEffect, useState } from 'react'
+import {
+	View,
+	Text,
+	TextInput,
+	TouchableOpacity,
+	ScrollView,
+	StyleSheet,
+	Alert,
+	ActivityIndicator,
+	KeyboardAvoidingView,
+	Platform,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { useForm, Controller } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
+import * as DocumentPicker from 'expo-document-picker'
+import * as ImagePicker from 'expo-image-picker'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useDietPlanDetails,
+	useCreateDietPlan,
+	useUpdateDietPlan,
+	useDeactivateDietPlan,
+	useUploadDietFile,
+	useRemoveDietFile,
+	getDietFileType,
+	type DietFileInput,
+} from '../../api/services/dietPlans'
+import { dietPlanSchema, type DietPlanFormData } from '../../utils/validation'
+import { formatFileSize } from '../../utils/videoCompression'
+import { colors } from '../../theme/colors'
+import DietFileViewer from '../../components/diet/DietFileViewer'
+import type { AppStackParamList } from '../../navigation/AppNavigator'
+
+// ============================================
+// TYPY
+// ============================================
+
+type DietPlanFormRouteProp = RouteProp<AppStackParamList, 'DietPlanForm'>
+
+interface SelectedFile extends DietFileInput {
+	/** Rozmiar w bajtach (jeśli znany) */
+	size?: number
+}
+
+// ============================================
+// KOMPONENT
+// ============================================
+
+export default function DietPlanFormScreen() {
+	const navigation = useNavigation()
+	const route = useRoute<DietPlanFormRouteProp>()
+	const { clientId, dietPlanId } = route.params
+	const isEditMode = !!dietPlanId
+
+	const { profile } = useAuth()
+	const { data: dietPlan, isLoading } = useDietPlanDetails(dietPlanId || '')
+	const createMutation = useCreateDietPlan()
+	const updateMutation = useUpdateDietPlan()
+	const deactivateMutation = useDeactivateDietPlan()
+	const uploadMutation = useUploadDietFile()
+	const removeFileMutation = useRemoveDietFile()
+
+	const [isSubmitting, setIsSubmitting] = useState(false)
+	const [selectedFile, setSelectedFile] = useState<SelectedFile | null>(null)
+	const [showViewer, setShowViewer] = useState(false)
+
+	// React Hook Form
+	const {
+		control,
+		handleSubmit,
+		formState: { errors, isValid },
+		reset,
+	} = useForm<DietPlanFormData>({
+		resolver: zodResolver(dietPlanSchema),
+		mode: 'onChange',
+		defaultValues: {
+			title: '',
+			description: '',
+			start_date: new Date().toISOString().split('T')[0],
+			end_date: '',
+		},
+	})
+
+	// Wypełnij formularz danymi istniejącej diety
+	useEffect(() => {
+		if (dietPlan) {
+			reset({
+				title: dietPlan.title,
+				description: dietPlan.description || '',
+				start_date: dietPlan.start_date || '',
+				end_date: dietPlan.end_date || '',
+			})
+		}
+	}, [dietPlan, reset])
+
+	// ============================================
+	// HANDLERS - PLIK
+	// ============================================
+
+	/**
+	 * Wybierz PDF lub obraz z plików urządzenia
+	 */
+	const pickDocument = async () => {
+		try {
+			const result = await DocumentPicker.getDocumentAsync({
+				type: ['application/pdf', 'image/jpeg', 'image/png'],
+				copyToCacheDirectory: true,
+			})
+
+			if (!result.canceled && result.assets[0]) {
+				const asset = result.assets[0]
+				setSelectedFile({
+					uri: asset.uri,
+					name: asset.name,
+					mimeType: asset.mimeType,
+					size: asset.size,
+				})
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się wybrać pliku')
+		}
+	}
+
+	/**
+	 * Zrób zdjęcie planu (np. wydruku)
+	 */
+	const takePhoto = async () => {
+		try {
+			const { status } = await ImagePicker.requestCameraPermissionsAsync()
+			if (status !== 'granted') {
+				Alert.alert('Brak uprawnień', 'Potrzebujemy dostępu do kamery')
+				return
+			}
+
+			const result = await ImagePicker.launchCameraAsync({
+				mediaTypes: ['images'],
+				quality: 0.8,
+			})
+
+			if (!result.canceled && result.assets[0]) {
+				const asset = result.assets[0]
+				setSelectedFile({
+					uri: asset.uri,
+					name: asset.fileName || undefined,
+					mimeType: asset.mimeType || 'image/jpeg',
+					size: asset.fileSize,
+				})
+			}
+		} catch {
+			Alert.alert('Błąd', 'Nie udało się zrobić zdjęcia')
+		}
+	}
+
+	/**
+	 * Usuń obecny załącznik diety
+	 */
+	const handleRemoveExistingFile = () => {
+		if (!dietPlan) return
+
+		Alert.alert('Usuń plik', 'Czy na pewno chcesz usunąć załącznik diety?', [
+			{ text: 'Anuluj', style: 'cancel' },
+			{
+				text: 'Usuń',
+				style: 'destructive',
+				onPress: async () => {
+					try {
+						await removeFileMutation.mutateAsync(dietPlan)
+					} catch (error: any) {
+						Alert.alert('Błąd', error?.message || 'Nie udało się usunąć pliku')
+					}
+				},
+			},
+		])
+	}
+
+	// ============================================
+	// HANDLERS - ZAPIS
+	// ============================================
+
+	/**
+	 * Zapisz dietę
+	 */
+	const onSubmit = async (data: DietPlanFormData) => {
+		if (!profile?.id) {
+			Alert.alert('Błąd', 'Nie można zidentyfikować trenera')
+			return
+		}
+
+		setIsSubmitting(true)
+
+		try {
+			if (isEditMode && dietPlan) {
+				const updatedPlan = await updateMutation.mutateAsync({
+					dietPlanId: dietPlan.id,
+					input: {
+						title: data.title,
+						description: data.description || null,
+						start_date: data.start_date || null,
+						end_date: data.end_date || null,
+					},
+				})
+
+				if (selectedFile) {
+					await uploadMutation.mutateAsync({ dietPlan: updatedPlan, file: selectedFile })
+				}
+			} else {
+				await createMutation.mutateAsync({
+					trainerId: profile.id,
+					input: {
+						client_id: clientId,
+						title: data.title,
+						description: data.description || undefined,
+						start_date: data.start_date || undefined,
+						end_date: data.end_date || undefined,
+					},
+					file: selectedFile,
+				})
+			}
+
+			Alert.alert('Sukces', isEditMode ? 'Dieta została zaktualizowana' : 'Dieta została dodana!', [
+				{ text: 'OK', onPress: () => navigation.goBack() },
+			])
+		} catch (error: any) {
+			Alert.alert('Błąd', error?.message || 'Nie udało się zapisać diety')
+		} finally {
+			setIsSubmitting(false)
+		}
+	}
+
+	/**
+	 * Dezaktywuj dietę
+	 */
+	const handleDeactivate = () => {
+		if (!dietPlan) return
+
+		Alert.alert('Dezaktywuj dietę', 'Klient przestanie widzieć tę dietę. Kontynuować?', [
+			{ text: 'Anuluj', style: 'cancel' },
+			{
+				text: 'Dezaktywuj',
+				style: 'destructive',
+				onPress: async () => {
+					try {
+						await deactivateMutation.mutateAsync(dietPlan.id)
+						navigation.goBack()
+					} catch (error: any) {
+						Alert.alert('Błąd', error?.message || 'Nie udało się dezaktywować diety')
+					}
+				},
+			},
+		])
+	}
+
+	// ============================================
+	// RENDER - LOADING
+	// ============================================
+
+	if (isEditMode && isLoading) {
+		return (
+			<SafeAreaView style={styles.container} edges={['top']}>
+				<View style={styles.loadingContainer}>
+					<ActivityIndicator size="large" color={colors.primary} />
+				</View>
+			</SafeAreaView>
+		)
+	}
+
+	const existingFilePath = dietPlan?.file_url || null
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	return (
+		<SafeAreaView style={styles.container} edges={['top']}>
+			<KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={{ flex: 1 }}>
+				{/* Header */}
+				<View style={styles.header}>
+					<TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+						<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+					</TouchableOpacity>
+					<Text style={styles.headerTitle}>{isEditMode ? 'Edytuj dietę' : 'Nowa dieta'}</Text>
+					<View style={{ width: 40 }} />
+				</View>
+
+				<ScrollView
+					style={styles.scrollView}
+					contentContainerStyle={styles.scrollContent}
+					keyboardShouldPersistTaps="handled"
+					showsVerticalScrollIndicator={false}>
+					{/* Status */}
+					{isEditMode && dietPlan && !dietPlan.is_active && (
+						<View style={styles.inactiveBanner}>
+							<Ionicons name="pause-circle" size={18} color={colors.warning} />
+							<Text style={styles.inactiveBannerText}>Ta dieta jest nieaktywna</Text>
+						</View>
+					)}
+
+					{/* Tytuł */}
+					<View style={styles.formGroup}>
+						<Text style={styles.label}>
+							Tytuł <Text style={styles.required}>*</Text>
+						</Text>
+						<Controller
+							control={control}
+							name="title"
+							render={({ field: { onChange, onBlur, value } }) => (
+								<TextInput
+									style={[styles.input, errors.title && styles.inputError]}
+									placeholder="np. Dieta redukcyjna 2200 kcal"
+									placeholderTextColor={colors.textDisabled}
+									value={value}
+									onChangeText={onChange}
+									onBlur={onBlur}
+									maxLength={100}
+								/>
+							)}
+						/>
+						{errors.title && <Text style={styles.errorText}>{errors.title.message}</Text>}
+					</View>
+
+					{/* Opis */}
+					<View style={styles.formGroup}>
+						<Text style={styles.label}>Opis</Text>
+						<Controller
+							control={control}
+							name="description"
+							render={({ field: { onChange, onBlur, value } }) => (
+								<TextInput
+									style={[styles.input, styles.textArea]}
+									placeholder="Zalecenia, makroskładniki, uwagi..."
+									placeholderTextColor={colors.textDisabled}
+									value={value}
+									onChangeText={onChange}
+									onBlur={onBlur}
+									multiline
+									numberOfLines={4}
+									textAlignVertical="top"
+								/>
+							)}
+						/>
+					</View>
+
+					{/* Okres obowiązywania */}
+					<View style={styles.formGroup}>
+						<Text style={styles.label}>Okres obowiązywania</Text>
+						<View style={styles.dateRow}>
+							<Controller
+								control={control}
+								name="start_date"
+								render={({ field: { onChange, onBlur, value } }) => (
+									<TextInput
+										style={[styles.input, styles.dateInput, errors.start_date && styles.inputError]}
+										placeholder="Od (RRRR-MM-DD)"
+										placeholderTextColor={colors.textDisabled}
+										value={value}
+										onChangeText={onChange}
+										onBlur={onBlur}
+										maxLength={10}
+									/>
+								)}
+							/>
+							<Controller
+								control={control}
+								name="end_date"
+								render={({ field: { onChange, onBlur, value } }) => (
+									<TextInput
+										style={[styles.input, styles.dateInput, errors.end_date && styles.inputError]}
+										placeholder="Do (RRRR-MM-DD)"
+										placeholderTextColor={colors.textDisabled}
+										value={value}
+										onChangeText={onChange}
+										onBlur={onBlur}
+										maxLength={10}
+									/>
+								)}
+							/>
+						</View>
+						{errors.start_date && <Text style={styles.errorText}>{errors.start_date.message}</Text>}
+						{errors.end_date && <Text style={styles.errorText}>{errors.end_date.message}</Text>}
+					</View>
+
+					{/* Załącznik */}
+					<View style={styles.formGroup}>
+						<Text style={styles.label}>Plik z dietą (PDF lub zdjęcie)</Text>
+
+						{selectedFile ? (
+							// Nowo wybrany plik
+							<View style={styles.fileCard}>
+								<Ionicons
+									name={getDietFileType(selectedFile.mimeType || selectedFile.uri) === 'pdf' ? 'document-text' : 'image'}
+									size={28}
+									color={colors.primary}
+								/>
+								<View style={styles.fileInfo}>
+									<Text style={styles.fileName} numberOfLines={1}>
+										{selectedFile.name || 'Wybrany plik'}
+									</Text>
+									<Text style={styles.fileMeta}>
+										{selectedFile.size ? formatFileSize(selectedFile.size) : 'Nowy plik'}
+									</Text>
+								</View>
+								<TouchableOpacity onPress={() => setSelectedFile(null)} style={styles.fileAction}>
+									<Ionicons name="close" size={20} color={colors.textSecondary} />
+								</TouchableOpacity>
+							</View>
+						) : existingFilePath ? (
+							// Obecny załącznik
+							<View style={styles.fileCard}>
+								<Ionicons
+									name={getDietFileType(existingFilePath) === 'pdf' ? 'document-text' : 'image'}
+									size={28}
+									color={colors.primary}
+								/>
+								<View style={styles.fileInfo}>
+									<Text style={styles.fileName}>Obecny plik</Text>
+									<Text style={styles.fileMeta}>
+										{getDietFileType(existingFilePath) === 'pdf' ? 'PDF' : 'Zdjęcie'}
+									</Text>
+								</View>
+								<TouchableOpacity onPress={() => setShowViewer(true)} style={styles.fileAction}>
+									<Ionicons name="eye" size={20} color={colors.primary} />
+								</TouchableOpacity>
+								<TouchableOpacity onPress={handleRemoveExistingFile} style={styles.fileAction}>
+									<Ionicons name="trash-outline" size={20} color={colors.error} />
+								</TouchableOpacity>
+							</View>
+						) : null}
+
+						{/* Przyciski wyboru pliku */}
+						<View style={[styles.fileButtonsContainer, (selectedFile || existingFilePath) && { marginTop: 12 }]}>
+							<TouchableOpacity style={styles.fileButton} onPress={pickDocument}>
+								<Ionicons name="document-attach" size={24} color={colors.primary} />
+								<Text style={styles.fileButtonText}>
+									{selectedFile || existingFilePath ? 'Zmień plik' : 'Wybierz plik'}
+								</Text>
+							</TouchableOpacity>
+							<TouchableOpacity style={styles.fileButton} onPress={takePhoto}>
+								<Ionicons name="camera" size={24} color={colors.primary} />
+								<Text style={styles.fileButtonText}>Zrób zdjęcie</Text>
+							</TouchableOpacity>
+						</View>
+					</View>
+
+					{/* Dezaktywacja */}
+					{isEditMode && dietPlan?.is_active && (
+						<TouchableOpacity
+							style={styles.deactivateButton}
+							onPress={handleDeactivate}
+							disabled={deactivateMutation.isPending}>
+							<Ionicons name="pause-circle-outline" size={20} color={colors.error} />
+							<Text style={styles.deactivateButtonText}>Dezaktywuj dietę</Text>
+						</TouchableOpacity>
+					)}
+
+					{/* Spacer */}
+					<View style={{ height: 100 }} />
+				</ScrollView>
+
+				{/* Przycisk zapisz */}
+				<View style={styles.footer}>
+					<TouchableOpacity
+						style={[styles.saveButton, (!isValid || isSubmitting) && styles.saveButtonDisabled]}
+						onPress={handleSubmit(onSubmit)}
+						disabled={!isValid || isSubmitting}
+						activeOpacity={0.8}>
+						{isSubmitting ? (
+							<ActivityIndicator color={colors.textOnPrimary} />
+						) : (
+							<>
+								<Ionicons name="checkmark" size={20} color={colors.textOnPrimary} />
+								<Text style={styles.saveButtonText}>Zapisz dietę</Text>
+							</>
+						)}
+					</TouchableOpacity>
+				</View>
+			</KeyboardAvoidingView>
+
+			{/* Podgląd pliku */}
+			<DietFileViewer
+				visible={showViewer}
+				filePath={existingFilePath}
+				title={dietPlan?.title || 'Dieta'}
+				onClose={() => setShowViewer(false)}
+			/>
+		</SafeAreaView>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.border,
+	},
+	backButton: {
+		padding: 8,
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	scrollView: {
+		flex: 1,
+	},
+	scrollContent: {
+		padding: 20,
+	},
+	inactiveBanner: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.warning + '15',
+		borderRadius: 8,
+		padding: 12,
+		marginBottom: 20,
+		gap: 8,
+	},
+	inactiveBannerText: {
+		color: colors.warning,
+		fontSize: 14,
+		fontWeight: '500',
+	},
+	formGroup: {
+		marginBottom: 24,
+	},
+	label: {
+		fontSize: 14,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 8,
+	},
+	required: {
+		color: colors.error,
+	},
+	input: {
+		backgroundColor: colors.surface,
+		borderWidth: 1,
+		borderColor: colors.border,
+		borderRadius: 12,
+		padding: 14,
+		fontSize: 16,
+		color: colors.textPrimary,
+	},
+	inputError: {
+		borderColor: colors.error,
+	},
+	textArea: {
+		minHeight: 100,
+		textAlignVertical: 'top',
+	},
+	dateRow: {
+		flexDirection: 'row',
+		gap: 12,
+	},
+	dateInput: {
+		flex: 1,
+	},
+	errorText: {
+		color: colors.error,
+		fontSize: 12,
+		marginTop: 4,
+	},
+	fileCard: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderWidth: 1,
+		borderColor: colors.border,
+		borderRadius: 12,
+		padding: 14,
+		gap: 12,
+	},
+	fileInfo: {
+		flex: 1,
+	},
+	fileName: {
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	fileMeta: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	fileAction: {
+		padding: 6,
+	},
+	fileButtonsContainer: {
+		flexDirection: 'row',
+		gap: 12,
+	},
+	fileButton: {
+		flex: 1,
+		backgroundColor: colors.surface,
+		borderWidth: 1,
+		borderColor: colors.border,
+		borderRadius: 12,
+		padding: 20,
+		alignItems: 'center',
+		justifyContent: 'center',
+		gap: 8,
+	},
+	fileButtonText: {
+		color: colors.textSecondary,
+		fontSize: 13,
+		fontWeight: '500',
+	},
+	deactivateButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		borderWidth: 1,
+		borderColor: colors.error,
+		borderRadius: 12,
+		paddingVertical: 14,
+		gap: 8,
+	},
+	deactivateButtonText: {
+		color: colors.error,
+		fontSize: 15,
+		fontWeight: '600',
+	},
+	footer: {
+		padding: 20,
+		paddingBottom: 32,
+		backgroundColor: colors.background,
+		borderTopWidth: 1,
+		borderTopColor: colors.border,
+	},
+	saveButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: colors.primary,
+		paddingVertical: 16,
+		borderRadius: 12,
+		gap: 8,
+	},
+	saveButtonDisabled: {
+		backgroundColor: colors.border,
+	},
+	saveButtonText: {
+		color: colors.textOnPrimary,
+		fontSize: 16,
+		fontWeight: '600',
+	},
+})
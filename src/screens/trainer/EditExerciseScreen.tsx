@@ -25,7 +25,9 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { Ionicons } from '@expo/vector-icons'
 import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
 import * as ImagePicker from 'expo-image-picker'
-import { useExercise, useUpdateExercise } from '../../api/services/exercises'
+import { useExercise } from '../../api/services/exercises'
+import { useAuth } from '../../context/AuthContext'
+import { getNetworkStatus, useOfflineUpdateExercise } from '../../services/offline'
 import { exerciseSchema, type ExerciseFormData } from '../../utils/validation'
 import { colors } from '../../theme/colors'
 import {
@@ -85,7 +87,8 @@ export default function EditExerciseScreen() {
 
 	// Pobierz dane ćwiczenia
 	const { data: exercise, isLoading: isLoadingExercise } = useExercise(exerciseId)
-	const updateMutation = useUpdateExercise()
+	const { profile } = useAuth()
+	const updateMutation = useOfflineUpdateExercise()
 
 	const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -246,7 +249,13 @@ export default function EditExerciseScreen() {
 	 * Zapisz zmiany
 	 */
 	const onSubmit = async (data: ExerciseFormData) => {
-		if (!exercise) return
+		if (!exercise || !profile) return
+
+		// Upload i usuwanie video wymagają połączenia - zmiany pól mogą poczekać w kolejce
+		if (videoChanged && !getNetworkStatus()) {
+			Alert.alert('Brak połączenia', 'Zmiana video wymaga połączenia z internetem')
+			return
+		}
 
 		setIsSubmitting(true)
 
@@ -293,9 +302,10 @@ export default function EditExerciseScreen() {
 			}
 
 			// Aktualizuj ćwiczenie
-			await updateMutation.mutateAsync({
-				id: exercise.id,
-				data: {
+			const { isOffline } = await updateMutation.mutateAsync({
+				userId: profile.user_id,
+				exercise,
+				input: {
 					name: data.name,
 					category: data.category,
 					muscle_groups: data.muscle_groups,
@@ -309,9 +319,13 @@ export default function EditExerciseScreen() {
 				},
 			})
 
-			Alert.alert('Sukces', 'Ćwiczenie zostało zaktualizowane!', [
-				{ text: 'OK', onPress: () => navigation.goBack() },
-			])
+			Alert.alert(
+				isOffline ? 'Zapisano offline' : 'Sukces',
+				isOffline
+					? 'Zmiany zostaną wysłane na serwer po połączeniu z internetem.'
+					: 'Ćwiczenie zostało zaktualizowane!',
+				[{ text: 'OK', onPress: () => navigation.goBack() }]
+			)
 		} catch (error: any) {
 			Alert.alert('Błąd', error?.message || 'Nie udało się zaktualizować ćwiczenia')
 		} finally {
@@ -5,6 +5,9 @@
  * - Modyfikacja dni treningowych
  * - Dodawanie/usuwanie ćwiczeń
  * - Zmiana parametrów ćwiczeń
+ * - Przegląd propozycji progresji (po duplikacji planu z progresją)
+ *
+ * Bez internetu zmiany trafiają do kolejki offline i są wysyłane po połączeniu.
  */
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react'
@@ -24,25 +27,29 @@ import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
 import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
-import { useQueryClient } from '@tanstack/react-query'
 import { useAuth } from '../../context/AuthContext'
 import {
-	usePlanDetails,
-	useUpdatePlan,
-	useAddWorkoutDay,
-	useUpdateWorkoutDay,
-	useDeleteWorkoutDay,
-	useAddExerciseToWorkout,
-	useUpdateWorkoutExercise,
-	useRemoveExerciseFromWorkout,
 	DAY_NAMES,
-	type UpdatePlanInput,
 	type WorkoutDayWithExercises,
 	type WorkoutExerciseWithDetails,
 } from '../../api/services/trainingPlans'
 import { useExercises, type Exercise } from '../../api/services/exercises'
+import { useOfflinePlanDetails, useOfflineSavePlan } from '../../services/offline'
+import type { ProgressionSuggestion } from '../../api/services/progression'
+import ProgressionReview from '../../components/plans/ProgressionReview'
+import ExerciseGroupHeader from '../../components/plans/ExerciseGroupHeader'
+import {
+	getExerciseBlocks,
+	getGroupLabel,
+	linkWithNextExercise,
+	moveExerciseBlock,
+	normalizeExerciseGroups,
+	ungroupExercises,
+	updateExerciseGroup,
+} from '../../utils/exerciseGroups'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
+import type { ExerciseGroupType } from '../../types'
 
 type EditPlanRouteProp = RouteProp<AppStackParamList, 'EditPlan'>
 
@@ -58,6 +65,9 @@ interface LocalWorkoutExercise {
 	weight_kg?: number
 	rest_seconds: number
 	notes?: string
+	group_id?: string | null // Superseria/obwód (litera grupy)
+	group_type?: ExerciseGroupType | null
+	group_rounds?: number | null
 	isNew?: boolean // Czy to nowo dodane ćwiczenie
 	isModified?: boolean // Czy zostało zmodyfikowane
 	isDeleted?: boolean // Czy ma być usunięte
@@ -158,22 +168,43 @@ function ExercisePickerModal({ visible, onClose, onSelect, exercises, isLoading
 interface ExerciseEditorProps {
 	exercise: LocalWorkoutExercise
 	index: number
+	/** Etykieta w grupie (np. "A2") - serie i odpoczynek ustawia wtedy nagłówek grupy */
+	groupLabel: string | null
+	/** Czy blok ćwiczenia (całą grupę) można przesunąć w górę / w dół */
+	canMoveUp: boolean
+	canMoveDown: boolean
 	onUpdate: (index: number, data: Partial<LocalWorkoutExercise>) => void
 	onRemove: (index: number) => void
+	onMove: (index: number, direction: -1 | 1) => void
 }
 
-function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorProps) {
+function ExerciseEditor({
+	exercise,
+	index,
+	groupLabel,
+	canMoveUp,
+	canMoveDown,
+	onUpdate,
+	onRemove,
+	onMove,
+}: ExerciseEditorProps) {
 	if (exercise.isDeleted) return null
 
 	return (
 		<View style={[styles.exerciseCard, exercise.isNew && styles.exerciseCardNew]}>
 			<View style={styles.exerciseHeader}>
 				<View style={styles.exerciseOrderBadge}>
-					<Text style={styles.exerciseOrderText}>{index + 1}</Text>
+					<Text style={styles.exerciseOrderText}>{groupLabel || index + 1}</Text>
 				</View>
 				<Text style={styles.exerciseCardName} numberOfLines={1}>
 					{exercise.exercise.name}
 				</Text>
+				<TouchableOpacity onPress={() => onMove(index, -1)} disabled={!canMoveUp} style={styles.moveButton}>
+					<Ionicons name="arrow-up" size={18} color={canMoveUp ? colors.textSecondary : colors.textDisabled} />
+				</TouchableOpacity>
+				<TouchableOpacity onPress={() => onMove(index, 1)} disabled={!canMoveDown} style={styles.moveButton}>
+					<Ionicons name="arrow-down" size={18} color={canMoveDown ? colors.textSecondary : colors.textDisabled} />
+				</TouchableOpacity>
 				<TouchableOpacity onPress={() => onRemove(index)}>
 					<Ionicons name="trash-outline" size={20} color={colors.error} />
 				</TouchableOpacity>
@@ -181,16 +212,18 @@ function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorP
 
 			<View style={styles.exerciseParams}>
 				{/* Serie */}
-				<View style={styles.paramItem}>
-					<Text style={styles.paramLabel}>Serie</Text>
-					<TextInput
-						style={styles.paramInput}
-						value={String(exercise.sets)}
-						onChangeText={text => onUpdate(index, { sets: parseInt(text) || 1, isModified: true })}
-						keyboardType="numeric"
-						maxLength={2}
-					/>
-				</View>
+				{!groupLabel && (
+					<View style={styles.paramItem}>
+						<Text style={styles.paramLabel}>Serie</Text>
+						<TextInput
+							style={styles.paramInput}
+							value={String(exercise.sets)}
+							onChangeText={text => onUpdate(index, { sets: parseInt(text) || 1, isModified: true })}
+							keyboardType="numeric"
+							maxLength={2}
+						/>
+					</View>
+				)}
 
 				{/* Powtórzenia */}
 				<View style={styles.paramItem}>
@@ -218,16 +251,18 @@ function ExerciseEditor({ exercise, index, onUpdate, onRemove }: ExerciseEditorP
 				</View>
 
 				{/* Odpoczynek */}
-				<View style={styles.paramItem}>
-					<Text style={styles.paramLabel}>Odp. (s)</Text>
-					<TextInput
-						style={styles.paramInput}
-						value={String(exercise.rest_seconds)}
-						onChangeText={text => onUpdate(index, { rest_seconds: parseInt(text) || 60, isModified: true })}
-						keyboardType="numeric"
-						maxLength={3}
-					/>
-				</View>
+				{!groupLabel && (
+					<View style={styles.paramItem}>
+						<Text style={styles.paramLabel}>Odp. (s)</Text>
+						<TextInput
+							style={styles.paramInput}
+							value={String(exercise.rest_seconds)}
+							onChangeText={text => onUpdate(index, { rest_seconds: parseInt(text) || 60, isModified: true })}
+							keyboardType="numeric"
+							maxLength={3}
+						/>
+					</View>
+				)}
 			</View>
 
 			{/* Notatki */}
@@ -255,6 +290,8 @@ interface WorkoutDayCardProps {
 	onAddExercise: (dayIndex: number) => void
 	onUpdateExercise: (dayIndex: number, exIndex: number, data: Partial<LocalWorkoutExercise>) => void
 	onRemoveExercise: (dayIndex: number, exIndex: number) => void
+	/** Zmiana grup (superserie/obwody) - cała nowa lista ćwiczeń dnia */
+	onSetExercises: (dayIndex: number, exercises: LocalWorkoutExercise[]) => void
 }
 
 function WorkoutDayCard({
@@ -265,12 +302,28 @@ function WorkoutDayCard({
 	onAddExercise,
 	onUpdateExercise,
 	onRemoveExercise,
+	onSetExercises,
 }: WorkoutDayCardProps) {
 	const [isExpanded, setIsExpanded] = useState(true)
 
 	if (day.isDeleted) return null
 
 	const visibleExercises = day.exercises.filter(ex => !ex.isDeleted)
+	const blocks = getExerciseBlocks(day.exercises)
+
+	const renderExercise = (exercise: LocalWorkoutExercise, exIndex: number, blockIndex: number) => (
+		<ExerciseEditor
+			key={exercise.id || `new-${exIndex}`}
+			exercise={exercise}
+			index={exIndex}
+			groupLabel={getGroupLabel(day.exercises, exIndex)}
+			canMoveUp={blockIndex > 0}
+			canMoveDown={blockIndex < blocks.length - 1}
+			onUpdate={(idx, data) => onUpdateExercise(dayIndex, idx, data)}
+			onRemove={idx => onRemoveExercise(dayIndex, idx)}
+			onMove={(idx, direction) => onSetExercises(dayIndex, moveExerciseBlock(day.exercises, idx, direction))}
+		/>
+	)
 
 	return (
 		<View style={[styles.dayCard, day.isNew && styles.dayCardNew]}>
@@ -309,15 +362,41 @@ function WorkoutDayCard({
 					{/* Lista ćwiczeń */}
 					{!day.is_rest_day && (
 						<>
-							{day.exercises.map((exercise, exIndex) => (
-								<ExerciseEditor
-									key={exercise.id || `new-${exIndex}`}
-									exercise={exercise}
-									index={exIndex}
-									onUpdate={(idx, data) => onUpdateExercise(dayIndex, idx, data)}
-									onRemove={idx => onRemoveExercise(dayIndex, idx)}
-								/>
-							))}
+							{blocks.map((block, blockIndex) => {
+								const lastIndex = block.items[block.items.length - 1].index
+
+								return (
+									<React.Fragment key={block.items[0].exercise.id || `new-${block.items[0].index}`}>
+										{block.group_id && block.group_type ? (
+											<View style={styles.groupContainer}>
+												<ExerciseGroupHeader
+													groupId={block.group_id}
+													groupType={block.group_type}
+													rounds={block.rounds}
+													restSeconds={block.items[0].exercise.rest_seconds}
+													onChange={settings =>
+														onSetExercises(dayIndex, updateExerciseGroup(day.exercises, block.group_id!, settings))
+													}
+													onUngroup={() => onSetExercises(dayIndex, ungroupExercises(day.exercises, block.group_id!))}
+												/>
+												{block.items.map(({ exercise, index }) => renderExercise(exercise, index, blockIndex))}
+											</View>
+										) : (
+											block.items.map(({ exercise, index }) => renderExercise(exercise, index, blockIndex))
+										)}
+
+										{/* Połącz z następnym ćwiczeniem w superserię */}
+										{blockIndex < blocks.length - 1 && (
+											<TouchableOpacity
+												style={styles.linkButton}
+												onPress={() => onSetExercises(dayIndex, linkWithNextExercise(day.exercises, lastIndex))}>
+												<Ionicons name="link-outline" size={16} color={colors.textSecondary} />
+												<Text style={styles.linkButtonText}>Połącz z następnym</Text>
+											</TouchableOpacity>
+										)}
+									</React.Fragment>
+								)
+							})}
 
 							<TouchableOpacity style={styles.addExerciseButton} onPress={() => onAddExercise(dayIndex)}>
 								<Ionicons name="add" size={20} color={colors.primary} />
@@ -344,12 +423,11 @@ function WorkoutDayCard({
 export default function EditPlanScreen() {
 	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
 	const route = useRoute<EditPlanRouteProp>()
-	const { planId } = route.params
+	const { planId, progressionSourcePlanId } = route.params
 	const { profile } = useAuth()
-	const queryClient = useQueryClient()
 
-	// Pobierz istniejący plan
-	const { data: existingPlan, isLoading: loadingPlan } = usePlanDetails(planId)
+	// Pobierz istniejący plan (z niezsynchronizowanymi zmianami offline)
+	const { data: existingPlan, isLoading: loadingPlan } = useOfflinePlanDetails(planId)
 
 	// Stan formularza
 	const [trainerNotes, setTrainerNotes] = useState('')
@@ -361,24 +439,22 @@ export default function EditPlanScreen() {
 	const [showExercisePicker, setShowExercisePicker] = useState(false)
 	const [selectedDayIndex, setSelectedDayIndex] = useState<number | null>(null)
 
+	// Modal progresji (otwierany od razu po duplikacji z progresją)
+	const [showProgression, setShowProgression] = useState(!!progressionSourcePlanId)
+
 	// Dane
 	const { data: exercises = [], isLoading: loadingExercises } = useExercises()
 	
 	// Mutacje
-	const updatePlan = useUpdatePlan()
-	const addWorkoutDay = useAddWorkoutDay()
-	const updateWorkoutDay = useUpdateWorkoutDay()
-	const deleteWorkoutDay = useDeleteWorkoutDay()
-	const addExerciseToWorkout = useAddExerciseToWorkout()
-	const updateWorkoutExercise = useUpdateWorkoutExercise()
-	const removeExerciseFromWorkout = useRemoveExerciseFromWorkout()
+	const savePlan = useOfflineSavePlan()
 
 	// ============================================
 	// INICJALIZACJA DANYCH Z ISTNIEJĄCEGO PLANU
 	// ============================================
 
 	useEffect(() => {
-		if (existingPlan) {
+		// Odświeżenie planu po synchronizacji nie nadpisuje rozpoczętej edycji
+		if (existingPlan && !hasChanges) {
 			setTrainerNotes(existingPlan.trainer_notes || '')
 			
 			// Mapuj dni treningowe
@@ -395,12 +471,15 @@ export default function EditPlanScreen() {
 					weight_kg: ex.weight_kg || undefined,
 					rest_seconds: ex.rest_seconds,
 					notes: ex.notes || undefined,
+					group_id: ex.group_id,
+					group_type: ex.group_type,
+					group_rounds: ex.group_rounds,
 				})),
 			}))
 			
 			setWorkoutDays(days.sort((a, b) => a.day_of_week - b.day_of_week))
 		}
-	}, [existingPlan])
+	}, [existingPlan, hasChanges])
 
 	// ============================================
 	// HANDLERS - DNI
@@ -519,17 +598,62 @@ export default function EditPlanScreen() {
 				// Nowe ćwiczenie - usuń z listy
 				updated[dayIndex].exercises = updated[dayIndex].exercises.filter((_, i) => i !== exIndex)
 			}
+			// Grupa z jednym ćwiczeniem przestaje być grupą
+			updated[dayIndex].exercises = normalizeExerciseGroups(updated[dayIndex].exercises)
+			return updated
+		})
+		setHasChanges(true)
+	}, [])
+
+	const handleSetExercises = useCallback((dayIndex: number, exercises: LocalWorkoutExercise[]) => {
+		setWorkoutDays(prev => {
+			const updated = [...prev]
+			updated[dayIndex] = { ...updated[dayIndex], exercises, isModified: true }
 			return updated
 		})
 		setHasChanges(true)
 	}, [])
 
+	// ============================================
+	// HANDLERS - PROGRESJA
+	// ============================================
+
+	const handleApplyProgression = useCallback((suggestions: ProgressionSuggestion[]) => {
+		setWorkoutDays(prev =>
+			prev.map(day => {
+				const daySuggestions = suggestions.filter(s => s.day_of_week === day.day_of_week)
+				if (day.isDeleted || daySuggestions.length === 0) return day
+
+				// To samo ćwiczenie może wystąpić w dniu kilka razy - dopasuj po kolejności
+				const pending = [...daySuggestions].sort((a, b) => a.order_index - b.order_index)
+				const exercises = day.exercises.map(ex => {
+					if (ex.isDeleted) return ex
+
+					const matchIndex = pending.findIndex(s => s.exercise_id === ex.exercise.id)
+					if (matchIndex === -1) return ex
+
+					const [suggestion] = pending.splice(matchIndex, 1)
+					return {
+						...ex,
+						reps: suggestion.suggested.reps,
+						weight_kg: suggestion.suggested.weight_kg ?? undefined,
+						isModified: true,
+					}
+				})
+
+				return { ...day, exercises }
+			})
+		)
+		setHasChanges(true)
+		setShowProgression(false)
+	}, [])
+
 	// ============================================
 	// ZAPISYWANIE ZMIAN
 	// ============================================
 
 	const handleSaveChanges = useCallback(async () => {
-		if (!profile?.id || !existingPlan) return
+		if (!profile?.user_id || !existingPlan) return
 
 		const visibleDays = workoutDays.filter(d => !d.isDeleted)
 		
@@ -548,76 +672,26 @@ export default function EditPlanScreen() {
 		setIsSubmitting(true)
 
 		try {
-			// 1. Zaktualizuj notatki planu
-			if (trainerNotes !== existingPlan.trainer_notes) {
-				await updatePlan.mutateAsync({
-					planId,
-					data: { trainer_notes: trainerNotes },
-				})
-			}
-
-			// 2. Przetwórz dni treningowe
-			for (const day of workoutDays) {
-				if (day.isDeleted && day.id) {
-					// Usuń istniejący dzień
-					await deleteWorkoutDay.mutateAsync(day.id)
-					continue
-				}
-
-				if (day.isNew) {
-					// Dodaj nowy dzień
-					const newDay = await addWorkoutDay.mutateAsync({
-						plan_id: planId,
-						day_of_week: day.day_of_week,
-						name: day.name || DAY_NAMES[day.day_of_week],
-						is_rest_day: day.is_rest_day,
-					})
-
-					// Dodaj ćwiczenia do nowego dnia
-					if (!day.is_rest_day) {
-						for (let i = 0; i < day.exercises.length; i++) {
-							const ex = day.exercises[i]
-							await addExerciseToWorkout.mutateAsync({
-								workout_day_id: newDay.id,
-								exercise_id: ex.exercise.id,
-								order_index: i,
-								sets: ex.sets,
-								reps: ex.reps,
-								weight_kg: ex.weight_kg,
-								rest_seconds: ex.rest_seconds,
-								notes: ex.notes,
-							})
-						}
-					}
-					continue
-				}
-
-				// Zaktualizuj istniejący dzień (jeśli zmodyfikowany)
-				if (day.isModified && day.id) {
-					await updateWorkoutDay.mutateAsync({
-						dayId: day.id,
-						input: {
-							name: day.name || DAY_NAMES[day.day_of_week],
-							is_rest_day: day.is_rest_day,
-						},
-					})
-				}
-
-				// Przetwórz ćwiczenia w dniu
-				if (day.id && !day.is_rest_day) {
-					for (let i = 0; i < day.exercises.length; i++) {
-						const ex = day.exercises[i]
-
-						if (ex.isDeleted && ex.id) {
-							// Usuń ćwiczenie
-							await removeExerciseFromWorkout.mutateAsync(ex.id)
-							continue
-						}
-
-						if (ex.isNew) {
-							// Dodaj nowe ćwiczenie
-							await addExerciseToWorkout.mutateAsync({
-								workout_day_id: day.id,
+			// Pełny stan planu w jednej transakcji - pominięte dni i ćwiczenia zostaną usunięte
+			// (offline: pojedyncze zmiany w kolejce)
+			const input = {
+				id: planId,
+				client_id: existingPlan.client_id,
+				week_start: existingPlan.week_start,
+				week_end: existingPlan.week_end,
+				trainer_notes: trainerNotes,
+				days: visibleDays.map(day => ({
+					id: day.id,
+					day_of_week: day.day_of_week,
+					name: day.name || DAY_NAMES[day.day_of_week],
+					is_rest_day: day.is_rest_day,
+					order_index: day.day_of_week,
+					exercises: day.is_rest_day
+						? []
+						: day.exercises
+							.filter(ex => !ex.isDeleted)
+							.map((ex, i) => ({
+								id: ex.id,
 								exercise_id: ex.exercise.id,
 								order_index: i,
 								sets: ex.sets,
@@ -625,35 +699,26 @@ export default function EditPlanScreen() {
 								weight_kg: ex.weight_kg,
 								rest_seconds: ex.rest_seconds,
 								notes: ex.notes,
-							})
-							continue
-						}
-
-						if (ex.isModified && ex.id) {
-							// Zaktualizuj ćwiczenie
-							await updateWorkoutExercise.mutateAsync({
-								exerciseId: ex.id,
-								data: {
-									order_index: i,
-									sets: ex.sets,
-									reps: ex.reps,
-									weight_kg: ex.weight_kg,
-									rest_seconds: ex.rest_seconds,
-									notes: ex.notes,
-								},
-							})
-						}
-					}
-				}
+								group_id: ex.group_id || undefined,
+								group_type: ex.group_type || undefined,
+								group_rounds: ex.group_rounds || undefined,
+							})),
+				})),
 			}
+			const { isOffline } = await savePlan.mutateAsync({
+				userId: profile.user_id,
+				plan: existingPlan,
+				input,
+				exercises: workoutDays.flatMap(day => day.exercises.map(ex => ex.exercise)),
+			})
 
-			// Odśwież dane
-			queryClient.invalidateQueries({ queryKey: ['plan-details', planId] })
-			queryClient.invalidateQueries({ queryKey: ['plans-by-client'] })
-
-			Alert.alert('Sukces', 'Plan został zaktualizowany!', [
-				{ text: 'OK', onPress: () => navigation.goBack() },
-			])
+			Alert.alert(
+				isOffline ? 'Zapisano offline' : 'Sukces',
+				isOffline
+					? 'Zmiany zostaną wysłane na serwer po połączeniu z internetem.'
+					: 'Plan został zaktualizowany!',
+				[{ text: 'OK', onPress: () => navigation.goBack() }]
+			)
 		} catch (error: any) {
 			console.error('Błąd zapisywania planu:', error)
 			Alert.alert('Błąd', error.message || 'Nie udało się zapisać zmian')
@@ -661,19 +726,12 @@ export default function EditPlanScreen() {
 			setIsSubmitting(false)
 		}
 	}, [
-		profile?.id,
+		profile?.user_id,
 		existingPlan,
 		planId,
 		trainerNotes,
 		workoutDays,
-		updatePlan,
-		addWorkoutDay,
-		updateWorkoutDay,
-		deleteWorkoutDay,
-		addExerciseToWorkout,
-		updateWorkoutExercise,
-		removeExerciseFromWorkout,
-		queryClient,
+		savePlan,
 		navigation,
 	])
 
@@ -776,6 +834,12 @@ export default function EditPlanScreen() {
 							</Text>
 						</View>
 					)}
+					{progressionSourcePlanId && (
+						<TouchableOpacity style={styles.progressionButton} onPress={() => setShowProgression(true)}>
+							<Ionicons name="trending-up" size={18} color={colors.primary} />
+							<Text style={styles.progressionButtonText}>Propozycje progresji</Text>
+						</TouchableOpacity>
+					)}
 				</View>
 
 				{/* Notatki trenera */}
@@ -824,6 +888,7 @@ export default function EditPlanScreen() {
 								onAddExercise={handleOpenExercisePicker}
 								onUpdateExercise={handleUpdateExercise}
 								onRemoveExercise={handleRemoveExercise}
+								onSetExercises={handleSetExercises}
 							/>
 						))
 					)}
@@ -838,6 +903,16 @@ export default function EditPlanScreen() {
 				exercises={exercises}
 				isLoading={loadingExercises}
 			/>
+
+			{/* Modal progresji */}
+			{progressionSourcePlanId && (
+				<ProgressionReview
+					visible={showProgression}
+					sourcePlanId={progressionSourcePlanId}
+					onClose={() => setShowProgression(false)}
+					onApply={handleApplyProgression}
+				/>
+			)}
 		</SafeAreaView>
 	)
 }
@@ -938,6 +1013,21 @@ const styles = StyleSheet.create({
 		fontSize: 14,
 		color: colors.textSecondary,
 	},
+	progressionButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		alignSelf: 'flex-start',
+		backgroundColor: colors.primary + '20',
+		paddingHorizontal: 12,
+		paddingVertical: 8,
+		borderRadius: 8,
+	},
+	progressionButtonText: {
+		color: colors.primary,
+		fontWeight: '600',
+		fontSize: 13,
+	},
 	section: {
 		paddingHorizontal: 16,
 		marginBottom: 20,
@@ -1081,6 +1171,10 @@ const styles = StyleSheet.create({
 		fontWeight: '600',
 		fontSize: 12,
 	},
+	moveButton: {
+		padding: 4,
+		marginRight: 4,
+	},
 	exerciseCardName: {
 		flex: 1,
 		color: colors.textPrimary,
@@ -1108,6 +1202,24 @@ const styles = StyleSheet.create({
 		fontSize: 14,
 		textAlign: 'center',
 	},
+	groupContainer: {
+		borderLeftWidth: 3,
+		borderLeftColor: colors.primary,
+		paddingLeft: 8,
+		marginBottom: 4,
+	},
+	linkButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		gap: 4,
+		paddingVertical: 4,
+		marginBottom: 6,
+	},
+	linkButtonText: {
+		fontSize: 12,
+		color: colors.textSecondary,
+	},
 	addExerciseButton: {
 		flexDirection: 'row',
 		alignItems: 'center',
@@ -2,7 +2,7 @@
  * PlanDetailScreen - Szczegóły planu treningowego
  *
  * Wyświetla pełny widok planu z dniami i ćwiczeniami.
- * Pozwala trenerowi edytować, duplikować lub usunąć plan.
+ * Pozwala trenerowi edytować, duplikować, usunąć plan lub zapisać go jako szablon.
  */
 
 import React, { useState, useCallback } from 'react'
@@ -15,6 +15,8 @@ import {
 	Alert,
 	ActivityIndicator,
 	RefreshControl,
+	Modal,
+	TextInput,
 } from 'react-native'
 import { SafeAreaView } from 'react-native-safe-area-context'
 import { Ionicons } from '@expo/vector-icons'
@@ -28,6 +30,7 @@ import {
 	type WorkoutDayWithExercises,
 	type WorkoutExerciseWithDetails,
 } from '../../api/services/trainingPlans'
+import { useCreateTemplateFromPlan } from '../../api/services/programTemplates'
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
@@ -119,6 +122,58 @@ function WorkoutDayCard({ day }: WorkoutDayCardProps) {
 	)
 }
 
+// ============================================
+// MODAL ZAPISU JAKO SZABLON
+// ============================================
+
+interface SaveAsTemplateModalProps {
+	visible: boolean
+	defaultName: string
+	isSaving: boolean
+	onClose: () => void
+	onSave: (name: string) => void
+}
+
+function SaveAsTemplateModal({ visible, defaultName, isSaving, onClose, onSave }: SaveAsTemplateModalProps) {
+	const [name, setName] = useState(defaultName)
+
+	return (
+		<Modal visible={visible} transparent animationType="fade" onRequestClose={onClose} onShow={() => setName(defaultName)}>
+			<View style={styles.modalOverlay}>
+				<View style={styles.modalCard}>
+					<Text style={styles.modalTitle}>Zapisz jako szablon</Text>
+					<Text style={styles.modalSubtitle}>
+						Szablon trafi do biblioteki - przypiszesz go kolejnym klientom z listy klientów.
+					</Text>
+					<TextInput
+						style={styles.modalInput}
+						value={name}
+						onChangeText={setName}
+						placeholder="Nazwa szablonu"
+						placeholderTextColor={colors.textDisabled}
+						autoFocus
+					/>
+					<View style={styles.modalActions}>
+						<TouchableOpacity style={styles.modalCancel} onPress={onClose} disabled={isSaving}>
+							<Text style={styles.modalCancelText}>Anuluj</Text>
+						</TouchableOpacity>
+						<TouchableOpacity
+							style={[styles.modalConfirm, !name.trim() && styles.modalConfirmDisabled]}
+							onPress={() => onSave(name.trim())}
+							disabled={!name.trim() || isSaving}>
+							{isSaving ? (
+								<ActivityIndicator size="small" color={colors.textOnPrimary} />
+							) : (
+								<Text style={styles.modalConfirmText}>Zapisz</Text>
+							)}
+						</TouchableOpacity>
+					</View>
+				</View>
+			</View>
+		</Modal>
+	)
+}
+
 // ============================================
 // GŁÓWNY KOMPONENT
 // ============================================
@@ -131,9 +186,11 @@ export default function PlanDetailScreen() {
 	const { data: plan, isLoading, refetch, isRefetching } = usePlanDetails(planId)
 	const deletePlan = useDeletePlan()
 	const duplicatePlan = useDuplicatePlan()
+	const createTemplateFromPlan = useCreateTemplateFromPlan()
 
 	const [isDeleting, setIsDeleting] = useState(false)
 	const [isDuplicating, setIsDuplicating] = useState(false)
+	const [showTemplateModal, setShowTemplateModal] = useState(false)
 
 	// ============================================
 	// HANDLERS
@@ -164,27 +221,48 @@ export default function PlanDetailScreen() {
 		])
 	}, [planId, deletePlan, navigation])
 
+	const runDuplicate = useCallback(async (withProgression: boolean) => {
+		setIsDuplicating(true)
+		try {
+			const newPlan = await duplicatePlan.mutateAsync(planId)
+
+			if (withProgression) {
+				// Propozycje na podstawie wykonania tego planu - do przeglądu w edycji nowego
+				navigation.navigate('EditPlan', { planId: newPlan.id, progressionSourcePlanId: planId })
+				return
+			}
+
+			Alert.alert('Sukces', `Plan został skopiowany na tydzień ${newPlan.week_start} - ${newPlan.week_end}`, [
+				{ text: 'OK' },
+			])
+		} catch (error: any) {
+			Alert.alert('Błąd', error.message || 'Nie udało się zduplikować planu')
+		} finally {
+			setIsDuplicating(false)
+		}
+	}, [planId, duplicatePlan, navigation])
+
 	const handleDuplicate = useCallback(() => {
-		Alert.alert('Duplikuj plan', 'Czy chcesz skopiować ten plan na następny tydzień?', [
-			{ text: 'Anuluj', style: 'cancel' },
-			{
-				text: 'Duplikuj',
-				onPress: async () => {
-					setIsDuplicating(true)
-					try {
-						const newPlan = await duplicatePlan.mutateAsync(planId)
-						Alert.alert('Sukces', `Plan został skopiowany na tydzień ${newPlan.week_start} - ${newPlan.week_end}`, [
-							{ text: 'OK' },
-						])
-					} catch (error: any) {
-						Alert.alert('Błąd', error.message || 'Nie udało się zduplikować planu')
-					} finally {
-						setIsDuplicating(false)
-					}
-				},
-			},
-		])
-	}, [planId, duplicatePlan])
+		Alert.alert(
+			'Duplikuj plan',
+			'Czy chcesz skopiować ten plan na następny tydzień? Z progresją zobaczysz propozycje ciężarów na podstawie wykonania klienta.',
+			[
+				{ text: 'Anuluj', style: 'cancel' },
+				{ text: 'Bez zmian', onPress: () => runDuplicate(false) },
+				{ text: 'Z progresją', onPress: () => runDuplicate(true) },
+			]
+		)
+	}, [runDuplicate])
+
+	const handleSaveAsTemplate = useCallback(async (name: string) => {
+		try {
+			await createTemplateFromPlan.mutateAsync({ planId, input: { name } })
+			setShowTemplateModal(false)
+			Alert.alert('Sukces', `Zapisano szablon "${name}"`)
+		} catch (error: any) {
+			Alert.alert('Błąd', error.message || 'Nie udało się zapisać szablonu')
+		}
+	}, [planId, createTemplateFromPlan])
 
 	// ============================================
 	// FORMATOWANIE
@@ -320,8 +398,19 @@ export default function PlanDetailScreen() {
 							</>
 						)}
 					</TouchableOpacity>
+					<TouchableOpacity style={styles.templateButton} onPress={() => setShowTemplateModal(true)}>
+						<Ionicons name="bookmark-outline" size={20} color={colors.primary} />
+					</TouchableOpacity>
 				</View>
 			</View>
+
+			<SaveAsTemplateModal
+				visible={showTemplateModal}
+				defaultName={plan.profiles ? `Plan - ${plan.profiles.first_name} ${plan.profiles.last_name}` : 'Plan tygodniowy'}
+				isSaving={createTemplateFromPlan.isPending}
+				onClose={() => setShowTemplateModal(false)}
+				onSave={handleSaveAsTemplate}
+			/>
 		</SafeAreaView>
 	)
 }
@@ -623,4 +712,74 @@ const styles = StyleSheet.create({
 		fontWeight: '600',
 		fontSize: 15,
 	},
+	templateButton: {
+		width: 52,
+		alignItems: 'center',
+		justifyContent: 'center',
+		backgroundColor: colors.primary + '15',
+		borderRadius: 12,
+	},
+	// Modal styles
+	modalOverlay: {
+		flex: 1,
+		backgroundColor: 'rgba(0, 0, 0, 0.6)',
+		justifyContent: 'center',
+		padding: 24,
+	},
+	modalCard: {
+		backgroundColor: colors.background,
+		borderRadius: 16,
+		padding: 20,
+	},
+	modalTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	modalSubtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 6,
+	},
+	modalInput: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		paddingHorizontal: 14,
+		paddingVertical: 12,
+		fontSize: 15,
+		color: colors.textPrimary,
+		marginTop: 16,
+	},
+	modalActions: {
+		flexDirection: 'row',
+		gap: 12,
+		marginTop: 20,
+	},
+	modalCancel: {
+		flex: 1,
+		alignItems: 'center',
+		paddingVertical: 12,
+		borderRadius: 12,
+		backgroundColor: colors.surface,
+	},
+	modalCancelText: {
+		color: colors.textPrimary,
+		fontWeight: '600',
+		fontSize: 15,
+	},
+	modalConfirm: {
+		flex: 1,
+		alignItems: 'center',
+		paddingVertical: 12,
+		borderRadius: 12,
+		backgroundColor: colors.primary,
+	},
+	modalConfirmDisabled: {
+		opacity: 0.5,
+	},
+	modalConfirmText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+		fontSize: 15,
+	},
 })
@@ -0,0 +1,1177 @@
+/**
+ * TemplateFormScreen - Tworzenie / edycja szablonu programu
+ *
+ * Trener buduje wielotygodniowy program:
+ * - Nazwa, opis, liczba tygodni
+ * - Dni treningowe i ćwiczenia (wspólne dla wszystkich tygodni)
+ * - Serie, powtórzenia i ciężar osobno dla każdego tygodnia
+ */
+
+import React, { useState, useCallback, useMemo, useEffect } from 'react'
+import {
+	View,
+	Text,
+	ScrollView,
+	TouchableOpacity,
+	TextInput,
+	StyleSheet,
+	Alert,
+	ActivityIndicator,
+	Modal,
+	FlatList,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation, useRoute, type RouteProp } from '@react-navigation/native'
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useTemplateDetails,
+	useCreateTemplate,
+	useUpdateTemplate,
+	getTemplateWeekParams,
+	type SaveTemplateInput,
+} from '../../api/services/programTemplates'
+import { DAY_NAMES } from '../../api/services/trainingPlans'
+import { useExercises } from '../../api/services/exercises'
+import { colors } from '../../theme/colors'
+import type { Exercise, ExerciseGroupType } from '../../types'
+import type { AppStackParamList } from '../../navigation/AppNavigator'
+
+type TemplateFormRouteProp = RouteProp<AppStackParamList, 'TemplateForm'>
+
+// ============================================
+// TYPY LOKALNE
+// ============================================
+
+interface LocalWeekParams {
+	sets: number
+	reps: string
+	weight_kg?: number
+}
+
+interface LocalTemplateExercise {
+	exercise: Exercise
+	rest_seconds: number
+	notes?: string
+	/** Grupa z planu źródłowego - zachowywana przy edycji szablonu */
+	group_id?: string
+	group_type?: ExerciseGroupType
+	group_rounds?: number
+	/** Parametry kolejnych tygodni (indeks 0 = tydzień 1) */
+	weeks: LocalWeekParams[]
+}
+
+interface LocalTemplateDay {
+	day_of_week: number
+	name: string
+	is_rest_day: boolean
+	exercises: LocalTemplateExercise[]
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+const MAX_WEEKS = 52
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Dopasowuje liczbę tygodni ćwiczenia - nowe tygodnie kopiują ostatni
+ */
+function resizeWeeks(weeks: LocalWeekParams[], count: number): LocalWeekParams[] {
+	if (weeks.length >= count) return weeks
+
+	const last = weeks[weeks.length - 1] || { sets: 3, reps: '10-12' }
+	return [...weeks, ...Array.from({ length: count - weeks.length }, () => ({ ...last }))]
+}
+
+// ============================================
+// KOMPONENT WYBORU ĆWICZENIA
+// ============================================
+
+interface ExercisePickerModalProps {
+	visible: boolean
+	onClose: () => void
+	onSelect: (exercise: Exercise) => void
+	exercises: Exercise[]
+	isLoading: boolean
+}
+
+function ExercisePickerModal({ visible, onClose, onSelect, exercises, isLoading }: ExercisePickerModalProps) {
+	const [searchQuery, setSearchQuery] = useState('')
+
+	const filteredExercises = useMemo(() => {
+		if (!searchQuery.trim()) return exercises
+		const query = searchQuery.toLowerCase()
+		return exercises.filter(ex => ex.name.toLowerCase().includes(query) || ex.category.toLowerCase().includes(query))
+	}, [exercises, searchQuery])
+
+	return (
+		<Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+			<SafeAreaView style={styles.modalContainer}>
+				{/* Header */}
+				<View style={styles.modalHeader}>
+					<Text style={styles.modalTitle}>Wybierz ćwiczenie</Text>
+					<TouchableOpacity onPress={onClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+				</View>
+
+				{/* Search */}
+				<View style={styles.searchContainer}>
+					<Ionicons name="search" size={20} color={colors.textSecondary} />
+					<TextInput
+						style={styles.searchInput}
+						placeholder="Szukaj ćwiczenia..."
+						placeholderTextColor={colors.textSecondary}
+						value={searchQuery}
+						onChangeText={setSearchQuery}
+					/>
+				</View>
+
+				{/* Lista ćwiczeń */}
+				{isLoading ? (
+					<ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 40 }} />
+				) : (
+					<FlatList
+						data={filteredExercises}
+						keyExtractor={item => item.id}
+						contentContainerStyle={styles.exerciseList}
+						renderItem={({ item }) => (
+							<TouchableOpacity
+								style={styles.exerciseItem}
+								onPress={() => {
+									onSelect(item)
+									onClose()
+									setSearchQuery('')
+								}}>
+								<View style={styles.exerciseInfo}>
+									<Text style={styles.exerciseName}>{item.name}</Text>
+									<Text style={styles.exerciseCategory}>
+										{item.category} • {item.difficulty}
+									</Text>
+								</View>
+								<Ionicons name="add-circle" size={24} color={colors.primary} />
+							</TouchableOpacity>
+						)}
+						ListEmptyComponent={<Text style={styles.emptyText}>Brak ćwiczeń</Text>}
+					/>
+				)}
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// KOMPONENT EDYCJI ĆWICZENIA (siatka tygodni)
+// ============================================
+
+interface TemplateExerciseEditorProps {
+	exercise: LocalTemplateExercise
+	index: number
+	weeksCount: number
+	onUpdate: (index: number, data: Partial<LocalTemplateExercise>) => void
+	onUpdateWeek: (index: number, weekIndex: number, data: Partial<LocalWeekParams>) => void
+	onRemove: (index: number) => void
+}
+
+function TemplateExerciseEditor({
+	exercise,
+	index,
+	weeksCount,
+	onUpdate,
+	onUpdateWeek,
+	onRemove,
+}: TemplateExerciseEditorProps) {
+	const weeks = exercise.weeks.slice(0, weeksCount)
+
+	const handleCopyFirstWeek = () => {
+		onUpdate(index, { weeks: exercise.weeks.map(() => ({ ...exercise.weeks[0] })) })
+	}
+
+	return (
+		<View style={styles.exerciseCard}>
+			<View style={styles.exerciseHeader}>
+				<View style={styles.exerciseOrderBadge}>
+					<Text style={styles.exerciseOrderText}>{index + 1}</Text>
+				</View>
+				<Text style={styles.exerciseCardName} numberOfLines={1}>
+					{exercise.exercise.name}
+				</Text>
+				<TouchableOpacity onPress={() => onRemove(index)}>
+					<Ionicons name="trash-outline" size={20} color={colors.error} />
+				</TouchableOpacity>
+			</View>
+
+			{/* Nagłówek siatki */}
+			<View style={styles.weekRow}>
+				<Text style={[styles.weekLabel, styles.paramLabel]}>Tydz.</Text>
+				<Text style={[styles.weekCell, styles.paramLabel]}>Serie</Text>
+				<Text style={[styles.weekCell, styles.paramLabel]}>Powt.</Text>
+				<Text style={[styles.weekCell, styles.paramLabel]}>Kg</Text>
+			</View>
+
+			{/* Parametry tygodni */}
+			{weeks.map((week, weekIndex) => (
+				<View key={weekIndex} style={styles.weekRow}>
+					<Text style={styles.weekLabel}>T{weekIndex + 1}</Text>
+					<TextInput
+						style={[styles.weekCell, styles.paramInput]}
+						value={String(week.sets)}
+						onChangeText={text => onUpdateWeek(index, weekIndex, { sets: parseInt(text) || 1 })}
+						keyboardType="numeric"
+						maxLength={2}
+					/>
+					<TextInput
+						style={[styles.weekCell, styles.paramInput]}
+						value={week.reps}
+						onChangeText={text => onUpdateWeek(index, weekIndex, { reps: text })}
+						placeholder="10-12"
+						placeholderTextColor={colors.textDisabled}
+					/>
+					<TextInput
+						style={[styles.weekCell, styles.paramInput]}
+						value={week.weight_kg ? String(week.weight_kg) : ''}
+						onChangeText={text => onUpdateWeek(index, weekIndex, { weight_kg: parseFloat(text) || undefined })}
+						keyboardType="numeric"
+						placeholder="-"
+						placeholderTextColor={colors.textDisabled}
+					/>
+				</View>
+			))}
+
+			{weeksCount > 1 && (
+				<TouchableOpacity style={styles.copyWeekButton} onPress={handleCopyFirstWeek}>
+					<Ionicons name="copy-outline" size={14} color={colors.primary} />
+					<Text style={styles.copyWeekText}>Powiel tydzień 1 na wszystkie</Text>
+				</TouchableOpacity>
+			)}
+
+			{/* Odpoczynek i notatki */}
+			<View style={styles.restRow}>
+				<Text style={styles.paramLabel}>Odpoczynek (s)</Text>
+				<TextInput
+					style={[styles.paramInput, styles.restInput]}
+					value={String(exercise.rest_seconds)}
+					onChangeText={text => onUpdate(index, { rest_seconds: parseInt(text) || 60 })}
+					keyboardType="numeric"
+					maxLength={3}
+				/>
+			</View>
+			<TextInput
+				style={styles.notesInput}
+				value={exercise.notes || ''}
+				onChangeText={text => onUpdate(index, { notes: text })}
+				placeholder="Notatki do ćwiczenia..."
+				placeholderTextColor={colors.textDisabled}
+				multiline
+			/>
+		</View>
+	)
+}
+
+// ============================================
+// KOMPONENT DNIA SZABLONU
+// ============================================
+
+interface TemplateDayCardProps {
+	day: LocalTemplateDay
+	dayIndex: number
+	weeksCount: number
+	onUpdateDay: (index: number, data: Partial<LocalTemplateDay>) => void
+	onRemoveDay: (index: number) => void
+	onAddExercise: (dayIndex: number) => void
+	onUpdateExercise: (dayIndex: number, exIndex: number, data: Partial<LocalTemplateExercise>) => void
+	onUpdateWeek: (dayIndex: number, exIndex: number, weekIndex: number, data: Partial<LocalWeekParams>) => void
+	onRemoveExercise: (dayIndex: number, exIndex: number) => void
+}
+
+function TemplateDayCard({
+	day,
+	dayIndex,
+	weeksCount,
+	onUpdateDay,
+	onRemoveDay,
+	onAddExercise,
+	onUpdateExercise,
+	onUpdateWeek,
+	onRemoveExercise,
+}: TemplateDayCardProps) {
+	const [isExpanded, setIsExpanded] = useState(true)
+
+	return (
+		<View style={styles.dayCard}>
+			{/* Header dnia */}
+			<TouchableOpacity style={styles.dayHeader} onPress={() => setIsExpanded(!isExpanded)} activeOpacity={0.7}>
+				<View style={styles.dayHeaderLeft}>
+					<View style={[styles.dayBadge, day.is_rest_day && styles.restDayBadge]}>
+						<Text style={styles.dayBadgeText}>{DAY_NAMES[day.day_of_week].slice(0, 3)}</Text>
+					</View>
+					<TextInput
+						style={styles.dayNameInput}
+						value={day.name}
+						onChangeText={text => onUpdateDay(dayIndex, { name: text })}
+						placeholder={`Dzień ${dayIndex + 1}`}
+						placeholderTextColor={colors.textDisabled}
+					/>
+				</View>
+
+				<View style={styles.dayHeaderRight}>
+					{!day.is_rest_day && <Text style={styles.exerciseCount}>{day.exercises.length} ćw.</Text>}
+					<Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={20} color={colors.textSecondary} />
+				</View>
+			</TouchableOpacity>
+
+			{/* Rozwinięta zawartość */}
+			{isExpanded && (
+				<View style={styles.dayContent}>
+					{/* Toggle dzień odpoczynku */}
+					<TouchableOpacity
+						style={styles.restDayToggle}
+						onPress={() => onUpdateDay(dayIndex, { is_rest_day: !day.is_rest_day })}>
+						<View style={[styles.checkbox, day.is_rest_day && styles.checkboxChecked]}>
+							{day.is_rest_day && <Ionicons name="checkmark" size={14} color="#fff" />}
+						</View>
+						<Text style={styles.restDayText}>Dzień odpoczynku</Text>
+					</TouchableOpacity>
+
+					{/* Lista ćwiczeń */}
+					{!day.is_rest_day && (
+						<>
+							{day.exercises.map((exercise, exIndex) => (
+								<TemplateExerciseEditor
+									key={exIndex}
+									exercise={exercise}
+									index={exIndex}
+									weeksCount={weeksCount}
+									onUpdate={(idx, data) => onUpdateExercise(dayIndex, idx, data)}
+									onUpdateWeek={(idx, weekIndex, data) => onUpdateWeek(dayIndex, idx, weekIndex, data)}
+									onRemove={idx => onRemoveExercise(dayIndex, idx)}
+								/>
+							))}
+
+							{/* Przycisk dodaj ćwiczenie */}
+							<TouchableOpacity style={styles.addExerciseButton} onPress={() => onAddExercise(dayIndex)}>
+								<Ionicons name="add" size={20} color={colors.primary} />
+								<Text style={styles.addExerciseText}>Dodaj ćwiczenie</Text>
+							</TouchableOpacity>
+						</>
+					)}
+
+					{/* Usuń dzień */}
+					<TouchableOpacity style={styles.removeDayButton} onPress={() => onRemoveDay(dayIndex)}>
+						<Ionicons name="trash-outline" size={16} color={colors.error} />
+						<Text style={styles.removeDayText}>Usuń dzień</Text>
+					</TouchableOpacity>
+				</View>
+			)}
+		</View>
+	)
+}
+
+// ============================================
+// GŁÓWNY KOMPONENT
+// ============================================
+
+export default function TemplateFormScreen() {
+	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
+	const route = useRoute<TemplateFormRouteProp>()
+	const { templateId } = route.params
+	const isEditing = !!templateId
+	const { profile } = useAuth()
+
+	// Stan formularza
+	const [name, setName] = useState('')
+	const [description, setDescription] = useState('')
+	const [weeksCount, setWeeksCount] = useState(4)
+	const [templateDays, setTemplateDays] = useState<LocalTemplateDay[]>([])
+	const [isSubmitting, setIsSubmitting] = useState(false)
+
+	// Modal wyboru ćwiczenia
+	const [showExercisePicker, setShowExercisePicker] = useState(false)
+	const [selectedDayIndex, setSelectedDayIndex] = useState<number | null>(null)
+
+	// Dane
+	const { data: existingTemplate, isLoading: loadingTemplate } = useTemplateDetails(templateId)
+	const { data: exercises = [], isLoading: loadingExercises } = useExercises()
+	const createTemplate = useCreateTemplate()
+	const updateTemplate = useUpdateTemplate()
+
+	// ============================================
+	// INICJALIZACJA (edycja)
+	// ============================================
+
+	useEffect(() => {
+		if (existingTemplate) {
+			setName(existingTemplate.name)
+			setDescription(existingTemplate.description || '')
+			setWeeksCount(existingTemplate.weeks_count)
+
+			const days: LocalTemplateDay[] = existingTemplate.program_template_days.map(day => ({
+				day_of_week: day.day_of_week,
+				name: day.name || '',
+				is_rest_day: day.is_rest_day,
+				exercises: day.program_template_exercises.map(ex => ({
+					exercise: ex.exercise,
+					rest_seconds: ex.rest_seconds,
+					notes: ex.notes || undefined,
+					group_id: ex.group_id || undefined,
+					group_type: ex.group_type || undefined,
+					group_rounds: ex.group_rounds || undefined,
+					weeks: Array.from({ length: existingTemplate.weeks_count }, (_, i) => {
+						const params = getTemplateWeekParams(ex.program_template_exercise_weeks, i + 1)
+						return {
+							sets: params?.sets ?? 3,
+							reps: params?.reps ?? '10-12',
+							weight_kg: params?.weight_kg ?? undefined,
+						}
+					}),
+				})),
+			}))
+			setTemplateDays(days)
+		}
+	}, [existingTemplate])
+
+	// ============================================
+	// HANDLERS - TYGODNIE
+	// ============================================
+
+	const handleChangeWeeks = useCallback(
+		(delta: number) => {
+			const next = Math.min(MAX_WEEKS, Math.max(1, weeksCount + delta))
+			setWeeksCount(next)
+
+			// Nowe tygodnie dziedziczą parametry ostatniego
+			setTemplateDays(prev =>
+				prev.map(day => ({
+					...day,
+					exercises: day.exercises.map(ex => ({ ...ex, weeks: resizeWeeks(ex.weeks, next) })),
+				}))
+			)
+		},
+		[weeksCount]
+	)
+
+	// ============================================
+	// HANDLERS - DNI
+	// ============================================
+
+	const handleAddDay = useCallback(() => {
+		// Znajdź pierwszy wolny dzień tygodnia
+		const usedDays = templateDays.map(d => d.day_of_week)
+		const availableDays = [0, 1, 2, 3, 4, 5, 6].filter(d => !usedDays.includes(d))
+
+		if (availableDays.length === 0) {
+			Alert.alert('Uwaga', 'Wszystkie dni tygodnia są już dodane')
+			return
+		}
+
+		const newDay: LocalTemplateDay = {
+			day_of_week: availableDays[0],
+			name: '',
+			is_rest_day: false,
+			exercises: [],
+		}
+
+		setTemplateDays(prev => [...prev, newDay].sort((a, b) => a.day_of_week - b.day_of_week))
+	}, [templateDays])
+
+	const handleUpdateDay = useCallback((index: number, data: Partial<LocalTemplateDay>) => {
+		setTemplateDays(prev => {
+			const updated = [...prev]
+			updated[index] = { ...updated[index], ...data }
+			return updated
+		})
+	}, [])
+
+	const handleRemoveDay = useCallback((index: number) => {
+		Alert.alert('Usuń dzień', 'Czy na pewno chcesz usunąć ten dzień z programu?', [
+			{ text: 'Anuluj', style: 'cancel' },
+			{
+				text: 'Usuń',
+				style: 'destructive',
+				onPress: () => {
+					setTemplateDays(prev => prev.filter((_, i) => i !== index))
+				},
+			},
+		])
+	}, [])
+
+	// ============================================
+	// HANDLERS - ĆWICZENIA
+	// ============================================
+
+	const handleOpenExercisePicker = useCallback((dayIndex: number) => {
+		setSelectedDayIndex(dayIndex)
+		setShowExercisePicker(true)
+	}, [])
+
+	const handleSelectExercise = useCallback(
+		(exercise: Exercise) => {
+			if (selectedDayIndex === null) return
+
+			const newExercise: LocalTemplateExercise = {
+				exercise,
+				rest_seconds: exercise.rest_seconds || 60,
+				weeks: resizeWeeks([{ sets: 3, reps: exercise.typical_reps || '10-12' }], weeksCount),
+			}
+
+			setTemplateDays(prev => {
+				const updated = [...prev]
+				updated[selectedDayIndex] = {
+					...updated[selectedDayIndex],
+					exercises: [...updated[selectedDayIndex].exercises, newExercise],
+				}
+				return updated
+			})
+		},
+		[selectedDayIndex, weeksCount]
+	)
+
+	const handleUpdateExercise = useCallback(
+		(dayIndex: number, exIndex: number, data: Partial<LocalTemplateExercise>) => {
+			setTemplateDays(prev => {
+				const updated = [...prev]
+				const exercisesCopy = [...updated[dayIndex].exercises]
+				exercisesCopy[exIndex] = { ...exercisesCopy[exIndex], ...data }
+				updated[dayIndex] = { ...updated[dayIndex], exercises: exercisesCopy }
+				return updated
+			})
+		},
+		[]
+	)
+
+	const handleUpdateWeek = useCallback(
+		(dayIndex: number, exIndex: number, weekIndex: number, data: Partial<LocalWeekParams>) => {
+			setTemplateDays(prev => {
+				const updated = [...prev]
+				const exercisesCopy = [...updated[dayIndex].exercises]
+				const weeks = [...exercisesCopy[exIndex].weeks]
+				weeks[weekIndex] = { ...weeks[weekIndex], ...data }
+				exercisesCopy[exIndex] = { ...exercisesCopy[exIndex], weeks }
+				updated[dayIndex] = { ...updated[dayIndex], exercises: exercisesCopy }
+				return updated
+			})
+		},
+		[]
+	)
+
+	const handleRemoveExercise = useCallback((dayIndex: number, exIndex: number) => {
+		setTemplateDays(prev => {
+			const updated = [...prev]
+			updated[dayIndex] = {
+				...updated[dayIndex],
+				exercises: updated[dayIndex].exercises.filter((_, i) => i !== exIndex),
+			}
+			return updated
+		})
+	}, [])
+
+	// ============================================
+	// ZAPISYWANIE SZABLONU
+	// ============================================
+
+	const handleSave = useCallback(async () => {
+		if (!profile?.id) return
+
+		if (!name.trim()) {
+			Alert.alert('Uwaga', 'Podaj nazwę programu')
+			return
+		}
+
+		if (templateDays.length === 0) {
+			Alert.alert('Uwaga', 'Dodaj przynajmniej jeden dzień treningowy')
+			return
+		}
+
+		const emptyDays = templateDays.filter(d => !d.is_rest_day && d.exercises.length === 0)
+		if (emptyDays.length > 0) {
+			Alert.alert(
+				'Uwaga',
+				'Niektóre dni treningowe nie mają ćwiczeń. Dodaj ćwiczenia lub oznacz je jako dni odpoczynku.'
+			)
+			return
+		}
+
+		const input: SaveTemplateInput = {
+			name: name.trim(),
+			description: description.trim() || undefined,
+			weeks_count: weeksCount,
+			days: templateDays.map(day => ({
+				day_of_week: day.day_of_week,
+				name: day.name || undefined,
+				is_rest_day: day.is_rest_day,
+				exercises: day.exercises.map((ex, i) => ({
+					exercise_id: ex.exercise.id,
+					order_index: i,
+					rest_seconds: ex.rest_seconds,
+					notes: ex.notes,
+					group_id: ex.group_id,
+					group_type: ex.group_type,
+					group_rounds: ex.group_rounds,
+					weeks: ex.weeks.slice(0, weeksCount).map((week, weekIndex) => ({
+						week_number: weekIndex + 1,
+						sets: week.sets,
+						reps: week.reps,
+						weight_kg: week.weight_kg,
+					})),
+				})),
+			})),
+		}
+
+		setIsSubmitting(true)
+
+		try {
+			if (isEditing && templateId) {
+				await updateTemplate.mutateAsync({ templateId, input })
+			} else {
+				await createTemplate.mutateAsync(input)
+			}
+
+			Alert.alert('Sukces', isEditing ? 'Szablon został zaktualizowany' : 'Szablon został utworzony', [
+				{ text: 'OK', onPress: () => navigation.goBack() },
+			])
+		} catch (error: any) {
+			console.error('Błąd zapisu szablonu:', error)
+			Alert.alert('Błąd', error.message || 'Nie udało się zapisać szablonu')
+		} finally {
+			setIsSubmitting(false)
+		}
+	}, [
+		profile?.id,
+		name,
+		description,
+		weeksCount,
+		templateDays,
+		isEditing,
+		templateId,
+		createTemplate,
+		updateTemplate,
+		navigation,
+	])
+
+	// ============================================
+	// RENDER - LOADING
+	// ============================================
+
+	if (isEditing && loadingTemplate) {
+		return (
+			<SafeAreaView style={styles.container}>
+				<View style={styles.loadingContainer}>
+					<ActivityIndicator size="large" color={colors.primary} />
+				</View>
+			</SafeAreaView>
+		)
+	}
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	return (
+		<SafeAreaView style={styles.container} edges={['top']}>
+			{/* Header */}
+			<View style={styles.header}>
+				<TouchableOpacity onPress={() => navigation.goBack()}>
+					<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+				</TouchableOpacity>
+				<View style={styles.headerCenter}>
+					<Text style={styles.headerTitle}>{isEditing ? 'Edytuj szablon' : 'Nowy szablon'}</Text>
+				</View>
+				<TouchableOpacity onPress={handleSave} disabled={isSubmitting} style={styles.saveButton}>
+					{isSubmitting ? (
+						<ActivityIndicator size="small" color={colors.textOnPrimary} />
+					) : (
+						<Text style={styles.saveButtonText}>Zapisz</Text>
+					)}
+				</TouchableOpacity>
+			</View>
+
+			<ScrollView
+				style={styles.scrollView}
+				contentContainerStyle={styles.scrollContent}
+				showsVerticalScrollIndicator={false}>
+				{/* Nazwa i opis */}
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>Nazwa programu</Text>
+					<TextInput
+						style={styles.textInput}
+						value={name}
+						onChangeText={setName}
+						placeholder="np. Siła - 8 tygodni"
+						placeholderTextColor={colors.textDisabled}
+					/>
+					<TextInput
+						style={[styles.notesTextArea, styles.descriptionInput]}
+						value={description}
+						onChangeText={setDescription}
+						placeholder="Cel programu, dla kogo, uwagi..."
+						placeholderTextColor={colors.textDisabled}
+						multiline
+						numberOfLines={3}
+					/>
+				</View>
+
+				{/* Liczba tygodni */}
+				<View style={styles.section}>
+					<Text style={styles.sectionTitle}>Długość programu</Text>
+					<View style={styles.weekSelector}>
+						<TouchableOpacity style={styles.weekArrow} onPress={() => handleChangeWeeks(-1)}>
+							<Ionicons name="remove-circle-outline" size={28} color={colors.primary} />
+						</TouchableOpacity>
+						<View style={styles.weekDisplay}>
+							<Text style={styles.weekText}>{weeksCount} tyg.</Text>
+						</View>
+						<TouchableOpacity style={styles.weekArrow} onPress={() => handleChangeWeeks(1)}>
+							<Ionicons name="add-circle-outline" size={28} color={colors.primary} />
+						</TouchableOpacity>
+					</View>
+				</View>
+
+				{/* Dni treningowe */}
+				<View style={styles.section}>
+					<View style={styles.sectionHeader}>
+						<Text style={styles.sectionTitle}>Dni treningowe</Text>
+						<TouchableOpacity style={styles.addDayButton} onPress={handleAddDay}>
+							<Ionicons name="add" size={20} color={colors.textOnPrimary} />
+							<Text style={styles.addDayText}>Dodaj dzień</Text>
+						</TouchableOpacity>
+					</View>
+
+					{templateDays.length === 0 ? (
+						<View style={styles.emptyDays}>
+							<Ionicons name="calendar-outline" size={48} color={colors.textDisabled} />
+							<Text style={styles.emptyDaysText}>
+								Dni i ćwiczenia powtarzają się co tydzień, a parametry ustawisz dla każdego tygodnia osobno.
+							</Text>
+						</View>
+					) : (
+						templateDays.map((day, index) => (
+							<TemplateDayCard
+								key={`${day.day_of_week}-${index}`}
+								day={day}
+								dayIndex={index}
+								weeksCount={weeksCount}
+								onUpdateDay={handleUpdateDay}
+								onRemoveDay={handleRemoveDay}
+								onAddExercise={handleOpenExercisePicker}
+								onUpdateExercise={handleUpdateExercise}
+								onUpdateWeek={handleUpdateWeek}
+								onRemoveExercise={handleRemoveExercise}
+							/>
+						))
+					)}
+				</View>
+			</ScrollView>
+
+			{/* Modal wyboru ćwiczenia */}
+			<ExercisePickerModal
+				visible={showExercisePicker}
+				onClose={() => setShowExercisePicker(false)}
+				onSelect={handleSelectExercise}
+				exercises={exercises}
+				isLoading={loadingExercises}
+			/>
+		</SafeAreaView>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerCenter: {
+		flex: 1,
+		alignItems: 'center',
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	saveButton: {
+		backgroundColor: colors.primary,
+		paddingHorizontal: 16,
+		paddingVertical: 8,
+		borderRadius: 8,
+		minWidth: 70,
+		alignItems: 'center',
+	},
+	saveButtonText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+		fontSize: 14,
+	},
+	scrollView: {
+		flex: 1,
+	},
+	scrollContent: {
+		paddingBottom: 40,
+	},
+	section: {
+		padding: 16,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	sectionHeader: {
+		flexDirection: 'row',
+		justifyContent: 'space-between',
+		alignItems: 'center',
+		marginBottom: 12,
+	},
+	sectionTitle: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 12,
+	},
+	textInput: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		paddingHorizontal: 14,
+		paddingVertical: 12,
+		fontSize: 15,
+		color: colors.textPrimary,
+	},
+	notesTextArea: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		fontSize: 15,
+		color: colors.textPrimary,
+		minHeight: 80,
+		textAlignVertical: 'top',
+	},
+	descriptionInput: {
+		marginTop: 10,
+	},
+	weekSelector: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	weekArrow: {
+		padding: 8,
+	},
+	weekDisplay: {
+		backgroundColor: colors.surface,
+		paddingHorizontal: 24,
+		paddingVertical: 12,
+		borderRadius: 12,
+		marginHorizontal: 12,
+		minWidth: 100,
+		alignItems: 'center',
+	},
+	weekText: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	addDayButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.primary,
+		paddingHorizontal: 14,
+		paddingVertical: 8,
+		borderRadius: 8,
+		gap: 6,
+	},
+	addDayText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+		fontSize: 13,
+	},
+	emptyDays: {
+		alignItems: 'center',
+		paddingVertical: 40,
+	},
+	emptyDaysText: {
+		color: colors.textDisabled,
+		fontSize: 14,
+		textAlign: 'center',
+		marginTop: 12,
+		maxWidth: 260,
+	},
+	dayCard: {
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		marginBottom: 12,
+		overflow: 'hidden',
+	},
+	dayHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		padding: 14,
+		backgroundColor: colors.surface,
+	},
+	dayHeaderLeft: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		flex: 1,
+	},
+	dayBadge: {
+		backgroundColor: colors.primary,
+		paddingHorizontal: 10,
+		paddingVertical: 4,
+		borderRadius: 6,
+		marginRight: 10,
+	},
+	restDayBadge: {
+		backgroundColor: colors.textDisabled,
+	},
+	dayBadgeText: {
+		color: colors.textOnPrimary,
+		fontWeight: '600',
+		fontSize: 12,
+	},
+	dayNameInput: {
+		flex: 1,
+		fontSize: 15,
+		color: colors.textPrimary,
+		paddingVertical: 0,
+	},
+	dayHeaderRight: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+	},
+	exerciseCount: {
+		fontSize: 13,
+		color: colors.textSecondary,
+	},
+	dayContent: {
+		padding: 14,
+		paddingTop: 0,
+		borderTopWidth: 1,
+		borderTopColor: colors.background,
+	},
+	restDayToggle: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		paddingVertical: 10,
+	},
+	checkbox: {
+		width: 22,
+		height: 22,
+		borderRadius: 6,
+		borderWidth: 2,
+		borderColor: colors.textSecondary,
+		marginRight: 10,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	checkboxChecked: {
+		backgroundColor: colors.primary,
+		borderColor: colors.primary,
+	},
+	restDayText: {
+		fontSize: 14,
+		color: colors.textSecondary,
+	},
+	exerciseCard: {
+		backgroundColor: colors.background,
+		borderRadius: 10,
+		padding: 12,
+		marginTop: 10,
+	},
+	exerciseHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		marginBottom: 10,
+	},
+	exerciseOrderBadge: {
+		width: 24,
+		height: 24,
+		borderRadius: 12,
+		backgroundColor: colors.primary + '30',
+		justifyContent: 'center',
+		alignItems: 'center',
+		marginRight: 10,
+	},
+	exerciseOrderText: {
+		color: colors.primary,
+		fontSize: 12,
+		fontWeight: '600',
+	},
+	exerciseCardName: {
+		flex: 1,
+		fontSize: 14,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	weekRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		marginBottom: 6,
+	},
+	weekLabel: {
+		width: 40,
+		fontSize: 12,
+		fontWeight: '600',
+		color: colors.textSecondary,
+	},
+	weekCell: {
+		flex: 1,
+		textAlign: 'center',
+	},
+	paramLabel: {
+		fontSize: 11,
+		color: colors.textDisabled,
+	},
+	paramInput: {
+		backgroundColor: colors.surface,
+		borderRadius: 6,
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		fontSize: 14,
+		color: colors.textPrimary,
+		textAlign: 'center',
+	},
+	copyWeekButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		alignSelf: 'flex-start',
+		paddingVertical: 6,
+		gap: 6,
+	},
+	copyWeekText: {
+		fontSize: 12,
+		color: colors.primary,
+	},
+	restRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		marginTop: 8,
+	},
+	restInput: {
+		width: 80,
+	},
+	notesInput: {
+		backgroundColor: colors.surface,
+		borderRadius: 6,
+		paddingHorizontal: 10,
+		paddingVertical: 8,
+		fontSize: 13,
+		color: colors.textPrimary,
+		marginTop: 10,
+	},
+	addExerciseButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		paddingVertical: 12,
+		marginTop: 10,
+		borderWidth: 1,
+		borderColor: colors.primary,
+		borderStyle: 'dashed',
+		borderRadius: 8,
+		gap: 6,
+	},
+	addExerciseText: {
+		color: colors.primary,
+		fontSize: 14,
+		fontWeight: '500',
+	},
+	removeDayButton: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+		paddingVertical: 10,
+		marginTop: 10,
+		gap: 6,
+	},
+	removeDayText: {
+		color: colors.error,
+		fontSize: 13,
+	},
+	// Modal styles
+	modalContainer: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	modalHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 14,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	modalTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	searchContainer: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		margin: 16,
+		paddingHorizontal: 14,
+		height: 48,
+	},
+	searchInput: {
+		flex: 1,
+		fontSize: 16,
+		color: colors.textPrimary,
+		marginLeft: 10,
+	},
+	exerciseList: {
+		paddingHorizontal: 16,
+		paddingBottom: 40,
+	},
+	exerciseItem: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 8,
+	},
+	exerciseInfo: {
+		flex: 1,
+	},
+	exerciseName: {
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	exerciseCategory: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	emptyText: {
+		color: colors.textSecondary,
+		textAlign: 'center',
+		marginTop: 40,
+	},
+})
@@ -0,0 +1,579 @@
+/**
+ * TemplateLibraryScreen - Biblioteka szablonów programów
+ *
+ * Trener zarządza wielotygodniowymi programami:
+ * - Lista szablonów (liczba tygodni i dni treningowych)
+ * - Tworzenie / edycja szablonu
+ * - Przypisanie programu klientowi od wybranego tygodnia
+ */
+
+import React, { useState, useCallback } from 'react'
+import {
+	View,
+	Text,
+	FlatList,
+	TouchableOpacity,
+	RefreshControl,
+	StyleSheet,
+	Alert,
+	ActivityIndicator,
+	Modal,
+} from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import { Ionicons } from '@expo/vector-icons'
+import { useNavigation } from '@react-navigation/native'
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack'
+import { useAuth } from '../../context/AuthContext'
+import {
+	useTrainerTemplates,
+	useDeleteTemplate,
+	useAssignTemplate,
+	type ProgramTemplateSummary,
+} from '../../api/services/programTemplates'
+import { useTrainerClients } from '../../api/services/clients'
+import { getWeekDates } from '../../api/services/trainingPlans'
+import { colors } from '../../theme/colors'
+import type { AppStackParamList } from '../../navigation/AppNavigator'
+
+// ============================================
+// HELPERY
+// ============================================
+
+const formatDate = (dateStr: string) => {
+	const date = new Date(dateStr)
+	return date.toLocaleDateString('pl-PL', { day: 'numeric', month: 'short' })
+}
+
+const shiftDate = (dateStr: string, days: number) => {
+	const date = new Date(dateStr)
+	date.setDate(date.getDate() + days)
+	return date.toISOString().split('T')[0]
+}
+
+// ============================================
+// KOMPONENT KARTY SZABLONU
+// ============================================
+
+interface TemplateCardProps {
+	template: ProgramTemplateSummary
+	onPress: () => void
+	onAssign: () => void
+	onDelete: () => void
+}
+
+function TemplateCard({ template, onPress, onAssign, onDelete }: TemplateCardProps) {
+	const trainingDays = template.program_template_days.filter(day => !day.is_rest_day).length
+
+	return (
+		<TouchableOpacity style={styles.templateCard} onPress={onPress} activeOpacity={0.7}>
+			<View style={styles.templateIcon}>
+				<Ionicons name="albums" size={22} color={colors.primary} />
+			</View>
+
+			<View style={styles.templateInfo}>
+				<Text style={styles.templateName} numberOfLines={1}>
+					{template.name}
+				</Text>
+				{template.description ? (
+					<Text style={styles.templateDescription} numberOfLines={1}>
+						{template.description}
+					</Text>
+				) : null}
+				<Text style={styles.templateMeta}>
+					{template.weeks_count} tyg. • {trainingDays} dni treningowe
+				</Text>
+			</View>
+
+			<View style={styles.templateActions}>
+				<TouchableOpacity style={styles.assignButton} onPress={onAssign}>
+					<Ionicons name="person-add" size={16} color={colors.textOnPrimary} />
+				</TouchableOpacity>
+				<TouchableOpacity style={styles.deleteButton} onPress={onDelete}>
+					<Ionicons name="trash-outline" size={18} color={colors.error} />
+				</TouchableOpacity>
+			</View>
+		</TouchableOpacity>
+	)
+}
+
+// ============================================
+// MODAL PRZYPISANIA DO KLIENTA
+// ============================================
+
+interface AssignTemplateModalProps {
+	template: ProgramTemplateSummary | null
+	onClose: () => void
+}
+
+function AssignTemplateModal({ template, onClose }: AssignTemplateModalProps) {
+	const { profile } = useAuth()
+	const { data: clients = [], isLoading: loadingClients } = useTrainerClients(profile?.id || '')
+	const assignTemplate = useAssignTemplate()
+
+	const [selectedClientId, setSelectedClientId] = useState<string | null>(null)
+	const [startDate, setStartDate] = useState(() => getWeekDates(new Date()).weekStart)
+
+	const weeksCount = template?.weeks_count || 1
+	const endDate = shiftDate(startDate, weeksCount * 7 - 1)
+
+	const handleClose = useCallback(() => {
+		setSelectedClientId(null)
+		onClose()
+	}, [onClose])
+
+	const handleAssign = useCallback(async () => {
+		if (!template || !selectedClientId) return
+
+		try {
+			const plans = await assignTemplate.mutateAsync({
+				templateId: template.id,
+				input: { client_id: selectedClientId, start_date: startDate },
+			})
+
+			Alert.alert('Sukces', `Utworzono ${plans.length} planów tygodniowych`, [{ text: 'OK', onPress: handleClose }])
+		} catch (error: any) {
+			console.error('Błąd przypisania szablonu:', error)
+			Alert.alert('Błąd', error.message || 'Nie udało się przypisać programu')
+		}
+	}, [template, selectedClientId, startDate, assignTemplate, handleClose])
+
+	return (
+		<Modal visible={!!template} animationType="slide" presentationStyle="pageSheet" onRequestClose={handleClose}>
+			<SafeAreaView style={styles.modalContainer}>
+				{/* Header */}
+				<View style={styles.modalHeader}>
+					<View style={styles.modalHeaderText}>
+						<Text style={styles.modalTitle}>Przypisz program</Text>
+						<Text style={styles.modalSubtitle} numberOfLines={1}>
+							{template?.name}
+						</Text>
+					</View>
+					<TouchableOpacity onPress={handleClose}>
+						<Ionicons name="close" size={28} color={colors.textPrimary} />
+					</TouchableOpacity>
+				</View>
+
+				{/* Tydzień startowy */}
+				<View style={styles.modalSection}>
+					<Text style={styles.sectionTitle}>Start programu</Text>
+					<View style={styles.weekSelector}>
+						<TouchableOpacity style={styles.weekArrow} onPress={() => setStartDate(shiftDate(startDate, -7))}>
+							<Ionicons name="chevron-back" size={24} color={colors.primary} />
+						</TouchableOpacity>
+						<View style={styles.weekDisplay}>
+							<Text style={styles.weekText}>
+								{formatDate(startDate)} - {formatDate(endDate)}
+							</Text>
+							<Text style={styles.weekSubtext}>{weeksCount} tyg.</Text>
+						</View>
+						<TouchableOpacity style={styles.weekArrow} onPress={() => setStartDate(shiftDate(startDate, 7))}>
+							<Ionicons name="chevron-forward" size={24} color={colors.primary} />
+						</TouchableOpacity>
+					</View>
+					<Text style={styles.hintText}>
+						Aktywne plany klienta zaczynające się w tych tygodniach zostaną zastąpione.
+					</Text>
+				</View>
+
+				{/* Wybór klienta */}
+				<Text style={[styles.sectionTitle, styles.modalListTitle]}>Klient</Text>
+				{loadingClients ? (
+					<ActivityIndicator size="large" color={colors.primary} style={{ marginTop: 40 }} />
+				) : (
+					<FlatList
+						data={clients}
+						keyExtractor={item => item.id}
+						contentContainerStyle={styles.clientList}
+						renderItem={({ item }) => {
+							const isSelected = item.id === selectedClientId
+							return (
+								<TouchableOpacity
+									style={[styles.clientItem, isSelected && styles.clientItemSelected]}
+									onPress={() => setSelectedClientId(item.id)}>
+									<View style={[styles.radio, isSelected && styles.radioSelected]}>
+										{isSelected && <View style={styles.radioDot} />}
+									</View>
+									<Text style={styles.clientName}>
+										{item.first_name} {item.last_name}
+									</Text>
+								</TouchableOpacity>
+							)
+						}}
+						ListEmptyComponent={<Text style={styles.emptyText}>Brak klientów</Text>}
+					/>
+				)}
+
+				{/* Zatwierdź */}
+				<View style={styles.modalFooter}>
+					<TouchableOpacity
+						style={[styles.primaryButton, (!selectedClientId || assignTemplate.isPending) && styles.buttonDisabled]}
+						onPress={handleAssign}
+						disabled={!selectedClientId || assignTemplate.isPending}>
+						{assignTemplate.isPending ? (
+							<ActivityIndicator size="small" color={colors.textOnPrimary} />
+						) : (
+							<Text style={styles.primaryButtonText}>Przypisz program</Text>
+						)}
+					</TouchableOpacity>
+				</View>
+			</SafeAreaView>
+		</Modal>
+	)
+}
+
+// ============================================
+// GŁÓWNY KOMPONENT
+// ============================================
+
+export default function TemplateLibraryScreen() {
+	const navigation = useNavigation<NativeStackNavigationProp<AppStackParamList>>()
+	const { profile } = useAuth()
+
+	const { data: templates = [], isLoading, isRefetching, refetch } = useTrainerTemplates(profile?.id || '')
+	const deleteTemplate = useDeleteTemplate()
+
+	const [assignTarget, setAssignTarget] = useState<ProgramTemplateSummary | null>(null)
+
+	// ============================================
+	// HANDLERS
+	// ============================================
+
+	const handleDelete = useCallback(
+		(template: ProgramTemplateSummary) => {
+			Alert.alert(
+				'Usuń szablon',
+				`Czy na pewno chcesz usunąć "${template.name}"? Plany już przypisane klientom pozostaną bez zmian.`,
+				[
+					{ text: 'Anuluj', style: 'cancel' },
+					{
+						text: 'Usuń',
+						style: 'destructive',
+						onPress: async () => {
+							try {
+								await deleteTemplate.mutateAsync(template.id)
+							} catch (error: any) {
+								Alert.alert('Błąd', error.message || 'Nie udało się usunąć szablonu')
+							}
+						},
+					},
+				]
+			)
+		},
+		[deleteTemplate]
+	)
+
+	// ============================================
+	// RENDER
+	// ============================================
+
+	return (
+		<SafeAreaView style={styles.container} edges={['top']}>
+			{/* Header */}
+			<View style={styles.header}>
+				<TouchableOpacity onPress={() => navigation.goBack()}>
+					<Ionicons name="arrow-back" size={24} color={colors.textPrimary} />
+				</TouchableOpacity>
+				<View style={styles.headerCenter}>
+					<Text style={styles.headerTitle}>Szablony programów</Text>
+					<Text style={styles.headerSubtitle}>{templates.length} szablonów</Text>
+				</View>
+				<TouchableOpacity onPress={() => navigation.navigate('TemplateForm', {})}>
+					<Ionicons name="add" size={28} color={colors.primary} />
+				</TouchableOpacity>
+			</View>
+
+			{isLoading ? (
+				<View style={styles.loadingContainer}>
+					<ActivityIndicator size="large" color={colors.primary} />
+				</View>
+			) : (
+				<FlatList
+					data={templates}
+					keyExtractor={item => item.id}
+					renderItem={({ item }) => (
+						<TemplateCard
+							template={item}
+							onPress={() => navigation.navigate('TemplateForm', { templateId: item.id })}
+							onAssign={() => setAssignTarget(item)}
+							onDelete={() => handleDelete(item)}
+						/>
+					)}
+					contentContainerStyle={styles.listContent}
+					showsVerticalScrollIndicator={false}
+					refreshControl={
+						<RefreshControl
+							refreshing={isRefetching}
+							onRefresh={refetch}
+							tintColor={colors.primary}
+							colors={[colors.primary]}
+						/>
+					}
+					ListEmptyComponent={
+						<View style={styles.emptyContainer}>
+							<Ionicons name="albums-outline" size={64} color={colors.textSecondary} />
+							<Text style={styles.emptyTitle}>Brak szablonów</Text>
+							<Text style={styles.emptySubtitle}>
+								Zbuduj program raz i przypisuj go kolejnym klientom
+							</Text>
+						</View>
+					}
+				/>
+			)}
+
+			<AssignTemplateModal template={assignTarget} onClose={() => setAssignTarget(null)} />
+		</SafeAreaView>
+	)
+}
+
+// ============================================
+// STYLE
+// ============================================
+
+const styles = StyleSheet.create({
+	container: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	loadingContainer: {
+		flex: 1,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	header: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	headerCenter: {
+		flex: 1,
+		alignItems: 'center',
+	},
+	headerTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	headerSubtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	listContent: {
+		padding: 16,
+		paddingBottom: 40,
+	},
+	templateCard: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 10,
+	},
+	templateIcon: {
+		width: 44,
+		height: 44,
+		borderRadius: 22,
+		backgroundColor: colors.primary + '25',
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	templateInfo: {
+		flex: 1,
+		marginLeft: 12,
+	},
+	templateName: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	templateDescription: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	templateMeta: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		marginTop: 4,
+	},
+	templateActions: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		marginLeft: 8,
+	},
+	assignButton: {
+		width: 32,
+		height: 32,
+		borderRadius: 16,
+		backgroundColor: colors.primary,
+		justifyContent: 'center',
+		alignItems: 'center',
+	},
+	deleteButton: {
+		padding: 4,
+	},
+	emptyContainer: {
+		alignItems: 'center',
+		justifyContent: 'center',
+		paddingVertical: 60,
+	},
+	emptyTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginTop: 16,
+	},
+	emptySubtitle: {
+		fontSize: 14,
+		color: colors.textSecondary,
+		marginTop: 4,
+		textAlign: 'center',
+		maxWidth: 260,
+	},
+	// Modal styles
+	modalContainer: {
+		flex: 1,
+		backgroundColor: colors.background,
+	},
+	modalHeader: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'space-between',
+		paddingHorizontal: 16,
+		paddingVertical: 14,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	modalHeaderText: {
+		flex: 1,
+		marginRight: 12,
+	},
+	modalTitle: {
+		fontSize: 18,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	modalSubtitle: {
+		fontSize: 13,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	modalSection: {
+		padding: 16,
+		borderBottomWidth: 1,
+		borderBottomColor: colors.surface,
+	},
+	modalListTitle: {
+		paddingHorizontal: 16,
+		paddingTop: 16,
+	},
+	sectionTitle: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+		marginBottom: 12,
+	},
+	weekSelector: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	weekArrow: {
+		padding: 8,
+	},
+	weekDisplay: {
+		backgroundColor: colors.surface,
+		paddingHorizontal: 24,
+		paddingVertical: 10,
+		borderRadius: 12,
+		marginHorizontal: 12,
+		alignItems: 'center',
+	},
+	weekText: {
+		fontSize: 16,
+		fontWeight: '600',
+		color: colors.textPrimary,
+	},
+	weekSubtext: {
+		fontSize: 12,
+		color: colors.textSecondary,
+		marginTop: 2,
+	},
+	hintText: {
+		fontSize: 12,
+		color: colors.textDisabled,
+		textAlign: 'center',
+		marginTop: 10,
+	},
+	clientList: {
+		paddingHorizontal: 16,
+		paddingBottom: 20,
+	},
+	clientItem: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		backgroundColor: colors.surface,
+		borderRadius: 12,
+		padding: 14,
+		marginBottom: 8,
+		borderWidth: 1,
+		borderColor: 'transparent',
+	},
+	clientItemSelected: {
+		borderColor: colors.primary,
+	},
+	radio: {
+		width: 22,
+		height: 22,
+		borderRadius: 11,
+		borderWidth: 2,
+		borderColor: colors.textSecondary,
+		justifyContent: 'center',
+		alignItems: 'center',
+		marginRight: 12,
+	},
+	radioSelected: {
+		borderColor: colors.primary,
+	},
+	radioDot: {
+		width: 10,
+		height: 10,
+		borderRadius: 5,
+		backgroundColor: colors.primary,
+	},
+	clientName: {
+		fontSize: 15,
+		fontWeight: '500',
+		color: colors.textPrimary,
+	},
+	emptyText: {
+		color: colors.textSecondary,
+		textAlign: 'center',
+		marginTop: 40,
+	},
+	modalFooter: {
+		padding: 16,
+		borderTopWidth: 1,
+		borderTopColor: colors.surface,
+	},
+	primaryButton: {
+		backgroundColor: colors.primary,
+		borderRadius: 12,
+		paddingVertical: 14,
+		alignItems: 'center',
+	},
+	primaryButtonText: {
+		color: colors.textOnPrimary,
+		fontSize: 16,
+		fontWeight: '600',
+	},
+	buttonDisabled: {
+		opacity: 0.5,
+	},
+})
@@ -23,6 +23,7 @@ import { useClientsTodayStatus, type ClientTodayStatus, type TodayWorkoutStatus
 import { colors } from '../../theme/colors'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 import MessageBadge from '../../components/common/MessageBadge'
+import NotificationBadge from '../../components/common/NotificationBadge'
 
 // ============================================
 // MAPOWANIA STATUSÓW
@@ -66,13 +67,16 @@ interface ClientCardProps {
 }
 
 function ClientCard({ item, onPress }: ClientCardProps) {
-	const { client, status, workout_name, completed_at } = item
+	const { client, status, workout_name, completed_at, started_at } = item
 	const config = statusConfig[status]
 
-	// Formatuj godzinę ukończenia
+	// Formatuj godzinę ukończenia / rozpoczęcia
 	const completedTime = completed_at
 		? new Date(completed_at).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })
 		: null
+	const startedTime = started_at
+		? new Date(started_at).toLocaleTimeString('pl-PL', { hour: '2-digit', minute: '2-digit' })
+		: null
 
 	return (
 		<TouchableOpacity style={styles.clientCard} onPress={onPress} activeOpacity={0.7}>
@@ -99,7 +103,11 @@ function ClientCard({ item, onPress }: ClientCardProps) {
 				<View style={[styles.statusBadge, { backgroundColor: config.color + '20' }]}>
 					<Ionicons name={config.icon as any} size={16} color={config.color} />
 					<Text style={[styles.statusText, { color: config.color }]}>
-						{status === 'completed' && completedTime ? completedTime : config.label}
+						{status === 'completed' && completedTime
+							? completedTime
+							: status === 'in_progress' && startedTime
+								? `Od ${startedTime}`
+								: config.label}
 					</Text>
 				</View>
 			</View>
@@ -124,11 +132,12 @@ export default function TrainerDashboardScreen() {
 
 	// Oblicz statystyki
 	const stats = useMemo(() => {
-		if (!clientsStatus) return { total: 0, completed: 0, notStarted: 0, restDay: 0 }
+		if (!clientsStatus) return { total: 0, completed: 0, inProgress: 0, notStarted: 0, restDay: 0 }
 
 		return {
 			total: clientsStatus.length,
 			completed: clientsStatus.filter((c) => c.status === 'completed').length,
+			inProgress: clientsStatus.filter((c) => c.status === 'in_progress').length,
 			notStarted: clientsStatus.filter((c) => c.status === 'not_started').length,
 			restDay: clientsStatus.filter((c) => c.status === 'rest_day').length,
 		}
@@ -175,8 +184,13 @@ export default function TrainerDashboardScreen() {
 					<Text style={styles.greeting}>Cześć, {profile?.first_name}! 👋</Text>
 					<Text style={styles.dateText}>{today}</Text>
 				</View>
-				<View style={styles.notificationButton}>
-					<MessageBadge navigateToList />
+				<View style={styles.headerRight}>
+					<View style={styles.notificationButton}>
+						<NotificationBadge />
+					</View>
+					<View style={styles.notificationButton}>
+						<MessageBadge navigateToList />
+					</View>
 				</View>
 			</View>
 
@@ -190,6 +204,10 @@ export default function TrainerDashboardScreen() {
 					<Text style={[styles.statValue, { color: colors.success }]}>{stats.completed}</Text>
 					<Text style={styles.statLabel}>Ukończone</Text>
 				</View>
+				<View style={[styles.statCard, { backgroundColor: colors.primary + '15' }]}>
+					<Text style={[styles.statValue, { color: colors.primaryLight }]}>{stats.inProgress}</Text>
+					<Text style={styles.statLabel}>W trakcie</Text>
+				</View>
 				<View style={[styles.statCard, { backgroundColor: colors.warning + '15' }]}>
 					<Text style={[styles.statValue, { color: colors.warning }]}>{stats.notStarted}</Text>
 					<Text style={styles.statLabel}>Czekają</Text>
@@ -274,6 +292,11 @@ const styles = StyleSheet.create({
 		marginTop: 4,
 		textTransform: 'capitalize',
 	},
+	headerRight: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+	},
 	notificationButton: {
 		width: 44,
 		height: 44,
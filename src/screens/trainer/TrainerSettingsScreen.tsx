@@ -27,8 +27,15 @@ import { useAuth } from '../../context/AuthContext'
 import { useTrainerClients } from '../../api/services/clients'
 import { useTrainerPlans } from '../../api/services/trainingPlans'
 import { useExercises } from '../../api/services/exercises'
+import {
+	useNotificationPreferences,
+	useUpdateNotificationPreferences,
+	isCategoryEnabled,
+	DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../../api/services/notificationPreferences'
 import { supabase } from '../../api/supabase'
 import { colors } from '../../theme/colors'
+import QuietHoursPicker from '../../components/common/QuietHoursPicker'
 import type { AppStackParamList } from '../../navigation/AppNavigator'
 
 // ============================================
@@ -369,10 +376,12 @@ export default function TrainerSettingsScreen() {
 	const { data: plans = [] } = useTrainerPlans(profile?.id || '')
 	const { data: exercises = [] } = useExercises()
 
+	// Preferencje powiadomień (zapisywane w bazie)
+	const { data: notificationPreferences } = useNotificationPreferences(currentUser?.id)
+	const updatePreferences = useUpdateNotificationPreferences(currentUser?.id || '')
+	const preferences = notificationPreferences || DEFAULT_NOTIFICATION_PREFERENCES
+
 	// Stan
-	const [notificationsEnabled, setNotificationsEnabled] = useState(true)
-	const [emailNotifications, setEmailNotifications] = useState(true)
-	const [clientUpdates, setClientUpdates] = useState(true)
 	const [isLoggingOut, setIsLoggingOut] = useState(false)
 	const [showPasswordModal, setShowPasswordModal] = useState(false)
 	const [showProfileModal, setShowProfileModal] = useState(false)
@@ -652,6 +661,13 @@ export default function TrainerSettingsScreen() {
 						value={`${stats.totalExercises}`}
 						onPress={handleManageExercises}
 					/>
+					<SettingsOption
+						icon="albums"
+						iconColor={colors.primary}
+						label="Szablony programów"
+						description="Wielotygodniowe programy do przypisania"
+						onPress={() => navigation.navigate('TemplateLibrary')}
+					/>
 					<SettingsOption
 						icon="download"
 						iconColor={colors.success}
@@ -670,26 +686,60 @@ export default function TrainerSettingsScreen() {
 						label="Powiadomienia push"
 						description="Wiadomości, aktualizacje"
 						isSwitch
-						switchValue={notificationsEnabled}
-						onSwitchChange={setNotificationsEnabled}
+						switchValue={preferences.push_enabled}
+						onSwitchChange={value => updatePreferences.mutate({ push_enabled: value })}
+					/>
+					<SettingsOption
+						icon="chatbubbles"
+						iconColor={colors.primary}
+						label="Wiadomości"
+						description="Nowe wiadomości od klientów"
+						isSwitch
+						switchValue={isCategoryEnabled(preferences, 'messages')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { messages: value } })}
 					/>
 					<SettingsOption
 						icon="fitness"
 						iconColor={colors.success}
 						label="Ukończone treningi"
-						description="Gdy klient ukończy trening"
+						description="Gdy klient ukończy lub skomentuje trening"
 						isSwitch
-						switchValue={clientUpdates}
-						onSwitchChange={setClientUpdates}
+						switchValue={isCategoryEnabled(preferences, 'workouts')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { workouts: value } })}
 					/>
+					<SettingsOption
+						icon="person-add"
+						iconColor={colors.warning}
+						label="Nowi klienci"
+						description="Gdy klient dołączy do Twojej listy"
+						isSwitch
+						switchValue={isCategoryEnabled(preferences, 'clients')}
+						onSwitchChange={value => updatePreferences.mutate({ categories: { clients: value } })}
+					/>
+					<SettingsOption
+						icon="moon"
+						iconColor={colors.textSecondary}
+						label="Cisza nocna"
+						description="Bez powiadomień push w wybranych godzinach"
+						isSwitch
+						switchValue={preferences.quiet_hours_enabled}
+						onSwitchChange={value => updatePreferences.mutate({ quiet_hours_enabled: value })}
+					/>
+					{preferences.quiet_hours_enabled && (
+						<QuietHoursPicker
+							start={preferences.quiet_hours_start}
+							end={preferences.quiet_hours_end}
+							onChange={(start, end) => updatePreferences.mutate({ quiet_hours_start: start, quiet_hours_end: end })}
+						/>
+					)}
 					<SettingsOption
 						icon="mail"
 						iconColor={colors.textSecondary}
 						label="Powiadomienia email"
 						description="Podsumowania tygodniowe"
 						isSwitch
-						switchValue={emailNotifications}
-						onSwitchChange={setEmailNotifications}
+						switchValue={preferences.email_enabled}
+						onSwitchChange={value => updatePreferences.mutate({ email_enabled: value })}
 						isLast
 					/>
 				</SettingsSection>
@@ -1,13 +1,15 @@
 /**
  * Serwis powiadomień push
  *
- * Zarządza rejestracją tokenów i wysyłaniem powiadomień.
+ * Zarządza rejestracją tokenów i zapisem powiadomień.
+ * Wysyłka push odbywa się na serwerze (push_outbox + scripts/push-worker.js).
  */
 
 import * as Notifications from 'expo-notifications'
 import * as Device from 'expo-device'
 import { Platform } from 'react-native'
 import { supabase } from '../api/supabase'
+import type { NotificationCategory } from '../types'
 
 // ============================================
 // KONFIGURACJA POWIADOMIEŃ
@@ -149,66 +151,59 @@ export async function sendLocalNotification(notification: PushNotificationData):
 }
 
 /**
- * Wyślij powiadomienie push do użytkownika
- * UWAGA: W produkcji powinno to być wywołane z backendu!
+ * Zaplanuj lokalne powiadomienie o końcu odpoczynku
+ * Zwraca ID powiadomienia (do anulowania) lub null gdy brak uprawnień
  */
-export async function sendPushNotification(
-	expoPushToken: string,
-	notification: PushNotificationData
-): Promise<boolean> {
-	const message = {
-		to: expoPushToken,
-		sound: 'default',
-		title: notification.title,
-		body: notification.body,
-		data: notification.data || {},
-	}
-
+export async function scheduleRestEndNotification(seconds: number, exerciseName?: string): Promise<string | null> {
 	try {
-		const response = await fetch('https://exp.host/--/api/v2/push/send', {
-			method: 'POST',
-			headers: {
-				Accept: 'application/json',
-				'Accept-encoding': 'gzip, deflate',
-				'Content-Type': 'application/json',
+		const { status } = await Notifications.getPermissionsAsync()
+		if (status !== 'granted') return null
+
+		return await Notifications.scheduleNotificationAsync({
+			content: {
+				title: 'Koniec odpoczynku ⏱️',
+				body: exerciseName ? `Czas na kolejną serię: ${exerciseName}` : 'Czas na kolejną serię',
+				data: { type: NotificationTypes.REST_FINISHED },
+				sound: 'default',
+			},
+			trigger: {
+				type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+				seconds: Math.max(1, Math.round(seconds)),
 			},
-			body: JSON.stringify(message),
 		})
+	} catch (error) {
+		console.warn('Błąd planowania powiadomienia o odpoczynku:', error)
+		return null
+	}
+}
 
-		return response.ok
+/**
+ * Anuluj zaplanowane powiadomienie lokalne
+ */
+export async function cancelScheduledNotification(notificationId: string): Promise<void> {
+	try {
+		await Notifications.cancelScheduledNotificationAsync(notificationId)
 	} catch (error) {
-		console.error('Błąd wysyłania push notification:', error)
-		return false
+		console.warn('Błąd anulowania powiadomienia:', error)
 	}
 }
 
 /**
  * Wyślij powiadomienie do użytkownika (po user_id)
+ * Powiadomienie trafia do centrum powiadomień (RPC create_notification - tylko
+ * do trenera, klienta albo rozmówcy zalogowanego użytkownika).
+ * Push wysyła serwer: trigger w bazie sprawdza preferencje odbiorcy i dodaje
+ * wiadomości do push_outbox, a worker (scripts/push-worker.js) wysyła je do Expo.
  */
 export async function notifyUser(userId: string, notification: PushNotificationData): Promise<void> {
-	// Pobierz tokeny użytkownika
-	const { data: tokens } = await supabase
-		.from('notification_tokens')
-		.select('expo_push_token')
-		.eq('user_id', userId)
-		.eq('is_active', true)
-
-	if (!tokens || tokens.length === 0) {
-		console.log('Brak aktywnych tokenów dla użytkownika:', userId)
-		return
-	}
-
-	// Wyślij do wszystkich urządzeń użytkownika
-	await Promise.all(tokens.map(t => sendPushNotification(t.expo_push_token, notification)))
-
-	// Zapisz w tabeli notifications
-	await supabase.from('notifications').insert({
-		user_id: userId,
-		title: notification.title,
-		message: notification.body,
-		type: 'push',
-		data: notification.data || {},
+	const { error } = await supabase.rpc('create_notification', {
+		p_user_id: userId,
+		p_type: notification.data?.type || 'general',
+		p_title: notification.title,
+		p_body: notification.body,
+		p_data: notification.data || {},
 	})
+	if (error) console.warn('Błąd zapisu powiadomienia:', error)
 }
 
 // ============================================
@@ -218,9 +213,12 @@ export async function notifyUser(userId: string, notification: PushNotificationD
 export const NotificationTypes = {
 	// Wiadomości
 	NEW_MESSAGE: 'new_message',
+	BROADCAST: 'broadcast',
 	// Treningi
 	WORKOUT_REMINDER: 'workout_reminder',
 	WORKOUT_COMPLETED: 'workout_completed',
+	WORKOUT_COMMENT: 'workout_comment',
+	REST_FINISHED: 'rest_finished',
 	// Plany
 	NEW_PLAN: 'new_plan',
 	PLAN_UPDATED: 'plan_updated',
@@ -230,65 +228,113 @@ export const NotificationTypes = {
 	MEASUREMENT_REMINDER: 'measurement_reminder',
 } as const
 
+export type NotificationTypeValue = (typeof NotificationTypes)[keyof typeof NotificationTypes]
+
+/**
+ * Kategoria preferencji dla typu powiadomienia
+ * null = powiadomienie lokalne, którego nie da się wyłączyć kategorią
+ * Odpowiednik funkcji notification_push_category w bazie (push-outbox.sql)
+ */
+export const NotificationCategories: Record<NotificationTypeValue, NotificationCategory | null> = {
+	[NotificationTypes.NEW_MESSAGE]: 'messages',
+	[NotificationTypes.BROADCAST]: 'messages',
+	[NotificationTypes.WORKOUT_REMINDER]: 'reminders',
+	[NotificationTypes.WORKOUT_COMPLETED]: 'workouts',
+	[NotificationTypes.WORKOUT_COMMENT]: 'workouts',
+	[NotificationTypes.REST_FINISHED]: null,
+	[NotificationTypes.NEW_PLAN]: 'plans',
+	[NotificationTypes.PLAN_UPDATED]: 'plans',
+	[NotificationTypes.NEW_CLIENT]: 'clients',
+	[NotificationTypes.MEASUREMENT_REMINDER]: 'reminders',
+}
+
 /**
- * Powiadom o nowej wiadomości
+ * Powiadom klientów o ogłoszeniu trenera
+ * Błąd wysyłki do jednego klienta nie blokuje pozostałych
  */
-export async function notifyNewMessage(
-	recipientUserId: string, 
-	senderName: string, 
-	messagePreview?: string
+export async function notifyBroadcast(
+	clientUserIds: string[],
+	trainerProfileId: string,
+	trainerName: string,
+	content: string
 ): Promise<void> {
-	const body = messagePreview 
-		? `${senderName}: ${messagePreview.substring(0, 50)}${messagePreview.length > 50 ? '...' : ''}`
-		: `${senderName} wysłał/a Ci wiadomość`
-	
-	await notifyUser(recipientUserId, {
-		title: 'Nowa wiadomość 💬',
-		body,
-		data: { type: NotificationTypes.NEW_MESSAGE },
-	})
+	const body = `${trainerName}: ${content.substring(0, 80)}${content.length > 80 ? '...' : ''}`
+
+	await Promise.allSettled(
+		clientUserIds.map(userId =>
+			notifyUser(userId, {
+				title: 'Ogłoszenie od trenera 📣',
+				body,
+				data: { type: NotificationTypes.BROADCAST, senderId: trainerProfileId },
+			})
+		)
+	)
 }
 
 /**
  * Powiadom o przypomnieniu treningu
  */
-export async function notifyWorkoutReminder(clientUserId: string, workoutName: string): Promise<void> {
+export async function notifyWorkoutReminder(
+	clientUserId: string,
+	workoutDayId: string,
+	workoutName: string
+): Promise<void> {
 	await notifyUser(clientUserId, {
 		title: 'Czas na trening! 💪',
 		body: `Dziś masz zaplanowany: ${workoutName}`,
-		data: { type: NotificationTypes.WORKOUT_REMINDER },
+		data: { type: NotificationTypes.WORKOUT_REMINDER, workoutDayId },
 	})
 }
 
 /**
  * Powiadom trenera o ukończonym treningu
  */
-export async function notifyWorkoutCompleted(trainerUserId: string, clientName: string): Promise<void> {
+export async function notifyWorkoutCompleted(
+	trainerUserId: string,
+	clientProfileId: string,
+	clientName: string
+): Promise<void> {
 	await notifyUser(trainerUserId, {
 		title: 'Trening ukończony ✅',
 		body: `${clientName} ukończył/a trening`,
-		data: { type: NotificationTypes.WORKOUT_COMPLETED },
+		data: { type: NotificationTypes.WORKOUT_COMPLETED, clientId: clientProfileId },
+	})
+}
+
+/**
+ * Powiadom drugą stronę o komentarzu do treningu
+ */
+export async function notifyWorkoutComment(
+	recipientUserId: string,
+	authorName: string,
+	content: string,
+	completedWorkoutId: string
+): Promise<void> {
+	await notifyUser(recipientUserId, {
+		title: 'Komentarz do treningu 💬',
+		body: `${authorName}: ${content.substring(0, 80)}${content.length > 80 ? '...' : ''}`,
+		data: { type: NotificationTypes.WORKOUT_COMMENT, completedWorkoutId },
 	})
 }
 
 /**
  * Powiadom klienta o nowym planie
  */
-export async function notifyNewPlan(clientUserId: string, trainerName: string): Promise<void> {
+export async function notifyNewPlan(clientUserId: string, planId: string, trainerName: string): Promise<void> {
 	await notifyUser(clientUserId, {
 		title: 'Nowy plan treningowy 📋',
 		body: `${trainerName} przygotował/a dla Ciebie nowy plan`,
-		data: { type: NotificationTypes.NEW_PLAN },
+		data: { type: NotificationTypes.NEW_PLAN, planId },
 	})
 }
 
 /**
  * Powiadom trenera o nowym kliencie
  */
-export async function notifyNewClient(trainerUserId: string, clientName: string): Promise<void> {
+export async function notifyNewClient(trainerUserId: string, clientProfileId: string, clientName: string): Promise<void> {
 	await notifyUser(trainerUserId, {
 		title: 'Nowy klient 🎉',
 		body: `${clientName} dołączył/a do Twojej listy klientów`,
-		data: { type: NotificationTypes.NEW_CLIENT },
+		data: { type: NotificationTypes.NEW_CLIENT, clientId: clientProfileId },
 	})
 }
@@ -0,0 +1,81 @@
+/**
+ * Background Sync - Synchronizacja kolejki offline w tle
+ *
+ * System co jakiś czas (najczęściej co ~15 min, gdy urządzenie ma sieć
+ * i baterię) uruchamia zadanie, które wysyła zaległe operacje - trening
+ * zapisany offline trafi do trenera, nawet jeśli klient nie otworzy
+ * ponownie aplikacji.
+ *
+ * Zadanie musi być zdefiniowane w zasięgu globalnym modułu, który ładuje
+ * się przy starcie (import przez services/offline/index.ts).
+ */
+
+import * as BackgroundTask from 'expo-background-task'
+import * as TaskManager from 'expo-task-manager'
+import { initializeStorage } from './storage'
+import { checkNetworkStatus } from './networkStatus'
+import { offlineQueue } from './offlineQueue'
+import { registerOfflineHandlers } from './offlineSync'
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const BACKGROUND_SYNC_TASK = 'fitcoach-offline-sync'
+
+/** Minimalny odstęp między uruchomieniami (minuty, minimum systemu to 15) */
+const BACKGROUND_SYNC_INTERVAL_MINUTES = 15
+
+// ============================================
+// ZADANIE W TLE
+// ============================================
+
+TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+	try {
+		// Aplikacja mogła zostać uruchomiona tylko dla zadania - bez inicjalizacji z _layout
+		await initializeStorage()
+		registerOfflineHandlers()
+
+		if (offlineQueue.getPendingCount() === 0) {
+			return BackgroundTask.BackgroundTaskResult.Success
+		}
+
+		if (!(await checkNetworkStatus())) {
+			console.log('[BackgroundSync] Brak internetu - pomijam')
+			return BackgroundTask.BackgroundTaskResult.Success
+		}
+
+		const result = await offlineQueue.syncAll()
+		console.log(`[BackgroundSync] Zsynchronizowano: ${result.success}, błędy: ${result.failed}`)
+		return BackgroundTask.BackgroundTaskResult.Success
+	} catch (error) {
+		console.error('[BackgroundSync] Błąd:', error)
+		return BackgroundTask.BackgroundTaskResult.Failed
+	}
+})
+
+// ============================================
+// REJESTRACJA
+// ============================================
+
+/**
+ * Zarejestruj zadanie w systemie (raz - rejestracja przetrwa restart aplikacji)
+ */
+export async function registerBackgroundSync(): Promise<void> {
+	try {
+		const status = await BackgroundTask.getStatusAsync()
+		if (status !== BackgroundTask.BackgroundTaskStatus.Available) {
+			console.log('[BackgroundSync] Zadania w tle niedostępne')
+			return
+		}
+
+		if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) return
+
+		await BackgroundTask.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+			minimumInterval: BACKGROUND_SYNC_INTERVAL_MINUTES,
+		})
+		console.log('[BackgroundSync] Zadanie zarejestrowane')
+	} catch (error) {
+		console.error('[BackgroundSync] Błąd rejestracji:', error)
+	}
+}
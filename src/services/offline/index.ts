@@ -6,14 +6,12 @@
 export { 
 	storage, 
 	STORAGE_KEYS,
+	CACHE_VERSION,
 	setObject,
 	getObject,
 	removeKey,
 	clearCache,
 	clearAll,
-	setLastSync,
-	getLastSync,
-	isCacheStale,
 	initializeStorage,
 	setObjectAsync,
 	getObjectAsync,
@@ -31,64 +29,77 @@ export {
 // Offline Queue
 export {
 	offlineQueue,
+	OfflineConflictError,
+	TEMP_ID_PREFIX,
+	createTempId,
+	isTempId,
+	remapIds,
 	type OperationType,
+	type OperationResult,
 	type QueuedOperation,
 	type OperationHandler,
+	type DeadLetterEntry,
+	type DeadLetterReason,
+	type DeadLetterResolution,
+	type SyncResult,
+	type SyncOptions,
 } from './offlineQueue'
 
-// Cache Manager
+// Offline Sync
 export {
-	// Profile
-	cacheProfile,
-	getCachedProfile,
-	// Training Plans
-	cacheTrainingPlans,
-	getCachedTrainingPlans,
-	isTrainingPlansCacheStale,
-	// Exercises
-	cacheExercises,
-	getCachedExercises,
-	isExercisesCacheStale,
-	// Measurements
-	cacheMeasurements,
-	getCachedMeasurements,
-	addCachedMeasurement,
-	// Completed Workouts
-	cacheCompletedWorkouts,
-	getCachedCompletedWorkouts,
-	addCachedCompletedWorkout,
-	isWorkoutDayCompletedOffline,
-	// Clients
-	cacheClients,
-	getCachedClients,
-	// Clear
-	clearUserCache,
-	// Types
-	type CachedTrainingPlan,
-	type CachedWorkoutDay,
-	type CachedWorkoutExercise,
-	type CachedExercise,
-	type CachedCompletedWorkout,
-	type CachedCompletedExercise,
-	type CachedClient,
-	type UserProfile,
-} from './cacheManager'
+	registerOfflineHandlers,
+	saveWorkoutToServer,
+	saveMeasurementToServer,
+	type SaveWorkoutData,
+	type SaveWorkoutExercise,
+	type SaveWorkoutSet,
+	type SaveMeasurementData,
+	type AddExerciseData,
+	type SendMessageData,
+	type UpdatePlanData,
+	type UpdateExerciseData,
+	type AddWorkoutDayData,
+	type UpdateWorkoutDayData,
+	type DeleteWorkoutDayData,
+	type AddWorkoutExerciseData,
+	type UpdateWorkoutExerciseData,
+	type DeleteWorkoutExerciseData,
+	type ReorderWorkoutExercisesData,
+} from './offlineSync'
 
-// Offline Sync
-export { registerOfflineHandlers } from './offlineSync'
+// Plan Edits
+export { hasPendingPlanEdits, queuePlanEdits } from './planEdits'
+
+// Background Sync
+export { registerBackgroundSync, BACKGROUND_SYNC_TASK } from './backgroundSync'
+
+// Workout Session
+export {
+	getActiveWorkoutSession,
+	saveActiveWorkoutSession,
+	clearActiveWorkoutSession,
+	startRemoteWorkoutSession,
+	discardRemoteWorkoutSession,
+	type SessionSetLog,
+	type SessionExerciseProgress,
+	type ActiveWorkoutSession,
+} from './workoutSession'
 
 // Offline Data Hooks
 export {
 	useOfflineActivePlan,
 	useOfflinePlanDetails,
+	useOfflineSavePlan,
 	useOfflineCompletedWorkouts,
 	useOfflineWorkoutStats,
 	useOfflineTodayWorkoutStatus,
 	useOfflineMeasurements,
 	useOfflineExercises,
+	useOfflineUpdateExercise,
 	useOfflineSaveWorkout,
 	useOfflineSaveMeasurement,
 	useOfflinePendingCount,
 	useOfflineSync,
+	useOfflineDeadLetters,
 } from './useOfflineData'
 
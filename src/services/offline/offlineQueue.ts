@@ -2,10 +2,24 @@
  * Offline Queue - Kolejka operacji do wykonania po powrocie online
  * 
  * Zapisuje operacje lokalne i synchronizuje je z serwerem.
+ * Operacje, których nie da się zsynchronizować (konflikt z nowszą wersją
+ * na serwerze albo wyczerpany limit prób), trafiają na listę nieudanych
+ * operacji - użytkownik decyduje co z nimi zrobić (ekran SyncIssues).
+ * Błędy są ponawiane z rosnącym odstępem (nextAttemptAt) - kolejka sama
+ * planuje kolejną próbę, a w tle synchronizuje ją backgroundSync.ts.
+ *
+ * Operacje na tym samym wierszu (albo planie) są wysyłane po kolei - kolejna
+ * czeka, dopóki wcześniejsza jest w kolejce albo na liście nieudanych
+ * (do decyzji użytkownika).
+ *
+ * Wiersze tworzone offline dostają tymczasowe ID (temp-...). Operacje,
+ * które się do nich odwołują, czekają na zapis wiersza - po nim
+ * tymczasowe ID są zamieniane na ID z serwera w całej kolejce.
  */
 
 import { storage, STORAGE_KEYS, getObject, setObject } from './storage'
 import { getNetworkStatus, addNetworkListener } from './networkStatus'
+import { generateUUID } from '../../utils/uuid'
 
 // ============================================
 // TYPY
@@ -18,17 +32,218 @@ export type OperationType =
 	| 'ADD_EXERCISE'        // Dodaj ćwiczenie (trener)
 	| 'UPDATE_EXERCISE'     // Zaktualizuj ćwiczenie (trener)
 	| 'DELETE_EXERCISE'     // Usuń ćwiczenie (trener)
+	| 'SEND_MESSAGE'        // Wyślij wiadomość w czacie
+	| 'ADD_WORKOUT_DAY'     // Dodaj dzień do planu (trener)
+	| 'UPDATE_WORKOUT_DAY'  // Zaktualizuj dzień planu (trener)
+	| 'DELETE_WORKOUT_DAY'  // Usuń dzień planu (trener)
+	| 'ADD_WORKOUT_EXERCISE'      // Dodaj ćwiczenie do dnia (trener)
+	| 'UPDATE_WORKOUT_EXERCISE'   // Zaktualizuj ćwiczenie w dniu (trener)
+	| 'DELETE_WORKOUT_EXERCISE'   // Usuń ćwiczenie z dnia (trener)
+	| 'REORDER_WORKOUT_EXERCISES' // Zmień kolejność ćwiczeń w dniu (trener)
 
 export interface QueuedOperation {
+	/** UUID nadany w aplikacji */
 	id: string
 	type: OperationType
 	data: any
 	timestamp: number
 	retryCount: number
+	/** Najwcześniejsza kolejna próba (ms) - ustawiana po błędzie */
+	nextAttemptAt?: number
 	userId: string
+	/** Pomiń warunek wersji (użytkownik wybrał "zachowaj moje") */
+	force?: boolean
+	/** Seria zależnych od siebie operacji (edycja planu offline) - odrzucona razem */
+	batchId?: string
 }
 
-export type OperationHandler = (operation: QueuedOperation) => Promise<void>
+/**
+ * Wynik operacji tworzącej wiersz
+ * idMap - tymczasowe ID → ID z serwera
+ */
+export interface OperationResult {
+	idMap?: Record<string, string>
+}
+
+export type OperationHandler = (operation: QueuedOperation) => Promise<void | OperationResult>
+
+/**
+ * Dlaczego operacja trafiła na listę nieudanych
+ * conflict - wiersz zmieniony/usunięty na serwerze od czasu edycji offline
+ * failed - błąd po wyczerpaniu limitu prób
+ */
+export type DeadLetterReason = 'conflict' | 'failed'
+
+export interface DeadLetterEntry {
+	operation: QueuedOperation
+	reason: DeadLetterReason
+	/** Komunikat ostatniego błędu */
+	error: string
+	failedAt: number
+	/** Aktualna wersja wiersza na serwerze (konflikt), null = wiersz usunięty */
+	serverData?: Record<string, unknown> | null
+}
+
+/**
+ * Decyzja użytkownika dla nieudanej operacji
+ * retry / keep-mine - wraca do kolejki (keep-mine bez warunku wersji)
+ * discard / keep-theirs - usuwana razem z resztą swojej serii, zostaje wersja z serwera
+ */
+export type DeadLetterResolution = 'retry' | 'discard' | 'keep-mine' | 'keep-theirs'
+
+export interface SyncResult {
+	success: number
+	failed: number
+	conflicts: number
+}
+
+export interface SyncOptions {
+	/** Spróbuj też operacji czekających na ponowienie (powrót sieci, ręczna synchronizacja) */
+	ignoreBackoff?: boolean
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Po tylu nieudanych próbach operacja trafia na listę nieudanych */
+const MAX_RETRIES = 8
+
+/** Ponowienia: ~10 s, 20 s, 40 s, ... maksymalnie 30 min */
+const RETRY_BASE_DELAY_MS = 10 * 1000
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000
+
+const EMPTY_SYNC_RESULT: SyncResult = { success: 0, failed: 0, conflicts: 0 }
+
+/** Prefiks ID wierszy utworzonych offline, jeszcze niezapisanych na serwerze */
+export const TEMP_ID_PREFIX = 'temp-'
+
+/** Pole danych operacji tworzącej wiersz z jego tymczasowym ID */
+const TEMP_ID_FIELD = 'tempId'
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Odstęp przed kolejną próbą (wykładniczy z losowym rozrzutem 50-100%),
+ * żeby urządzenia po awarii serwera nie ponawiały w tej samej chwili
+ */
+function getRetryDelay(retryCount: number): number {
+	const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1), RETRY_MAX_DELAY_MS)
+	return Math.round(delay / 2 + Math.random() * (delay / 2))
+}
+
+const isDue = (operation: QueuedOperation, now: number) =>
+	!operation.nextAttemptAt || operation.nextAttemptAt <= now
+
+/**
+ * Tymczasowe ID dla wiersza tworzonego offline
+ */
+export function createTempId(): string {
+	return `${TEMP_ID_PREFIX}${generateUUID()}`
+}
+
+export function isTempId(value: unknown): value is string {
+	return typeof value === 'string' && value.startsWith(TEMP_ID_PREFIX)
+}
+
+/**
+ * Zamienia ID wg mapy we wszystkich polach (także zagnieżdżonych)
+ */
+export function remapIds<T>(value: T, idMap: Record<string, string>): T {
+	if (typeof value === 'string') return (idMap[value] ?? value) as T
+	if (Array.isArray(value)) return value.map(item => remapIds(item, idMap)) as T
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, remapIds(item, idMap)])
+		) as T
+	}
+	return value
+}
+
+/**
+ * Tymczasowe ID, do których odwołuje się operacja
+ * (bez ID tworzonego przez samą operację)
+ */
+function getTempIdDependencies(value: unknown, key?: string): string[] {
+	if (key === TEMP_ID_FIELD) return []
+	if (isTempId(value)) return [value]
+	if (Array.isArray(value)) return value.flatMap(item => getTempIdDependencies(item))
+	if (value && typeof value === 'object') {
+		return Object.entries(value).flatMap(([itemKey, item]) => getTempIdDependencies(item, itemKey))
+	}
+	return []
+}
+
+/**
+ * Czy operacja dotyczy danego tymczasowego ID (tworzy wiersz albo się do niego odwołuje)
+ */
+const referencesTempId = (operation: QueuedOperation, tempId: string) =>
+	operation.data?.[TEMP_ID_FIELD] === tempId || getTempIdDependencies(operation.data).includes(tempId)
+
+/**
+ * Operacja czeka na zapis wiersza, do którego się odwołuje
+ */
+const isBlocked = (operation: QueuedOperation) => getTempIdDependencies(operation.data).length > 0
+
+/**
+ * Wiersz (albo plan przy edycji drzewa planu, rozmowa przy wiadomościach),
+ * którego dotyczy operacja
+ * Operacje na tym samym wierszu idą w kolejności zapisu - starsza ponowiona
+ * po nowszej nadpisałaby nowszą zmianę, a wiadomości przyszłyby nie po kolei
+ */
+function getEntityKey(operation: QueuedOperation): string | null {
+	if (operation.type === 'SEND_MESSAGE') {
+		return `conversation:${operation.data?.sender_id}:${operation.data?.receiver_id}`
+	}
+	return operation.data?.planId ?? operation.data?.exerciseId ?? operation.data?.id ?? null
+}
+
+const byTimestamp = (a: QueuedOperation, b: QueuedOperation) => a.timestamp - b.timestamp
+
+/**
+ * Wiersze z nierozwiązaną nieudaną operacją - kolejne operacje na nich czekają
+ * (przywrócona operacja nie może trafić na serwer po nowszej)
+ */
+function getDeadLetterEntities(entries: DeadLetterEntry[]): Set<string> {
+	return new Set(entries.flatMap(entry => getEntityKey(entry.operation) ?? []))
+}
+
+/**
+ * Operacje, które mogą zostać wysłane: pierwsze w kolejce dla swojego wiersza
+ * i bez odwołań do niezapisanych jeszcze wierszy
+ */
+function getHeadOperations(queue: QueuedOperation[], deadLetters: DeadLetterEntry[]): QueuedOperation[] {
+	const waitingEntities = getDeadLetterEntities(deadLetters)
+	const heads: QueuedOperation[] = []
+	
+	for (const operation of [...queue].sort(byTimestamp)) {
+		const entity = getEntityKey(operation)
+		if (entity && waitingEntities.has(entity)) continue
+		if (entity) waitingEntities.add(entity)
+		if (!isBlocked(operation)) heads.push(operation)
+	}
+	return heads
+}
+
+// ============================================
+// BŁĘDY
+// ============================================
+
+/**
+ * Konflikt wersji - handler rzuca go, gdy warunek updated_at nie jest spełniony
+ * Nie jest ponawiany - od razu czeka na decyzję użytkownika
+ */
+export class OfflineConflictError extends Error {
+	constructor(
+		message: string,
+		public serverData: Record<string, unknown> | null
+	) {
+		super(message)
+		this.name = 'OfflineConflictError'
+	}
+}
 
 // ============================================
 // QUEUE MANAGER
@@ -38,13 +253,19 @@ class OfflineQueueManager {
 	private handlers: Map<OperationType, OperationHandler> = new Map()
 	private isSyncing = false
 	private syncListeners: Set<(syncing: boolean) => void> = new Set()
+	private deadLetterListeners: Set<(entries: DeadLetterEntry[]) => void> = new Set()
+	private queueListeners: Set<(pendingCount: number) => void> = new Set()
+	private retryTimer: ReturnType<typeof setTimeout> | null = null
 	
 	constructor() {
-		// Automatyczna synchronizacja po powrocie online
+		// Automatyczna synchronizacja po powrocie online - błędy mogły wynikać
+		// z braku sieci, więc nie czekaj na zaplanowane ponowienie
 		addNetworkListener((online) => {
 			if (online) {
 				console.log('[OfflineQueue] Powrót online - rozpoczynam synchronizację')
-				this.syncAll()
+				this.syncAll({ ignoreBackoff: true })
+			} else {
+				this.clearRetryTimer()
 			}
 		})
 	}
@@ -59,16 +280,18 @@ class OfflineQueueManager {
 	/**
 	 * Dodaj operację do kolejki
 	 */
-	addToQueue(type: OperationType, data: any, userId: string): string {
+	addToQueue(type: OperationType, data: any, userId: string, batchId?: string): string {
 		const queue = this.getQueue()
 		
 		const operation: QueuedOperation = {
-			id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+			id: generateUUID(),
 			type,
-			data,
+			// Wiersze już zapisane na serwerze - od razu właściwe ID
+			data: remapIds(data, this.getIdMap()),
 			timestamp: Date.now(),
 			retryCount: 0,
 			userId,
+			batchId,
 		}
 		
 		queue.push(operation)
@@ -96,6 +319,7 @@ class OfflineQueueManager {
 	 */
 	private saveQueue(queue: QueuedOperation[]): void {
 		setObject(STORAGE_KEYS.OFFLINE_QUEUE, queue)
+		this.queueListeners.forEach(listener => listener(queue.length))
 	}
 	
 	/**
@@ -107,9 +331,31 @@ class OfflineQueueManager {
 	}
 	
 	/**
-	 * Zaktualizuj operację w kolejce (np. zwiększ retryCount)
+	 * Przenieś operację z kolejki na listę nieudanych
+	 */
+	private moveToDeadLetter(
+		operation: QueuedOperation,
+		reason: DeadLetterReason,
+		error: unknown,
+		serverData?: Record<string, unknown> | null
+	): void {
+		const entry: DeadLetterEntry = {
+			operation,
+			reason,
+			error: error instanceof Error ? error.message : String(error),
+			failedAt: Date.now(),
+			serverData,
+		}
+		
+		this.saveDeadLetters([...this.getDeadLetters(), entry])
+		this.removeFromQueue(operation.id)
+	}
+	
+	/**
+	 * Zaktualizuj operację w kolejce (np. zwiększ retryCount,
+	 * utrwal dane uzupełnione przez handler przed wysłaniem)
 	 */
-	private updateInQueue(operationId: string, updates: Partial<QueuedOperation>): void {
+	updateInQueue(operationId: string, updates: Partial<QueuedOperation>): void {
 		const queue = this.getQueue().map(op => 
 			op.id === operationId ? { ...op, ...updates } : op
 		)
@@ -119,70 +365,135 @@ class OfflineQueueManager {
 	/**
 	 * Zsynchronizuj wszystkie operacje w kolejce
 	 */
-	async syncAll(): Promise<{ success: number; failed: number }> {
+	async syncAll({ ignoreBackoff = false }: SyncOptions = {}): Promise<SyncResult> {
 		if (this.isSyncing) {
 			console.log('[OfflineQueue] Synchronizacja już w toku...')
-			return { success: 0, failed: 0 }
+			return { ...EMPTY_SYNC_RESULT }
 		}
 		
 		if (!getNetworkStatus()) {
 			console.log('[OfflineQueue] Brak internetu - pomijam synchronizację')
-			return { success: 0, failed: 0 }
+			return { ...EMPTY_SYNC_RESULT }
 		}
 		
+		// Operacje czekające na ponowienie zostają na później
+		// (zablokowane mogą się odblokować po zapisie wcześniejszej operacji)
+		const now = Date.now()
+		const isReady = (op: QueuedOperation) => ignoreBackoff || isDue(op, now)
 		const queue = this.getQueue()
-		if (queue.length === 0) {
-			console.log('[OfflineQueue] Kolejka pusta')
-			return { success: 0, failed: 0 }
+		if (!getHeadOperations(queue, this.getDeadLetters()).some(isReady)) {
+			console.log('[OfflineQueue] Brak operacji do synchronizacji')
+			this.scheduleRetry()
+			return { ...EMPTY_SYNC_RESULT }
 		}
 		
 		console.log(`[OfflineQueue] Synchronizuję ${queue.length} operacji...`)
+		this.clearRetryTimer()
 		this.isSyncing = true
 		this.notifySyncListeners(true)
 		
 		let success = 0
 		let failed = 0
+		let conflicts = 0
 		
-		// Sortuj po timestamp (najstarsze najpierw)
-		const sortedQueue = [...queue].sort((a, b) => a.timestamp - b.timestamp)
+		// Sortuj po timestamp (najstarsze najpierw) - wiersz powstaje przed operacjami, które się do niego odwołują
+		const sortedQueue = [...queue].sort(byTimestamp)
+		// Wiersze z operacją czekającą w kolejce albo na liście nieudanych - kolejne operacje na nich też czekają
+		const waitingEntities = getDeadLetterEntities(this.getDeadLetters())
 		
-		for (const operation of sortedQueue) {
+		for (const queued of sortedQueue) {
+			// Aktualna wersja - ID mogły zostać podmienione po zapisie wcześniejszej operacji
+			const operation = this.getQueue().find(op => op.id === queued.id)
+			if (!operation) continue
+			
+			const entity = getEntityKey(operation)
+			if (entity && waitingEntities.has(entity)) continue
+			
+			if (isBlocked(operation) || !isReady(operation)) {
+				if (entity) waitingEntities.add(entity)
+				continue
+			}
+			
 			const handler = this.handlers.get(operation.type)
 			
 			if (!handler) {
+				// Handlery jeszcze niezarejestrowane - spróbuj później
 				console.warn(`[OfflineQueue] Brak handlera dla: ${operation.type}`)
+				this.updateInQueue(operation.id, { nextAttemptAt: Date.now() + RETRY_BASE_DELAY_MS })
+				if (entity) waitingEntities.add(entity)
 				failed++
 				continue
 			}
 			
 			try {
-				await handler(operation)
+				const result = await handler(operation)
 				this.removeFromQueue(operation.id)
+				if (result?.idMap) this.applyIdMap(result.idMap)
 				success++
 				console.log(`[OfflineQueue] ✅ Zsynchronizowano: ${operation.type}`)
 			} catch (error) {
+				// Konflikt wersji - ponowienie nic nie zmieni, czeka na decyzję użytkownika
+				if (error instanceof OfflineConflictError) {
+					console.warn(`[OfflineQueue] ⚠️ Konflikt: ${operation.type}`, error.message)
+					this.moveToDeadLetter(operation, 'conflict', error, error.serverData)
+					if (entity) waitingEntities.add(entity)
+					conflicts++
+					continue
+				}
+				
 				console.error(`[OfflineQueue] ❌ Błąd: ${operation.type}`, error)
 				
 				// Zwiększ retry count
 				const newRetryCount = operation.retryCount + 1
 				
-				if (newRetryCount >= 5) {
-					// Po 5 próbach - usuń z kolejki i zaloguj błąd
+				if (newRetryCount >= MAX_RETRIES) {
+					// Po wyczerpaniu prób - przenieś na listę nieudanych
 					console.error(`[OfflineQueue] Przekroczono limit prób dla: ${operation.id}`)
-					this.removeFromQueue(operation.id)
+					this.moveToDeadLetter({ ...operation, retryCount: newRetryCount }, 'failed', error)
 				} else {
-					this.updateInQueue(operation.id, { retryCount: newRetryCount })
+					const delay = getRetryDelay(newRetryCount)
+					this.updateInQueue(operation.id, { retryCount: newRetryCount, nextAttemptAt: Date.now() + delay })
+					console.log(`[OfflineQueue] Ponowienie za ${Math.round(delay / 1000)} s: ${operation.id}`)
 				}
 				
+				if (entity) waitingEntities.add(entity)
 				failed++
 			}
 		}
 		
 		this.isSyncing = false
 		this.notifySyncListeners(false)
+		this.scheduleRetry()
 		
-		console.log(`[OfflineQueue] Synchronizacja zakończona: ${success} sukces, ${failed} błędów`)
-		return { success, failed }
+		console.log(`[OfflineQueue] Synchronizacja zakończona: ${success} sukces, ${failed} błędów, ${conflicts} konfliktów`)
+		return { success, failed, conflicts }
+	}
+	
+	/**
+	 * Zaplanuj synchronizację na najbliższą zaplanowaną próbę
+	 * (operacje dodane w trakcie synchronizacji - od razu).
+	 * Tylko gdy aplikacja działa - w tle kolejkę obsługuje backgroundSync.ts.
+	 */
+	private scheduleRetry(): void {
+		this.clearRetryTimer()
+		if (!getNetworkStatus()) return
+		
+		const now = Date.now()
+		const nextAttempts = getHeadOperations(this.getQueue(), this.getDeadLetters()).map(op => op.nextAttemptAt ?? now)
+		if (nextAttempts.length === 0) return
+		
+		const delay = Math.max(0, Math.min(...nextAttempts) - now)
+		this.retryTimer = setTimeout(() => {
+			this.retryTimer = null
+			this.syncAll()
+		}, delay)
+	}
+	
+	private clearRetryTimer(): void {
+		if (this.retryTimer) {
+			clearTimeout(this.retryTimer)
+			this.retryTimer = null
+		}
 	}
 	
 	/**
@@ -211,6 +522,124 @@ class OfflineQueueManager {
 		return this.getQueue().length
 	}
 	
+	/**
+	 * Dodaj listener na zmiany kolejki (liczba oczekujących operacji)
+	 */
+	addQueueListener(listener: (pendingCount: number) => void): () => void {
+		this.queueListeners.add(listener)
+		return () => this.queueListeners.delete(listener)
+	}
+	
+	// ============================================
+	// TYMCZASOWE ID
+	// ============================================
+	
+	/**
+	 * Mapa tymczasowe ID → ID z serwera (dla zapisanych wierszy)
+	 */
+	getIdMap(): Record<string, string> {
+		return getObject<Record<string, string>>(STORAGE_KEYS.OFFLINE_ID_MAP) || {}
+	}
+	
+	/**
+	 * ID z serwera dla tymczasowego ID (albo to samo ID, jeśli wiersz jeszcze niezapisany)
+	 */
+	resolveId(id: string): string {
+		return this.getIdMap()[id] ?? id
+	}
+	
+	/**
+	 * Wiersz zapisany na serwerze - podmień jego tymczasowe ID w kolejce i na liście nieudanych
+	 */
+	private applyIdMap(idMap: Record<string, string>): void {
+		setObject(STORAGE_KEYS.OFFLINE_ID_MAP, { ...this.getIdMap(), ...idMap })
+		this.saveQueue(remapIds(this.getQueue(), idMap))
+		this.saveDeadLetters(remapIds(this.getDeadLetters(), idMap))
+	}
+	
+	/**
+	 * Usuń z kolejki niezapisany wiersz i wszystkie operacje, które się do niego odwołują
+	 * (np. dzień dodany offline i usunięty przed synchronizacją)
+	 * Zwraca liczbę usuniętych operacji
+	 */
+	discardTempId(tempId: string): number {
+		const queue = this.getQueue()
+		const remaining = queue.filter(op => !referencesTempId(op, tempId))
+		if (remaining.length !== queue.length) {
+			this.saveQueue(remaining)
+		}
+		return queue.length - remaining.length
+	}
+	
+	// ============================================
+	// NIEUDANE OPERACJE (DEAD LETTER)
+	// ============================================
+	
+	/**
+	 * Pobierz listę nieudanych operacji
+	 */
+	getDeadLetters(): DeadLetterEntry[] {
+		return getObject<DeadLetterEntry[]>(STORAGE_KEYS.OFFLINE_DEAD_LETTER) || []
+	}
+	
+	private saveDeadLetters(entries: DeadLetterEntry[]): void {
+		setObject(STORAGE_KEYS.OFFLINE_DEAD_LETTER, entries)
+		this.deadLetterListeners.forEach(listener => listener(entries))
+	}
+	
+	/**
+	 * Dodaj listener na zmiany listy nieudanych operacji
+	 */
+	addDeadLetterListener(listener: (entries: DeadLetterEntry[]) => void): () => void {
+		this.deadLetterListeners.add(listener)
+		return () => this.deadLetterListeners.delete(listener)
+	}
+	
+	/**
+	 * Liczba nieudanych operacji
+	 */
+	getDeadLetterCount(): number {
+		return this.getDeadLetters().length
+	}
+	
+	/**
+	 * Rozwiąż nieudaną operację wg decyzji użytkownika
+	 */
+	resolveDeadLetter(operationId: string, resolution: DeadLetterResolution): void {
+		const entries = this.getDeadLetters()
+		const entry = entries.find(e => e.operation.id === operationId)
+		if (!entry) return
+		
+		this.saveDeadLetters(entries.filter(e => e.operation.id !== operationId))
+		
+		if (resolution === 'retry' || resolution === 'keep-mine') {
+			const operation: QueuedOperation = {
+				...entry.operation,
+				retryCount: 0,
+				nextAttemptAt: undefined,
+				force: resolution === 'keep-mine' || entry.operation.force,
+			}
+			this.saveQueue([...this.getQueue(), operation])
+			console.log(`[OfflineQueue] Przywrócono do kolejki (${resolution}): ${operation.type}`, operation.id)
+			
+			if (getNetworkStatus()) {
+				this.syncAll()
+			}
+		} else {
+			console.log(`[OfflineQueue] Odrzucono (${resolution}): ${entry.operation.type}`, operationId)
+			
+			// Wiersz nie powstanie - operacje, które na niego czekają, nie mają sensu
+			const tempId = entry.operation.data?.[TEMP_ID_FIELD]
+			if (isTempId(tempId)) this.discardTempId(tempId)
+			
+			// Reszta serii bez odrzuconej operacji zapisałaby na serwerze pół zmiany
+			const batchId = entry.operation.batchId
+			if (batchId) {
+				this.saveQueue(this.getQueue().filter(op => op.batchId !== batchId))
+			}
+		}
+	}
+	
 	/**
 	 * Wyczyść całą kolejkę (ostrożnie!)
 	 */
@@ -2,17 +2,53 @@
  * Offline Sync - Handlery synchronizacji offline
  * 
  * Rejestruje handlery dla operacji w kolejce offline.
+ * Każdy handler musi być idempotentny - operacja może zostać wysłana
+ * ponownie, jeśli aplikacja zamknie się po zapisie, a przed usunięciem
+ * operacji z kolejki. Dlatego wiersze mają ID nadane w aplikacji,
+ * a zapis to upsert.
  */
 
-import { offlineQueue, type QueuedOperation } from './offlineQueue'
+import * as FileSystem from 'expo-file-system/legacy'
+import {
+	offlineQueue,
+	OfflineConflictError,
+	TEMP_ID_PREFIX,
+	type OperationResult,
+	type QueuedOperation,
+} from './offlineQueue'
 import { supabase, handleSupabaseError } from '../../api/supabase'
-import type { MeasurementInput } from '../../api/services/measurements'
+import {
+	updateWorkoutDay,
+	deleteWorkoutDay,
+	updateWorkoutExercise,
+	removeExerciseFromWorkout,
+	reorderWorkoutExercises,
+	type UpdatePlanInput,
+	type CreateWorkoutDayInput,
+	type UpdateWorkoutDayInput,
+	type AddExerciseToWorkoutInput,
+	type UpdateWorkoutExerciseInput,
+} from '../../api/services/trainingPlans'
+import type { CreateExerciseInput, UpdateExerciseInput } from '../../api/services/exercises'
+import {
+	uploadProgressPhotos,
+	type Measurement,
+	type MeasurementInput,
+	type ProgressPhotoInput,
+} from '../../api/services/measurements'
+import { sendMessage, type OutgoingMessage } from '../../api/services/messages'
+import { generateUUID } from '../../utils/uuid'
 
 // ============================================
 // TYPY DLA OPERACJI OFFLINE
 // ============================================
 
 export interface SaveWorkoutData {
+	/**
+	 * ID treningu nadane w aplikacji - ID wiersza in_progress z sesji
+	 * albo nowy UUID (ponowienie aktualizuje ten sam wiersz)
+	 */
+	id: string
 	workout_day_id: string
 	status: 'completed' | 'partial'
 	duration_minutes: number
@@ -28,57 +64,316 @@ export interface SaveWorkoutExercise {
 	actual_reps?: string
 	actual_weight_kg?: number
 	notes?: string
+	/** Pojedyncze serie (tabela completed_sets) */
+	sets?: SaveWorkoutSet[]
 }
 
-export interface SaveMeasurementData extends MeasurementInput {}
+export interface SaveWorkoutSet {
+	set_number: number
+	reps?: number
+	weight_kg?: number
+	rpe?: number
+	rest_seconds?: number
+	completed_at: string
+}
+
+export interface SaveMeasurementData extends MeasurementInput {
+	/** ID pomiaru nadane w aplikacji (nadawane przy zapisie, jeśli brak) */
+	id?: string
+	/** Zdjęcia postępu (kopie w documentDirectory, żeby przetrwały do synchronizacji) */
+	photos?: ProgressPhotoInput[]
+}
+
+/** Nowe ćwiczenie z ID nadanym w aplikacji */
+export interface AddExerciseData extends CreateExerciseInput {
+	id: string
+	trainer_id: string
+}
+
+/** Wiadomość z ID nadanym w aplikacji - ponowienie nie tworzy duplikatu */
+export type SendMessageData = OutgoingMessage
+
+/**
+ * Aktualizacja planu (trener)
+ * expectedUpdatedAt - updated_at planu w chwili edycji; inna wartość na serwerze = konflikt
+ */
+export interface UpdatePlanData {
+	planId: string
+	input: UpdatePlanInput
+	expectedUpdatedAt?: string | null
+	/**
+	 * Tylko warunek wersji przed zmianami dni i ćwiczeń (notatki bez zmian)
+	 * Zgodne notatki na serwerze nie znaczą, że zmiana już się zapisała
+	 */
+	versionCheck?: boolean
+}
+
+/**
+ * Aktualizacja ćwiczenia (trener)
+ * expectedUpdatedAt - updated_at ćwiczenia w chwili edycji; inna wartość na serwerze = konflikt
+ */
+export interface UpdateExerciseData {
+	exerciseId: string
+	input: UpdateExerciseInput
+	expectedUpdatedAt?: string | null
+}
+
+/**
+ * Edycja drzewa planu offline (trener)
+ * Bez własnego warunku wersji - czeka za zapisem planu z warunkiem na początku serii (planEdits.ts)
+ * planId - plan, którego dotyczy operacja (odczyt planu czeka na synchronizację)
+ * tempId - tymczasowe ID tworzonego wiersza; inne pola mogą odwoływać się
+ * do tymczasowych ID dni/ćwiczeń dodanych wcześniej offline
+ */
+export interface AddWorkoutDayData {
+	planId: string
+	tempId: string
+	input: CreateWorkoutDayInput
+}
+
+export interface UpdateWorkoutDayData {
+	planId: string
+	dayId: string
+	input: UpdateWorkoutDayInput
+}
+
+export interface DeleteWorkoutDayData {
+	planId: string
+	dayId: string
+}
+
+export interface AddWorkoutExerciseData {
+	planId: string
+	tempId: string
+	input: AddExerciseToWorkoutInput
+}
+
+export interface UpdateWorkoutExerciseData {
+	planId: string
+	workoutExerciseId: string
+	input: UpdateWorkoutExerciseInput
+}
+
+export interface DeleteWorkoutExerciseData {
+	planId: string
+	workoutExerciseId: string
+}
+
+export interface ReorderWorkoutExercisesData {
+	planId: string
+	workoutDayId: string
+	/** ID ćwiczeń w dniu w nowej kolejności */
+	exerciseIds: string[]
+}
 
 // ============================================
-// HANDLERY SYNCHRONIZACJI
+// WARUNEK WERSJI
 // ============================================
 
 /**
- * Handler dla zapisania ukończonego treningu
+ * Czy wiersz z serwera ma już wszystkie wartości z lokalnej zmiany
  */
-async function handleSaveWorkout(operation: QueuedOperation): Promise<void> {
-	const data = operation.data as SaveWorkoutData
-	const userId = operation.userId
+function isInputApplied(input: object, row: Record<string, any>): boolean {
+	return Object.entries(input).every(
+		([key, value]) => JSON.stringify(row[key] ?? null) === JSON.stringify(value ?? null)
+	)
+}
+
+/**
+ * Aktualizuj wiersz tylko jeśli nie zmienił się od czasu edycji offline
+ * Brak zaktualizowanego wiersza = zmiana na innym urządzeniu albo usunięcie
+ * → OfflineConflictError z aktualną wersją z serwera.
+ * force (zachowaj moje) pomija warunek updated_at.
+ * versionCheck (sam warunek wersji) - zgodne wartości na serwerze nie znaczą, że zapis się udał.
+ */
+async function updateWithPrecondition(
+	table: 'training_plans' | 'exercises',
+	id: string,
+	input: object,
+	expectedUpdatedAt: string | null | undefined,
+	force?: boolean,
+	versionCheck?: boolean
+): Promise<void> {
+	let query = supabase.from(table).update(input).eq('id', id)
+	if (expectedUpdatedAt && !force) {
+		query = query.eq('updated_at', expectedUpdatedAt)
+	}
+	
+	const { data, error } = await query.select('id')
+	if (error) throw handleSupabaseError(error)
+	if (data && data.length > 0) return
+	
+	const { data: current, error: currentError } = await supabase
+		.from(table)
+		.select('*')
+		.eq('id', id)
+		.maybeSingle()
 	
-	// Zapisz główny rekord treningu
-	const { data: workout, error: workoutError } = await supabase
+	if (currentError) throw handleSupabaseError(currentError)
+	
+	// Ponowienie po udanym zapisie - na serwerze jest już nasza wersja
+	if (current && !versionCheck && isInputApplied(input, current)) return
+	
+	throw new OfflineConflictError(
+		current ? 'Zmieniono na innym urządzeniu' : 'Usunięto na innym urządzeniu',
+		current
+	)
+}
+
+// ============================================
+// TYMCZASOWE ID
+// ============================================
+
+/**
+ * ID wiersza na serwerze dla tymczasowego ID (UUID bez prefiksu)
+ * Stałe ID - ponowienie zapisu trafia w ten sam wiersz
+ */
+const getRowIdForTempId = (tempId: string) => tempId.slice(TEMP_ID_PREFIX.length)
+
+/**
+ * Wstaw wiersz utworzony offline (ponowienie nie nadpisuje późniejszych zmian)
+ * Zwraca mapę tymczasowe ID → ID z serwera
+ */
+async function insertTempRow(
+	table: 'workout_days' | 'workout_exercises',
+	tempId: string,
+	row: object
+): Promise<OperationResult> {
+	const id = getRowIdForTempId(tempId)
+	const { error } = await supabase
+		.from(table)
+		.upsert({ ...row, id }, { onConflict: 'id', ignoreDuplicates: true })
+	
+	if (error) throw handleSupabaseError(error)
+	return { idMap: { [tempId]: id } }
+}
+
+// ============================================
+// ZAPIS NA SERWER
+// ============================================
+
+/**
+ * Zapisz ukończony trening z ćwiczeniami i seriami
+ * Używane przez handler kolejki i bezpośredni zapis online.
+ * Wszystkie zapisy to upserty - ponowienie po przerwanym zapisie
+ * uzupełnia ten sam trening zamiast tworzyć duplikat.
+ */
+export async function saveWorkoutToServer(userId: string, data: SaveWorkoutData): Promise<string> {
+	// Zamyka sesję in_progress o tym ID albo tworzy nowy wiersz
+	const { error: workoutError } = await supabase
 		.from('completed_workouts')
-		.insert({
-			user_id: userId,
-			workout_day_id: data.workout_day_id,
-			status: data.status,
-			duration_minutes: data.duration_minutes,
-			feeling_rating: data.feeling_rating,
-			client_notes: data.client_notes,
-		})
-		.select()
-		.single()
+		.upsert(
+			{
+				id: data.id,
+				user_id: userId,
+				workout_day_id: data.workout_day_id,
+				status: data.status,
+				duration_minutes: data.duration_minutes,
+				feeling_rating: data.feeling_rating,
+				client_notes: data.client_notes,
+			},
+			{ onConflict: 'id' }
+		)
 	
 	if (workoutError) throw handleSupabaseError(workoutError)
 	
-	// Zapisz ukończone ćwiczenia
-	if (data.exercises && data.exercises.length > 0) {
-		const exercisesToInsert = data.exercises.map(ex => ({
-			completed_workout_id: workout.id,
-			workout_exercise_id: ex.workout_exercise_id,
-			is_completed: ex.is_completed,
-			actual_sets: ex.actual_sets,
-			actual_reps: ex.actual_reps,
-			actual_weight_kg: ex.actual_weight_kg,
-			notes: ex.notes,
-		}))
+	const workoutId = data.id
+	
+	if (!data.exercises || data.exercises.length === 0) return workoutId
+	
+	// Zapisz ukończone ćwiczenia (jedno ćwiczenie raz na trening)
+	const exercisesToUpsert = data.exercises.map(ex => ({
+		completed_workout_id: workoutId,
+		workout_exercise_id: ex.workout_exercise_id,
+		is_completed: ex.is_completed,
+		actual_sets: ex.actual_sets,
+		actual_reps: ex.actual_reps,
+		actual_weight_kg: ex.actual_weight_kg,
+		notes: ex.notes,
+	}))
+	
+	const { data: completedExercises, error: exercisesError } = await supabase
+		.from('completed_exercises')
+		.upsert(exercisesToUpsert, { onConflict: 'completed_workout_id,workout_exercise_id' })
+		.select('id, workout_exercise_id')
+	
+	if (exercisesError) throw handleSupabaseError(exercisesError)
+	
+	// Zapisz pojedyncze serie (jedna seria o danym numerze na ćwiczenie)
+	const exerciseIdMap = new Map<string, string>(
+		(completedExercises || []).map(ce => [ce.workout_exercise_id, ce.id])
+	)
+	
+	const setsToUpsert = data.exercises.flatMap(ex => {
+		const completedExerciseId = exerciseIdMap.get(ex.workout_exercise_id)
+		if (!completedExerciseId || !ex.sets) return []
 		
-		const { error: exercisesError } = await supabase
-			.from('completed_exercises')
-			.insert(exercisesToInsert)
+		return ex.sets.map(set => ({
+			completed_exercise_id: completedExerciseId,
+			set_number: set.set_number,
+			reps: set.reps ?? null,
+			weight_kg: set.weight_kg ?? null,
+			rpe: set.rpe ?? null,
+			rest_seconds: set.rest_seconds ?? null,
+			completed_at: set.completed_at,
+		}))
+	})
+	
+	if (setsToUpsert.length > 0) {
+		const { error: setsError } = await supabase
+			.from('completed_sets')
+			.upsert(setsToUpsert, { onConflict: 'completed_exercise_id,set_number' })
 		
-		if (exercisesError) throw handleSupabaseError(exercisesError)
+		if (setsError) throw handleSupabaseError(setsError)
 	}
 	
-	console.log('[OfflineSync] ✅ Trening zsynchronizowany:', workout.id)
+	return workoutId
+}
+
+/**
+ * Zapisz pomiar ze zdjęciami
+ * Używane przez handler kolejki i bezpośredni zapis online.
+ * Upsert po ID pomiaru, zdjęcia nadpisują się po typie.
+ */
+export async function saveMeasurementToServer(
+	userId: string,
+	{ photos, ...data }: SaveMeasurementData & { id: string }
+): Promise<Measurement> {
+	const { data: measurement, error } = await supabase
+		.from('measurements')
+		.upsert({ ...data, user_id: userId }, { onConflict: 'id' })
+		.select()
+		.single()
+	
+	if (error) throw handleSupabaseError(error)
+	
+	if (photos && photos.length > 0) {
+		await uploadProgressPhotos(userId, measurement.id, photos)
+	}
+	
+	return measurement as Measurement
+}
+
+// ============================================
+// HANDLERY SYNCHRONIZACJI
+// ============================================
+
+/**
+ * Handler dla zapisania ukończonego treningu
+ */
+async function handleSaveWorkout(operation: QueuedOperation): Promise<void> {
+	const { session_id, ...data } = operation.data as SaveWorkoutData & { session_id?: string }
+	// Operacje zapisane przez starszą wersję aplikacji nie mają ID treningu
+	if (!data.id) {
+		data.id = session_id || generateUUID()
+		// Zapisz ID w kolejce przed wysłaniem - ponowienie po błędzie sieci
+		// trafi w ten sam trening zamiast tworzyć duplikat
+		offlineQueue.updateInQueue(operation.id, { data: { ...operation.data, id: data.id } })
+	}
+	
+	const workoutId = await saveWorkoutToServer(operation.userId, data)
+	
+	console.log('[OfflineSync] ✅ Trening zsynchronizowany:', workoutId)
 }
 
 /**
@@ -86,32 +381,28 @@ async function handleSaveWorkout(operation: QueuedOperation): Promise<void> {
  */
 async function handleSaveMeasurement(operation: QueuedOperation): Promise<void> {
 	const data = operation.data as SaveMeasurementData
-	const userId = operation.userId
-	
-	const { error } = await supabase
-		.from('measurements')
-		.insert({
-			user_id: userId,
-			...data,
-		})
+	// Operacje zapisane przez starszą wersję aplikacji nie mają ID pomiaru
+	const id = data.id || generateUUID()
+	if (!data.id) {
+		offlineQueue.updateInQueue(operation.id, { data: { ...data, id } })
+	}
+	const measurement = await saveMeasurementToServer(operation.userId, { ...data, id })
 	
-	if (error) throw handleSupabaseError(error)
+	// Usuń lokalne kopie zdjęć
+	for (const photo of data.photos || []) {
+		await FileSystem.deleteAsync(photo.uri, { idempotent: true })
+	}
 	
-	console.log('[OfflineSync] ✅ Pomiar zsynchronizowany')
+	console.log('[OfflineSync] ✅ Pomiar zsynchronizowany:', measurement.id)
 }
 
 /**
  * Handler dla aktualizacji planu (trener)
  */
 async function handleUpdatePlan(operation: QueuedOperation): Promise<void> {
-	const { planId, input } = operation.data
-	
-	const { error } = await supabase
-		.from('training_plans')
-		.update(input)
-		.eq('id', planId)
+	const { planId, input, expectedUpdatedAt, versionCheck } = operation.data as UpdatePlanData
 	
-	if (error) throw handleSupabaseError(error)
+	await updateWithPrecondition('training_plans', planId, input, expectedUpdatedAt, operation.force, versionCheck)
 	
 	console.log('[OfflineSync] ✅ Plan zaktualizowany:', planId)
 }
@@ -120,35 +411,31 @@ async function handleUpdatePlan(operation: QueuedOperation): Promise<void> {
  * Handler dla dodania ćwiczenia
  */
 async function handleAddExercise(operation: QueuedOperation): Promise<void> {
-	const data = operation.data
+	const data = operation.data as AddExerciseData
 	
+	// Ćwiczenie już dodane (ponowienie) - nie nadpisuj późniejszych zmian
 	const { error } = await supabase
 		.from('exercises')
-		.insert(data)
+		.upsert(data, { onConflict: 'id', ignoreDuplicates: true })
 	
 	if (error) throw handleSupabaseError(error)
 	
-	console.log('[OfflineSync] ✅ Ćwiczenie dodane')
+	console.log('[OfflineSync] ✅ Ćwiczenie dodane:', data.id)
 }
 
 /**
  * Handler dla aktualizacji ćwiczenia
  */
 async function handleUpdateExercise(operation: QueuedOperation): Promise<void> {
-	const { exerciseId, input } = operation.data
-	
-	const { error } = await supabase
-		.from('exercises')
-		.update(input)
-		.eq('id', exerciseId)
+	const { exerciseId, input, expectedUpdatedAt } = operation.data as UpdateExerciseData
 	
-	if (error) throw handleSupabaseError(error)
+	await updateWithPrecondition('exercises', exerciseId, input, expectedUpdatedAt, operation.force)
 	
 	console.log('[OfflineSync] ✅ Ćwiczenie zaktualizowane:', exerciseId)
 }
 
 /**
- * Handler dla usunięcia ćwiczenia
+ * Handler dla usunięcia ćwiczenia (usunięcie nieistniejącego wiersza nie jest błędem)
  */
 async function handleDeleteExercise(operation: QueuedOperation): Promise<void> {
 	const { exerciseId } = operation.data
@@ -163,6 +450,114 @@ async function handleDeleteExercise(operation: QueuedOperation): Promise<void> {
 	console.log('[OfflineSync] ✅ Ćwiczenie usunięte:', exerciseId)
 }
 
+/**
+ * Handler dla dodania dnia do planu
+ */
+async function handleAddWorkoutDay(operation: QueuedOperation): Promise<OperationResult> {
+	const { tempId, input } = operation.data as AddWorkoutDayData
+	
+	const result = await insertTempRow('workout_days', tempId, {
+		plan_id: input.plan_id,
+		day_of_week: input.day_of_week,
+		name: input.name,
+		is_rest_day: input.is_rest_day ?? false,
+		order_index: input.order_index ?? input.day_of_week,
+	})
+	
+	console.log('[OfflineSync] ✅ Dzień dodany:', result.idMap?.[tempId])
+	return result
+}
+
+/**
+ * Handler dla aktualizacji dnia planu
+ */
+async function handleUpdateWorkoutDay(operation: QueuedOperation): Promise<void> {
+	const { dayId, input } = operation.data as UpdateWorkoutDayData
+	
+	await updateWorkoutDay(dayId, input)
+	
+	console.log('[OfflineSync] ✅ Dzień zaktualizowany:', dayId)
+}
+
+/**
+ * Handler dla usunięcia dnia planu (usunięcie nieistniejącego wiersza nie jest błędem)
+ */
+async function handleDeleteWorkoutDay(operation: QueuedOperation): Promise<void> {
+	const { dayId } = operation.data as DeleteWorkoutDayData
+	
+	await deleteWorkoutDay(dayId)
+	
+	console.log('[OfflineSync] ✅ Dzień usunięty:', dayId)
+}
+
+/**
+ * Handler dla dodania ćwiczenia do dnia
+ */
+async function handleAddWorkoutExercise(operation: QueuedOperation): Promise<OperationResult> {
+	const { tempId, input } = operation.data as AddWorkoutExerciseData
+	
+	const result = await insertTempRow('workout_exercises', tempId, {
+		workout_day_id: input.workout_day_id,
+		exercise_id: input.exercise_id,
+		order_index: input.order_index,
+		sets: input.sets,
+		reps: input.reps,
+		weight_kg: input.weight_kg ?? null,
+		rest_seconds: input.rest_seconds ?? 60,
+		notes: input.notes ?? null,
+		group_id: input.group_id ?? null,
+		group_type: input.group_type ?? null,
+		group_rounds: input.group_rounds ?? null,
+	})
+	
+	console.log('[OfflineSync] ✅ Ćwiczenie dodane do dnia:', result.idMap?.[tempId])
+	return result
+}
+
+/**
+ * Handler dla aktualizacji ćwiczenia w dniu
+ */
+async function handleUpdateWorkoutExercise(operation: QueuedOperation): Promise<void> {
+	const { workoutExerciseId, input } = operation.data as UpdateWorkoutExerciseData
+	
+	await updateWorkoutExercise(workoutExerciseId, input)
+	
+	console.log('[OfflineSync] ✅ Ćwiczenie w dniu zaktualizowane:', workoutExerciseId)
+}
+
+/**
+ * Handler dla usunięcia ćwiczenia z dnia
+ */
+async function handleDeleteWorkoutExercise(operation: QueuedOperation): Promise<void> {
+	const { workoutExerciseId } = operation.data as DeleteWorkoutExerciseData
+	
+	await removeExerciseFromWorkout(workoutExerciseId)
+	
+	console.log('[OfflineSync] ✅ Ćwiczenie usunięte z dnia:', workoutExerciseId)
+}
+
+/**
+ * Handler dla zmiany kolejności ćwiczeń w dniu (nieistniejące ID są pomijane)
+ */
+async function handleReorderWorkoutExercises(operation: QueuedOperation): Promise<void> {
+	const { workoutDayId, exerciseIds } = operation.data as ReorderWorkoutExercisesData
+	
+	await reorderWorkoutExercises(workoutDayId, exerciseIds)
+	
+	console.log('[OfflineSync] ✅ Kolejność ćwiczeń zmieniona:', workoutDayId)
+}
+
+/**
+ * Handler dla wysłania wiadomości w czacie
+ */
+async function handleSendMessage(operation: QueuedOperation): Promise<void> {
+	const data = operation.data as SendMessageData
+	
+	await sendMessage(data)
+	
+	console.log('[OfflineSync] ✅ Wiadomość wysłana:', data.id)
+}
+
 // ============================================
 // REJESTRACJA HANDLERÓW
 // ============================================
@@ -174,6 +569,14 @@ export function registerOfflineHandlers(): void {
 	offlineQueue.registerHandler('ADD_EXERCISE', handleAddExercise)
 	offlineQueue.registerHandler('UPDATE_EXERCISE', handleUpdateExercise)
 	offlineQueue.registerHandler('DELETE_EXERCISE', handleDeleteExercise)
+	offlineQueue.registerHandler('SEND_MESSAGE', handleSendMessage)
+	offlineQueue.registerHandler('ADD_WORKOUT_DAY', handleAddWorkoutDay)
+	offlineQueue.registerHandler('UPDATE_WORKOUT_DAY', handleUpdateWorkoutDay)
+	offlineQueue.registerHandler('DELETE_WORKOUT_DAY', handleDeleteWorkoutDay)
+	offlineQueue.registerHandler('ADD_WORKOUT_EXERCISE', handleAddWorkoutExercise)
+	offlineQueue.registerHandler('UPDATE_WORKOUT_EXERCISE', handleUpdateWorkoutExercise)
+	offlineQueue.registerHandler('DELETE_WORKOUT_EXERCISE', handleDeleteWorkoutExercise)
+	offlineQueue.registerHandler('REORDER_WORKOUT_EXERCISES', handleReorderWorkoutExercises)
 	
 	console.log('[OfflineSync] Handlery zarejestrowane')
 }
@@ -0,0 +1,270 @@
+/**
+ * Plan Edits - Edycja planu treningowego offline
+ *
+ * Zapis planu online to jedno RPC save_plan z pełnym stanem planu.
+ * Offline porównujemy nowy stan z ostatnią znaną wersją planu i zapisujemy
+ * w kolejce pojedyncze zmiany (dni, ćwiczenia, kolejność). Nowe dni
+ * i ćwiczenia dostają tymczasowe ID - zmiany, które się do nich odwołują,
+ * czekają w kolejce na ich zapis na serwerze.
+ *
+ * Zaktualizowany plan trafia do cache zapytań (useOfflineSavePlan), żeby
+ * kolejna edycja offline zaczynała od stanu z poprzednimi zmianami.
+ *
+ * Konflikty: zmiany z serii edycji offline tworzą jedną serię (batchId),
+ * a na jej początku stoi zapis planu z warunkiem wersji (updated_at).
+ * Operacje planu idą po kolei, więc przy konflikcie zmiany dni i ćwiczeń
+ * czekają na decyzję trenera - "zachowaj moje" zapisuje całą serię,
+ * odrzucenie usuwa ją w całości. Kolejne edycje przed synchronizacją
+ * dopisują się do tej samej serii (zaczynają od stanu z jej zmianami).
+ */
+
+import { offlineQueue, createTempId, isTempId, type OperationType } from './offlineQueue'
+import type {
+	UpdatePlanData,
+	AddWorkoutDayData,
+	UpdateWorkoutDayData,
+	DeleteWorkoutDayData,
+	AddWorkoutExerciseData,
+	UpdateWorkoutExerciseData,
+	DeleteWorkoutExerciseData,
+	ReorderWorkoutExercisesData,
+} from './offlineSync'
+import type {
+	SavePlanInput,
+	SavePlanExerciseInput,
+	TrainingPlanWithDetails,
+	UpdateWorkoutDayInput,
+	UpdateWorkoutExerciseInput,
+	WorkoutDayWithExercises,
+	WorkoutExerciseWithDetails,
+} from '../../api/services/trainingPlans'
+import { generateUUID } from '../../utils/uuid'
+import type { Exercise } from '../../types'
+
+// ============================================
+// HELPERY
+// ============================================
+
+const byOrderIndex = (a: { order_index: number }, b: { order_index: number }) => a.order_index - b.order_index
+
+/**
+ * Pola, których wartość różni się od wersji bazowej (null i undefined są równe)
+ */
+function getChangedFields<T extends object>(base: object, next: T): Partial<T> {
+	const baseValues = base as Record<string, unknown>
+	return Object.fromEntries(
+		Object.entries(next).filter(([key, value]) => (baseValues[key] ?? null) !== (value ?? null))
+	) as Partial<T>
+}
+
+/**
+ * Pola ćwiczenia w dniu zapisywane na serwerze (bez kolejności - tę ustala REORDER)
+ */
+const getExerciseFields = (exercise: SavePlanExerciseInput): UpdateWorkoutExerciseInput => ({
+	sets: exercise.sets,
+	reps: exercise.reps,
+	weight_kg: exercise.weight_kg ?? null,
+	rest_seconds: exercise.rest_seconds,
+	notes: exercise.notes ?? null,
+	group_id: exercise.group_id ?? null,
+	group_type: exercise.group_type ?? null,
+	group_rounds: exercise.group_rounds ?? null,
+})
+
+/**
+ * Usuń wiersz: niezapisany jeszcze na serwerze znika z kolejki razem ze zmianami,
+ * które się do niego odwołują, zapisany - kolejkowane jest usunięcie
+ */
+function queueDelete(id: string, queueServerDelete: (serverId: string) => void): void {
+	const resolvedId = offlineQueue.resolveId(id)
+	if (isTempId(resolvedId)) {
+		offlineQueue.discardTempId(resolvedId)
+	} else {
+		queueServerDelete(resolvedId)
+	}
+}
+
+/**
+ * Seria niezsynchronizowanych zmian planu (w kolejce albo na liście nieudanych)
+ */
+function getPendingBatchId(planId: string): string | undefined {
+	const operations = [
+		...offlineQueue.getQueue(),
+		...offlineQueue.getDeadLetters().map(entry => entry.operation),
+	]
+	return operations.find(op => op.data?.planId === planId && op.batchId)?.batchId
+}
+
+// ============================================
+// API
+// ============================================
+
+/**
+ * Czy plan ma zmiany czekające na synchronizację albo na decyzję trenera
+ * (ekran SyncIssues) - wersja z serwera nie zawiera jeszcze zmian trenera
+ */
+export function hasPendingPlanEdits(planId: string): boolean {
+	return (
+		offlineQueue.getQueue().some(op => op.data?.planId === planId) ||
+		offlineQueue.getDeadLetters().some(entry => entry.operation.data?.planId === planId)
+	)
+}
+
+/**
+ * Zapisz zmiany planu w kolejce offline
+ *
+ * base - ostatnia znana wersja planu (z serwera albo z cache po edycji offline)
+ * next - pełny stan planu z formularza (jak dla save_plan)
+ * exercises - ćwiczenia z biblioteki użyte w planie (do zapisu planu w cache)
+ *
+ * Zwraca zaktualizowany plan (z tymczasowymi ID nowych wierszy)
+ */
+export function queuePlanEdits(
+	userId: string,
+	base: TrainingPlanWithDetails,
+	next: SavePlanInput,
+	exercises: Exercise[]
+): TrainingPlanWithDetails {
+	const planId = base.id
+	const exerciseById = new Map<string, Exercise>(exercises.map(exercise => [exercise.id, exercise]))
+	const baseExercises = base.workout_days.flatMap(day => day.workout_exercises)
+	const baseExerciseById = new Map(baseExercises.map(exercise => [exercise.id, exercise]))
+	const baseDayById = new Map(base.workout_days.map(day => [day.id, day]))
+
+	// Edycja przed synchronizacją poprzedniej dopisuje się do jej serii
+	const isContinuation = hasPendingPlanEdits(planId)
+	const batchId = getPendingBatchId(planId) ?? generateUUID()
+	const enqueue = (type: OperationType, data: object) => offlineQueue.addToQueue(type, data, userId, batchId)
+
+	// Notatki planu i warunek wersji dla całej serii - sprawdza go pierwsza edycja,
+	// kolejne bez warunku (updated_at na serwerze zmieni się po zapisie wcześniejszej)
+	const notesChanged = (next.trainer_notes ?? '') !== (base.trainer_notes ?? '')
+	if (!isContinuation || notesChanged) {
+		const data: UpdatePlanData = {
+			planId,
+			input: { trainer_notes: next.trainer_notes },
+			expectedUpdatedAt: isContinuation ? null : base.updated_at,
+			versionCheck: !notesChanged,
+		}
+		enqueue('UPDATE_PLAN', data)
+	}
+
+	// Najpierw usunięcia - zwolniony dzień tygodnia może zająć nowy dzień (UNIQUE plan_id, day_of_week)
+	const nextDayIds = new Set(next.days.map(day => day.id).filter(Boolean))
+	const nextExerciseIds = new Set(next.days.flatMap(day => day.exercises.map(ex => ex.id)).filter(Boolean))
+
+	for (const day of base.workout_days) {
+		if (!nextDayIds.has(day.id)) {
+			queueDelete(day.id, dayId => {
+				const data: DeleteWorkoutDayData = { planId, dayId }
+				enqueue('DELETE_WORKOUT_DAY', data)
+			})
+			continue
+		}
+
+		for (const exercise of day.workout_exercises) {
+			if (nextExerciseIds.has(exercise.id)) continue
+			queueDelete(exercise.id, workoutExerciseId => {
+				const data: DeleteWorkoutExerciseData = { planId, workoutExerciseId }
+				enqueue('DELETE_WORKOUT_EXERCISE', data)
+			})
+		}
+	}
+
+	// Nowe i zmienione dni z ćwiczeniami
+	const workoutDays: WorkoutDayWithExercises[] = next.days.map(day => {
+		const baseDay = day.id ? baseDayById.get(day.id) : undefined
+		const dayFields: UpdateWorkoutDayInput = {
+			name: day.name,
+			is_rest_day: day.is_rest_day,
+			order_index: day.order_index,
+		}
+		const dayId = day.id && baseDay ? day.id : createTempId()
+
+		if (!baseDay) {
+			const data: AddWorkoutDayData = {
+				planId,
+				tempId: dayId,
+				input: { plan_id: planId, day_of_week: day.day_of_week, ...dayFields },
+			}
+			enqueue('ADD_WORKOUT_DAY', data)
+		} else {
+			const changed = getChangedFields(baseDay, dayFields)
+			if (Object.keys(changed).length > 0) {
+				const data: UpdateWorkoutDayData = { planId, dayId, input: changed }
+				enqueue('UPDATE_WORKOUT_DAY', data)
+			}
+		}
+
+		const workoutExercises: WorkoutExerciseWithDetails[] = day.exercises.map((exercise, index) => {
+			const baseExercise = exercise.id ? baseExerciseById.get(exercise.id) : undefined
+			const fields = getExerciseFields(exercise)
+			const workoutExerciseId = exercise.id && baseExercise ? exercise.id : createTempId()
+
+			if (!baseExercise) {
+				const data: AddWorkoutExerciseData = {
+					planId,
+					tempId: workoutExerciseId,
+					input: {
+						workout_day_id: dayId,
+						exercise_id: exercise.exercise_id,
+						order_index: index,
+						sets: exercise.sets,
+						reps: exercise.reps,
+						weight_kg: exercise.weight_kg,
+						rest_seconds: exercise.rest_seconds,
+						notes: exercise.notes,
+						group_id: fields.group_id,
+						group_type: fields.group_type,
+						group_rounds: fields.group_rounds,
+					},
+				}
+				enqueue('ADD_WORKOUT_EXERCISE', data)
+			} else {
+				const changed = getChangedFields(baseExercise, fields)
+				if (Object.keys(changed).length > 0) {
+					const data: UpdateWorkoutExerciseData = { planId, workoutExerciseId, input: changed }
+					enqueue('UPDATE_WORKOUT_EXERCISE', data)
+				}
+			}
+
+			return {
+				...baseExercise,
+				...fields,
+				id: workoutExerciseId,
+				workout_day_id: dayId,
+				exercise_id: exercise.exercise_id,
+				order_index: index,
+				created_at: baseExercise?.created_at ?? new Date().toISOString(),
+				exercise: exerciseById.get(exercise.exercise_id) ?? baseExercise?.exercise,
+			} as WorkoutExerciseWithDetails
+		})
+
+		// Kolejność: po dodaniu, usunięciu albo przesunięciu ćwiczeń ustaw całą listę dnia
+		const baseOrder = baseDay ? [...baseDay.workout_exercises].sort(byOrderIndex).map(ex => ex.id) : []
+		const nextOrder = workoutExercises.map(ex => ex.id)
+		if (baseDay && nextOrder.join() !== baseOrder.join()) {
+			const data: ReorderWorkoutExercisesData = { planId, workoutDayId: dayId, exerciseIds: nextOrder }
+			enqueue('REORDER_WORKOUT_EXERCISES', data)
+		}
+
+		return {
+			...baseDay,
+			...dayFields,
+			id: dayId,
+			plan_id: planId,
+			day_of_week: day.day_of_week,
+			name: day.name ?? null,
+			created_at: baseDay?.created_at ?? new Date().toISOString(),
+			workout_exercises: workoutExercises,
+		} as WorkoutDayWithExercises
+	})
+
+	const updatedPlan: TrainingPlanWithDetails = {
+		...base,
+		trainer_notes: next.trainer_notes ?? base.trainer_notes,
+		workout_days: workoutDays,
+	}
+	console.log('[PlanEdits] Zmiany planu zapisane offline:', planId)
+	return updatedPlan
+}
@@ -12,22 +12,34 @@ import AsyncStorage from '@react-native-async-storage/async-storage'
 // ============================================
 
 export const STORAGE_KEYS = {
-	// Cache danych
-	TRAINING_PLANS: 'cache:training-plans',
-	EXERCISES: 'cache:exercises',
-	MEASUREMENTS: 'cache:measurements',
-	COMPLETED_WORKOUTS: 'cache:completed-workouts',
-	CLIENT_LIST: 'cache:client-list',
-	PROFILE: 'cache:profile',
+	// Cache zapytań React Query (api/queryClient.ts) - zapisuje go persister
+	QUERY_CACHE: 'cache:react-query',
 	
 	// Kolejka offline
 	OFFLINE_QUEUE: 'offline:queue',
+	// Operacje, których nie udało się zsynchronizować (do decyzji użytkownika)
+	OFFLINE_DEAD_LETTER: 'offline:dead-letter',
+	// Tymczasowe ID wierszy utworzonych offline → ID z serwera
+	OFFLINE_ID_MAP: 'offline:id-map',
+	
+	// Trwająca sesja treningowa
+	ACTIVE_WORKOUT: 'session:active-workout',
 	
 	// Metadane
-	LAST_SYNC: 'meta:last-sync',
 	CACHE_VERSION: 'meta:cache-version',
 } as const
 
+/**
+ * Wersja danych w cache - zmiana odrzuca zapisany cache zapytań (buster)
+ * i klucze cache z poprzedniej wersji
+ * 2: cache zapytań React Query zamiast osobnych kluczy cache:*
+ * 3: kursor historii czatu (created_at, id) zamiast samego created_at
+ */
+export const CACHE_VERSION = 3
+
+/** Prefiks kluczy z danymi z serwera (usuwanych po zmianie wersji) */
+const CACHE_KEY_PREFIX = 'cache:'
+
 // ============================================
 // IN-MEMORY CACHE (dla szybkiego dostępu)
 // ============================================
@@ -114,10 +126,12 @@ export function removeKey(key: string): void {
 }
 
 /**
- * Wyczyść cały cache (zachowaj kolejkę offline!)
+ * Wyczyść cały cache (zachowaj kolejkę offline, nieudane operacje i mapę tymczasowych ID!)
  */
 export async function clearCache(): Promise<void> {
 	const queue = await getObjectAsync(STORAGE_KEYS.OFFLINE_QUEUE)
+	const deadLetters = await getObjectAsync(STORAGE_KEYS.OFFLINE_DEAD_LETTER)
+	const idMap = await getObjectAsync(STORAGE_KEYS.OFFLINE_ID_MAP)
 	
 	const allKeys = await AsyncStorage.getAllKeys()
 	await AsyncStorage.multiRemove(allKeys)
@@ -126,6 +140,12 @@ export async function clearCache(): Promise<void> {
 	if (queue) {
 		await setObjectAsync(STORAGE_KEYS.OFFLINE_QUEUE, queue)
 	}
+	if (deadLetters) {
+		await setObjectAsync(STORAGE_KEYS.OFFLINE_DEAD_LETTER, deadLetters)
+	}
+	if (idMap) {
+		await setObjectAsync(STORAGE_KEYS.OFFLINE_ID_MAP, idMap)
+	}
 }
 
 /**
@@ -137,39 +157,46 @@ export async function clearAll(): Promise<void> {
 }
 
 /**
- * Zapisz timestamp ostatniej synchronizacji
+ * Usuń klucze cache z poprzedniej wersji aplikacji
+ * (cache zapytań odrzuca sam persister po zmianie buster)
  */
-export function setLastSync(key: string): void {
-	const syncs = getObject<Record<string, number>>(STORAGE_KEYS.LAST_SYNC) || {}
-	syncs[key] = Date.now()
-	setObject(STORAGE_KEYS.LAST_SYNC, syncs)
+async function migrateCacheVersion(): Promise<void> {
+	const version = await AsyncStorage.getItem(STORAGE_KEYS.CACHE_VERSION)
+	if (version === String(CACHE_VERSION)) return
+	
+	const allKeys = await AsyncStorage.getAllKeys()
+	const staleKeys = allKeys.filter(key => key.startsWith(CACHE_KEY_PREFIX) && key !== STORAGE_KEYS.QUERY_CACHE)
+	// meta:last-sync - znaczniki świeżości starego cache (wersja 1)
+	await AsyncStorage.multiRemove([...staleKeys, 'meta:last-sync'])
+	await AsyncStorage.setItem(STORAGE_KEYS.CACHE_VERSION, String(CACHE_VERSION))
+	console.log(`[Storage] Cache w wersji ${CACHE_VERSION}, usunięto ${staleKeys.length} starych kluczy`)
 }
 
-/**
- * Pobierz timestamp ostatniej synchronizacji
- */
-export function getLastSync(key: string): number | null {
-	const syncs = getObject<Record<string, number>>(STORAGE_KEYS.LAST_SYNC)
-	return syncs?.[key] || null
-}
+let initializePromise: Promise<void> | null = null
 
 /**
- * Sprawdź czy cache jest stary (domyślnie 1 godzina)
+ * Załaduj dane z AsyncStorage do memory cache
+ * Wywołaj na starcie aplikacji. Kolejne wywołania (np. zadanie w tle
+ * przy działającej aplikacji) czekają na pierwsze ładowanie - ponowne
+ * nie nadpisze nowszych danych z pamięci.
  */
-export function isCacheStale(key: string, maxAgeMs: number = 60 * 60 * 1000): boolean {
-	const lastSync = getLastSync(key)
-	if (!lastSync) return true
-	return Date.now() - lastSync > maxAgeMs
+export function initializeStorage(): Promise<void> {
+	if (!initializePromise) {
+		initializePromise = loadStorage().catch(error => {
+			initializePromise = null
+			throw error
+		})
+	}
+	return initializePromise
 }
 
-/**
- * Załaduj dane z AsyncStorage do memory cache
- * Wywołaj na starcie aplikacji
- */
-export async function initializeStorage(): Promise<void> {
+async function loadStorage(): Promise<void> {
 	console.log('[Storage] Inicjalizacja...')
 	
-	const keys = Object.values(STORAGE_KEYS)
+	await migrateCacheVersion()
+	
+	// Cache zapytań odczytuje persister React Query - nie trzymamy go drugi raz w pamięci
+	const keys = Object.values(STORAGE_KEYS).filter(key => key !== STORAGE_KEYS.QUERY_CACHE)
 	
 	for (const key of keys) {
 		try {
@@ -185,7 +212,7 @@ export async function initializeStorage(): Promise<void> {
 	// Załaduj też dynamiczne klucze (z prefixami użytkowników)
 	const allKeys = await AsyncStorage.getAllKeys()
 	for (const key of allKeys) {
-		if (!memoryCache.has(key)) {
+		if (!memoryCache.has(key) && key !== STORAGE_KEYS.QUERY_CACHE) {
 			try {
 				const value = await AsyncStorage.getItem(key)
 				if (value) {
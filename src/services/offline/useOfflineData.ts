@@ -2,42 +2,46 @@
  * useOfflineData - Hooki React do danych offline
  * 
  * Zapewniają dostęp do danych zarówno online jak i offline.
+ * Odczyty to zwykłe zapytania React Query - ich cache jest zapisywany
+ * na urządzeniu (api/queryClient.ts), więc bez internetu zostają ostatnio
+ * pobrane dane. Zapisy offline trafiają do kolejki i od razu do cache zapytań.
  */
 
-import { useEffect, useMemo, useCallback } from 'react'
-import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query'
+import { useEffect, useCallback, useState } from 'react'
+import { useQueryClient, useMutation } from '@tanstack/react-query'
+import * as FileSystem from 'expo-file-system/legacy'
 import { useNetworkStatus, getNetworkStatus } from './networkStatus'
-import { offlineQueue } from './offlineQueue'
+import { offlineQueue, remapIds, type DeadLetterResolution } from './offlineQueue'
 import {
-	cacheTrainingPlans,
-	getCachedTrainingPlans,
-	isTrainingPlansCacheStale,
-	cacheMeasurements,
-	getCachedMeasurements,
-	addCachedMeasurement,
-	cacheCompletedWorkouts,
-	getCachedCompletedWorkouts,
-	addCachedCompletedWorkout,
-	cacheExercises,
-	getCachedExercises,
-	isExercisesCacheStale,
-	isWorkoutDayCompletedOffline,
-	type CachedTrainingPlan,
-	type CachedCompletedWorkout,
-	type CachedExercise,
-} from './cacheManager'
-import type { SaveWorkoutData, SaveMeasurementData } from './offlineSync'
-import { 
-	getActivePlanForClient, 
-	getPlanDetails,
-	getCompletedWorkouts,
-	getWorkoutStats,
+	saveWorkoutToServer,
+	saveMeasurementToServer,
+	type SaveWorkoutData,
+	type SaveMeasurementData,
+	type UpdateExerciseData,
+} from './offlineSync'
+import { hasPendingPlanEdits, queuePlanEdits } from './planEdits'
+import {
+	useActivePlan,
+	usePlanDetails,
+	useCompletedWorkouts,
+	useWorkoutStats,
+	useTodayWorkoutStatus,
+	savePlan,
+	planKeys,
+	type SavePlanInput,
 	type TrainingPlanWithDetails,
 	type CompletedWorkout,
 	type WorkoutStats,
 } from '../../api/services/trainingPlans'
-import { getMeasurements, type Measurement } from '../../api/services/measurements'
-import { getTrainerExercises, type Exercise } from '../../api/services/exercises'
+import { useMeasurements, type Measurement, type ProgressPhotoInput } from '../../api/services/measurements'
+import {
+	useExercises,
+	updateExercise,
+	exerciseKeys,
+	type UpdateExerciseInput,
+} from '../../api/services/exercises'
+import { generateUUID } from '../../utils/uuid'
+import type { Exercise, ExerciseFilters, TrainingPlan } from '../../types'
 
 // ============================================
 // HOOK: AKTYWNY PLAN Z CACHE
@@ -45,52 +49,11 @@ import { getTrainerExercises, type Exercise } from '../../api/services/exercises
 
 export function useOfflineActivePlan(clientId: string) {
 	const { isOnline } = useNetworkStatus()
-	const queryClient = useQueryClient()
-	
-	const query = useQuery({
-		queryKey: ['offline-active-plan', clientId],
-		queryFn: async (): Promise<TrainingPlanWithDetails | null> => {
-			// Próbuj pobrać z serwera
-			if (isOnline) {
-				try {
-					const plan = await getActivePlanForClient(clientId)
-					
-					// Zapisz do cache
-					if (plan) {
-						cacheTrainingPlans(clientId, [plan as unknown as CachedTrainingPlan])
-					}
-					
-					return plan
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania planu, używam cache:', error)
-				}
-			}
-			
-			// Fallback do cache
-			const cached = getCachedTrainingPlans(clientId)
-			if (cached && cached.length > 0) {
-				return cached[0] as unknown as TrainingPlanWithDetails
-			}
-			
-			return null
-		},
-		enabled: !!clientId,
-		staleTime: 5 * 60 * 1000, // 5 minut
-	})
-	
-	// Zwróć z cache jeśli query się ładuje
-	const cachedData = useMemo(() => {
-		if (query.isLoading && !query.data) {
-			const cached = getCachedTrainingPlans(clientId)
-			return cached?.[0] as unknown as TrainingPlanWithDetails || null
-		}
-		return query.data
-	}, [query.isLoading, query.data, clientId])
+	const query = useActivePlan(clientId)
 	
 	return {
 		...query,
-		data: cachedData,
-		isFromCache: !isOnline || query.isLoading,
+		isFromCache: !isOnline,
 	}
 }
 
@@ -98,43 +61,13 @@ export function useOfflineActivePlan(clientId: string) {
 // HOOK: SZCZEGÓŁY PLANU Z CACHE
 // ============================================
 
-export function useOfflinePlanDetails(planId: string, clientId?: string) {
+/**
+ * Szczegóły planu - przy niezsynchronizowanych zmianach trenera
+ * wersja lokalna (z tymi zmianami) zamiast wersji z serwera
+ */
+export function useOfflinePlanDetails(planId: string) {
 	const { isOnline } = useNetworkStatus()
-	
-	const query = useQuery({
-		queryKey: ['offline-plan-details', planId],
-		queryFn: async (): Promise<TrainingPlanWithDetails | null> => {
-			if (isOnline) {
-				try {
-					const plan = await getPlanDetails(planId)
-					
-					// Zapisz do cache
-					if (plan && clientId) {
-						const existing = getCachedTrainingPlans(clientId) || []
-						const updated = existing.filter(p => p.id !== planId)
-						updated.unshift(plan as unknown as CachedTrainingPlan)
-						cacheTrainingPlans(clientId, updated)
-					}
-					
-					return plan
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania szczegółów planu:', error)
-				}
-			}
-			
-			// Fallback do cache
-			if (clientId) {
-				const cached = getCachedTrainingPlans(clientId)
-				const plan = cached?.find(p => p.id === planId)
-				if (plan) {
-					return plan as unknown as TrainingPlanWithDetails
-				}
-			}
-			
-			return null
-		},
-		enabled: !!planId,
-	})
+	const query = usePlanDetails(planId)
 	
 	return {
 		...query,
@@ -143,30 +76,64 @@ export function useOfflinePlanDetails(planId: string, clientId?: string) {
 }
 
 // ============================================
-// HOOK: UKOŃCZONE TRENINGI Z CACHE
+// HOOK: ZAPIS PLANU OFFLINE (TRENER)
 // ============================================
 
-export function useOfflineCompletedWorkouts(userId: string) {
-	const { isOnline } = useNetworkStatus()
+/**
+ * Zapis planu z edytora
+ * Online i bez zaległych zmian - RPC save_plan. W przeciwnym razie zmiany
+ * trafiają do kolejki, za wcześniejszymi edycjami offline tego planu.
+ */
+export function useOfflineSavePlan() {
+	const queryClient = useQueryClient()
 	
-	const query = useQuery({
-		queryKey: ['offline-completed-workouts', userId],
-		queryFn: async (): Promise<CompletedWorkout[]> => {
-			if (isOnline) {
-				try {
-					const workouts = await getCompletedWorkouts(userId)
-					cacheCompletedWorkouts(userId, workouts as unknown as CachedCompletedWorkout[])
-					return workouts
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania ukończonych treningów:', error)
-				}
+	return useMutation({
+		mutationFn: async ({
+			userId,
+			plan,
+			input,
+			exercises,
+		}: {
+			userId: string
+			/** Wersja planu, od której zaczęła się edycja */
+			plan: TrainingPlanWithDetails
+			input: SavePlanInput
+			/** Ćwiczenia z biblioteki użyte w planie */
+			exercises: Exercise[]
+		}): Promise<{ plan: TrainingPlan; isOffline: boolean }> => {
+			// Formularz mógł powstać przed synchronizacją - ID z serwera zamiast tymczasowych
+			const idMap = offlineQueue.getIdMap()
+			const resolvedInput = remapIds(input, idMap)
+			
+			if (getNetworkStatus() && !hasPendingPlanEdits(plan.id)) {
+				return { plan: await savePlan(resolvedInput), isOffline: false }
+			}
+			
+			const updatedPlan = queuePlanEdits(userId, remapIds(plan, idMap), resolvedInput, exercises)
+			queryClient.setQueryData(planKeys.detail(plan.id), updatedPlan)
+			
+			// Online z zaległymi zmianami - wyślij od razu w kolejności zapisu
+			if (getNetworkStatus()) {
+				offlineQueue.syncAll()
 			}
 			
-			const cached = getCachedCompletedWorkouts(userId)
-			return (cached || []) as unknown as CompletedWorkout[]
+			return { plan: updatedPlan, isOffline: true }
+		},
+		onSuccess: ({ isOffline }) => {
+			if (!isOffline) {
+				queryClient.invalidateQueries({ queryKey: planKeys.all })
+			}
 		},
-		enabled: !!userId,
 	})
+}
+
+// ============================================
+// HOOK: UKOŃCZONE TRENINGI Z CACHE
+// ============================================
+
+export function useOfflineCompletedWorkouts(userId: string) {
+	const { isOnline } = useNetworkStatus()
+	const query = useCompletedWorkouts(userId)
 	
 	return {
 		...query,
@@ -179,39 +146,7 @@ export function useOfflineCompletedWorkouts(userId: string) {
 // ============================================
 
 export function useOfflineWorkoutStats(userId: string) {
-	const { isOnline } = useNetworkStatus()
-	
-	return useQuery({
-		queryKey: ['offline-workout-stats', userId],
-		queryFn: async (): Promise<WorkoutStats> => {
-			if (isOnline) {
-				try {
-					return await getWorkoutStats(userId)
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania statystyk:', error)
-				}
-			}
-			
-			// Oblicz statystyki z cache
-			const cached = getCachedCompletedWorkouts(userId) || []
-			const total = cached.length
-			
-			// Ten tydzień
-			const now = new Date()
-			const startOfWeek = new Date(now)
-			const day = startOfWeek.getDay()
-			const diff = startOfWeek.getDate() - day + (day === 0 ? -6 : 1)
-			startOfWeek.setDate(diff)
-			startOfWeek.setHours(0, 0, 0, 0)
-			
-			const thisWeek = cached.filter(w => 
-				new Date(w.completed_date) >= startOfWeek
-			).length
-			
-			return { thisWeek, streak: 0, total }
-		},
-		enabled: !!userId,
-	})
+	return useWorkoutStats(userId)
 }
 
 // ============================================
@@ -219,30 +154,7 @@ export function useOfflineWorkoutStats(userId: string) {
 // ============================================
 
 export function useOfflineTodayWorkoutStatus(userId: string, workoutDayId: string | null) {
-	const { isOnline } = useNetworkStatus()
-	
-	return useQuery({
-		queryKey: ['offline-today-workout-status', userId, workoutDayId],
-		queryFn: async (): Promise<boolean> => {
-			if (!workoutDayId) return false
-			
-			// Najpierw sprawdź local cache (dla offline zapisów)
-			const offlineCompleted = isWorkoutDayCompletedOffline(userId, workoutDayId)
-			if (offlineCompleted) return true
-			
-			if (isOnline) {
-				try {
-					const { isWorkoutDayCompleted } = await import('../../api/services/trainingPlans')
-					return await isWorkoutDayCompleted(userId, workoutDayId)
-				} catch (error) {
-					console.warn('[OfflineData] Błąd sprawdzania statusu treningu:', error)
-				}
-			}
-			
-			return false
-		},
-		enabled: !!userId && !!workoutDayId,
-	})
+	return useTodayWorkoutStatus(userId, workoutDayId)
 }
 
 // ============================================
@@ -251,24 +163,7 @@ export function useOfflineTodayWorkoutStatus(userId: string, workoutDayId: strin
 
 export function useOfflineMeasurements(userId: string) {
 	const { isOnline } = useNetworkStatus()
-	
-	const query = useQuery({
-		queryKey: ['offline-measurements', userId],
-		queryFn: async (): Promise<Measurement[]> => {
-			if (isOnline) {
-				try {
-					const measurements = await getMeasurements(userId)
-					cacheMeasurements(userId, measurements)
-					return measurements
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania pomiarów:', error)
-				}
-			}
-			
-			return getCachedMeasurements(userId) || []
-		},
-		enabled: !!userId,
-	})
+	const query = useMeasurements(userId)
 	
 	return {
 		...query,
@@ -280,45 +175,68 @@ export function useOfflineMeasurements(userId: string) {
 // HOOK: ĆWICZENIA TRENERA Z CACHE
 // ============================================
 
-export function useOfflineExercises(trainerId: string) {
+export function useOfflineExercises(filters?: ExerciseFilters) {
 	const { isOnline } = useNetworkStatus()
+	const query = useExercises(filters)
 	
-	const query = useQuery({
-		queryKey: ['offline-exercises', trainerId],
-		queryFn: async (): Promise<Exercise[]> => {
-			const shouldRefresh = isExercisesCacheStale(trainerId)
+	return {
+		...query,
+		isFromCache: !isOnline,
+	}
+}
+
+// ============================================
+// HOOK: EDYCJA ĆWICZENIA OFFLINE (TRENER)
+// ============================================
+
+/**
+ * Zapis zmian ćwiczenia z biblioteki
+ * Online i bez zaległych zmian tego ćwiczenia - zapis od razu. W przeciwnym razie
+ * zmiana trafia do kolejki z updated_at z chwili edycji - zmiana na serwerze
+ * w międzyczasie trafi do nieudanych operacji jako konflikt.
+ */
+export function useOfflineUpdateExercise() {
+	const queryClient = useQueryClient()
+	
+	return useMutation({
+		mutationFn: async ({
+			userId,
+			exercise,
+			input,
+		}: {
+			userId: string
+			/** Wersja ćwiczenia, od której zaczęła się edycja */
+			exercise: Exercise
+			input: UpdateExerciseInput
+		}): Promise<{ exercise: Exercise; isOffline: boolean }> => {
+			const hasPendingEdits = offlineQueue.getQueue().some(op =>
+				op.type === 'UPDATE_EXERCISE' && op.data.exerciseId === exercise.id
+			)
 			
-			if (isOnline && shouldRefresh) {
-				try {
-					const exercises = await getTrainerExercises(trainerId)
-					cacheExercises(trainerId, exercises as unknown as CachedExercise[])
-					return exercises
-				} catch (error) {
-					console.warn('[OfflineData] Błąd pobierania ćwiczeń:', error)
-				}
+			if (getNetworkStatus() && !hasPendingEdits) {
+				return { exercise: await updateExercise(exercise.id, input), isOffline: false }
 			}
 			
-			const cached = getCachedExercises(trainerId)
-			if (cached) {
-				return cached as unknown as Exercise[]
+			// Kolejna edycja offline zaczyna się od wersji lokalnej - warunek ma tylko pierwsza
+			const data: UpdateExerciseData = {
+				exerciseId: exercise.id,
+				input,
+				expectedUpdatedAt: hasPendingEdits ? null : exercise.updated_at,
 			}
+			offlineQueue.addToQueue('UPDATE_EXERCISE', data, userId)
 			
-			// Jeśli nie ma cache i jest online, pobierz
-			if (isOnline) {
-				const exercises = await getTrainerExercises(trainerId)
-				cacheExercises(trainerId, exercises as unknown as CachedExercise[])
-				return exercises
+			// Online z zaległymi zmianami - wyślij od razu w kolejności zapisu
+			if (getNetworkStatus()) {
+				offlineQueue.syncAll()
 			}
 			
-			return []
+			return { exercise: { ...exercise, ...input }, isOffline: true }
+		},
+		onSuccess: ({ exercise }) => {
+			queryClient.setQueryData(exerciseKeys.detail(exercise.id), exercise)
+			queryClient.invalidateQueries({ queryKey: exerciseKeys.lists() })
 		},
-		enabled: !!trainerId,
 	})
-	
-	return {
-		...query,
-		isFromCache: !isOnline,
-	}
 }
 
 // ============================================
@@ -340,68 +258,38 @@ export function useOfflineSaveWorkout() {
 			
 			if (isOnline) {
 				// Próbuj zapisać bezpośrednio
-				const { supabase, handleSupabaseError } = await import('../../api/supabase')
-				
-				const { data: workout, error } = await supabase
-					.from('completed_workouts')
-					.insert({
-						user_id: userId,
-						workout_day_id: data.workout_day_id,
-						status: data.status,
-						duration_minutes: data.duration_minutes,
-						feeling_rating: data.feeling_rating,
-						client_notes: data.client_notes,
-					})
-					.select()
-					.single()
-				
-				if (error) throw handleSupabaseError(error)
-				
-				// Zapisz ćwiczenia
-				if (data.exercises && data.exercises.length > 0) {
-					const exercisesToInsert = data.exercises.map(ex => ({
-						completed_workout_id: workout.id,
-						workout_exercise_id: ex.workout_exercise_id,
-						is_completed: ex.is_completed,
-						actual_sets: ex.actual_sets,
-						actual_reps: ex.actual_reps,
-						actual_weight_kg: ex.actual_weight_kg,
-						notes: ex.notes,
-					}))
-					
-					await supabase.from('completed_exercises').insert(exercisesToInsert)
-				}
-				
-				return workout.id
+				return saveWorkoutToServer(userId, data)
 			}
 			
-			// Offline: dodaj do kolejki i cache
-			const tempId = `offline-${Date.now()}`
-			
-			// Dodaj do lokalnego cache
-			const cachedWorkout: CachedCompletedWorkout = {
-				id: tempId,
+			// Offline: dodaj do kolejki i cache zapytań (pod docelowym ID treningu)
+			const completedWorkout: CompletedWorkout = {
+				id: data.id,
 				user_id: userId,
 				workout_day_id: data.workout_day_id,
-				completed_date: new Date().toISOString().split('T')[0],
 				status: data.status,
 				duration_minutes: data.duration_minutes,
-				client_notes: data.client_notes,
 				feeling_rating: data.feeling_rating,
-				exercises: data.exercises,
+				client_notes: data.client_notes,
+				created_at: new Date().toISOString(),
 			}
-			addCachedCompletedWorkout(userId, cachedWorkout)
+			queryClient.setQueryData<CompletedWorkout[]>(['completed-workouts', userId], workouts => [
+				completedWorkout,
+				...(workouts || []).filter(workout => workout.id !== data.id),
+			])
+			queryClient.setQueryData(['today-workout-status', userId, data.workout_day_id], true)
+			queryClient.setQueryData<WorkoutStats>(['workout-stats', userId], stats =>
+				stats ? { ...stats, thisWeek: stats.thisWeek + 1, total: stats.total + 1 } : stats
+			)
 			
 			// Dodaj do kolejki synchronizacji
 			offlineQueue.addToQueue('SAVE_WORKOUT', data, userId)
 			
-			console.log('[OfflineData] Trening zapisany offline:', tempId)
-			return tempId
+			console.log('[OfflineData] Trening zapisany offline:', data.id)
+			return data.id
 		},
-		onSuccess: (_, { userId }) => {
-			queryClient.invalidateQueries({ queryKey: ['offline-completed-workouts', userId] })
-			queryClient.invalidateQueries({ queryKey: ['offline-workout-stats', userId] })
-			queryClient.invalidateQueries({ queryKey: ['offline-today-workout-status'] })
+		onSuccess: () => {
+			// Offline zapytania czekają na internet - zostają dane dopisane wyżej
+			queryClient.invalidateQueries({ queryKey: ['completed-workouts'] })
 			queryClient.invalidateQueries({ queryKey: ['workout-stats'] })
 			queryClient.invalidateQueries({ queryKey: ['today-workout-status'] })
 		},
@@ -412,6 +300,22 @@ export function useOfflineSaveWorkout() {
 // HOOK: ZAPIS POMIARU OFFLINE
 // ============================================
 
+/**
+ * Kopiuje zdjęcia postępu do documentDirectory (cache systemowy może zostać wyczyszczony)
+ */
+async function persistPhotosForSync(measurementId: string, photos: ProgressPhotoInput[]): Promise<ProgressPhotoInput[]> {
+	const directory = `${FileSystem.documentDirectory}offline-photos/${measurementId}/`
+	await FileSystem.makeDirectoryAsync(directory, { intermediates: true })
+	
+	const persisted: ProgressPhotoInput[] = []
+	for (const photo of photos) {
+		const target = `${directory}${photo.photo_type}.jpg`
+		await FileSystem.copyAsync({ from: photo.uri, to: target })
+		persisted.push({ photo_type: photo.photo_type, uri: target })
+	}
+	return persisted
+}
+
 export function useOfflineSaveMeasurement() {
 	const queryClient = useQueryClient()
 	
@@ -424,34 +328,41 @@ export function useOfflineSaveMeasurement() {
 			input: SaveMeasurementData 
 		}): Promise<string> => {
 			const isOnline = getNetworkStatus()
+			const { id = generateUUID(), photos, ...measurementInput } = input
 			
 			if (isOnline) {
-				const { addMeasurement } = await import('../../api/services/measurements')
-				const measurement = await addMeasurement(userId, input)
+				const measurement = await saveMeasurementToServer(userId, { ...measurementInput, id, photos })
 				return measurement.id
 			}
 			
-			// Offline: dodaj do kolejki i cache
-			const tempId = `offline-${Date.now()}`
-			
-			const cachedMeasurement: Measurement = {
-				id: tempId,
+			// Offline: dodaj do kolejki i cache zapytań (pod docelowym ID pomiaru)
+			const measurement: Measurement = {
+				id,
 				user_id: userId,
-				measurement_date: input.measurement_date,
 				created_at: new Date().toISOString(),
-				...input,
+				...measurementInput,
 			}
-			addCachedMeasurement(userId, cachedMeasurement)
+			queryClient.setQueryData<Measurement[]>(['measurements', userId], measurements => [
+				measurement,
+				...(measurements || []),
+			])
+			queryClient.setQueryData(['latest-measurement', userId], measurement)
+			
+			// Zdjęcia z aparatu/galerii leżą w cache - skopiuj je, żeby doczekały synchronizacji
+			const persistedPhotos = photos && photos.length > 0
+				? await persistPhotosForSync(id, photos)
+				: undefined
 			
-			offlineQueue.addToQueue('SAVE_MEASUREMENT', input, userId)
+			offlineQueue.addToQueue('SAVE_MEASUREMENT', { ...measurementInput, id, photos: persistedPhotos }, userId)
 			
-			console.log('[OfflineData] Pomiar zapisany offline:', tempId)
-			return tempId
+			console.log('[OfflineData] Pomiar zapisany offline:', id)
+			return id
 		},
 		onSuccess: (_, { userId }) => {
-			queryClient.invalidateQueries({ queryKey: ['offline-measurements', userId] })
 			queryClient.invalidateQueries({ queryKey: ['measurements'] })
+			queryClient.invalidateQueries({ queryKey: ['latest-measurement'] })
 			queryClient.invalidateQueries({ queryKey: ['measurement-stats'] })
+			queryClient.invalidateQueries({ queryKey: ['progress-photos', userId] })
 		},
 	})
 }
@@ -460,14 +371,18 @@ export function useOfflineSaveMeasurement() {
 // HOOK: LICZBA OCZEKUJĄCYCH OPERACJI
 // ============================================
 
-export function useOfflinePendingCount() {
-	const { isOnline } = useNetworkStatus()
+/**
+ * Liczba operacji w kolejce - aktualizowana przy każdej zmianie kolejki
+ */
+export function useOfflinePendingCount(): number {
+	const [pendingCount, setPendingCount] = useState(() => offlineQueue.getPendingCount())
 	
-	return useQuery({
-		queryKey: ['offline-pending-count'],
-		queryFn: () => offlineQueue.getPendingCount(),
-		refetchInterval: isOnline ? 5000 : false, // Odśwież co 5s gdy online
-	})
+	useEffect(() => {
+		setPendingCount(offlineQueue.getPendingCount())
+		return offlineQueue.addQueueListener(setPendingCount)
+	}, [])
+	
+	return pendingCount
 }
 
 // ============================================
@@ -478,7 +393,7 @@ export function useOfflineSync() {
 	const queryClient = useQueryClient()
 	
 	const syncAll = useCallback(async () => {
-		const result = await offlineQueue.syncAll()
+		const result = await offlineQueue.syncAll({ ignoreBackoff: true })
 		
 		// Odśwież wszystkie dane po synchronizacji
 		if (result.success > 0) {
@@ -491,3 +406,27 @@ export function useOfflineSync() {
 	return { syncAll }
 }
 
+// ============================================
+// HOOK: NIEUDANE OPERACJE (KONFLIKTY, BŁĘDY)
+// ============================================
+
+export function useOfflineDeadLetters() {
+	const queryClient = useQueryClient()
+	const [entries, setEntries] = useState(() => offlineQueue.getDeadLetters())
+	
+	useEffect(() => {
+		setEntries(offlineQueue.getDeadLetters())
+		return offlineQueue.addDeadLetterListener(setEntries)
+	}, [])
+	
+	const resolve = useCallback((operationId: string, resolution: DeadLetterResolution) => {
+		offlineQueue.resolveDeadLetter(operationId, resolution)
+		
+		// Odrzucona zmiana lokalna - pobierz aktualną wersję z serwera
+		if (resolution === 'discard' || resolution === 'keep-theirs') {
+			queryClient.invalidateQueries()
+		}
+	}, [queryClient])
+	
+	return { entries, resolve }
+}
@@ -0,0 +1,134 @@
+/**
+ * Workout Session - Trwająca sesja treningowa
+ *
+ * Postęp treningu zapisywany lokalnie (przetrwa zamknięcie aplikacji)
+ * oraz zdalnie jako wiersz completed_workouts ze statusem in_progress
+ * (trener widzi kto teraz trenuje).
+ */
+
+import { STORAGE_KEYS, getObject, setObject, removeKey } from './storage'
+import { getNetworkStatus } from './networkStatus'
+import { supabase, handleSupabaseError } from '../../api/supabase'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface SessionSetLog {
+	/** Wpisane wartości (jako tekst z TextInput) */
+	reps: string
+	weight: string
+	rpe: string
+	/** Kiedy seria została odhaczona (null = niewykonana) */
+	completedAt: string | null
+	/** Faktyczny odpoczynek po serii w sekundach (z timera) */
+	restSeconds: number | null
+}
+
+export interface SessionExerciseProgress {
+	exerciseId: string
+	sets: SessionSetLog[]
+	isCompleted: boolean
+}
+
+export interface ActiveWorkoutSession {
+	userId: string
+	workoutDayId: string
+	workoutName: string
+	/** ID wiersza in_progress w completed_workouts (null gdy nie udało się utworzyć) */
+	remoteId: string | null
+	startedAt: string
+	updatedAt: string
+	/** Postęp ćwiczeń (klucz: workout_exercise_id) */
+	progress: Record<string, SessionExerciseProgress>
+}
+
+// ============================================
+// LOKALNY ZAPIS
+// ============================================
+
+function getSessionKey(userId: string) {
+	return `${STORAGE_KEYS.ACTIVE_WORKOUT}:${userId}`
+}
+
+export function getActiveWorkoutSession(userId: string): ActiveWorkoutSession | null {
+	return getObject<ActiveWorkoutSession>(getSessionKey(userId))
+}
+
+export function saveActiveWorkoutSession(session: ActiveWorkoutSession): void {
+	setObject(getSessionKey(session.userId), {
+		...session,
+		updatedAt: new Date().toISOString(),
+	})
+}
+
+export function clearActiveWorkoutSession(userId: string): void {
+	removeKey(getSessionKey(userId))
+}
+
+// ============================================
+// ZDALNY ZAPIS (in_progress)
+// ============================================
+
+/**
+ * Utwórz wiersz in_progress dla dzisiejszego treningu
+ * Zwraca ID wiersza lub null (offline / trening już zapisany dziś)
+ */
+export async function startRemoteWorkoutSession(
+	userId: string,
+	workoutDayId: string,
+	startedAt: string
+): Promise<string | null> {
+	if (!getNetworkStatus()) return null
+
+	const today = new Date().toISOString().split('T')[0]
+
+	try {
+		// Jeden wiersz na dzień - nie nadpisuj ukończonego treningu
+		const { data: existing, error: existingError } = await supabase
+			.from('completed_workouts')
+			.select('id, status')
+			.eq('user_id', userId)
+			.eq('workout_day_id', workoutDayId)
+			.eq('completed_date', today)
+			.maybeSingle()
+
+		if (existingError) throw handleSupabaseError(existingError)
+		if (existing) return existing.status === 'in_progress' ? existing.id : null
+
+		const { data, error } = await supabase
+			.from('completed_workouts')
+			.insert({
+				user_id: userId,
+				workout_day_id: workoutDayId,
+				completed_date: today,
+				status: 'in_progress',
+				started_at: startedAt,
+			})
+			.select('id')
+			.single()
+
+		if (error) throw handleSupabaseError(error)
+		return data.id
+	} catch (error) {
+		console.warn('[WorkoutSession] Nie udało się utworzyć sesji zdalnej:', error)
+		return null
+	}
+}
+
+/**
+ * Usuń porzuconą sesję in_progress
+ */
+export async function discardRemoteWorkoutSession(remoteId: string): Promise<void> {
+	try {
+		const { error } = await supabase
+			.from('completed_workouts')
+			.delete()
+			.eq('id', remoteId)
+			.eq('status', 'in_progress')
+
+		if (error) throw handleSupabaseError(error)
+	} catch (error) {
+		console.warn('[WorkoutSession] Nie udało się usunąć sesji zdalnej:', error)
+	}
+}
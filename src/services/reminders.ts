@@ -0,0 +1,210 @@
+/**
+ * Przypomnienia o treningu i pomiarach
+ *
+ * Planowane lokalnie na urządzeniu klienta (działają bez internetu):
+ * - trening: dni z aktywnego planu (workout_days.day_of_week) o godzinie
+ *   z preferencji, bez dni odpoczynku i treningów już ukończonych,
+ * - pomiar: 30 dni po ostatnim pomiarze.
+ * Każde przypomnienie jest jednorazowe - po zmianie planu, treningu,
+ * pomiaru lub preferencji cały harmonogram jest układany od nowa.
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { AppState } from 'react-native'
+import * as Notifications from 'expo-notifications'
+import { NotificationTypes } from './notifications'
+import {
+	useNotificationPreferences,
+	isCategoryEnabled,
+	getTimeHour,
+	DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../api/services/notificationPreferences'
+import { useOfflineActivePlan, useOfflineCompletedWorkouts, useOfflineMeasurements } from './offline/useOfflineData'
+import type { WorkoutDay } from '../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+export interface ReminderSchedule {
+	/** Czy przypomnienia są włączone (push + kategoria 'reminders') */
+	enabled: boolean
+	/** Godzina przypomnień (HH:MM:SS) */
+	reminderTime: string
+	/** Dni aktywnego planu */
+	workoutDays: Pick<WorkoutDay, 'id' | 'name' | 'day_of_week' | 'is_rest_day'>[]
+	/** Ostatni dzień planu (YYYY-MM-DD) - później przypomni nowy plan */
+	planEndDate: string | null
+	/** Dni treningowe już ukończone */
+	completedWorkoutDayIds: string[]
+	/** Data ostatniego pomiaru (YYYY-MM-DD), null = brak pomiarów */
+	lastMeasurementDate: string | null
+}
+
+// ============================================
+// STAŁE
+// ============================================
+
+/** Prefiks identyfikatorów zaplanowanych przypomnień */
+const REMINDER_ID_PREFIX = 'reminder-'
+
+/** Co ile dni przypominać o pomiarze (jak ReminderBanner) */
+export const MEASUREMENT_INTERVAL_DAYS = 30
+
+// ============================================
+// HELPERY
+// ============================================
+
+const toDateKey = (date: Date) =>
+	`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+/**
+ * Data z dnia (przesunięcie od dziś) i godziny przypomnień
+ */
+function atReminderTime(base: Date, dayOffset: number, reminderTime: string): Date {
+	const [, minutes = '0'] = reminderTime.split(':')
+	const date = new Date(base)
+	date.setDate(date.getDate() + dayOffset)
+	date.setHours(getTimeHour(reminderTime), parseInt(minutes, 10) || 0, 0, 0)
+	return date
+}
+
+async function scheduleAt(identifier: string, date: Date, content: Notifications.NotificationContentInput) {
+	await Notifications.scheduleNotificationAsync({
+		identifier,
+		content: { ...content, sound: 'default' },
+		trigger: { type: Notifications.SchedulableTriggerInputTypes.DATE, date },
+	})
+}
+
+// ============================================
+// PLANOWANIE
+// ============================================
+
+/**
+ * Anuluj wszystkie zaplanowane przypomnienia (np. przy wylogowaniu)
+ */
+export async function cancelReminders(): Promise<void> {
+	try {
+		const scheduled = await Notifications.getAllScheduledNotificationsAsync()
+		await Promise.all(
+			scheduled
+				.filter(notification => notification.identifier.startsWith(REMINDER_ID_PREFIX))
+				.map(notification => Notifications.cancelScheduledNotificationAsync(notification.identifier))
+		)
+	} catch (error) {
+		console.warn('[Reminders] Błąd anulowania przypomnień:', error)
+	}
+}
+
+/**
+ * Ułóż harmonogram przypomnień od nowa
+ */
+export async function scheduleReminders(schedule: ReminderSchedule): Promise<void> {
+	await cancelReminders()
+	if (!schedule.enabled) return
+
+	try {
+		const { status } = await Notifications.getPermissionsAsync()
+		if (status !== 'granted') return
+
+		const now = new Date()
+		const completed = new Set(schedule.completedWorkoutDayIds)
+
+		// Treningi - do końca tygodnia planu
+		for (let offset = 0; offset < 7; offset++) {
+			const date = atReminderTime(now, offset, schedule.reminderTime)
+			const dateKey = toDateKey(date)
+			if (schedule.planEndDate && dateKey > schedule.planEndDate) break
+			if (date <= now) continue
+
+			const dayOfWeek = (date.getDay() + 6) % 7 // 0 = poniedziałek
+			const workoutDay = schedule.workoutDays.find(day => day.day_of_week === dayOfWeek)
+			if (!workoutDay || workoutDay.is_rest_day || completed.has(workoutDay.id)) continue
+
+			await scheduleAt(`${REMINDER_ID_PREFIX}workout-${dateKey}`, date, {
+				title: 'Czas na trening! 💪',
+				body: workoutDay.name ? `Dziś masz zaplanowany: ${workoutDay.name}` : 'Dziś masz zaplanowany trening',
+				data: { type: NotificationTypes.WORKOUT_REMINDER, workoutDayId: workoutDay.id },
+			})
+		}
+
+		// Pomiar - 30 dni po ostatnim, zaległy przypomina przy najbliższej okazji
+		const daysSince = schedule.lastMeasurementDate
+			? Math.floor((now.getTime() - new Date(schedule.lastMeasurementDate).getTime()) / 86400000)
+			: MEASUREMENT_INTERVAL_DAYS
+		let measurementDate = atReminderTime(now, Math.max(0, MEASUREMENT_INTERVAL_DAYS - daysSince), schedule.reminderTime)
+		if (measurementDate <= now) measurementDate = atReminderTime(now, 1, schedule.reminderTime)
+
+		await scheduleAt(`${REMINDER_ID_PREFIX}measurement`, measurementDate, {
+			title: 'Czas na pomiar 📏',
+			body: schedule.lastMeasurementDate
+				? 'Minął miesiąc od ostatniego pomiaru. Dodaj nowe wymiary!'
+				: 'Dodaj pierwszy pomiar, aby śledzić postępy!',
+			data: { type: NotificationTypes.MEASUREMENT_REMINDER },
+		})
+	} catch (error) {
+		console.warn('[Reminders] Błąd planowania przypomnień:', error)
+	}
+}
+
+// ============================================
+// HOOK
+// ============================================
+
+/**
+ * Utrzymuje harmonogram przypomnień klienta w zgodzie z planem
+ * Przelicza harmonogram po zmianie planu, ukończeniu treningu, nowym pomiarze,
+ * zmianie preferencji i po powrocie aplikacji na pierwszy plan (nowy dzień)
+ * profileId - profil klienta (plan), userId - auth uid (treningi, pomiary, preferencje)
+ */
+export function useReminderScheduler(profileId: string, userId: string) {
+	const { data: activePlan, isLoading: isPlanLoading } = useOfflineActivePlan(profileId)
+	const { data: completedWorkouts = [] } = useOfflineCompletedWorkouts(userId)
+	const { data: measurements = [] } = useOfflineMeasurements(userId)
+	const { data: notificationPreferences } = useNotificationPreferences(userId || undefined)
+	const preferences = notificationPreferences || DEFAULT_NOTIFICATION_PREFERENCES
+
+	// Dzień, dla którego ułożono harmonogram - zmienia się po powrocie z tła
+	const [today, setToday] = useState(() => toDateKey(new Date()))
+	useEffect(() => {
+		const subscription = AppState.addEventListener('change', state => {
+			if (state === 'active') setToday(toDateKey(new Date()))
+		})
+		return () => subscription.remove()
+	}, [])
+
+	const schedule = useMemo<ReminderSchedule>(
+		() => ({
+			enabled: preferences.push_enabled && isCategoryEnabled(preferences, 'reminders'),
+			reminderTime: preferences.reminder_time || DEFAULT_NOTIFICATION_PREFERENCES.reminder_time,
+			workoutDays: (activePlan?.workout_days || []).map(({ id, name, day_of_week, is_rest_day }) => ({
+				id,
+				name,
+				day_of_week,
+				is_rest_day,
+			})),
+			planEndDate: activePlan?.week_end || null,
+			completedWorkoutDayIds: completedWorkouts.map(workout => workout.workout_day_id),
+			lastMeasurementDate: measurements[0]?.measurement_date || null,
+		}),
+		[preferences, activePlan, completedWorkouts, measurements]
+	)
+
+	// Porównujemy treść harmonogramu, nie referencje z cache zapytań
+	const scheduleKey = JSON.stringify({ today, ...schedule })
+
+	useEffect(() => {
+		if (!userId || isPlanLoading) return
+		scheduleReminders(JSON.parse(scheduleKey))
+	}, [userId, isPlanLoading, scheduleKey])
+}
+
+// ============================================
+// EKSPORT
+// ============================================
+
+export default {
+	scheduleReminders,
+	cancelReminders,
+}
@@ -192,6 +192,11 @@ export interface ExerciseFilters {
 // PLANY TRENINGOWE
 // ============================================
 
+/**
+ * Typ grupy ćwiczeń: superseria (A1/A2) lub obwód
+ */
+export type ExerciseGroupType = 'superset' | 'circuit';
+
 /**
  * Plan treningowy na tydzień
  */
@@ -256,6 +261,12 @@ export interface WorkoutExercise {
   notes: Nullable<string>;
   /** Kolejność w dniu */
   order_index: number;
+  /** Grupa w obrębie dnia (litera "A", "B"...) - null gdy ćwiczenie samodzielne */
+  group_id: Nullable<string>;
+  /** Typ grupy */
+  group_type: Nullable<ExerciseGroupType>;
+  /** Liczba rund grupy (równa liczbie serii każdego ćwiczenia z grupy) */
+  group_rounds: Nullable<number>;
   created_at: Timestamp;
   /** Relacja: dane ćwiczenia */
   exercise?: Exercise;
@@ -273,14 +284,96 @@ export interface WorkoutExerciseFormData {
   notes?: string;
 }
 
+// ============================================
+// SZABLONY PROGRAMÓW
+// ============================================
+
+/**
+ * Wielotygodniowy szablon programu (mezocykl) trenera
+ */
+export interface ProgramTemplate {
+  id: DatabaseId;
+  /** ID trenera - właściciela szablonu */
+  trainer_id: DatabaseId;
+  /** Nazwa programu */
+  name: string;
+  /** Opis / cel programu */
+  description: Nullable<string>;
+  /** Liczba tygodni programu */
+  weeks_count: number;
+  /** Plan, z którego zapisano szablon */
+  source_plan_id: Nullable<DatabaseId>;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
+
+/**
+ * Dzień szablonu (powtarzany w każdym tygodniu)
+ */
+export interface ProgramTemplateDay {
+  id: DatabaseId;
+  /** ID szablonu */
+  template_id: DatabaseId;
+  /** Dzień tygodnia (0 = poniedziałek, 6 = niedziela) */
+  day_of_week: number;
+  /** Nazwa dnia */
+  name: Nullable<string>;
+  /** Czy to dzień odpoczynku */
+  is_rest_day: boolean;
+  /** Kolejność wyświetlania */
+  order_index: number;
+  created_at: Timestamp;
+}
+
+/**
+ * Ćwiczenie w dniu szablonu
+ */
+export interface ProgramTemplateExercise {
+  id: DatabaseId;
+  /** ID dnia szablonu */
+  template_day_id: DatabaseId;
+  /** ID ćwiczenia z biblioteki */
+  exercise_id: DatabaseId;
+  /** Kolejność w dniu */
+  order_index: number;
+  /** Czas odpoczynku w sekundach */
+  rest_seconds: number;
+  /** Notatki trenera */
+  notes: Nullable<string>;
+  /** Grupa w obrębie dnia (litera "A", "B"...) - null gdy ćwiczenie samodzielne */
+  group_id: Nullable<string>;
+  /** Typ grupy */
+  group_type: Nullable<ExerciseGroupType>;
+  /** Liczba rund grupy (równa liczbie serii każdego ćwiczenia z grupy) */
+  group_rounds: Nullable<number>;
+  created_at: Timestamp;
+}
+
+/**
+ * Parametry ćwiczenia szablonu w danym tygodniu
+ */
+export interface ProgramTemplateExerciseWeek {
+  id: DatabaseId;
+  /** ID ćwiczenia szablonu */
+  template_exercise_id: DatabaseId;
+  /** Numer tygodnia (od 1) */
+  week_number: number;
+  /** Liczba serii */
+  sets: number;
+  /** Powtórzenia (może być zakres np. "8-10") */
+  reps: string;
+  /** Obciążenie w kg */
+  weight_kg: Nullable<number>;
+}
+
 // ============================================
 // UKOŃCZONE TRENINGI
 // ============================================
 
 /**
- * Status ukończenia treningu
+ * Status ukończenia treningu (in_progress = sesja rozpoczęta, niezakończona)
  */
-export type WorkoutStatus = 'completed' | 'partial' | 'skipped';
+export type WorkoutStatus = 'completed' | 'partial' | 'skipped' | 'in_progress';
 
 /**
  * Ukończony trening
@@ -301,6 +394,8 @@ export interface CompletedWorkout {
   client_notes: Nullable<string>;
   /** Ocena samopoczucia (1-5) */
   feeling_rating: Nullable<number>;
+  /** Początek sesji treningowej */
+  started_at: Nullable<Timestamp>;
   created_at: Timestamp;
   /** Relacja: ukończone ćwiczenia */
   completed_exercises?: CompletedExercise[];
@@ -328,6 +423,48 @@ export interface CompletedExercise {
   created_at: Timestamp;
 }
 
+/**
+ * Pojedyncza wykonana seria
+ */
+export interface CompletedSet {
+  id: DatabaseId;
+  /** ID ukończonego ćwiczenia */
+  completed_exercise_id: DatabaseId;
+  /** Numer serii (od 1) */
+  set_number: number;
+  /** Faktyczne powtórzenia */
+  reps: Nullable<number>;
+  /** Faktyczne obciążenie */
+  weight_kg: Nullable<number>;
+  /** Intensywność RPE (1-10) */
+  rpe: Nullable<number>;
+  /** Faktyczny odpoczynek po serii (sekundy) */
+  rest_seconds: Nullable<number>;
+  /** Kiedy seria została wykonana */
+  completed_at: Timestamp;
+  created_at: Timestamp;
+}
+
+/**
+ * Komentarz do wykonanego treningu (wątek trener - klient)
+ */
+export interface WorkoutComment {
+  id: DatabaseId;
+  /** ID skomentowanego treningu */
+  completed_workout_id: DatabaseId;
+  /** ID skomentowanego ćwiczenia (null = cały trening) */
+  completed_exercise_id: Nullable<DatabaseId>;
+  /** ID profilu autora */
+  author_id: DatabaseId;
+  /** Treść komentarza */
+  content: string;
+  /** Czy przeczytany przez drugą stronę */
+  is_read: boolean;
+  /** Data przeczytania */
+  read_at: Nullable<Timestamp>;
+  created_at: Timestamp;
+}
+
 // ============================================
 // POMIARY I POSTĘPY
 // ============================================
@@ -433,6 +570,11 @@ export interface DietPlan {
 // WIADOMOŚCI (Chat)
 // ============================================
 
+/**
+ * Typ załącznika wiadomości
+ */
+export type MessageAttachmentType = 'image' | 'video' | 'file';
+
 /**
  * Wiadomość w czacie
  */
@@ -442,8 +584,20 @@ export interface Message {
   sender_id: DatabaseId;
   /** ID odbiorcy */
   receiver_id: DatabaseId;
-  /** Treść wiadomości */
+  /** Treść wiadomości (może być pusta, gdy jest załącznik) */
   content: string;
+  /** Typ załącznika */
+  attachment_type?: Nullable<MessageAttachmentType>;
+  /** Ścieżka załącznika w bucket chat-attachments */
+  attachment_path?: Nullable<string>;
+  /** Ścieżka miniaturki video w bucket chat-attachments */
+  attachment_thumbnail_path?: Nullable<string>;
+  /** Rozmiar załącznika w bajtach */
+  attachment_size?: Nullable<number>;
+  /** Oryginalna nazwa pliku */
+  attachment_name?: Nullable<string>;
+  /** Ogłoszenie trenera, z którego powstała wiadomość */
+  broadcast_id?: Nullable<DatabaseId>;
   /** Czy wiadomość została przeczytana */
   is_read: boolean;
   /** Data przeczytania */
@@ -455,6 +609,20 @@ export interface Message {
   receiver?: Profile;
 }
 
+/**
+ * Ogłoszenie trenera rozesłane do wielu klientów
+ */
+export interface Broadcast {
+  id: DatabaseId;
+  /** ID trenera (autora) */
+  trainer_id: DatabaseId;
+  /** Treść ogłoszenia */
+  content: string;
+  /** Liczba klientów, do których trafiło ogłoszenie */
+  recipient_count: number;
+  created_at: Timestamp;
+}
+
 /**
  * Dane formularza wiadomości
  */
@@ -471,11 +639,48 @@ export interface MessageFormData {
  * Typ powiadomienia
  */
 export type NotificationType = 
-  | 'new_plan'          // nowy plan treningowy
-  | 'workout_reminder'  // przypomnienie o treningu
-  | 'new_message'       // nowa wiadomość
-  | 'progress_update'   // aktualizacja postępów
-  | 'trainer_feedback'; // feedback od trenera
+  | 'new_message'          // nowa wiadomość
+  | 'broadcast'            // ogłoszenie trenera
+  | 'workout_reminder'     // przypomnienie o treningu
+  | 'workout_completed'    // klient ukończył trening
+  | 'workout_comment'      // komentarz do treningu
+  | 'new_plan'             // nowy plan treningowy
+  | 'plan_updated'         // zmiana planu
+  | 'new_client'           // nowy klient trenera
+  | 'measurement_reminder' // przypomnienie o pomiarach
+  | 'progress_update'      // aktualizacja postępów
+  | 'trainer_feedback'     // feedback od trenera
+  | 'general';             // powiadomienie bez typu
+
+/**
+ * Kategoria powiadomień (grupa typów z preferencjami użytkownika)
+ */
+export type NotificationCategory = 'messages' | 'workouts' | 'reminders' | 'plans' | 'clients';
+
+/**
+ * Preferencje powiadomień użytkownika
+ */
+export interface NotificationPreferences {
+  user_id: DatabaseId;
+  /** Główny przełącznik powiadomień push */
+  push_enabled: boolean;
+  /** Podsumowania email */
+  email_enabled: boolean;
+  /** Przełączniki kategorii (brak klucza = włączona) */
+  categories: Partial<Record<NotificationCategory, boolean>>;
+  /** Czy cisza nocna jest włączona */
+  quiet_hours_enabled: boolean;
+  /** Początek ciszy nocnej (HH:MM:SS, czas lokalny) */
+  quiet_hours_start: string;
+  /** Koniec ciszy nocnej (HH:MM:SS, czas lokalny) */
+  quiet_hours_end: string;
+  /** Godzina przypomnień o treningu i pomiarze (HH:MM:SS, czas lokalny) */
+  reminder_time: string;
+  /** Strefa czasowa IANA */
+  timezone: string;
+  created_at: Timestamp;
+  updated_at: Timestamp;
+}
 
 /**
  * Token powiadomień push
@@ -509,6 +714,8 @@ export interface Notification {
   data: Nullable<Record<string, unknown>>;
   /** Czy przeczytane */
   is_read: boolean;
+  /** Data przeczytania */
+  read_at: Nullable<Timestamp>;
   created_at: Timestamp;
 }
 
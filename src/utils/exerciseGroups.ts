@@ -0,0 +1,236 @@
+/**
+ * Grupy ćwiczeń w dniu treningowym (superserie i obwody)
+ *
+ * Grupa to ciąg kolejnych ćwiczeń z tym samym group_id. Ćwiczenia grupy
+ * wykonuje się naprzemiennie (A1 → A2 → A1...), a odpoczynek jest wspólny
+ * i następuje dopiero po całej rundzie. Liczba serii każdego ćwiczenia
+ * w grupie jest równa liczbie rund.
+ */
+
+import type { ExerciseGroupType } from '../types'
+
+// ============================================
+// TYPY
+// ============================================
+
+/**
+ * Minimalny kształt ćwiczenia, które może należeć do grupy
+ * (lokalny stan edytora planu albo WorkoutExercise z bazy)
+ */
+export interface GroupableExercise {
+	sets: number
+	rest_seconds: number
+	group_id?: string | null
+	group_type?: ExerciseGroupType | null
+	group_rounds?: number | null
+	/** Ćwiczenia oznaczone do usunięcia nie należą do żadnej grupy */
+	isDeleted?: boolean
+}
+
+/**
+ * Blok treningu - pojedyncze ćwiczenie albo cała grupa
+ */
+export interface ExerciseBlock<T> {
+	group_id: string | null
+	group_type: ExerciseGroupType | null
+	rounds: number
+	/** Ćwiczenia bloku z indeksami w oryginalnej liście */
+	items: { exercise: T; index: number }[]
+}
+
+export type GroupSettings = Partial<Pick<GroupableExercise, 'group_type' | 'group_rounds' | 'rest_seconds'>>
+
+// ============================================
+// STAŁE
+// ============================================
+
+export const GROUP_TYPE_LABELS: Record<ExerciseGroupType, string> = {
+	superset: 'Superseria',
+	circuit: 'Obwód',
+}
+
+const GROUP_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+// ============================================
+// HELPERY
+// ============================================
+
+const clearGroup = <T extends GroupableExercise>(exercise: T): T => ({
+	...exercise,
+	group_id: null,
+	group_type: null,
+	group_rounds: null,
+})
+
+/**
+ * Dzieli listę na bloki - kolejne ćwiczenia z tym samym group_id to jedna grupa
+ * Usunięte ćwiczenia są pomijane i nie przerywają grupy
+ */
+export function getExerciseBlocks<T extends GroupableExercise>(exercises: T[]): ExerciseBlock<T>[] {
+	const blocks: ExerciseBlock<T>[] = []
+
+	exercises.forEach((exercise, index) => {
+		if (exercise.isDeleted) return
+
+		const last = blocks[blocks.length - 1]
+		if (exercise.group_id && last?.group_id === exercise.group_id) {
+			last.items.push({ exercise, index })
+			return
+		}
+
+		blocks.push({
+			group_id: exercise.group_id || null,
+			group_type: exercise.group_id ? exercise.group_type || 'superset' : null,
+			rounds: exercise.group_id ? exercise.group_rounds || exercise.sets : exercise.sets,
+			items: [{ exercise, index }],
+		})
+	})
+
+	return blocks
+}
+
+/**
+ * Porządkuje grupy po każdej zmianie listy:
+ * - grupy z jednym ćwiczeniem są rozwiązywane
+ * - grupy dostają kolejne litery (A, B, C...)
+ * - typ, rundy i odpoczynek są wspólne (z pierwszego ćwiczenia grupy)
+ */
+export function normalizeExerciseGroups<T extends GroupableExercise>(exercises: T[]): T[] {
+	const result = [...exercises]
+	let letterIndex = 0
+
+	for (const block of getExerciseBlocks(exercises)) {
+		if (!block.group_id) continue
+
+		if (block.items.length < 2) {
+			block.items.forEach(({ index }) => (result[index] = clearGroup(result[index])))
+			continue
+		}
+
+		const groupId = GROUP_LETTERS[letterIndex % GROUP_LETTERS.length]
+		const leader = block.items[0].exercise
+		letterIndex++
+
+		block.items.forEach(({ index }) => {
+			result[index] = {
+				...result[index],
+				group_id: groupId,
+				group_type: block.group_type,
+				group_rounds: block.rounds,
+				sets: block.rounds,
+				rest_seconds: leader.rest_seconds,
+			}
+		})
+	}
+
+	// Usunięte ćwiczenia nie zostają w grupie
+	return result.map(exercise => (exercise.isDeleted && exercise.group_id ? clearGroup(exercise) : exercise))
+}
+
+/**
+ * Łączy ćwiczenie z następnym (nieusuniętym) w jedną grupę
+ * Jeśli któreś z nich jest już w grupie, drugie do niej dołącza
+ */
+export function linkWithNextExercise<T extends GroupableExercise>(exercises: T[], index: number): T[] {
+	const blocks = getExerciseBlocks(exercises)
+	const blockIndex = blocks.findIndex(block => block.items.some(item => item.index === index))
+	const current = blocks[blockIndex]
+	const next = blocks[blockIndex + 1]
+	if (!current || !next) return exercises
+
+	const source = current.group_id ? current : next.group_id ? next : current
+	const groupId = source.group_id || '_new'
+	const template = source.items[0].exercise
+
+	const result = [...exercises]
+	for (const { index: itemIndex } of [...current.items, ...next.items]) {
+		result[itemIndex] = {
+			...result[itemIndex],
+			group_id: groupId,
+			group_type: source.group_type || 'superset',
+			group_rounds: source.rounds,
+			rest_seconds: template.rest_seconds,
+		}
+	}
+
+	return normalizeExerciseGroups(result)
+}
+
+/**
+ * Rozwiązuje grupę - ćwiczenia zostają jako samodzielne
+ */
+export function ungroupExercises<T extends GroupableExercise>(exercises: T[], groupId: string): T[] {
+	return normalizeExerciseGroups(
+		exercises.map(exercise => (exercise.group_id === groupId ? clearGroup(exercise) : exercise))
+	)
+}
+
+/**
+ * Zmienia wspólne ustawienia grupy (typ, rundy, odpoczynek) we wszystkich jej ćwiczeniach
+ */
+export function updateExerciseGroup<T extends GroupableExercise>(
+	exercises: T[],
+	groupId: string,
+	settings: GroupSettings
+): T[] {
+	return exercises.map(exercise => {
+		if (exercise.group_id !== groupId || exercise.isDeleted) return exercise
+
+		return {
+			...exercise,
+			...settings,
+			...(settings.group_rounds ? { sets: settings.group_rounds } : {}),
+		}
+	})
+}
+
+/**
+ * Przesuwa blok (ćwiczenie albo całą grupę) z danym ćwiczeniem
+ * przed poprzedni (-1) albo za następny (1) blok
+ * Usunięte ćwiczenia zostają na końcu listy
+ */
+export function moveExerciseBlock<T extends GroupableExercise>(exercises: T[], index: number, direction: -1 | 1): T[] {
+	const blocks = getExerciseBlocks(exercises)
+	const blockIndex = blocks.findIndex(block => block.items.some(item => item.index === index))
+	const targetIndex = blockIndex + direction
+	if (blockIndex === -1 || targetIndex < 0 || targetIndex >= blocks.length) return exercises
+
+	const reordered = [...blocks]
+	const [moved] = reordered.splice(blockIndex, 1)
+	reordered.splice(targetIndex, 0, moved)
+
+	return normalizeExerciseGroups([
+		...reordered.flatMap(block => block.items.map(item => item.exercise)),
+		...exercises.filter(exercise => exercise.isDeleted),
+	])
+}
+
+/**
+ * Etykieta ćwiczenia w grupie, np. "A2" - null dla ćwiczenia samodzielnego
+ */
+export function getGroupLabel<T extends GroupableExercise>(exercises: T[], index: number): string | null {
+	const exercise = exercises[index]
+	if (!exercise?.group_id || exercise.isDeleted) return null
+
+	const position = exercises
+		.slice(0, index + 1)
+		.filter(item => !item.isDeleted && item.group_id === exercise.group_id).length
+
+	return `${exercise.group_id}${position}`
+}
+
+/**
+ * Następny krok grupy w kolejności naprzemiennej (runda po rundzie)
+ * Zwraca null, gdy wszystkie serie grupy są wykonane
+ */
+export function getNextGroupStep<T>(
+	block: ExerciseBlock<T>,
+	isSetCompleted: (itemIndex: number, round: number) => boolean
+): { itemIndex: number; round: number } | null {
+	for (let round = 0; round < block.rounds; round++) {
+		for (let itemIndex = 0; itemIndex < block.items.length; itemIndex++) {
+			if (!isSetCompleted(itemIndex, round)) return { itemIndex, round }
+		}
+	}
+	return null
+}
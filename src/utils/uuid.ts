@@ -0,0 +1,21 @@
+/**
+ * Generowanie identyfikatorów po stronie klienta
+ *
+ * Rekord z ID nadanym w aplikacji można bezpiecznie zapisać ponownie
+ * (np. operacja z kolejki offline) - serwer rozpozna go po ID.
+ */
+
+// ============================================
+// HELPERY
+// ============================================
+
+/**
+ * Generuje UUID v4 (format zgodny z kolumnami UUID w Postgres)
+ */
+export function generateUUID(): string {
+	return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+		const random = (Math.random() * 16) | 0
+		const value = char === 'x' ? random : (random & 0x3) | 0x8
+		return value.toString(16)
+	})
+}
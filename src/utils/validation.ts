@@ -173,16 +173,101 @@ export const workoutExerciseSchema = z.object({
 
 export type WorkoutExerciseFormData = z.infer<typeof workoutExerciseSchema>
 
+// ============================================
+// SCHEMAT: ZAPIS PLANU (RPC save_plan)
+// ============================================
+
+/**
+ * Dzień treningowy w zapisie planu - bez id tworzony jest nowy
+ */
+export const workoutDaySchema = z.object({
+	id: z.string().optional(),
+	day_of_week: z.number().int().min(0).max(6, 'Nieprawidłowy dzień tygodnia'),
+	name: optionalString,
+	is_rest_day: z.boolean(),
+	order_index: z.number().int().min(0),
+	exercises: z.array(
+		workoutExerciseSchema.extend({
+			id: z.string().optional(),
+			order_index: z.number().int().min(0),
+			group_id: z.string().optional(),
+			group_type: z.enum(['superset', 'circuit']).optional(),
+			group_rounds: z.number().int().min(1).max(20, 'Maksimum 20 rund').optional(),
+		})
+	),
+})
+
+/**
+ * Pełny stan planu wysyłany do save_plan
+ */
+export const savePlanSchema = trainingPlanSchema.extend({
+	id: z.string().optional(),
+	week_end: z.string().min(1, 'Data zakończenia jest wymagana'),
+	days: z.array(workoutDaySchema),
+})
+
+export type SavePlanFormData = z.infer<typeof savePlanSchema>
+
 // ============================================
 // SCHEMAT: WIADOMOŚĆ
 // ============================================
 
-export const messageSchema = z.object({
-	receiver_id: requiredString('Odbiorca'),
-	content: requiredString('Treść wiadomości').max(2000, 'Wiadomość może mieć max 2000 znaków'),
+/**
+ * Załącznik wiadomości (plik już przesłany do bucket chat-attachments)
+ */
+export const messageAttachmentSchema = z.object({
+	attachment_type: z.enum(['image', 'video', 'file']),
+	attachment_path: requiredString('Ścieżka załącznika'),
+	attachment_thumbnail_path: z.string().optional(),
+	attachment_size: z.number().int().min(0).optional(),
+	attachment_name: z.string().max(255, 'Nazwa pliku może mieć max 255 znaków').optional(),
 })
 
+export const messageSchema = z
+	.object({
+		receiver_id: requiredString('Odbiorca'),
+		content: z.string().max(2000, 'Wiadomość może mieć max 2000 znaków'),
+		attachment: messageAttachmentSchema.optional(),
+	})
+	.refine((data) => data.content.trim().length > 0 || !!data.attachment, {
+		message: 'Treść wiadomości jest wymagana',
+		path: ['content'],
+	})
+
 export type MessageFormData = z.infer<typeof messageSchema>
+export type MessageAttachmentData = z.infer<typeof messageAttachmentSchema>
+
+// ============================================
+// SCHEMAT: OGŁOSZENIE TRENERA
+// ============================================
+
+export const broadcastSchema = z.object({
+	content: z
+		.string()
+		.trim()
+		.min(1, 'Treść ogłoszenia jest wymagana')
+		.max(2000, 'Ogłoszenie może mieć max 2000 znaków'),
+	client_ids: z.array(z.string()).min(1, 'Wybierz co najmniej jednego klienta'),
+})
+
+export type BroadcastFormData = z.infer<typeof broadcastSchema>
+
+// ============================================
+// SCHEMAT: KOMENTARZ DO TRENINGU
+// ============================================
+
+export const workoutCommentSchema = z.object({
+	completed_workout_id: z.string().min(1, 'Brak treningu'),
+	completed_exercise_id: z.string().nullable().optional(),
+	author_id: z.string().min(1, 'Brak autora komentarza'),
+	content: z
+		.string()
+		.trim()
+		.min(1, 'Treść komentarza jest wymagana')
+		.max(1000, 'Komentarz może mieć max 1000 znaków'),
+})
+
+export type WorkoutCommentFormData = z.infer<typeof workoutCommentSchema>
 
 // ============================================
 // SCHEMAT: POMIAR
@@ -209,6 +294,33 @@ export const measurementSchema = z.object({
 
 export type MeasurementFormData = z.infer<typeof measurementSchema>
 
+// ============================================
+// SCHEMAT: PLAN DIETETYCZNY
+// ============================================
+
+/**
+ * Walidator opcjonalnej daty w formacie YYYY-MM-DD
+ */
+const optionalDateString = z
+	.string()
+	.regex(/^\d{4}-\d{2}-\d{2}$/, 'Data musi mieć format RRRR-MM-DD')
+	.optional()
+	.or(z.literal(''))
+
+export const dietPlanSchema = z
+	.object({
+		title: requiredString('Tytuł').max(100, 'Tytuł może mieć max 100 znaków'),
+		description: optionalString,
+		start_date: optionalDateString,
+		end_date: optionalDateString,
+	})
+	.refine((data) => !data.start_date || !data.end_date || data.end_date >= data.start_date, {
+		message: 'Data zakończenia musi być po dacie rozpoczęcia',
+		path: ['end_date'],
+	})
+
+export type DietPlanFormData = z.infer<typeof dietPlanSchema>
+
 // ============================================
 // SCHEMAT: PROFIL UŻYTKOWNIKA
 // ============================================
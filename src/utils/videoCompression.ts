@@ -164,6 +164,57 @@ export async function generateMultipleThumbnails(
 // UPLOAD DO SUPABASE STORAGE
 // ============================================
 
+/**
+ * Uploaduje plik do wskazanego bucket Supabase Storage
+ *
+ * Wspólna ścieżka dla filmów ćwiczeń, miniaturek i załączników czatu.
+ * Supabase JS nie raportuje postępu natywnie - callback dostaje postęp
+ * po odczytaniu pliku i po zakończeniu uploadu.
+ *
+ * @param bucket - Nazwa bucket
+ * @param uri - URI lokalnego pliku
+ * @param path - Ścieżka w bucket
+ * @param contentType - Typ MIME pliku
+ * @param onProgress - Callback dla postępu uploadu
+ * @returns Ścieżka zapisanego pliku w bucket
+ */
+export async function uploadFileToStorage(
+	bucket: string,
+	uri: string,
+	path: string,
+	contentType: string,
+	onProgress?: (progress: UploadProgress) => void
+): Promise<string> {
+	// Odczytaj plik jako base64
+	const base64 = await FileSystem.readAsStringAsync(uri, {
+		encoding: FileSystem.EncodingType.Base64,
+	})
+
+	// Konwertuj base64 na ArrayBuffer
+	const binaryString = atob(base64)
+	const bytes = new Uint8Array(binaryString.length)
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i)
+	}
+
+	onProgress?.({ progress: 0, loaded: 0, total: bytes.length })
+
+	const { data, error } = await supabase.storage
+		.from(bucket)
+		.upload(path, bytes, {
+			contentType,
+			upsert: true,
+		})
+
+	if (error) {
+		throw error
+	}
+
+	onProgress?.({ progress: 100, loaded: bytes.length, total: bytes.length })
+
+	return data.path
+}
+
 /**
  * Uploaduje video do Supabase Storage
  *
@@ -191,48 +242,21 @@ export async function uploadVideoToSupabase(
 			throw new Error('Plik video jest za duży (max 100MB)')
 		}
 
-		// Odczytaj plik jako base64
-		const base64 = await FileSystem.readAsStringAsync(uri, {
-			encoding: FileSystem.EncodingType.Base64,
-		})
-
-		// Konwertuj base64 na ArrayBuffer
-		const binaryString = atob(base64)
-		const bytes = new Uint8Array(binaryString.length)
-		for (let i = 0; i < binaryString.length; i++) {
-			bytes[i] = binaryString.charCodeAt(i)
-		}
-
 		// Określ content type
 		const contentType = uri.toLowerCase().endsWith('.mov')
 			? 'video/quicktime'
 			: 'video/mp4'
 
-		// Upload do Supabase Storage
-		const { data, error } = await supabase.storage
-			.from('exercise-videos')
-			.upload(path, bytes, {
-				contentType,
-				upsert: true,
-			})
-
-		if (error) {
-			throw error
-		}
+		const uploadedPath = await uploadFileToStorage('exercise-videos', uri, path, contentType, onProgress)
 
 		// Pobierz publiczny URL
 		const { data: urlData } = supabase.storage
 			.from('exercise-videos')
 			.getPublicUrl(path)
 
-		// Symulacja postępu (Supabase JS nie wspiera progress natywnie)
-		if (onProgress) {
-			onProgress({ progress: 100, loaded: bytes.length, total: bytes.length })
-		}
-
 		return {
 			publicUrl: urlData.publicUrl,
-			path: data.path,
+			path: uploadedPath,
 		}
 	} catch (error) {
 		console.error('Błąd uploadu video:', error)
@@ -252,29 +276,7 @@ export async function uploadThumbnailToSupabase(
 	path: string
 ): Promise<string> {
 	try {
-		// Odczytaj plik jako base64
-		const base64 = await FileSystem.readAsStringAsync(uri, {
-			encoding: FileSystem.EncodingType.Base64,
-		})
-
-		// Konwertuj base64 na ArrayBuffer
-		const binaryString = atob(base64)
-		const bytes = new Uint8Array(binaryString.length)
-		for (let i = 0; i < binaryString.length; i++) {
-			bytes[i] = binaryString.charCodeAt(i)
-		}
-
-		// Upload do Supabase Storage
-		const { error } = await supabase.storage
-			.from('exercise-videos')
-			.upload(path, bytes, {
-				contentType: 'image/jpeg',
-				upsert: true,
-			})
-
-		if (error) {
-			throw error
-		}
+		await uploadFileToStorage('exercise-videos', uri, path, 'image/jpeg')
 
 		// Pobierz publiczny URL
 		const { data: urlData } = supabase.storage
@@ -392,6 +394,7 @@ export default {
 	compressVideo,
 	generateThumbnail,
 	generateMultipleThumbnails,
+	uploadFileToStorage,
 	uploadVideoToSupabase,
 	uploadThumbnailToSupabase,
 	deleteVideoFromSupabase,